@@ -5,16 +5,24 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AuthProvider, useAuth } from "@/lib/auth";
+import { ProjectProvider } from "@/lib/project";
 import { ThemeProvider } from "@/lib/theme";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { NotificationBell } from "@/components/notification-bell";
+import { EmailVerificationBanner } from "@/components/email-verification-banner";
 import { AppSidebar } from "@/components/app-sidebar";
 import NotFound from "@/pages/not-found";
 import LoginPage from "@/pages/login";
 import RegisterPage from "@/pages/register";
+import ForgotPasswordPage from "@/pages/forgot-password";
+import ResetPasswordPage from "@/pages/reset-password";
+import VerifyEmailPage from "@/pages/verify-email";
 import DashboardPage from "@/pages/dashboard";
 import TasksPage from "@/pages/tasks";
+import BoardPage from "@/pages/board";
 import CalendarPage from "@/pages/calendar";
 import TeamPage from "@/pages/team";
+import SettingsPage from "@/pages/settings";
 import { Loader2 } from "lucide-react";
 
 function LoadingScreen() {
@@ -60,26 +68,34 @@ function AuthenticatedLayout() {
   };
 
   return (
-    <SidebarProvider style={style as React.CSSProperties}>
-      <div className="flex h-screen w-full">
-        <AppSidebar />
-        <div className="flex flex-col flex-1 overflow-hidden">
-          <header className="flex items-center justify-between gap-4 px-4 py-3 border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 z-10">
-            <SidebarTrigger data-testid="button-sidebar-toggle" />
-            <ThemeToggle />
-          </header>
-          <main className="flex-1 overflow-auto">
-            <Switch>
-              <Route path="/" component={() => <ProtectedRoute component={DashboardPage} />} />
-              <Route path="/tasks" component={() => <ProtectedRoute component={TasksPage} />} />
-              <Route path="/calendar" component={() => <ProtectedRoute component={CalendarPage} />} />
-              <Route path="/team" component={() => <ProtectedRoute component={TeamPage} />} />
-              <Route component={NotFound} />
-            </Switch>
-          </main>
+    <ProjectProvider>
+      <SidebarProvider style={style as React.CSSProperties}>
+        <div className="flex h-screen w-full">
+          <AppSidebar />
+          <div className="flex flex-col flex-1 overflow-hidden">
+            <header className="flex items-center justify-between gap-4 px-4 py-3 border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 z-10">
+              <SidebarTrigger data-testid="button-sidebar-toggle" />
+              <div className="flex items-center gap-1">
+                <NotificationBell />
+                <ThemeToggle />
+              </div>
+            </header>
+            <EmailVerificationBanner />
+            <main className="flex-1 overflow-auto">
+              <Switch>
+                <Route path="/" component={() => <ProtectedRoute component={DashboardPage} />} />
+                <Route path="/tasks" component={() => <ProtectedRoute component={TasksPage} />} />
+                <Route path="/board" component={() => <ProtectedRoute component={BoardPage} />} />
+                <Route path="/calendar" component={() => <ProtectedRoute component={CalendarPage} />} />
+                <Route path="/team" component={() => <ProtectedRoute component={TeamPage} />} />
+                <Route path="/settings" component={() => <ProtectedRoute component={SettingsPage} />} />
+                <Route component={NotFound} />
+              </Switch>
+            </main>
+          </div>
         </div>
-      </div>
-    </SidebarProvider>
+      </SidebarProvider>
+    </ProjectProvider>
   );
 }
 
@@ -94,6 +110,9 @@ function Router() {
     <Switch>
       <Route path="/login" component={() => <PublicRoute component={LoginPage} />} />
       <Route path="/register" component={() => <PublicRoute component={RegisterPage} />} />
+      <Route path="/forgot-password" component={() => <PublicRoute component={ForgotPasswordPage} />} />
+      <Route path="/reset-password" component={() => <PublicRoute component={ResetPasswordPage} />} />
+      <Route path="/verify-email" component={VerifyEmailPage} />
       <Route>{user ? <AuthenticatedLayout /> : <Redirect to="/login" />}</Route>
     </Switch>
   );
@@ -0,0 +1,258 @@
+import { useState, type FormEvent } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { Copy, KeyRound, Loader2, Plus } from "lucide-react";
+import { queryClient, apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { ApiTokenInfo, ApiTokenScope, CreateApiToken, CreatedApiToken } from "@shared/schema";
+
+const tokensQueryKey = ["/api/auth/tokens"];
+
+const scopeLabels: Record<ApiTokenScope, string> = {
+  read: "Read only",
+  read_write: "Read and write",
+};
+
+// Values of the expiry select; "never" becomes null
+const expiryOptions = [
+  { value: "7", label: "7 days" },
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "No expiration" },
+];
+
+function isExpired(token: ApiTokenInfo): boolean {
+  return !!token.expiresAt && new Date(token.expiresAt) <= new Date();
+}
+
+function describeUsage(token: ApiTokenInfo): string {
+  const lastUsed = token.lastUsedAt
+    ? `Last used ${formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}`
+    : "Never used";
+  if (!token.expiresAt) {
+    return `${lastUsed} · No expiration`;
+  }
+  const expiresAt = format(new Date(token.expiresAt), "PPP");
+  return `${lastUsed} · ${isExpired(token) ? "Expired" : "Expires"} ${expiresAt}`;
+}
+
+// Mounted only while open, so each opening starts fresh
+function CreateTokenDialog({ onClose }: { onClose: () => void }) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [scope, setScope] = useState<ApiTokenScope>("read");
+  const [expiry, setExpiry] = useState("30");
+  const [created, setCreated] = useState<CreatedApiToken | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const createMutation = useMutation({
+    mutationFn: async (data: CreateApiToken) => {
+      const response = await apiRequest("POST", "/api/auth/tokens", data);
+      return response.json() as Promise<CreatedApiToken>;
+    },
+    onSuccess: (result) => {
+      setCreated(result);
+      queryClient.invalidateQueries({ queryKey: tokensQueryKey });
+    },
+    onError: (err: Error) => setError(getErrorMessage(err)),
+  });
+
+  const onSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    createMutation.mutate({
+      name: name.trim(),
+      scope,
+      expiresInDays: expiry === "never" ? null : Number(expiry),
+    });
+  };
+
+  const copy = async () => {
+    if (!created) return;
+    await navigator.clipboard.writeText(created.token);
+    toast({ title: "API token copied" });
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md" data-testid="dialog-create-api-token">
+        <DialogHeader>
+          <DialogTitle>{created ? "Copy your API token" : "New API token"}</DialogTitle>
+          <DialogDescription>
+            {created
+              ? "Store it somewhere safe. It will not be shown again."
+              : "Scripts and integrations send the token in an Authorization: Bearer header."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {created ? (
+          <>
+            <div className="flex gap-2">
+              <Input readOnly value={created.token} className="font-mono text-sm" data-testid="input-created-api-token" />
+              <Button type="button" variant="outline" size="icon" onClick={copy} data-testid="button-copy-api-token">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <DialogFooter>
+              <Button onClick={onClose} data-testid="button-api-token-done">
+                Done
+              </Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <form onSubmit={onSubmit} className="space-y-4">
+            {error && (
+              <div className="p-3 rounded-lg bg-destructive/10 text-destructive text-sm">{error}</div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="api-token-name">Name</Label>
+              <Input
+                id="api-token-name"
+                placeholder="e.g. CI pipeline"
+                maxLength={100}
+                autoFocus
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                data-testid="input-api-token-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Access</Label>
+              <Select value={scope} onValueChange={(value) => setScope(value as ApiTokenScope)}>
+                <SelectTrigger data-testid="select-api-token-scope">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(scopeLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Expiration</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger data-testid="select-api-token-expiry">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {expiryOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={!name.trim() || createMutation.isPending}
+                data-testid="button-create-api-token"
+              >
+                {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Create token
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function ApiTokenSettings() {
+  const { toast } = useToast();
+  const [creating, setCreating] = useState(false);
+
+  const { data: tokens, isLoading } = useQuery<ApiTokenInfo[]>({
+    queryKey: tokensQueryKey,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (token: ApiTokenInfo) => {
+      return apiRequest("DELETE", `/api/auth/tokens/${token.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: tokensQueryKey });
+      toast({ title: "API token revoked" });
+    },
+    onError: () => {
+      toast({ title: "Failed to revoke API token", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card data-testid="card-api-tokens">
+      <CardHeader className="pb-2 flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-base">API tokens</CardTitle>
+          <CardDescription>Personal access tokens for scripts and integrations</CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => setCreating(true)} data-testid="button-open-create-api-token">
+          <Plus className="h-4 w-4 mr-2" />
+          New token
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !tokens ? (
+          <Skeleton className="h-10 w-full" />
+        ) : tokens.length === 0 ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-api-tokens">
+            You have no API tokens.
+          </p>
+        ) : (
+          tokens.map((token) => (
+            <div key={token.id} className="flex items-center justify-between gap-4" data-testid={`api-token-${token.id}`}>
+              <div className="flex items-center gap-3 min-w-0">
+                <KeyRound className="h-4 w-4 text-muted-foreground shrink-0" />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium flex items-center gap-2">
+                    <span className="truncate">{token.name}</span>
+                    <Badge variant="secondary">{scopeLabels[token.scope]}</Badge>
+                    {isExpired(token) && <Badge variant="destructive">Expired</Badge>}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    <span className="font-mono">tfp_…{token.tokenHint}</span> · {describeUsage(token)}
+                  </p>
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => revokeMutation.mutate(token)}
+                disabled={revokeMutation.isPending}
+                data-testid={`button-revoke-api-token-${token.id}`}
+              >
+                Revoke
+              </Button>
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      {creating && <CreateTokenDialog onClose={() => setCreating(false)} />}
+    </Card>
+  );
+}
@@ -1,5 +1,5 @@
 import { Link, useLocation } from "wouter";
-import { Home, CheckSquare, Calendar, Users, Settings, LogOut } from "lucide-react";
+import { Home, CheckSquare, KanbanSquare, Calendar, Users, Settings, LogOut } from "lucide-react";
 import { useAuth } from "@/lib/auth";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import {
@@ -15,12 +15,15 @@ import {
   SidebarMenuItem,
 } from "@/components/ui/sidebar";
 import { Button } from "@/components/ui/button";
+import { ProjectSwitcher } from "@/components/project-switcher";
 
 const navItems = [
   { title: "Dashboard", url: "/", icon: Home },
   { title: "My Tasks", url: "/tasks", icon: CheckSquare },
+  { title: "Board", url: "/board", icon: KanbanSquare },
   { title: "Calendar", url: "/calendar", icon: Calendar },
   { title: "Team", url: "/team", icon: Users },
+  { title: "Settings", url: "/settings", icon: Settings },
 ];
 
 export function AppSidebar() {
@@ -48,6 +51,15 @@ export function AppSidebar() {
       </SidebarHeader>
       
       <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel className="px-4 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+            Project
+          </SidebarGroupLabel>
+          <SidebarGroupContent>
+            <ProjectSwitcher />
+          </SidebarGroupContent>
+        </SidebarGroup>
+
         <SidebarGroup>
           <SidebarGroupLabel className="px-4 text-xs font-medium uppercase tracking-wide text-muted-foreground">
             Navigation
@@ -0,0 +1,50 @@
+import { useMutation } from "@tanstack/react-query";
+import { Loader2, MailWarning } from "lucide-react";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+
+export function EmailVerificationBanner() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const resendMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/verify-email/resend");
+      return response.json() as Promise<{ message: string }>;
+    },
+    onSuccess: (result) => {
+      toast({ title: "Verification email sent", description: result.message });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to send verification email", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  if (!user || user.emailVerifiedAt) {
+    return null;
+  }
+
+  return (
+    <div
+      className="flex items-center justify-between gap-4 px-4 py-2 border-b bg-muted/50 text-sm"
+      data-testid="banner-email-verification"
+    >
+      <div className="flex items-center gap-2 text-muted-foreground">
+        <MailWarning className="h-4 w-4 shrink-0" />
+        <span>Please verify your email address. We sent a link to {user.email}.</span>
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => resendMutation.mutate()}
+        disabled={resendMutation.isPending}
+        data-testid="button-resend-verification"
+      >
+        {resendMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        Resend link
+      </Button>
+    </div>
+  );
+}
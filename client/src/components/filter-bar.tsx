@@ -7,28 +7,34 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import type { Status, Priority } from "@shared/schema";
+import type { Status, Priority, TaskSortKey, UserPublic } from "@shared/schema";
 
 interface FilterBarProps {
   statusFilter: Status | "all";
   priorityFilter: Priority | "all";
-  sortBy: "dueDate" | "createdAt" | "priority";
+  assigneeFilter: string | "all";
+  sortBy: TaskSortKey;
+  users?: UserPublic[];
   onStatusChange: (value: Status | "all") => void;
   onPriorityChange: (value: Priority | "all") => void;
-  onSortChange: (value: "dueDate" | "createdAt" | "priority") => void;
+  onAssigneeChange: (value: string | "all") => void;
+  onSortChange: (value: TaskSortKey) => void;
   onClear: () => void;
 }
 
 export function FilterBar({
   statusFilter,
   priorityFilter,
+  assigneeFilter,
   sortBy,
+  users = [],
   onStatusChange,
   onPriorityChange,
+  onAssigneeChange,
   onSortChange,
   onClear,
 }: FilterBarProps) {
-  const hasActiveFilters = statusFilter !== "all" || priorityFilter !== "all";
+  const hasActiveFilters = statusFilter !== "all" || priorityFilter !== "all" || assigneeFilter !== "all";
 
   return (
     <div className="flex items-center gap-3 flex-wrap">
@@ -69,6 +75,20 @@ export function FilterBar({
         </SelectContent>
       </Select>
 
+      <Select value={assigneeFilter} onValueChange={onAssigneeChange}>
+        <SelectTrigger className="w-[160px]" data-testid="select-filter-assignee">
+          <SelectValue placeholder="Assignee" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All Assignees</SelectItem>
+          {users.map((user) => (
+            <SelectItem key={user.id} value={user.id}>
+              {user.displayName || user.username}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
       <div className="flex items-center gap-1.5 text-sm text-muted-foreground ml-2">
         <ArrowUpDown className="h-4 w-4" />
         <span>Sort:</span>
@@ -76,7 +96,7 @@ export function FilterBar({
 
       <Select
         value={sortBy}
-        onValueChange={(value) => onSortChange(value as "dueDate" | "createdAt" | "priority")}
+        onValueChange={(value) => onSortChange(value as TaskSortKey)}
       >
         <SelectTrigger className="w-[140px]" data-testid="select-sort">
           <SelectValue placeholder="Sort by" />
@@ -0,0 +1,131 @@
+import { useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Bell, CheckCheck } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { getSocket, type NotificationEventType } from "@/lib/socket";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import type { NotificationWithActor } from "@shared/schema";
+
+const notificationEvents: NotificationEventType[] = [
+  "notification:created",
+  "notification:read",
+  "notification:read_all",
+];
+
+export function NotificationBell() {
+  const { data: notifications = [] } = useQuery<NotificationWithActor[]>({
+    queryKey: ["/api/notifications"],
+  });
+
+  const { data: unread } = useQuery<{ count: number }>({
+    queryKey: ["/api/notifications", "unread-count"],
+  });
+
+  const unreadCount = unread?.count ?? 0;
+
+  useEffect(() => {
+    const socket = getSocket();
+
+    const handleNotificationEvent = () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    };
+
+    notificationEvents.forEach((event) => socket.on(event, handleNotificationEvent));
+
+    return () => {
+      notificationEvents.forEach((event) => socket.off(event, handleNotificationEvent));
+    };
+  }, []);
+
+  const markReadMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("POST", `/api/notifications/${id}/read`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/notifications/read-all");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative"
+          data-testid="button-notifications"
+          aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : "Notifications"}
+        >
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span
+              className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-medium text-destructive-foreground"
+              data-testid="badge-unread-notifications"
+            >
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0" data-testid="popover-notifications">
+        <div className="flex items-center justify-between gap-2 px-4 py-3 border-b">
+          <p className="font-medium text-sm">Notifications</p>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => markAllReadMutation.mutate()}
+            disabled={unreadCount === 0 || markAllReadMutation.isPending}
+            data-testid="button-mark-all-read"
+          >
+            <CheckCheck className="h-4 w-4 mr-1" />
+            Mark all read
+          </Button>
+        </div>
+        {notifications.length === 0 ? (
+          <p className="px-4 py-8 text-center text-sm text-muted-foreground">You're all caught up</p>
+        ) : (
+          <ul className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => (
+              <li key={notification.id} className="border-b last:border-b-0">
+                <button
+                  type="button"
+                  className={cn(
+                    "flex w-full gap-3 px-4 py-3 text-left text-sm hover-elevate",
+                    !notification.readAt && "bg-primary/5",
+                  )}
+                  onClick={() => !notification.readAt && markReadMutation.mutate(notification.id)}
+                  data-testid={`notification-item-${notification.id}`}
+                >
+                  <span
+                    className={cn(
+                      "mt-1.5 h-2 w-2 shrink-0 rounded-full",
+                      notification.readAt ? "bg-transparent" : "bg-primary",
+                    )}
+                  />
+                  <span className="flex-1 min-w-0">
+                    <span className="block break-words">{notification.message}</span>
+                    <span className="block text-xs text-muted-foreground mt-0.5">
+                      {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                    </span>
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation } from "@tanstack/react-query";
+import { Plus, Loader2, FolderKanban } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useProject } from "@/lib/project";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { ProjectWithRole } from "@shared/schema";
+
+const projectFormSchema = z.object({
+  name: z.string().min(1, "Project name is required").max(100, "Project name must be 100 characters or less"),
+  description: z.string().optional(),
+});
+
+type ProjectFormValues = z.infer<typeof projectFormSchema>;
+
+export function ProjectSwitcher() {
+  const { projects, currentProject, setCurrentProjectId } = useProject();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const form = useForm<ProjectFormValues>({
+    resolver: zodResolver(projectFormSchema),
+    defaultValues: {
+      name: "",
+      description: "",
+    },
+  });
+
+  const createProjectMutation = useMutation({
+    mutationFn: async (data: ProjectFormValues) => {
+      const res = await apiRequest("POST", "/api/projects", data);
+      return (await res.json()) as ProjectWithRole;
+    },
+    onSuccess: (project) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      setCurrentProjectId(project.id);
+    },
+  });
+
+  const handleSubmit = async (data: ProjectFormValues) => {
+    await createProjectMutation.mutateAsync(data);
+    form.reset();
+    setIsDialogOpen(false);
+  };
+
+  return (
+    <div className="flex items-center gap-2 px-2">
+      <Select
+        value={currentProject?.id ?? ""}
+        onValueChange={setCurrentProjectId}
+      >
+        <SelectTrigger className="flex-1 min-w-0" data-testid="select-project">
+          <div className="flex items-center gap-2 min-w-0">
+            <FolderKanban className="h-4 w-4 shrink-0 text-muted-foreground" />
+            <SelectValue placeholder="Select project" />
+          </div>
+        </SelectTrigger>
+        <SelectContent>
+          {projects.map((project) => (
+            <SelectItem key={project.id} value={project.id} data-testid={`option-project-${project.id}`}>
+              {project.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="shrink-0"
+        onClick={() => setIsDialogOpen(true)}
+        data-testid="button-create-project"
+        aria-label="New project"
+      >
+        <Plus className="h-4 w-4" />
+      </Button>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Create Project</DialogTitle>
+            <DialogDescription>
+              Projects keep a team's tasks and members separate from everyone else's
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Enter project name..." {...field} data-testid="input-project-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        placeholder="What is this project about?"
+                        className="resize-none"
+                        {...field}
+                        data-testid="input-project-description"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsDialogOpen(false)}
+                  data-testid="button-cancel-project"
+                >
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={createProjectMutation.isPending} data-testid="button-save-project">
+                  {createProjectMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Create Project
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,386 @@
+import { useState, type FormEvent } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { ChevronDown, ChevronRight, Copy, History, Loader2, Plus, RotateCw, Trash2, Webhook as WebhookIcon } from "lucide-react";
+import { queryClient, apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import {
+  webhookEventTypes,
+  type CreatedWebhook,
+  type InsertWebhook,
+  type WebhookDelivery,
+  type WebhookDeliveryStatus,
+  type WebhookEventType,
+  type WebhookInfo,
+} from "@shared/schema";
+
+const eventLabels: Record<WebhookEventType, string> = {
+  "task:created": "Task created",
+  "task:updated": "Task updated",
+  "task:deleted": "Task deleted",
+  "task:assigned": "Task assigned",
+};
+
+const statusBadges: Record<WebhookDeliveryStatus, { label: string; className: string }> = {
+  pending: { label: "Retrying", className: "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400" },
+  succeeded: { label: "Delivered", className: "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400" },
+  failed: { label: "Failed", className: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400" },
+};
+
+function formatPayload(payload: string): string {
+  try {
+    return JSON.stringify(JSON.parse(payload), null, 2);
+  } catch {
+    return payload;
+  }
+}
+
+// The dialogs are mounted only while open, so each opening starts fresh
+function CreateWebhookDialog({ projectId, onClose }: { projectId: string; onClose: () => void }) {
+  const { toast } = useToast();
+  const [url, setUrl] = useState("");
+  const [events, setEvents] = useState<WebhookEventType[]>([...webhookEventTypes]);
+  const [created, setCreated] = useState<CreatedWebhook | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const createMutation = useMutation({
+    mutationFn: async (data: InsertWebhook) => {
+      const response = await apiRequest("POST", `/api/projects/${projectId}/webhooks`, data);
+      return response.json() as Promise<CreatedWebhook>;
+    },
+    onSuccess: (result) => {
+      setCreated(result);
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "webhooks"] });
+    },
+    onError: (err: Error) => setError(getErrorMessage(err)),
+  });
+
+  const toggleEvent = (event: WebhookEventType, checked: boolean) => {
+    setEvents((current) => (checked ? [...current, event] : current.filter((e) => e !== event)));
+  };
+
+  const onSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    createMutation.mutate({ url: url.trim(), events, active: true });
+  };
+
+  const copy = async () => {
+    if (!created) return;
+    await navigator.clipboard.writeText(created.secret);
+    toast({ title: "Signing secret copied" });
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md" data-testid="dialog-create-webhook">
+        <DialogHeader>
+          <DialogTitle>{created ? "Copy the signing secret" : "Add webhook"}</DialogTitle>
+          <DialogDescription>
+            {created
+              ? "Use it to check the X-TaskFlow-Signature header of each request. It will not be shown again."
+              : "TaskFlow will POST a JSON payload to this URL when the selected events happen."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {created ? (
+          <>
+            <div className="flex gap-2">
+              <Input readOnly value={created.secret} className="font-mono text-sm" data-testid="input-webhook-secret" />
+              <Button type="button" variant="outline" size="icon" onClick={copy} data-testid="button-copy-webhook-secret">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <DialogFooter>
+              <Button onClick={onClose} data-testid="button-webhook-done">
+                Done
+              </Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <form onSubmit={onSubmit} className="space-y-4">
+            {error && (
+              <div className="p-3 rounded-lg bg-destructive/10 text-destructive text-sm">{error}</div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="webhook-url">Payload URL</Label>
+              <Input
+                id="webhook-url"
+                type="url"
+                placeholder="https://example.com/hooks/taskflow"
+                autoFocus
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                data-testid="input-webhook-url"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Events</Label>
+              {webhookEventTypes.map((event) => (
+                <label key={event} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={events.includes(event)}
+                    onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                    data-testid={`checkbox-webhook-event-${event}`}
+                  />
+                  {eventLabels[event]}
+                  <span className="font-mono text-xs text-muted-foreground">{event}</span>
+                </label>
+              ))}
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={!url.trim() || events.length === 0 || createMutation.isPending}
+                data-testid="button-create-webhook"
+              >
+                {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Add webhook
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function DeliveryDetails({ delivery }: { delivery: WebhookDelivery }) {
+  return (
+    <div className="space-y-3 px-3 pb-3 text-sm">
+      <div className="grid grid-cols-2 gap-2 text-muted-foreground">
+        <span>Attempts: {delivery.attempts}</span>
+        <span>Response: {delivery.responseStatus ?? "none"}</span>
+        {delivery.durationMs !== null && <span>Took {delivery.durationMs} ms</span>}
+        {delivery.status === "pending" && delivery.nextAttemptAt && (
+          <span>Next try {formatDistanceToNow(new Date(delivery.nextAttemptAt), { addSuffix: true })}</span>
+        )}
+      </div>
+      {delivery.error && (
+        <div className="p-2 rounded-md bg-destructive/10 text-destructive" data-testid={`text-delivery-error-${delivery.id}`}>
+          {delivery.error}
+        </div>
+      )}
+      <div className="space-y-1">
+        <p className="font-medium">Payload</p>
+        <pre className="max-h-48 overflow-auto rounded-md bg-muted p-2 text-xs">{formatPayload(delivery.payload)}</pre>
+      </div>
+    </div>
+  );
+}
+
+function DeliveriesDialog({ projectId, webhook, onClose }: { projectId: string; webhook: WebhookInfo; onClose: () => void }) {
+  const { toast } = useToast();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const queryKey = ["/api/projects", projectId, "webhooks", webhook.id, "deliveries"];
+
+  // Polled while open, so retries show up as they happen
+  const { data: deliveries, isLoading } = useQuery<WebhookDelivery[]>({
+    queryKey,
+    refetchInterval: 5000,
+  });
+
+  const redeliverMutation = useMutation({
+    mutationFn: async (delivery: WebhookDelivery) => {
+      return apiRequest("POST", `/api/projects/${projectId}/webhooks/${webhook.id}/deliveries/${delivery.id}/redeliver`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: "Delivery queued" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to redeliver", description: getErrorMessage(err), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl" data-testid="dialog-webhook-deliveries">
+        <DialogHeader>
+          <DialogTitle>Recent deliveries</DialogTitle>
+          <DialogDescription className="truncate">{webhook.url}</DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto space-y-2">
+          {isLoading || !deliveries ? (
+            <>
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+            </>
+          ) : deliveries.length === 0 ? (
+            <p className="text-sm text-muted-foreground" data-testid="text-no-deliveries">
+              Nothing has been delivered yet.
+            </p>
+          ) : (
+            deliveries.map((delivery) => {
+              const expanded = expandedId === delivery.id;
+              const badge = statusBadges[delivery.status];
+              return (
+                <div key={delivery.id} className="rounded-md border" data-testid={`delivery-${delivery.id}`}>
+                  <div className="flex items-center justify-between gap-2 p-2">
+                    <button
+                      type="button"
+                      className="flex items-center gap-2 min-w-0 text-left text-sm"
+                      onClick={() => setExpandedId(expanded ? null : delivery.id)}
+                      data-testid={`button-expand-delivery-${delivery.id}`}
+                    >
+                      {expanded ? <ChevronDown className="h-4 w-4 shrink-0" /> : <ChevronRight className="h-4 w-4 shrink-0" />}
+                      <span className="font-mono">{delivery.event}</span>
+                      <Badge variant="secondary" className={badge.className}>
+                        {badge.label}
+                      </Badge>
+                      {delivery.redeliveryOfId && <Badge variant="outline">Redelivery</Badge>}
+                      <span className="text-muted-foreground truncate">
+                        {formatDistanceToNow(new Date(delivery.createdAt), { addSuffix: true })}
+                      </span>
+                    </button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => redeliverMutation.mutate(delivery)}
+                      disabled={!webhook.active || redeliverMutation.isPending}
+                      data-testid={`button-redeliver-${delivery.id}`}
+                    >
+                      <RotateCw className="h-4 w-4 mr-2" />
+                      Redeliver
+                    </Button>
+                  </div>
+                  {expanded && <DeliveryDetails delivery={delivery} />}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function ProjectWebhooks({ projectId }: { projectId: string }) {
+  const { toast } = useToast();
+  const [creating, setCreating] = useState(false);
+  const [inspecting, setInspecting] = useState<WebhookInfo | null>(null);
+
+  const { data: webhooks, isLoading } = useQuery<WebhookInfo[]>({
+    queryKey: ["/api/projects", projectId, "webhooks"],
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, active }: { id: string; active: boolean }) => {
+      return apiRequest("PATCH", `/api/projects/${projectId}/webhooks/${id}`, { active });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "webhooks"] });
+    },
+    onError: () => {
+      toast({ title: "Failed to update webhook", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/projects/${projectId}/webhooks/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "webhooks"] });
+      toast({ title: "Webhook deleted" });
+    },
+    onError: () => {
+      toast({ title: "Failed to delete webhook", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card data-testid="card-webhooks">
+      <CardHeader className="pb-2 flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-base">Webhooks</CardTitle>
+          <CardDescription>Send task events to chat, CI and other systems</CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => setCreating(true)} data-testid="button-open-create-webhook">
+          <Plus className="h-4 w-4 mr-2" />
+          Add webhook
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !webhooks ? (
+          <Skeleton className="h-10 w-full" />
+        ) : webhooks.length === 0 ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-webhooks">
+            This project has no webhooks.
+          </p>
+        ) : (
+          webhooks.map((webhook) => (
+            <div key={webhook.id} className="flex items-center justify-between gap-4" data-testid={`webhook-${webhook.id}`}>
+              <div className="flex items-center gap-3 min-w-0">
+                <WebhookIcon className="h-4 w-4 text-muted-foreground shrink-0" />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{webhook.url}</p>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {webhook.events.map((event) => (
+                      <Badge key={event} variant="outline" className="text-[10px]">
+                        {eventLabels[event as WebhookEventType] ?? event}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <Switch
+                  checked={webhook.active}
+                  onCheckedChange={(active) => updateMutation.mutate({ id: webhook.id, active })}
+                  disabled={updateMutation.isPending}
+                  aria-label="Active"
+                  data-testid={`switch-webhook-active-${webhook.id}`}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setInspecting(webhook)}
+                  aria-label="Recent deliveries"
+                  data-testid={`button-webhook-deliveries-${webhook.id}`}
+                >
+                  <History className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => deleteMutation.mutate(webhook.id)}
+                  disabled={deleteMutation.isPending}
+                  aria-label="Delete webhook"
+                  data-testid={`button-delete-webhook-${webhook.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      {creating && <CreateWebhookDialog projectId={projectId} onClose={() => setCreating(false)} />}
+      {inspecting && (
+        <DeliveriesDialog projectId={projectId} webhook={inspecting} onClose={() => setInspecting(null)} />
+      )}
+    </Card>
+  );
+}
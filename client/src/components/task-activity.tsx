@@ -0,0 +1,103 @@
+import { useQuery } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { History, Loader2 } from "lucide-react";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import type { ActivityWithActor, TrackedTaskField, UserPublic } from "@shared/schema";
+
+interface TaskActivityProps {
+  taskId: string;
+  users?: UserPublic[];
+}
+
+const fieldLabels: Record<TrackedTaskField, string> = {
+  title: "title",
+  status: "status",
+  priority: "priority",
+  assignedToId: "assignee",
+  dueDate: "due date",
+};
+
+const valueLabels: Record<string, string> = {
+  todo: "To Do",
+  in_progress: "In Progress",
+  review: "Review",
+  completed: "Completed",
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+  urgent: "Urgent",
+};
+
+function getInitials(name: string): string {
+  return name
+    .split(" ")
+    .map((n) => n[0])
+    .join("")
+    .toUpperCase()
+    .slice(0, 2);
+}
+
+function formatValue(field: TrackedTaskField, value: string | null, users: UserPublic[]): string {
+  if (value === null) {
+    return field === "assignedToId" ? "Unassigned" : "none";
+  }
+  switch (field) {
+    case "assignedToId": {
+      const user = users.find((u) => u.id === value);
+      return user ? user.displayName || user.username : "a former member";
+    }
+    case "dueDate":
+      return format(new Date(value), "MMM d, yyyy");
+    case "status":
+    case "priority":
+      return valueLabels[value] ?? value;
+    default:
+      return value;
+  }
+}
+
+export function TaskActivity({ taskId, users = [] }: TaskActivityProps) {
+  const { data: activity = [], isLoading } = useQuery<ActivityWithActor[]>({
+    queryKey: ["/api/tasks", taskId, "activity"],
+  });
+
+  return (
+    <div className="space-y-4" data-testid="task-activity">
+      <div className="flex items-center gap-2">
+        <History className="h-4 w-4 text-muted-foreground" />
+        <h3 className="text-sm font-medium">Activity</h3>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : activity.length === 0 ? (
+        <p className="text-sm text-muted-foreground" data-testid="text-no-activity">
+          No changes yet
+        </p>
+      ) : (
+        <ol className="relative space-y-4 border-l pl-5 ml-3">
+          {activity.map((entry) => {
+            const actorName = entry.actor.displayName || entry.actor.username;
+            return (
+              <li key={entry.id} className="relative" data-testid={`activity-${entry.id}`}>
+                <Avatar className="absolute -left-[34px] h-6 w-6 ring-2 ring-background">
+                  <AvatarFallback className="text-[10px] bg-muted">{getInitials(actorName)}</AvatarFallback>
+                </Avatar>
+                <p className="text-sm">
+                  <span className="font-medium">{actorName}</span> changed {fieldLabels[entry.field]} from{" "}
+                  <span className="font-medium">{formatValue(entry.field, entry.oldValue, users)}</span> to{" "}
+                  <span className="font-medium">{formatValue(entry.field, entry.newValue, users)}</span>
+                </p>
+                <p className="text-xs text-muted-foreground" title={format(new Date(entry.createdAt), "PPpp")}>
+                  {formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true })}
+                </p>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { Calendar, User, Flag } from "lucide-react";
+import { Calendar, User, Flag, ListChecks, Lock } from "lucide-react";
 import { format, isPast, isToday, isTomorrow } from "date-fns";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -115,6 +115,22 @@ export function TaskCard({ task, onClick, onStatusChange }: TaskCardProps) {
                 <span>{dueInfo.text}</span>
               </div>
             )}
+
+            {task.subtaskProgress.total > 0 && (
+              <div
+                className={`flex items-center gap-1.5 text-sm ${
+                  task.subtaskProgress.completed === task.subtaskProgress.total
+                    ? "text-green-600 dark:text-green-400"
+                    : "text-muted-foreground"
+                }`}
+                data-testid={`text-subtask-progress-${task.id}`}
+              >
+                <ListChecks className="h-3.5 w-3.5" />
+                <span>
+                  {task.subtaskProgress.completed}/{task.subtaskProgress.total}
+                </span>
+              </div>
+            )}
             
             {task.assignedTo && (
               <div className="flex items-center gap-1.5" data-testid={`assignee-${task.id}`}>
@@ -136,6 +152,17 @@ export function TaskCard({ task, onClick, onStatusChange }: TaskCardProps) {
             >
               {status.label}
             </Badge>
+
+            {task.openBlockerCount > 0 && !isCompleted && (
+              <Badge
+                variant="secondary"
+                className="text-xs bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400"
+                data-testid={`badge-blocked-${task.id}`}
+              >
+                <Lock className="h-3 w-3 mr-1" />
+                Blocked
+              </Badge>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,221 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { MessageSquare, Pencil, Trash2, Loader2 } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/lib/auth";
+import { useProject } from "@/lib/project";
+import { getSocket, type CommentEvent, type CommentEventType } from "@/lib/socket";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { canComment, getCommentPermissions } from "@shared/permissions";
+import type { CommentWithAuthor } from "@shared/schema";
+
+interface TaskCommentsProps {
+  taskId: string;
+}
+
+const commentEvents: CommentEventType[] = ["comment:created", "comment:updated", "comment:deleted"];
+
+function getInitials(name: string): string {
+  return name
+    .split(" ")
+    .map((n) => n[0])
+    .join("")
+    .toUpperCase()
+    .slice(0, 2);
+}
+
+export function TaskComments({ taskId }: TaskCommentsProps) {
+  const { user } = useAuth();
+  const { currentProject } = useProject();
+  const [draft, setDraft] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState("");
+
+  const queryKey = ["/api/tasks", taskId, "comments"];
+
+  const { data: comments = [], isLoading } = useQuery<CommentWithAuthor[]>({
+    queryKey,
+  });
+
+  useEffect(() => {
+    const socket = getSocket();
+
+    const handleCommentEvent = (event: CommentEvent) => {
+      if (event.taskId === taskId) {
+        queryClient.invalidateQueries({ queryKey: ["/api/tasks", taskId, "comments"] });
+      }
+    };
+
+    commentEvents.forEach((event) => socket.on(event, handleCommentEvent));
+
+    return () => {
+      commentEvents.forEach((event) => socket.off(event, handleCommentEvent));
+    };
+  }, [taskId]);
+
+  const createCommentMutation = useMutation({
+    mutationFn: async (body: string) => {
+      return apiRequest("POST", `/api/tasks/${taskId}/comments`, { body });
+    },
+    onSuccess: () => {
+      setDraft("");
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  const updateCommentMutation = useMutation({
+    mutationFn: async ({ id, body }: { id: string; body: string }) => {
+      return apiRequest("PATCH", `/api/tasks/${taskId}/comments/${id}`, { body });
+    },
+    onSuccess: () => {
+      setEditingId(null);
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  const deleteCommentMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/tasks/${taskId}/comments/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  const role = currentProject?.role;
+
+  const startEditing = (comment: CommentWithAuthor) => {
+    setEditingId(comment.id);
+    setEditDraft(comment.body);
+  };
+
+  return (
+    <div className="space-y-4" data-testid="task-comments">
+      <div className="flex items-center gap-2">
+        <MessageSquare className="h-4 w-4 text-muted-foreground" />
+        <h3 className="text-sm font-medium">Comments</h3>
+        <span className="text-xs text-muted-foreground">{comments.length}</span>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : comments.length === 0 ? (
+        <p className="text-sm text-muted-foreground" data-testid="text-no-comments">
+          No comments yet
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {comments.map((comment) => {
+            const permissions =
+              role && user
+                ? getCommentPermissions(role, comment, user.id)
+                : { canEdit: false, canDelete: false };
+            const authorName = comment.author.displayName || comment.author.username;
+            const isEdited = new Date(comment.updatedAt).getTime() !== new Date(comment.createdAt).getTime();
+
+            return (
+              <div key={comment.id} className="flex items-start gap-3" data-testid={`comment-${comment.id}`}>
+                <Avatar className="h-7 w-7">
+                  <AvatarFallback className="text-[10px] bg-muted">{getInitials(authorName)}</AvatarFallback>
+                </Avatar>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium">{authorName}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+                      {isEdited && " (edited)"}
+                    </span>
+                    <div className="ml-auto flex items-center">
+                      {permissions.canEdit && editingId !== comment.id && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          onClick={() => startEditing(comment)}
+                          data-testid={`button-edit-comment-${comment.id}`}
+                          aria-label="Edit comment"
+                        >
+                          <Pencil className="h-3 w-3" />
+                        </Button>
+                      )}
+                      {permissions.canDelete && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          onClick={() => deleteCommentMutation.mutate(comment.id)}
+                          disabled={deleteCommentMutation.isPending}
+                          data-testid={`button-delete-comment-${comment.id}`}
+                          aria-label="Delete comment"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  {editingId === comment.id ? (
+                    <div className="mt-1 space-y-2">
+                      <Textarea
+                        value={editDraft}
+                        onChange={(e) => setEditDraft(e.target.value)}
+                        className="min-h-16 resize-none"
+                        data-testid={`input-edit-comment-${comment.id}`}
+                      />
+                      <div className="flex justify-end gap-2">
+                        <Button type="button" variant="outline" size="sm" onClick={() => setEditingId(null)}>
+                          Cancel
+                        </Button>
+                        <Button
+                          type="button"
+                          size="sm"
+                          onClick={() => updateCommentMutation.mutate({ id: comment.id, body: editDraft })}
+                          disabled={!editDraft.trim() || updateCommentMutation.isPending}
+                          data-testid={`button-save-comment-${comment.id}`}
+                        >
+                          Save
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <p className="text-sm whitespace-pre-wrap break-words mt-0.5">{comment.body}</p>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {role && canComment(role) && (
+        <div className="space-y-2">
+          <Textarea
+            placeholder="Write a comment..."
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            className="min-h-20 resize-none"
+            data-testid="input-new-comment"
+          />
+          <div className="flex justify-end">
+            <Button
+              type="button"
+              size="sm"
+              onClick={() => createCommentMutation.mutate(draft)}
+              disabled={!draft.trim() || createCommentMutation.isPending}
+              data-testid="button-add-comment"
+            >
+              {createCommentMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Comment
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
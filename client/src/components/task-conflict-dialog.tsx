@@ -0,0 +1,88 @@
+import { Loader2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+
+export interface ConflictField {
+  label: string;
+  mine: string;
+  theirs: string;
+}
+
+interface TaskConflictDialogProps {
+  open: boolean;
+  updatedBy?: string;
+  fields: ConflictField[];
+  onOverwrite: () => void;
+  onMerge: () => void;
+  onDiscard: () => void;
+  isSaving?: boolean;
+}
+
+export function TaskConflictDialog({
+  open,
+  updatedBy,
+  fields,
+  onOverwrite,
+  onMerge,
+  onDiscard,
+  isSaving,
+}: TaskConflictDialogProps) {
+  return (
+    <AlertDialog open={open}>
+      <AlertDialogContent className="max-w-lg" data-testid="dialog-task-conflict">
+        <AlertDialogHeader>
+          <AlertDialogTitle>This task changed while you were editing</AlertDialogTitle>
+          <AlertDialogDescription>
+            {updatedBy ?? "Someone else"} saved a newer version. Merge keeps their changes and re-applies yours on
+            top for review, overwrite replaces their version with yours.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {fields.length > 0 ? (
+          <div className="rounded-md border text-sm">
+            <div className="grid grid-cols-3 gap-2 border-b px-3 py-2 font-medium text-muted-foreground">
+              <span>Field</span>
+              <span>Yours</span>
+              <span>Theirs</span>
+            </div>
+            {fields.map((field) => (
+              <div
+                key={field.label}
+                className="grid grid-cols-3 gap-2 px-3 py-2 border-b last:border-b-0"
+                data-testid={`conflict-field-${field.label.toLowerCase().replace(" ", "-")}`}
+              >
+                <span className="font-medium">{field.label}</span>
+                <span className="break-words">{field.mine}</span>
+                <span className="break-words">{field.theirs}</span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            None of the fields you changed were touched, so merging is safe.
+          </p>
+        )}
+
+        <AlertDialogFooter className="gap-2 sm:gap-0">
+          <Button variant="ghost" onClick={onDiscard} disabled={isSaving} data-testid="button-conflict-discard">
+            Discard mine
+          </Button>
+          <Button variant="outline" onClick={onMerge} disabled={isSaving} data-testid="button-conflict-merge">
+            Merge
+          </Button>
+          <Button variant="destructive" onClick={onOverwrite} disabled={isSaving} data-testid="button-conflict-overwrite">
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Overwrite
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
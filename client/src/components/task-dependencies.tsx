@@ -0,0 +1,176 @@
+import { useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link2, Lock, X, Loader2 } from "lucide-react";
+import { queryClient, apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { useProject } from "@/lib/project";
+import { getSocket, type DependencyEvent, type DependencyEventType } from "@/lib/socket";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { Task, TaskDependencies as TaskDependencyLists, TaskWithRelations } from "@shared/schema";
+import type { TaskPermissions } from "@shared/permissions";
+
+interface TaskDependenciesProps {
+  taskId: string;
+  permissions: TaskPermissions;
+}
+
+const dependencyEvents: DependencyEventType[] = ["dependency:created", "dependency:deleted"];
+
+function DependencyRow({ task, onRemove }: { task: Task; onRemove?: () => void }) {
+  const isDone = task.status === "completed";
+  return (
+    <div className="group flex items-center gap-2 rounded-md px-2 py-1 hover-elevate" data-testid={`dependency-${task.id}`}>
+      <span className={`flex-1 text-sm truncate ${isDone ? "line-through text-muted-foreground" : ""}`}>
+        {task.title}
+      </span>
+      {onRemove && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 invisible group-hover:visible"
+          onClick={onRemove}
+          data-testid={`button-remove-dependency-${task.id}`}
+          aria-label="Remove dependency"
+        >
+          <X className="h-3 w-3" />
+        </Button>
+      )}
+    </div>
+  );
+}
+
+export function TaskDependencies({ taskId, permissions }: TaskDependenciesProps) {
+  const { currentProject } = useProject();
+  const projectId = currentProject?.id;
+
+  const { data, isLoading } = useQuery<TaskDependencyLists>({
+    queryKey: ["/api/tasks", taskId, "dependencies"],
+  });
+
+  const { data: projectTasks = [] } = useQuery<TaskWithRelations[]>({
+    queryKey: ["/api/tasks", { projectId }],
+    enabled: !!projectId && permissions.canEdit,
+  });
+
+  useEffect(() => {
+    const socket = getSocket();
+
+    const handleDependencyEvent = (event: DependencyEvent) => {
+      if (event.taskId === taskId || event.blockerId === taskId) {
+        queryClient.invalidateQueries({ queryKey: ["/api/tasks", taskId, "dependencies"] });
+      }
+    };
+
+    dependencyEvents.forEach((event) => socket.on(event, handleDependencyEvent));
+
+    return () => {
+      dependencyEvents.forEach((event) => socket.off(event, handleDependencyEvent));
+    };
+  }, [taskId]);
+
+  const addDependencyMutation = useMutation({
+    mutationFn: async (blockerId: string) => {
+      return apiRequest("POST", `/api/tasks/${taskId}/dependencies`, { blockerId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+    },
+  });
+
+  const removeDependencyMutation = useMutation({
+    mutationFn: async (blockerId: string) => {
+      return apiRequest("DELETE", `/api/tasks/${taskId}/dependencies/${blockerId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+    },
+  });
+
+  const blockedBy = data?.blockedBy ?? [];
+  const blocks = data?.blocks ?? [];
+  const openBlockers = blockedBy.filter((t) => t.status !== "completed");
+  const candidates = projectTasks.filter((t) => t.id !== taskId && !blockedBy.some((b) => b.id === t.id));
+
+  return (
+    <div className="space-y-3" data-testid="task-dependencies">
+      <div className="flex items-center gap-2">
+        <Link2 className="h-4 w-4 text-muted-foreground" />
+        <h3 className="text-sm font-medium">Dependencies</h3>
+      </div>
+
+      {openBlockers.length > 0 && (
+        <Alert variant="destructive" data-testid="alert-task-blocked">
+          <Lock className="h-4 w-4" />
+          <AlertDescription>
+            Blocked by {openBlockers.length} open {openBlockers.length === 1 ? "task" : "tasks"}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-2">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <p className="text-xs font-medium uppercase text-muted-foreground">Blocked by</p>
+            {blockedBy.length === 0 ? (
+              <p className="text-sm text-muted-foreground px-2">Nothing</p>
+            ) : (
+              blockedBy.map((blocker) => (
+                <DependencyRow
+                  key={blocker.id}
+                  task={blocker}
+                  onRemove={permissions.canEdit ? () => removeDependencyMutation.mutate(blocker.id) : undefined}
+                />
+              ))
+            )}
+          </div>
+          <div className="space-y-1">
+            <p className="text-xs font-medium uppercase text-muted-foreground">Blocks</p>
+            {blocks.length === 0 ? (
+              <p className="text-sm text-muted-foreground px-2">Nothing</p>
+            ) : (
+              blocks.map((blocked) => <DependencyRow key={blocked.id} task={blocked} />)
+            )}
+          </div>
+        </div>
+      )}
+
+      {permissions.canEdit && (
+        <div className="space-y-1">
+          <Select
+            value=""
+            onValueChange={(blockerId) => addDependencyMutation.mutate(blockerId)}
+            disabled={candidates.length === 0 || addDependencyMutation.isPending}
+          >
+            <SelectTrigger className="h-8" data-testid="select-add-blocker">
+              <SelectValue placeholder="Add a blocking task" />
+            </SelectTrigger>
+            <SelectContent>
+              {candidates.map((t) => (
+                <SelectItem key={t.id} value={t.id}>
+                  {t.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {addDependencyMutation.error && (
+            <p className="text-sm text-destructive" data-testid="text-dependency-error">
+              {getErrorMessage(addDependencyMutation.error)}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
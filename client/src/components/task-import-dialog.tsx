@@ -0,0 +1,184 @@
+import { useState, type ChangeEvent } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2, Upload } from "lucide-react";
+import { queryClient, apiRequest, getErrorMessage, parseApiError } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { TaskFileFormat, TaskImport, TaskImportResult } from "@shared/schema";
+
+type ImportFile = {
+  name: string;
+  format: TaskFileFormat;
+  content: string;
+};
+
+function isImportResult(body: unknown): body is TaskImportResult {
+  return !!body && typeof body === "object" && "rows" in body;
+}
+
+// Mounted only while open, so each opening starts fresh. Choosing a file
+// runs a dry run; the tasks are created only once every row is valid.
+export function TaskImportDialog({ projectId, onClose }: { projectId: string; onClose: () => void }) {
+  const { toast } = useToast();
+  const [file, setFile] = useState<ImportFile | null>(null);
+  const [preview, setPreview] = useState<TaskImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const importMutation = useMutation({
+    mutationFn: async (data: TaskImport) => {
+      const response = await apiRequest("POST", "/api/tasks/import", data);
+      return response.json() as Promise<TaskImportResult>;
+    },
+    onSuccess: (result) => {
+      if (result.dryRun) {
+        setPreview(result);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+      toast({ title: `Imported ${result.imported} task${result.imported !== 1 ? "s" : ""}` });
+      onClose();
+    },
+    onError: (err: Error) => {
+      // A rejected import still answers with the rows and their errors
+      const { body } = parseApiError(err);
+      if (isImportResult(body)) {
+        setPreview(body);
+      }
+      setError(getErrorMessage(err));
+    },
+  });
+
+  const onFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    if (!selected) return;
+    const chosen: ImportFile = {
+      name: selected.name,
+      format: selected.name.toLowerCase().endsWith(".json") ? "json" : "csv",
+      content: await selected.text(),
+    };
+    setFile(chosen);
+    setPreview(null);
+    setError(null);
+    importMutation.mutate({ projectId, format: chosen.format, content: chosen.content, dryRun: true });
+  };
+
+  const onImport = () => {
+    if (!file) return;
+    setError(null);
+    importMutation.mutate({ projectId, format: file.format, content: file.content, dryRun: false });
+  };
+
+  const invalidCount = preview?.rows.filter((row) => row.errors.length > 0).length ?? 0;
+  const validCount = (preview?.rows.length ?? 0) - invalidCount;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl" data-testid="dialog-import-tasks">
+        <DialogHeader>
+          <DialogTitle>Import tasks</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or JSON file with a title column and optionally description, status, priority, due date and
+            assignee (email or username). An export of this page can be imported as is.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Input
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            onChange={onFileChange}
+            disabled={importMutation.isPending}
+            data-testid="input-import-file"
+          />
+
+          {error && (
+            <div className="p-3 rounded-lg bg-destructive/10 text-destructive text-sm" data-testid="text-import-error">
+              {error}
+            </div>
+          )}
+
+          {importMutation.isPending && !preview && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Checking {file?.name}…
+            </div>
+          )}
+
+          {preview && (
+            <>
+              <p className="text-sm text-muted-foreground" data-testid="text-import-summary">
+                {validCount} of {preview.rows.length} row{preview.rows.length !== 1 ? "s" : ""} ready to import
+                {invalidCount > 0 && `, ${invalidCount} with errors`}
+                {preview.ignoredColumns.length > 0 && `. Ignored columns: ${preview.ignoredColumns.join(", ")}`}
+              </p>
+              <div className="max-h-[50vh] overflow-y-auto rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Row</TableHead>
+                      <TableHead>Title</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Priority</TableHead>
+                      <TableHead>Due</TableHead>
+                      <TableHead>Assignee</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.rows.map((row) =>
+                      row.task ? (
+                        <TableRow key={row.row} data-testid={`import-row-${row.row}`}>
+                          <TableCell className="text-muted-foreground">{row.row}</TableCell>
+                          <TableCell className="font-medium">{row.task.title}</TableCell>
+                          <TableCell>{row.task.status ?? "todo"}</TableCell>
+                          <TableCell>{row.task.priority ?? "medium"}</TableCell>
+                          <TableCell>{row.task.dueDate ? format(new Date(row.task.dueDate), "MMM d, yyyy") : "—"}</TableCell>
+                          <TableCell>{row.assignee ? row.assignee.displayName || row.assignee.username : "—"}</TableCell>
+                        </TableRow>
+                      ) : (
+                        <TableRow key={row.row} className="bg-destructive/5" data-testid={`import-row-${row.row}`}>
+                          <TableCell className="text-muted-foreground">{row.row}</TableCell>
+                          <TableCell colSpan={5} className="text-destructive text-sm">
+                            {row.errors.map((rowError) => rowError.message).join(" · ")}
+                          </TableCell>
+                        </TableRow>
+                      ),
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={onImport}
+            disabled={!preview || invalidCount > 0 || validCount === 0 || importMutation.isPending}
+            data-testid="button-import-tasks"
+          >
+            {importMutation.isPending && preview ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Upload className="h-4 w-4 mr-2" />
+            )}
+            Import {validCount > 0 ? validCount : ""} task{validCount !== 1 ? "s" : ""}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -11,7 +11,7 @@ interface TaskListProps {
   emptyDescription?: string;
   emptyIcon?: "tasks" | "inbox" | "alert";
   onTaskClick?: (task: TaskWithRelations) => void;
-  onStatusChange?: (taskId: string, completed: boolean) => void;
+  onStatusChange?: (task: TaskWithRelations, completed: boolean) => void;
 }
 
 const emptyIcons = {
@@ -56,7 +56,7 @@ export function TaskList({
           key={task.id}
           task={task}
           onClick={() => onTaskClick?.(task)}
-          onStatusChange={(completed) => onStatusChange?.(task.id, completed)}
+          onStatusChange={(completed) => onStatusChange?.(task, completed)}
         />
       ))}
     </div>
@@ -1,10 +1,11 @@
-import { useEffect } from "react";
+import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { format } from "date-fns";
 import { CalendarIcon, Trash2, Loader2 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { parseApiError } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import { Calendar } from "@/components/ui/calendar";
 import {
@@ -25,6 +26,14 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { TaskComments } from "@/components/task-comments";
+import { TaskActivity } from "@/components/task-activity";
+import { TaskSubtasks } from "@/components/task-subtasks";
+import { TaskDependencies } from "@/components/task-dependencies";
+import { TaskPresence } from "@/components/task-presence";
+import { TaskConflictDialog, type ConflictField } from "@/components/task-conflict-dialog";
 import {
   Popover,
   PopoverContent,
@@ -38,6 +47,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import type { TaskWithRelations, UserPublic, Priority, Status } from "@shared/schema";
+import type { TaskPermissions } from "@shared/permissions";
 
 const taskFormSchema = z.object({
   title: z.string().min(1, "Title is required").max(100, "Title must be 100 characters or less"),
@@ -50,12 +60,71 @@ const taskFormSchema = z.object({
 
 type TaskFormValues = z.infer<typeof taskFormSchema>;
 
+type TaskFormField = keyof TaskFormValues;
+
+interface TaskConflict {
+  theirs: TaskWithRelations;
+  mine: Partial<TaskFormValues>;
+  changed: TaskFormField[];
+}
+
+const emptyFormValues: TaskFormValues = {
+  title: "",
+  description: "",
+  dueDate: null,
+  priority: "medium",
+  status: "todo",
+  assignedToId: null,
+};
+
+const fieldLabels: Record<TaskFormField, string> = {
+  title: "Title",
+  description: "Description",
+  dueDate: "Due date",
+  priority: "Priority",
+  status: "Status",
+  assignedToId: "Assignee",
+};
+
+function toFormValues(task: TaskWithRelations): TaskFormValues {
+  return {
+    title: task.title,
+    description: task.description || "",
+    dueDate: task.dueDate ? new Date(task.dueDate) : null,
+    priority: task.priority,
+    status: task.status,
+    assignedToId: task.assignedToId,
+  };
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a instanceof Date || b instanceof Date) {
+    return (a instanceof Date ? a.getTime() : a ?? null) === (b instanceof Date ? b.getTime() : b ?? null);
+  }
+  return (a ?? "") === (b ?? "");
+}
+
+function formatFieldValue(field: TaskFormField, value: unknown, users: UserPublic[]): string {
+  if (value === null || value === undefined || value === "") {
+    return field === "assignedToId" ? "Unassigned" : "None";
+  }
+  if (field === "dueDate") {
+    return format(value as Date, "PPP");
+  }
+  if (field === "assignedToId") {
+    const user = users.find((u) => u.id === value);
+    return user ? user.displayName || user.username : "Unknown";
+  }
+  return String(value);
+}
+
 interface TaskModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   task?: TaskWithRelations | null;
   users?: UserPublic[];
-  onSave: (data: TaskFormValues) => Promise<void>;
+  permissions?: TaskPermissions;
+  onSave: (data: Partial<TaskFormValues> & { version?: number }) => Promise<void>;
   onDelete?: () => Promise<void>;
   isSaving?: boolean;
   isDeleting?: boolean;
@@ -66,52 +135,85 @@ export function TaskModal({
   onOpenChange,
   task,
   users = [],
+  permissions = { canEdit: true, canChangeStatus: true, canDelete: true },
   onSave,
   onDelete,
   isSaving,
   isDeleting,
 }: TaskModalProps) {
   const isEditing = !!task;
+  const isReadOnly = isEditing && !permissions.canEdit;
+  const canSave = !isEditing || permissions.canEdit || permissions.canChangeStatus;
+
+  // The version this form is based on, sent as the update's precondition
+  const [version, setVersion] = useState<number | undefined>(task?.version);
+  const [conflict, setConflict] = useState<TaskConflict | null>(null);
 
   const form = useForm<TaskFormValues>({
     resolver: zodResolver(taskFormSchema),
-    defaultValues: {
-      title: "",
-      description: "",
-      dueDate: null,
-      priority: "medium",
-      status: "todo",
-      assignedToId: null,
-    },
+    defaultValues: emptyFormValues,
   });
 
   useEffect(() => {
-    if (task) {
-      form.reset({
-        title: task.title,
-        description: task.description || "",
-        dueDate: task.dueDate ? new Date(task.dueDate) : null,
-        priority: task.priority,
-        status: task.status,
-        assignedToId: task.assignedToId,
-      });
-    } else {
-      form.reset({
-        title: "",
-        description: "",
-        dueDate: null,
-        priority: "medium",
-        status: "todo",
-        assignedToId: null,
-      });
-    }
+    form.reset(task ? toFormValues(task) : emptyFormValues);
+    setVersion(task?.version);
+    setConflict(null);
   }, [task, form]);
 
+  const save = async (changes: Partial<TaskFormValues>, baseVersion: number | undefined) => {
+    try {
+      await onSave(isEditing ? { ...changes, version: baseVersion } : changes);
+      setConflict(null);
+      onOpenChange(false);
+    } catch (error) {
+      const { status, body } = parseApiError(error as Error);
+      if (status !== 409 || !body || typeof body !== "object" || !("task" in body)) {
+        throw error;
+      }
+      const changed = Object.keys(form.formState.dirtyFields) as TaskFormField[];
+      setConflict({ theirs: body.task as TaskWithRelations, mine: changes, changed });
+    }
+  };
+
   const handleSubmit = async (data: TaskFormValues) => {
-    await onSave(data);
-    onOpenChange(false);
+    // Users who may only move the task through the workflow send just the status
+    await save(isReadOnly ? { status: data.status } : data, version);
+  };
+
+  const handleOverwrite = async () => {
+    if (conflict) {
+      await save(conflict.mine, conflict.theirs.version);
+    }
+  };
+
+  // Start from the server copy and re-apply only the fields this user changed
+  const handleMerge = () => {
+    if (!conflict) return;
+    form.reset(toFormValues(conflict.theirs));
+    for (const field of conflict.changed) {
+      form.setValue(field, conflict.mine[field], { shouldDirty: true });
+    }
+    setVersion(conflict.theirs.version);
+    setConflict(null);
+  };
+
+  const handleDiscard = () => {
+    if (!conflict) return;
+    form.reset(toFormValues(conflict.theirs));
+    setVersion(conflict.theirs.version);
+    setConflict(null);
   };
 
+  const conflictFields: ConflictField[] = conflict
+    ? conflict.changed
+        .filter((field) => !isSameValue(conflict.mine[field], toFormValues(conflict.theirs)[field]))
+        .map((field) => ({
+          label: fieldLabels[field],
+          mine: formatFieldValue(field, conflict.mine[field], users),
+          theirs: formatFieldValue(field, toFormValues(conflict.theirs)[field], users),
+        }))
+    : [];
+
   const handleDelete = async () => {
     if (onDelete) {
       await onDelete();
@@ -127,10 +229,20 @@ export function TaskModal({
             {isEditing ? "Edit Task" : "Create Task"}
           </DialogTitle>
           <DialogDescription>
-            {isEditing ? "Update the task details below" : "Fill in the details to create a new task"}
+            {!isEditing
+              ? "Fill in the details to create a new task"
+              : isReadOnly
+              ? "You can view this task but only change what your role allows"
+              : "Update the task details below"}
           </DialogDescription>
         </DialogHeader>
 
+        <TaskPresence
+          taskId={open && task ? task.id : undefined}
+          editing={form.formState.isDirty}
+          users={users}
+        />
+
         <Form {...form}>
           <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
             <FormField
@@ -142,6 +254,7 @@ export function TaskModal({
                   <FormControl>
                     <Input
                       placeholder="Enter task title..."
+                      disabled={isReadOnly}
                       {...field}
                       data-testid="input-task-title"
                     />
@@ -161,6 +274,7 @@ export function TaskModal({
                     <Textarea
                       placeholder="Enter task description..."
                       className="min-h-32 resize-none"
+                      disabled={isReadOnly}
                       {...field}
                       data-testid="input-task-description"
                     />
@@ -182,6 +296,7 @@ export function TaskModal({
                         <FormControl>
                           <Button
                             variant="outline"
+                            disabled={isReadOnly}
                             className={cn(
                               "justify-start text-left font-normal",
                               !field.value && "text-muted-foreground"
@@ -213,7 +328,7 @@ export function TaskModal({
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Priority</FormLabel>
-                    <Select onValueChange={field.onChange} value={field.value}>
+                    <Select onValueChange={field.onChange} value={field.value} disabled={isReadOnly}>
                       <FormControl>
                         <SelectTrigger data-testid="select-task-priority">
                           <SelectValue placeholder="Select priority" />
@@ -239,7 +354,11 @@ export function TaskModal({
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Status</FormLabel>
-                    <Select onValueChange={field.onChange} value={field.value}>
+                    <Select
+                      onValueChange={field.onChange}
+                      value={field.value}
+                      disabled={isEditing && !permissions.canChangeStatus}
+                    >
                       <FormControl>
                         <SelectTrigger data-testid="select-task-status">
                           <SelectValue placeholder="Select status" />
@@ -266,6 +385,7 @@ export function TaskModal({
                     <Select
                       onValueChange={(value) => field.onChange(value === "unassigned" ? null : value)}
                       value={field.value || "unassigned"}
+                      disabled={isReadOnly}
                     >
                       <FormControl>
                         <SelectTrigger data-testid="select-task-assignee">
@@ -288,7 +408,7 @@ export function TaskModal({
             </div>
 
             <DialogFooter className="flex flex-col-reverse sm:flex-row gap-2 sm:gap-0">
-              {isEditing && onDelete && (
+              {isEditing && onDelete && permissions.canDelete && (
                 <Button
                   type="button"
                   variant="destructive"
@@ -314,15 +434,48 @@ export function TaskModal({
                 >
                   Cancel
                 </Button>
-                <Button type="submit" disabled={isSaving} data-testid="button-save-task">
-                  {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
-                  {isEditing ? "Save Changes" : "Create Task"}
-                </Button>
+                {canSave && (
+                  <Button type="submit" disabled={isSaving} data-testid="button-save-task">
+                    {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    {isEditing ? "Save Changes" : "Create Task"}
+                  </Button>
+                )}
               </div>
             </DialogFooter>
           </form>
         </Form>
+
+        {task && (
+          <>
+            <Separator />
+            <TaskSubtasks taskId={task.id} permissions={permissions} />
+            <Separator />
+            <TaskDependencies taskId={task.id} permissions={permissions} />
+            <Separator />
+            <Tabs defaultValue="comments">
+              <TabsList>
+                <TabsTrigger value="comments" data-testid="tab-comments">Comments</TabsTrigger>
+                <TabsTrigger value="activity" data-testid="tab-activity">Activity</TabsTrigger>
+              </TabsList>
+              <TabsContent value="comments">
+                <TaskComments taskId={task.id} />
+              </TabsContent>
+              <TabsContent value="activity">
+                <TaskActivity taskId={task.id} users={users} />
+              </TabsContent>
+            </Tabs>
+          </>
+        )}
       </DialogContent>
+
+      <TaskConflictDialog
+        open={!!conflict}
+        fields={conflictFields}
+        onOverwrite={handleOverwrite}
+        onMerge={handleMerge}
+        onDiscard={handleDiscard}
+        isSaving={isSaving}
+      />
     </Dialog>
   );
 }
@@ -0,0 +1,76 @@
+import { Pencil } from "lucide-react";
+import { useAuth } from "@/lib/auth";
+import { useTaskPresence } from "@/hooks/use-task-presence";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import type { UserPublic } from "@shared/schema";
+
+interface TaskPresenceProps {
+  taskId: string | undefined;
+  editing: boolean;
+  users?: UserPublic[];
+}
+
+function getInitials(name: string): string {
+  return name
+    .split(" ")
+    .map((n) => n[0])
+    .join("")
+    .toUpperCase()
+    .slice(0, 2);
+}
+
+export function TaskPresence({ taskId, editing, users = [] }: TaskPresenceProps) {
+  const { user } = useAuth();
+  const viewers = useTaskPresence(taskId, editing);
+
+  const others = viewers
+    .filter((viewer) => viewer.userId !== user?.id)
+    .map((viewer) => {
+      const member = users.find((u) => u.id === viewer.userId);
+      return { ...viewer, name: member ? member.displayName || member.username : "Someone" };
+    });
+  const editors = others.filter((viewer) => viewer.editing);
+
+  if (others.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3" data-testid="task-presence">
+      <div className="flex items-center gap-2">
+        <div className="flex -space-x-2">
+          {others.map((viewer) => (
+            <Tooltip key={viewer.userId}>
+              <TooltipTrigger asChild>
+                <Avatar
+                  className={`h-7 w-7 ring-2 ${viewer.editing ? "ring-orange-500" : "ring-background"}`}
+                  data-testid={`avatar-viewer-${viewer.userId}`}
+                >
+                  <AvatarFallback className="text-[10px] bg-muted">{getInitials(viewer.name)}</AvatarFallback>
+                </Avatar>
+              </TooltipTrigger>
+              <TooltipContent>
+                {viewer.name} is {viewer.editing ? "editing" : "viewing"}
+              </TooltipContent>
+            </Tooltip>
+          ))}
+        </div>
+        <span className="text-xs text-muted-foreground">
+          {others.length === 1 ? "Also viewing this task" : `${others.length} others viewing this task`}
+        </span>
+      </div>
+
+      {editors.length > 0 && (
+        <Alert data-testid="alert-task-editing">
+          <Pencil className="h-4 w-4" />
+          <AlertDescription>
+            {editors.map((viewer) => viewer.name).join(", ")} {editors.length === 1 ? "is" : "are"} editing this
+            task. Saving now may overwrite their changes.
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
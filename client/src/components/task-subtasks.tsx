@@ -0,0 +1,169 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { ListChecks, Plus, Trash2, Loader2 } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { getSocket, type SubtaskEvent, type SubtaskEventType } from "@/lib/socket";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import type { Subtask } from "@shared/schema";
+import type { TaskPermissions } from "@shared/permissions";
+
+interface TaskSubtasksProps {
+  taskId: string;
+  permissions: TaskPermissions;
+}
+
+const subtaskEvents: SubtaskEventType[] = ["subtask:created", "subtask:updated", "subtask:deleted"];
+
+export function TaskSubtasks({ taskId, permissions }: TaskSubtasksProps) {
+  const [draft, setDraft] = useState("");
+
+  const { data: subtasks = [], isLoading } = useQuery<Subtask[]>({
+    queryKey: ["/api/tasks", taskId, "subtasks"],
+  });
+
+  useEffect(() => {
+    const socket = getSocket();
+
+    const handleSubtaskEvent = (event: SubtaskEvent) => {
+      if (event.taskId === taskId) {
+        queryClient.invalidateQueries({ queryKey: ["/api/tasks", taskId, "subtasks"] });
+      }
+    };
+
+    subtaskEvents.forEach((event) => socket.on(event, handleSubtaskEvent));
+
+    return () => {
+      subtaskEvents.forEach((event) => socket.off(event, handleSubtaskEvent));
+    };
+  }, [taskId]);
+
+  // Invalidating every task query also refreshes the parent's progress on its card
+  const createSubtaskMutation = useMutation({
+    mutationFn: async (title: string) => {
+      return apiRequest("POST", `/api/tasks/${taskId}/subtasks`, { title });
+    },
+    onSuccess: () => {
+      setDraft("");
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+    },
+  });
+
+  const toggleSubtaskMutation = useMutation({
+    mutationFn: async ({ id, isCompleted }: { id: string; isCompleted: boolean }) => {
+      return apiRequest("PATCH", `/api/tasks/${taskId}/subtasks/${id}`, { isCompleted });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+    },
+  });
+
+  const deleteSubtaskMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/tasks/${taskId}/subtasks/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+    },
+  });
+
+  const completedCount = subtasks.filter((s) => s.isCompleted).length;
+
+  const handleAdd = () => {
+    if (draft.trim()) {
+      createSubtaskMutation.mutate(draft);
+    }
+  };
+
+  return (
+    <div className="space-y-3" data-testid="task-subtasks">
+      <div className="flex items-center gap-2">
+        <ListChecks className="h-4 w-4 text-muted-foreground" />
+        <h3 className="text-sm font-medium">Subtasks</h3>
+        {subtasks.length > 0 && (
+          <span className="text-xs text-muted-foreground" data-testid="text-subtask-progress">
+            {completedCount}/{subtasks.length}
+          </span>
+        )}
+      </div>
+
+      {subtasks.length > 0 && <Progress value={(completedCount / subtasks.length) * 100} className="h-1.5" />}
+
+      {isLoading ? (
+        <div className="flex justify-center py-2">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <div className="space-y-1">
+          {subtasks.map((subtask) => (
+            <div
+              key={subtask.id}
+              className="group flex items-center gap-3 rounded-md px-2 py-1 hover-elevate"
+              data-testid={`subtask-${subtask.id}`}
+            >
+              <Checkbox
+                checked={subtask.isCompleted}
+                onCheckedChange={(checked) =>
+                  toggleSubtaskMutation.mutate({ id: subtask.id, isCompleted: checked === true })
+                }
+                disabled={!permissions.canChangeStatus}
+                data-testid={`checkbox-subtask-${subtask.id}`}
+              />
+              <span
+                className={`flex-1 text-sm break-words ${
+                  subtask.isCompleted ? "line-through text-muted-foreground" : ""
+                }`}
+              >
+                {subtask.title}
+              </span>
+              {permissions.canEdit && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 invisible group-hover:visible"
+                  onClick={() => deleteSubtaskMutation.mutate(subtask.id)}
+                  disabled={deleteSubtaskMutation.isPending}
+                  data-testid={`button-delete-subtask-${subtask.id}`}
+                  aria-label="Delete subtask"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {permissions.canEdit && (
+        <div className="flex items-center gap-2">
+          <Input
+            placeholder="Add a subtask..."
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                handleAdd();
+              }
+            }}
+            className="h-8"
+            data-testid="input-new-subtask"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={handleAdd}
+            disabled={!draft.trim() || createSubtaskMutation.isPending}
+            data-testid="button-add-subtask"
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
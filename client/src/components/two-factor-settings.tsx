@@ -0,0 +1,417 @@
+import { useEffect, useRef, useState, type FormEvent } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Copy, Download, KeyRound, Loader2, ShieldCheck, ShieldOff } from "lucide-react";
+import { queryClient, apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { TwoFactorSetup, TwoFactorStatus } from "@shared/schema";
+
+const statusQueryKey = ["/api/auth/2fa"];
+
+function CodeInput({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <div className="flex justify-center">
+      <InputOTP maxLength={6} value={value} onChange={onChange} autoFocus data-testid="input-two-factor-code">
+        <InputOTPGroup>
+          {Array.from({ length: 6 }, (_, index) => (
+            <InputOTPSlot key={index} index={index} />
+          ))}
+        </InputOTPGroup>
+      </InputOTP>
+    </div>
+  );
+}
+
+// Shown once after enabling or regenerating; the server keeps only hashes
+function RecoveryCodes({ codes }: { codes: string[] }) {
+  const { toast } = useToast();
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(codes.join("\n"));
+    toast({ title: "Recovery codes copied" });
+  };
+
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([codes.join("\n") + "\n"], { type: "text/plain" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "taskflow-recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Save these codes somewhere safe. Each one signs you in once if you lose access to your authenticator app.
+        They will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-md border bg-muted/50 p-3 font-mono text-sm" data-testid="list-recovery-codes">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={copy} data-testid="button-copy-recovery-codes">
+          <Copy className="h-4 w-4 mr-2" />
+          Copy
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={download} data-testid="button-download-recovery-codes">
+          <Download className="h-4 w-4 mr-2" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// The dialogs are mounted only while open, so each opening starts fresh
+interface DialogProps {
+  onClose: () => void;
+}
+
+function SetupDialog({ onClose }: DialogProps) {
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/2fa/setup");
+      return response.json() as Promise<TwoFactorSetup>;
+    },
+    onSuccess: (result) => setSetup(result),
+    onError: (err: Error) => setError(getErrorMessage(err)),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (value: string) => {
+      const response = await apiRequest("POST", "/api/auth/2fa/enable", { code: value });
+      return response.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: (result) => {
+      setRecoveryCodes(result.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: statusQueryKey });
+    },
+    onError: (err: Error) => {
+      setCode("");
+      setError(getErrorMessage(err));
+    },
+  });
+
+  // Every setup request replaces the pending secret, so it must run once
+  // (StrictMode runs effects twice in development)
+  const started = useRef(false);
+  useEffect(() => {
+    if (started.current) return;
+    started.current = true;
+    setupMutation.mutate();
+  }, [setupMutation]);
+
+  const onSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    enableMutation.mutate(code);
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md" data-testid="dialog-two-factor-setup">
+        <DialogHeader>
+          <DialogTitle>{recoveryCodes ? "Save your recovery codes" : "Set up two-factor authentication"}</DialogTitle>
+          {!recoveryCodes && (
+            <DialogDescription>
+              Scan the QR code with an authenticator app, then enter the 6-digit code it shows.
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {recoveryCodes ? (
+          <>
+            <RecoveryCodes codes={recoveryCodes} />
+            <DialogFooter>
+              <Button onClick={onClose} data-testid="button-two-factor-done">
+                Done
+              </Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <form onSubmit={onSubmit} className="space-y-4">
+            {error && (
+              <div className="p-3 rounded-lg bg-destructive/10 text-destructive text-sm" data-testid="text-two-factor-error">
+                {error}
+              </div>
+            )}
+
+            {setup ? (
+              <div className="flex flex-col items-center gap-3">
+                <img src={setup.qrCode} alt="QR code for your authenticator app" className="h-48 w-48 rounded-md border bg-white p-2" />
+                <div className="text-center text-sm text-muted-foreground">
+                  <p>Can't scan it? Enter this key instead:</p>
+                  <code className="break-all font-mono text-foreground" data-testid="text-two-factor-secret">
+                    {setup.secret}
+                  </code>
+                </div>
+              </div>
+            ) : (
+              <Skeleton className="mx-auto h-48 w-48" />
+            )}
+
+            <CodeInput value={code} onChange={setCode} />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={!setup || code.length !== 6 || enableMutation.isPending}
+                data-testid="button-enable-two-factor"
+              >
+                {enableMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Enable
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function RegenerateDialog({ onClose }: DialogProps) {
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (value: string) => {
+      const response = await apiRequest("POST", "/api/auth/2fa/recovery-codes", { code: value });
+      return response.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: (result) => {
+      setRecoveryCodes(result.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: statusQueryKey });
+    },
+    onError: (err: Error) => {
+      setCode("");
+      setError(getErrorMessage(err));
+    },
+  });
+
+
+  const onSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    regenerateMutation.mutate(code);
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md" data-testid="dialog-regenerate-recovery-codes">
+        <DialogHeader>
+          <DialogTitle>New recovery codes</DialogTitle>
+          {!recoveryCodes && (
+            <DialogDescription>
+              Enter a code from your authenticator app. Your current recovery codes will stop working.
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {recoveryCodes ? (
+          <>
+            <RecoveryCodes codes={recoveryCodes} />
+            <DialogFooter>
+              <Button onClick={onClose}>Done</Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <form onSubmit={onSubmit} className="space-y-4">
+            {error && (
+              <div className="p-3 rounded-lg bg-destructive/10 text-destructive text-sm">{error}</div>
+            )}
+            <CodeInput value={code} onChange={setCode} />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={code.length !== 6 || regenerateMutation.isPending}
+                data-testid="button-regenerate-recovery-codes"
+              >
+                {regenerateMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Generate
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function DisableDialog({ onClose }: DialogProps) {
+  const { toast } = useToast();
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/auth/2fa/disable", { password, code });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: statusQueryKey });
+      toast({ title: "Two-factor authentication disabled" });
+      onClose();
+    },
+    onError: (err: Error) => {
+      setCode("");
+      setError(getErrorMessage(err));
+    },
+  });
+
+
+  const onSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    disableMutation.mutate();
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md" data-testid="dialog-disable-two-factor">
+        <DialogHeader>
+          <DialogTitle>Disable two-factor authentication</DialogTitle>
+          <DialogDescription>
+            Your account will be protected by your password alone. Confirm with your password and a code from your
+            authenticator app or a recovery code.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={onSubmit} className="space-y-4">
+          {error && (
+            <div className="p-3 rounded-lg bg-destructive/10 text-destructive text-sm">{error}</div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="disable-two-factor-password">Password</Label>
+            <Input
+              id="disable-two-factor-password"
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              data-testid="input-disable-two-factor-password"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="disable-two-factor-code">Authentication or recovery code</Label>
+            <Input
+              id="disable-two-factor-code"
+              autoComplete="one-time-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              data-testid="input-disable-two-factor-code"
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              variant="destructive"
+              disabled={!password || !code.trim() || disableMutation.isPending}
+              data-testid="button-disable-two-factor"
+            >
+              {disableMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Disable
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function TwoFactorSettings() {
+  const [dialog, setDialog] = useState<"setup" | "regenerate" | "disable" | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: statusQueryKey,
+  });
+
+  const closeDialog = () => setDialog(null);
+
+  return (
+    <Card data-testid="card-two-factor">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          Two-factor authentication
+          {status?.enabled && <Badge variant="secondary">On</Badge>}
+        </CardTitle>
+        <CardDescription>Ask for a code from an authenticator app when signing in</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !status ? (
+          <Skeleton className="h-10 w-full" />
+        ) : status.enabled ? (
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <ShieldCheck className="h-4 w-4 text-muted-foreground" />
+              <div>
+                <p className="text-sm font-medium">
+                  Enabled{status.enabledAt && ` since ${format(new Date(status.enabledAt), "PPP")}`}
+                </p>
+                <p className="text-sm text-muted-foreground" data-testid="text-recovery-codes-remaining">
+                  {status.recoveryCodesRemaining} {status.recoveryCodesRemaining === 1 ? "recovery code" : "recovery codes"} left
+                </p>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => setDialog("regenerate")} data-testid="button-open-regenerate">
+                <KeyRound className="h-4 w-4 mr-2" />
+                New recovery codes
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setDialog("disable")} data-testid="button-open-disable">
+                <ShieldOff className="h-4 w-4 mr-2" />
+                Disable
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <ShieldOff className="h-4 w-4 text-muted-foreground" />
+              <p className="text-sm text-muted-foreground">Your account is protected by your password only</p>
+            </div>
+            <Button size="sm" onClick={() => setDialog("setup")} data-testid="button-open-setup">
+              Set up
+            </Button>
+          </div>
+        )}
+      </CardContent>
+
+      {dialog === "setup" && <SetupDialog onClose={closeDialog} />}
+      {dialog === "regenerate" && <RegenerateDialog onClose={closeDialog} />}
+      {dialog === "disable" && <DisableDialog onClose={closeDialog} />}
+    </Card>
+  );
+}
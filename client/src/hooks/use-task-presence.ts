@@ -0,0 +1,46 @@
+import { useState, useEffect } from "react";
+import { getSocket, type TaskPresenceEvent, type TaskViewer } from "@/lib/socket";
+
+// Announces that this tab has the task open (and whether it has unsaved
+// edits) and returns everyone who currently has it open, including us
+export function useTaskPresence(taskId: string | undefined, editing: boolean): TaskViewer[] {
+  const [viewers, setViewers] = useState<TaskViewer[]>([]);
+
+  useEffect(() => {
+    if (!taskId) return;
+    const socket = getSocket();
+
+    const handleTaskPresence = (event: TaskPresenceEvent) => {
+      if (event.taskId === taskId) {
+        setViewers(event.viewers);
+      }
+    };
+
+    socket.on("presence:task", handleTaskPresence);
+
+    return () => {
+      socket.off("presence:task", handleTaskPresence);
+      socket.emit("presence:leave");
+      setViewers([]);
+    };
+  }, [taskId]);
+
+  useEffect(() => {
+    if (!taskId) return;
+    const socket = getSocket();
+
+    const announce = () => {
+      socket.emit("presence:view", { taskId, editing });
+    };
+
+    announce();
+    // The server forgets a socket's task when it disconnects
+    socket.on("connect", announce);
+
+    return () => {
+      socket.off("connect", announce);
+    };
+  }, [taskId, editing]);
+
+  return viewers;
+}
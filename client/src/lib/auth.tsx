@@ -1,12 +1,15 @@
 import { createContext, useContext, useState, useEffect, useCallback, type ReactNode } from "react";
 import { useLocation } from "wouter";
-import type { UserPublic } from "@shared/schema";
+import type { TwoFactorChallenge, UserPublic } from "@shared/schema";
 import { connectSocket, disconnectSocket } from "./socket";
+import { queryClient, fetchWithAuth, SESSION_EXPIRED_EVENT } from "./queryClient";
 
 interface AuthContextType {
   user: UserPublic | null;
   isLoading: boolean;
-  login: (email: string, password: string) => Promise<void>;
+  // Resolves with a challenge when the account also needs a two-factor code
+  login: (email: string, password: string) => Promise<TwoFactorChallenge | null>;
+  completeTwoFactorLogin: (challengeToken: string, code: string) => Promise<void>;
   register: (username: string, email: string, password: string, displayName?: string) => Promise<void>;
   logout: () => Promise<void>;
   refreshUser: () => Promise<void>;
@@ -14,6 +17,27 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | null>(null);
 
+// Thrown when the server throttles sign-in or sign-up attempts
+export class RateLimitError extends Error {
+  constructor(
+    message: string,
+    // Seconds until the next attempt is allowed
+    readonly retryAfter: number,
+  ) {
+    super(message);
+    this.name = "RateLimitError";
+  }
+}
+
+async function toAuthError(response: Response, fallback: string): Promise<Error> {
+  const error = await response.json().catch(() => ({}));
+  const message = error.message || fallback;
+  if (response.status === 429) {
+    return new RateLimitError(message, Number(response.headers.get("Retry-After")) || 60);
+  }
+  return new Error(message);
+}
+
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<UserPublic | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -21,9 +45,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const refreshUser = useCallback(async () => {
     try {
-      const response = await fetch("/api/auth/me", {
-        credentials: "include",
-      });
+      const response = await fetchWithAuth("/api/auth/me");
       if (response.ok) {
         const data = await response.json();
         setUser(data.user);
@@ -44,6 +66,18 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     refreshUser();
   }, [refreshUser]);
 
+  // The session was revoked or ran out while the app was open
+  useEffect(() => {
+    const handleSessionExpired = () => {
+      setUser(null);
+      disconnectSocket();
+      queryClient.clear();
+    };
+
+    window.addEventListener(SESSION_EXPIRED_EVENT, handleSessionExpired);
+    return () => window.removeEventListener(SESSION_EXPIRED_EVENT, handleSessionExpired);
+  }, []);
+
   const login = async (email: string, password: string) => {
     const response = await fetch("/api/auth/login", {
       method: "POST",
@@ -53,8 +87,29 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     });
 
     if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || "Login failed");
+      throw await toAuthError(response, "Login failed");
+    }
+
+    const data = await response.json();
+    if (data.twoFactorRequired) {
+      return data as TwoFactorChallenge;
+    }
+    setUser(data.user);
+    connectSocket();
+    setLocation("/");
+    return null;
+  };
+
+  const completeTwoFactorLogin = async (challengeToken: string, code: string) => {
+    const response = await fetch("/api/auth/login/2fa", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify({ challengeToken, code }),
+    });
+
+    if (!response.ok) {
+      throw await toAuthError(response, "Verification failed");
     }
 
     const data = await response.json();
@@ -72,8 +127,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     });
 
     if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || "Registration failed");
+      throw await toAuthError(response, "Registration failed");
     }
 
     const data = await response.json();
@@ -89,11 +143,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     });
     setUser(null);
     disconnectSocket();
+    queryClient.clear();
     setLocation("/login");
   };
 
   return (
-    <AuthContext.Provider value={{ user, isLoading, login, register, logout, refreshUser }}>
+    <AuthContext.Provider value={{ user, isLoading, login, completeTwoFactorLogin, register, logout, refreshUser }}>
       {children}
     </AuthContext.Provider>
   );
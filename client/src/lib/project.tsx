@@ -0,0 +1,44 @@
+import { createContext, useContext, useState, useCallback, type ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { ProjectWithRole } from "@shared/schema";
+
+const STORAGE_KEY = "taskflow_project";
+
+interface ProjectContextType {
+  projects: ProjectWithRole[];
+  currentProject: ProjectWithRole | null;
+  isLoading: boolean;
+  setCurrentProjectId: (id: string) => void;
+}
+
+const ProjectContext = createContext<ProjectContextType | null>(null);
+
+export function ProjectProvider({ children }: { children: ReactNode }) {
+  const { data: projects = [], isLoading } = useQuery<ProjectWithRole[]>({
+    queryKey: ["/api/projects"],
+  });
+
+  const [selectedId, setSelectedId] = useState<string | null>(() => localStorage.getItem(STORAGE_KEY));
+
+  const setCurrentProjectId = useCallback((id: string) => {
+    localStorage.setItem(STORAGE_KEY, id);
+    setSelectedId(id);
+  }, []);
+
+  // Fall back to the first project when the stored one is gone or was never set
+  const currentProject = projects.find((p) => p.id === selectedId) ?? projects[0] ?? null;
+
+  return (
+    <ProjectContext.Provider value={{ projects, currentProject, isLoading, setCurrentProjectId }}>
+      {children}
+    </ProjectContext.Provider>
+  );
+}
+
+export function useProject() {
+  const context = useContext(ProjectContext);
+  if (!context) {
+    throw new Error("useProject must be used within a ProjectProvider");
+  }
+  return context;
+}
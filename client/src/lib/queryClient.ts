@@ -1,4 +1,4 @@
-import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { QueryClient, QueryFunction, type QueryKey } from "@tanstack/react-query";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -7,31 +7,104 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Endpoints whose 401 means bad credentials rather than an expired access token
+const noRefreshUrls = ["/api/auth/login", "/api/auth/register", "/api/auth/refresh", "/api/auth/logout"];
+
+// Dispatched on window when the session can no longer be refreshed
+export const SESSION_EXPIRED_EVENT = "auth:expired";
+
+let refreshing: Promise<boolean> | null = null;
+
+// Trades the refresh cookie for a new access token; concurrent callers share
+// one request, since each refresh rotates the refresh token
+export function refreshSession(): Promise<boolean> {
+  if (!refreshing) {
+    refreshing = fetch("/api/auth/refresh", { method: "POST", credentials: "include" })
+      .then((res) => res.ok)
+      .catch(() => false)
+      .finally(() => {
+        refreshing = null;
+      });
+  }
+  return refreshing;
+}
+
+// fetch with the auth cookies; a 401 refreshes the session once and retries
+export async function fetchWithAuth(url: string, init: RequestInit = {}): Promise<Response> {
+  const res = await fetch(url, { ...init, credentials: "include" });
+  if (res.status !== 401 || noRefreshUrls.some((path) => url.startsWith(path))) {
+    return res;
+  }
+  if (!(await refreshSession())) {
+    window.dispatchEvent(new Event(SESSION_EXPIRED_EVENT));
+    return res;
+  }
+  return fetch(url, { ...init, credentials: "include" });
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
-  const res = await fetch(url, {
+  const res = await fetchWithAuth(url, {
     method,
     headers: data ? { "Content-Type": "application/json" } : {},
     body: data ? JSON.stringify(data) : undefined,
-    credentials: "include",
   });
 
   await throwIfResNotOk(res);
   return res;
 }
 
+// apiRequest errors read "<status>: <body>"; this splits them back into the
+// status code and the parsed JSON body (or the raw text)
+export function parseApiError(error: Error): { status?: number; body: unknown } {
+  const match = /^(\d{3}): ([\s\S]*)$/.exec(error.message);
+  if (!match) {
+    return { body: error.message };
+  }
+  try {
+    return { status: Number(match[1]), body: JSON.parse(match[2]) };
+  } catch {
+    return { status: Number(match[1]), body: match[2] };
+  }
+}
+
+// The server's { message } when there is one
+export function getErrorMessage(error: Error): string {
+  const { body } = parseApiError(error);
+  if (body && typeof body === "object" && "message" in body) {
+    return String(body.message);
+  }
+  return String(body);
+}
+
+// A trailing plain object in the query key is sent as the query string,
+// e.g. ["/api/tasks", { projectId }] -> /api/tasks?projectId=...
+export function buildQueryUrl(queryKey: QueryKey): string {
+  const last = queryKey[queryKey.length - 1];
+  if (last && typeof last === "object" && !Array.isArray(last)) {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(last)) {
+      if (value !== undefined && value !== null && value !== "") {
+        params.set(key, String(value));
+      }
+    }
+    const path = queryKey.slice(0, -1).join("/");
+    const search = params.toString();
+    return search ? `${path}?${search}` : path;
+  }
+  return queryKey.join("/");
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey.join("/") as string, {
-      credentials: "include",
-    });
+    const res = await fetchWithAuth(buildQueryUrl(queryKey));
 
     if (unauthorizedBehavior === "returnNull" && res.status === 401) {
       return null;
@@ -41,6 +114,31 @@ export const getQueryFn: <T>(options: {
     return await res.json();
   };
 
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+// queryFn for useInfiniteQuery against list endpoints that return the next
+// page's cursor in the X-Next-Cursor header.
+export async function fetchPage<T>({
+  queryKey,
+  pageParam,
+}: {
+  queryKey: QueryKey;
+  pageParam?: string | null;
+}): Promise<Page<T>> {
+  const last = queryKey[queryKey.length - 1];
+  const hasParams = !!last && typeof last === "object" && !Array.isArray(last);
+  const path = hasParams ? queryKey.slice(0, -1) : queryKey;
+  const params = hasParams ? (last as Record<string, unknown>) : {};
+  const key = pageParam ? [...path, { ...params, cursor: pageParam }] : queryKey;
+  const res = await fetchWithAuth(buildQueryUrl(key));
+
+  await throwIfResNotOk(res);
+  return { items: await res.json(), nextCursor: res.headers.get("X-Next-Cursor") };
+}
+
 export const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
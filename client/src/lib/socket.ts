@@ -1,6 +1,26 @@
 import { io, Socket } from "socket.io-client";
+import { queryClient, refreshSession, SESSION_EXPIRED_EVENT } from "./queryClient";
 
 let socket: Socket | null = null;
+let authToken: string | undefined;
+
+// The last event this client has seen. It is sent with every (re)connect so
+// the server can replay what was broadcast while the socket was down, or
+// answer with events:resync when it no longer has those events.
+let position: EventPosition | null = null;
+
+export interface EventPosition {
+  epoch: string;
+  seq: number;
+}
+
+export interface EventMeta {
+  seq: number;
+}
+
+function isEventMeta(value: unknown): value is EventMeta {
+  return !!value && typeof value === "object" && typeof (value as EventMeta).seq === "number";
+}
 
 export function getSocket(): Socket {
   if (!socket) {
@@ -10,6 +30,37 @@ export function getSocket(): Socket {
       path: "/ws",
       transports: ["websocket", "polling"],
       autoConnect: false,
+      auth: (cb) => cb({ token: authToken, resume: position ?? undefined }),
+    });
+
+    socket.onAny((_event: string, _data: unknown, meta?: unknown) => {
+      if (position && isEventMeta(meta) && meta.seq > position.seq) {
+        position = { ...position, seq: meta.seq };
+      }
+    });
+    socket.on("events:position", (current: EventPosition) => {
+      position = current;
+    });
+    // Too much was missed to replay, so everything cached may be stale
+    socket.on("events:resync", () => {
+      queryClient.invalidateQueries();
+    });
+
+    // The handshake rejects expired access tokens, and the server drops the
+    // sockets of revoked sessions; both are retried once the session has
+    // been refreshed
+    socket.on("connect_error", async () => {
+      if (socket?.active) return;
+      if (await refreshSession()) {
+        socket?.connect();
+      } else {
+        window.dispatchEvent(new Event(SESSION_EXPIRED_EVENT));
+      }
+    });
+    socket.on("disconnect", (reason) => {
+      if (reason === "io server disconnect") {
+        socket?.connect();
+      }
     });
   }
   return socket;
@@ -18,7 +69,7 @@ export function getSocket(): Socket {
 export function connectSocket(token?: string): void {
   const s = getSocket();
   if (token) {
-    s.auth = { token };
+    authToken = token;
   }
   if (!s.connected) {
     s.connect();
@@ -29,9 +80,16 @@ export function disconnectSocket(): void {
   if (socket) {
     socket.disconnect();
   }
+  position = null;
 }
 
-export type TaskEventType = "task:created" | "task:updated" | "task:deleted" | "task:assigned";
+export type TaskEventType =
+  | "task:created"
+  | "task:updated"
+  | "task:deleted"
+  | "task:assigned"
+  | "task:due_soon"
+  | "task:overdue";
 
 export interface TaskEvent {
   type: TaskEventType;
@@ -39,3 +97,44 @@ export interface TaskEvent {
   userId?: string;
   data?: unknown;
 }
+
+export type SubtaskEventType = "subtask:created" | "subtask:updated" | "subtask:deleted";
+
+export interface SubtaskEvent {
+  taskId: string;
+  subtaskId: string;
+  data?: unknown;
+}
+
+export type DependencyEventType = "dependency:created" | "dependency:deleted";
+
+export interface DependencyEvent {
+  taskId: string;
+  blockerId: string;
+}
+
+export type CommentEventType = "comment:created" | "comment:updated" | "comment:deleted";
+
+export interface CommentEvent {
+  taskId: string;
+  commentId: string;
+  data?: unknown;
+}
+
+export type PresenceEventType = "presence:online" | "presence:offline";
+
+export interface PresenceEvent {
+  userId: string;
+}
+
+export interface TaskViewer {
+  userId: string;
+  editing: boolean;
+}
+
+export interface TaskPresenceEvent {
+  taskId: string;
+  viewers: TaskViewer[];
+}
+
+export type NotificationEventType = "notification:created" | "notification:read" | "notification:read_all";
@@ -0,0 +1,328 @@
+import { useState, useMemo, useEffect, type DragEvent } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Plus } from "lucide-react";
+import { queryClient, apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { useAuth } from "@/lib/auth";
+import { useProject } from "@/lib/project";
+import { getSocket, type TaskEvent } from "@/lib/socket";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { TaskCard } from "@/components/task-card";
+import { TaskSkeleton } from "@/components/task-skeleton";
+import { TaskModal } from "@/components/task-modal";
+import { canCreateTask, getTaskPermissions } from "@shared/permissions";
+import type { TaskWithRelations, UserPublic, Status } from "@shared/schema";
+
+const columns: { status: Status; label: string }[] = [
+  { status: "todo", label: "To Do" },
+  { status: "in_progress", label: "In Progress" },
+  { status: "review", label: "Review" },
+  { status: "completed", label: "Completed" },
+];
+
+type DropTarget = { status: Status; index: number };
+
+type MoveVariables = { task: TaskWithRelations; status: Status; position: number };
+
+function byPosition(a: TaskWithRelations, b: TaskWithRelations): number {
+  return a.position - b.position || new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+}
+
+// A dropped card takes the midpoint of its new neighbours so that only the
+// moved task has to be written
+function positionBetween(before?: TaskWithRelations, after?: TaskWithRelations): number {
+  if (before && after) return (before.position + after.position) / 2;
+  if (before) return before.position + 1;
+  if (after) return after.position - 1;
+  return 1;
+}
+
+export default function BoardPage() {
+  const { user } = useAuth();
+  const { currentProject } = useProject();
+  const { toast } = useToast();
+  const projectId = currentProject?.id;
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [selectedTask, setSelectedTask] = useState<TaskWithRelations | null>(null);
+  const [draggedTaskId, setDraggedTaskId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+
+  const boardKey = ["/api/tasks", { projectId }];
+
+  const { data: tasks = [], isLoading: tasksLoading } = useQuery<TaskWithRelations[]>({
+    queryKey: boardKey,
+    enabled: !!projectId,
+  });
+
+  const { data: users = [] } = useQuery<UserPublic[]>({
+    queryKey: ["/api/projects", projectId, "members"],
+    enabled: !!projectId,
+  });
+
+  const createTaskMutation = useMutation({
+    mutationFn: async (data: Record<string, unknown>) => {
+      return apiRequest("POST", "/api/tasks", { ...data, projectId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+    },
+  });
+
+  const updateTaskMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: unknown }) => {
+      return apiRequest("PATCH", `/api/tasks/${id}`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+    },
+  });
+
+  const deleteTaskMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/tasks/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+    },
+  });
+
+  const moveTaskMutation = useMutation({
+    mutationFn: async ({ task, status, position }: MoveVariables) => {
+      // Reordering within a column is the one edit that needs no version
+      const data = status === task.status ? { position } : { status, position, version: task.version };
+      return apiRequest("PATCH", `/api/tasks/${task.id}`, data);
+    },
+    onMutate: async ({ task, status, position }: MoveVariables) => {
+      await queryClient.cancelQueries({ queryKey: boardKey });
+      const previous = queryClient.getQueryData<TaskWithRelations[]>(boardKey);
+      queryClient.setQueryData<TaskWithRelations[]>(boardKey, (old) =>
+        old?.map((t) => (t.id === task.id ? { ...t, status, position } : t)),
+      );
+      return { previous };
+    },
+    onError: (error, _variables, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(boardKey, context.previous);
+      }
+      toast({ title: "Could not move task", description: getErrorMessage(error), variant: "destructive" });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+    },
+  });
+
+  useEffect(() => {
+    const socket = getSocket();
+    const key = ["/api/tasks", { projectId }];
+
+    // Moves made elsewhere arrive with the full task, so the card jumps to its
+    // new column and slot straight away; the refetch then picks up anything
+    // derived from it, such as the blocked state of dependent tasks
+    const handleTaskUpdated = (event: TaskEvent) => {
+      const updated = event.data as TaskWithRelations | undefined;
+      if (updated && updated.projectId === projectId) {
+        queryClient.setQueryData<TaskWithRelations[]>(key, (old) =>
+          old?.map((t) => (t.id === updated.id ? updated : t)),
+        );
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+    };
+
+    const handleTaskChanged = () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+    };
+
+    socket.on("task:updated", handleTaskUpdated);
+    socket.on("task:created", handleTaskChanged);
+    socket.on("task:deleted", handleTaskChanged);
+
+    return () => {
+      socket.off("task:updated", handleTaskUpdated);
+      socket.off("task:created", handleTaskChanged);
+      socket.off("task:deleted", handleTaskChanged);
+    };
+  }, [projectId]);
+
+  const tasksByStatus = useMemo(() => {
+    const grouped: Record<Status, TaskWithRelations[]> = { todo: [], in_progress: [], review: [], completed: [] };
+    for (const task of tasks) {
+      grouped[task.status].push(task);
+    }
+    for (const column of columns) {
+      grouped[column.status].sort(byPosition);
+    }
+    return grouped;
+  }, [tasks]);
+
+  const role = currentProject?.role;
+  const canCreate = !!role && canCreateTask(role);
+  const permissionsFor = (task: TaskWithRelations) =>
+    role && user ? getTaskPermissions(role, task, user.id) : undefined;
+  const selectedTaskPermissions = selectedTask ? permissionsFor(selectedTask) : undefined;
+
+  const handleOpenModal = (task?: TaskWithRelations) => {
+    setSelectedTask(task || null);
+    setIsModalOpen(true);
+  };
+
+  const handleSaveTask = async (data: Record<string, unknown>) => {
+    if (selectedTask) {
+      await updateTaskMutation.mutateAsync({ id: selectedTask.id, data });
+    } else {
+      await createTaskMutation.mutateAsync(data);
+    }
+  };
+
+  const handleDeleteTask = async () => {
+    if (selectedTask) {
+      await deleteTaskMutation.mutateAsync(selectedTask.id);
+    }
+  };
+
+  const handleStatusChange = async (task: TaskWithRelations, completed: boolean) => {
+    await updateTaskMutation.mutateAsync({
+      id: task.id,
+      data: { status: completed ? "completed" : "todo", version: task.version },
+    });
+  };
+
+  const handleDragStart = (e: DragEvent<HTMLDivElement>, task: TaskWithRelations) => {
+    e.dataTransfer.effectAllowed = "move";
+    e.dataTransfer.setData("text/plain", task.id);
+    setDraggedTaskId(task.id);
+  };
+
+  const handleDragEnd = () => {
+    setDraggedTaskId(null);
+    setDropTarget(null);
+  };
+
+  const handleCardDragOver = (e: DragEvent<HTMLDivElement>, status: Status, index: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const isLowerHalf = e.clientY > rect.top + rect.height / 2;
+    setDropTarget({ status, index: isLowerHalf ? index + 1 : index });
+  };
+
+  const handleColumnDragOver = (e: DragEvent<HTMLDivElement>, status: Status) => {
+    e.preventDefault();
+    if (dropTarget?.status !== status) {
+      setDropTarget({ status, index: tasksByStatus[status].length });
+    }
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>, status: Status) => {
+    e.preventDefault();
+    const taskId = e.dataTransfer.getData("text/plain") || draggedTaskId;
+    const task = tasks.find((t) => t.id === taskId);
+    const target = dropTarget?.status === status ? dropTarget : { status, index: tasksByStatus[status].length };
+    handleDragEnd();
+    if (!task) return;
+
+    const column = tasksByStatus[status];
+    let index = target.index;
+    if (task.status === status) {
+      const from = column.findIndex((t) => t.id === task.id);
+      if (from === index || from + 1 === index) return;
+      if (from < index) index -= 1;
+    }
+    const siblings = column.filter((t) => t.id !== task.id);
+    const position = positionBetween(siblings[index - 1], siblings[index]);
+    moveTaskMutation.mutate({ task, status, position });
+  };
+
+  return (
+    <div className="p-6 lg:p-8 space-y-6 h-full flex flex-col">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div>
+          <h1 className="text-3xl font-bold" data-testid="text-board-title">
+            Board
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Drag tasks between columns to move them through the workflow
+          </p>
+        </div>
+        {canCreate && (
+          <Button onClick={() => handleOpenModal()} data-testid="button-create-task">
+            <Plus className="h-4 w-4 mr-2" />
+            New Task
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4 flex-1 min-h-0">
+        {columns.map((column) => {
+          const columnTasks = tasksByStatus[column.status];
+          const isTarget = dropTarget?.status === column.status;
+          return (
+            <div
+              key={column.status}
+              className={`flex flex-col rounded-lg border bg-muted/40 min-h-[200px] transition-colors ${
+                isTarget ? "border-primary" : ""
+              }`}
+              onDragOver={(e) => handleColumnDragOver(e, column.status)}
+              onDrop={(e) => handleDrop(e, column.status)}
+              data-testid={`column-${column.status}`}
+            >
+              <div className="flex items-center justify-between gap-2 px-4 py-3 border-b">
+                <h2 className="font-semibold">{column.label}</h2>
+                <Badge variant="secondary" className="text-xs" data-testid={`badge-column-count-${column.status}`}>
+                  {columnTasks.length}
+                </Badge>
+              </div>
+              <div className="flex-1 overflow-y-auto p-3 space-y-3">
+                {tasksLoading ? (
+                  Array.from({ length: 2 }).map((_, i) => <TaskSkeleton key={i} />)
+                ) : (
+                  <>
+                    {columnTasks.map((task, index) => {
+                      const canMove = permissionsFor(task)?.canChangeStatus ?? false;
+                      return (
+                        <div key={task.id}>
+                          {isTarget && dropTarget.index === index && (
+                            <div className="h-0.5 mb-3 rounded bg-primary" />
+                          )}
+                          <div
+                            draggable={canMove}
+                            onDragStart={(e) => handleDragStart(e, task)}
+                            onDragEnd={handleDragEnd}
+                            onDragOver={(e) => handleCardDragOver(e, column.status, index)}
+                            className={draggedTaskId === task.id ? "opacity-50" : ""}
+                            data-testid={`board-task-${task.id}`}
+                          >
+                            <TaskCard
+                              task={task}
+                              onClick={() => handleOpenModal(task)}
+                              onStatusChange={(completed) => handleStatusChange(task, completed)}
+                            />
+                          </div>
+                        </div>
+                      );
+                    })}
+                    {isTarget && dropTarget.index === columnTasks.length && (
+                      <div className="h-0.5 rounded bg-primary" />
+                    )}
+                  </>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <TaskModal
+        open={isModalOpen}
+        onOpenChange={setIsModalOpen}
+        task={selectedTask}
+        users={users}
+        permissions={selectedTaskPermissions}
+        onSave={handleSaveTask}
+        onDelete={handleDeleteTask}
+        isSaving={createTaskMutation.isPending || updateTaskMutation.isPending}
+        isDeleting={deleteTaskMutation.isPending}
+      />
+    </div>
+  );
+}
@@ -18,6 +18,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
+import { useProject } from "@/lib/project";
 import type { TaskWithRelations, Priority } from "@shared/schema";
 
 const priorityColors: Record<Priority, string> = {
@@ -30,16 +31,33 @@ const priorityColors: Record<Priority, string> = {
 export default function CalendarPage() {
   const [currentMonth, setCurrentMonth] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
+  const { currentProject } = useProject();
+  const projectId = currentProject?.id;
 
+  const visibleRange = useMemo(() => {
+    return {
+      start: startOfWeek(startOfMonth(currentMonth)),
+      end: endOfWeek(endOfMonth(currentMonth)),
+    };
+  }, [currentMonth]);
+
+  // Only fetch tasks due within the visible weeks
   const { data: tasks = [] } = useQuery<TaskWithRelations[]>({
-    queryKey: ["/api/tasks"],
+    queryKey: [
+      "/api/tasks",
+      {
+        projectId,
+        dueFrom: visibleRange.start.toISOString(),
+        dueTo: visibleRange.end.toISOString(),
+        sort: "dueDate",
+      },
+    ],
+    enabled: !!projectId,
   });
 
   const calendarDays = useMemo(() => {
-    const start = startOfWeek(startOfMonth(currentMonth));
-    const end = endOfWeek(endOfMonth(currentMonth));
-    return eachDayOfInterval({ start, end });
-  }, [currentMonth]);
+    return eachDayOfInterval(visibleRange);
+  }, [visibleRange]);
 
   const tasksByDate = useMemo(() => {
     const map = new Map<string, TaskWithRelations[]>();
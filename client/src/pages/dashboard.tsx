@@ -1,9 +1,9 @@
 import { useState, useMemo, useCallback, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Plus, AlertTriangle, Clock, UserCheck } from "lucide-react";
-import { isPast, isToday } from "date-fns";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useAuth } from "@/lib/auth";
+import { useProject } from "@/lib/project";
 import { getSocket } from "@/lib/socket";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -13,25 +13,31 @@ import { StatsCards } from "@/components/stats-cards";
 import { TaskList } from "@/components/task-list";
 import { TaskModal } from "@/components/task-modal";
 import { NotificationStack, type Notification } from "@/components/notification-toast";
+import { canCreateTask, getTaskPermissions } from "@shared/permissions";
+import { isTaskOverdue } from "@shared/due-dates";
 import type { TaskWithRelations, UserPublic } from "@shared/schema";
 
 export default function DashboardPage() {
   const { user } = useAuth();
+  const { currentProject } = useProject();
+  const projectId = currentProject?.id;
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [selectedTask, setSelectedTask] = useState<TaskWithRelations | null>(null);
   const [notifications, setNotifications] = useState<Notification[]>([]);
 
   const { data: tasks = [], isLoading: tasksLoading } = useQuery<TaskWithRelations[]>({
-    queryKey: ["/api/tasks"],
+    queryKey: ["/api/tasks", { projectId }],
+    enabled: !!projectId,
   });
 
   const { data: users = [] } = useQuery<UserPublic[]>({
-    queryKey: ["/api/users"],
+    queryKey: ["/api/projects", projectId, "members"],
+    enabled: !!projectId,
   });
 
   const createTaskMutation = useMutation({
-    mutationFn: async (data: unknown) => {
-      return apiRequest("POST", "/api/tasks", data);
+    mutationFn: async (data: Record<string, unknown>) => {
+      return apiRequest("POST", "/api/tasks", { ...data, projectId });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
@@ -105,9 +111,7 @@ export default function DashboardPage() {
   const stats = useMemo(() => {
     const assignedToMe = tasks.filter((t) => t.assignedToId === user?.id).length;
     const createdByMe = tasks.filter((t) => t.creatorId === user?.id).length;
-    const overdue = tasks.filter(
-      (t) => t.dueDate && isPast(new Date(t.dueDate)) && !isToday(new Date(t.dueDate)) && t.status !== "completed"
-    ).length;
+    const overdue = tasks.filter((t) => isTaskOverdue(t)).length;
     const completed = tasks.filter((t) => t.status === "completed").length;
     return { assignedToMe, createdByMe, overdue, completed };
   }, [tasks, user?.id]);
@@ -125,9 +129,7 @@ export default function DashboardPage() {
 
   const overdueTasks = useMemo(() => {
     return tasks
-      .filter(
-        (t) => t.dueDate && isPast(new Date(t.dueDate)) && !isToday(new Date(t.dueDate)) && t.status !== "completed"
-      )
+      .filter((t) => isTaskOverdue(t))
       .sort((a, b) => new Date(a.dueDate!).getTime() - new Date(b.dueDate!).getTime());
   }, [tasks]);
 
@@ -138,12 +140,18 @@ export default function DashboardPage() {
       .slice(0, 5);
   }, [tasks, user?.id]);
 
+  const canCreate = !!currentProject && canCreateTask(currentProject.role);
+  const selectedTaskPermissions =
+    selectedTask && currentProject && user
+      ? getTaskPermissions(currentProject.role, selectedTask, user.id)
+      : undefined;
+
   const handleOpenModal = (task?: TaskWithRelations) => {
     setSelectedTask(task || null);
     setIsModalOpen(true);
   };
 
-  const handleSaveTask = async (data: unknown) => {
+  const handleSaveTask = async (data: Record<string, unknown>) => {
     if (selectedTask) {
       await updateTaskMutation.mutateAsync({ id: selectedTask.id, data });
     } else {
@@ -157,10 +165,10 @@ export default function DashboardPage() {
     }
   };
 
-  const handleStatusChange = async (taskId: string, completed: boolean) => {
+  const handleStatusChange = async (task: TaskWithRelations, completed: boolean) => {
     await updateTaskMutation.mutateAsync({
-      id: taskId,
-      data: { status: completed ? "completed" : "todo" },
+      id: task.id,
+      data: { status: completed ? "completed" : "todo", version: task.version },
     });
   };
 
@@ -175,10 +183,12 @@ export default function DashboardPage() {
             Welcome back, {user?.displayName || user?.username}
           </p>
         </div>
-        <Button onClick={() => handleOpenModal()} data-testid="button-create-task">
-          <Plus className="h-4 w-4 mr-2" />
-          New Task
-        </Button>
+        {canCreate && (
+          <Button onClick={() => handleOpenModal()} data-testid="button-create-task">
+            <Plus className="h-4 w-4 mr-2" />
+            New Task
+          </Button>
+        )}
       </div>
 
       <StatsCards
@@ -271,6 +281,7 @@ export default function DashboardPage() {
         onOpenChange={setIsModalOpen}
         task={selectedTask}
         users={users}
+        permissions={selectedTaskPermissions}
         onSave={handleSaveTask}
         onDelete={handleDeleteTask}
         isSaving={createTaskMutation.isPending || updateTaskMutation.isPending}
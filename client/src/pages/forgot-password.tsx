@@ -0,0 +1,124 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { CheckSquare, Loader2, MailCheck } from "lucide-react";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email("Please enter a valid email address"),
+});
+
+type ForgotPasswordFormValues = z.infer<typeof forgotPasswordSchema>;
+
+export default function ForgotPasswordPage() {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+
+  const form = useForm<ForgotPasswordFormValues>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: {
+      email: "",
+    },
+  });
+
+  const onSubmit = async (data: ForgotPasswordFormValues) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await apiRequest("POST", "/api/auth/forgot-password", data);
+      const result = await response.json();
+      setSentMessage(result.message);
+    } catch (err) {
+      setError(err instanceof Error ? getErrorMessage(err) : "Something went wrong. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center space-y-4">
+          <div className="flex justify-center">
+            <div className="flex h-14 w-14 items-center justify-center rounded-xl bg-primary">
+              <CheckSquare className="h-8 w-8 text-primary-foreground" />
+            </div>
+          </div>
+          <div>
+            <CardTitle className="text-2xl font-bold" data-testid="text-forgot-password-title">
+              Forgot your password?
+            </CardTitle>
+            <CardDescription className="mt-2">
+              Enter your email and we will send you a link to reset it
+            </CardDescription>
+          </div>
+        </CardHeader>
+
+        <CardContent>
+          {sentMessage ? (
+            <div className="flex flex-col items-center gap-3 text-center" data-testid="text-forgot-password-sent">
+              <MailCheck className="h-10 w-10 text-primary" />
+              <p className="text-sm text-muted-foreground">{sentMessage}</p>
+            </div>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                {error && (
+                  <div className="p-3 rounded-lg bg-destructive/10 text-destructive text-sm" data-testid="text-forgot-password-error">
+                    {error}
+                  </div>
+                )}
+
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="email"
+                          placeholder="Enter your email"
+                          autoComplete="email"
+                          {...field}
+                          data-testid="input-email"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={isLoading}
+                  data-testid="button-send-reset-link"
+                >
+                  {isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Send reset link
+                </Button>
+              </form>
+            </Form>
+          )}
+        </CardContent>
+
+        <CardFooter className="flex justify-center">
+          <p className="text-sm text-muted-foreground">
+            Remembered it?{" "}
+            <Link href="/login" className="text-primary font-medium hover:underline" data-testid="link-login">
+              Sign in
+            </Link>
+          </p>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -1,14 +1,18 @@
-import { useState } from "react";
-import { Link } from "wouter";
+import { useEffect, useState, type FormEvent } from "react";
+import { Link, useSearch } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { CheckSquare, Loader2, Eye, EyeOff } from "lucide-react";
-import { useAuth } from "@/lib/auth";
+import { CheckSquare, Loader2, Eye, EyeOff, KeyRound } from "lucide-react";
+import { useAuth, RateLimitError } from "@/lib/auth";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Label } from "@/components/ui/label";
+import type { AuthProviders, TwoFactorChallenge } from "@shared/schema";
 
 const loginSchema = z.object({
   email: z.string().email("Please enter a valid email address"),
@@ -17,11 +21,41 @@ const loginSchema = z.object({
 
 type LoginFormValues = z.infer<typeof loginSchema>;
 
+function formatCountdown(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
 export default function LoginPage() {
-  const { login } = useAuth();
+  const { login, completeTwoFactorLogin } = useAuth();
   const [isLoading, setIsLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const searchParams = new URLSearchParams(useSearch());
+  const passwordReset = searchParams.get("reset") === "success";
+  // The SSO callback comes back here with the reason sign-in failed
+  const [error, setError] = useState<string | null>(() => searchParams.get("sso_error"));
+  const { data: providers } = useQuery<AuthProviders>({ queryKey: ["/api/auth/providers"] });
+  const passwordLogin = providers?.passwordLogin ?? true;
+  // Set while the server is throttling sign-in attempts
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const secondsLeft = retryAt ? Math.max(0, Math.ceil((retryAt - now) / 1000)) : 0;
+  // Second step, once the password was accepted for an account with 2FA
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
+  useEffect(() => {
+    if (!retryAt) return;
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= retryAt) {
+        setRetryAt(null);
+        setError(null);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [retryAt]);
 
   const form = useForm<LoginFormValues>({
     resolver: zodResolver(loginSchema),
@@ -31,18 +65,69 @@ export default function LoginPage() {
     },
   });
 
+  const handleError = (err: unknown, fallback: string) => {
+    if (err instanceof RateLimitError) {
+      setNow(Date.now());
+      setRetryAt(Date.now() + err.retryAfter * 1000);
+      setError("Too many sign-in attempts. For your security, please wait before trying again.");
+      return;
+    }
+    setError(err instanceof Error ? err.message : fallback);
+  };
+
   const onSubmit = async (data: LoginFormValues) => {
     setIsLoading(true);
     setError(null);
     try {
-      await login(data.email, data.password);
+      const result = await login(data.email, data.password);
+      if (result) {
+        setChallenge(result);
+        setCode("");
+      }
+    } catch (err) {
+      handleError(err, "Login failed. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const submitCode = async (value: string) => {
+    if (!challenge || !value.trim() || isLoading || secondsLeft > 0) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      await completeTwoFactorLogin(challenge.challengeToken, value);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Login failed. Please try again.");
+      setCode("");
+      handleError(err, "Verification failed. Please try again.");
     } finally {
       setIsLoading(false);
     }
   };
 
+  const onSubmitCode = (event: FormEvent) => {
+    event.preventDefault();
+    submitCode(code);
+  };
+
+  const backToPassword = () => {
+    setChallenge(null);
+    setUseRecoveryCode(false);
+    setCode("");
+    setError(null);
+  };
+
+  const errorMessage = error && (
+    <div className="p-3 rounded-lg bg-destructive/10 text-destructive text-sm" data-testid="text-login-error">
+      {error}
+      {secondsLeft > 0 && (
+        <span className="block mt-1 font-medium" data-testid="text-login-retry-after">
+          You can try again in {formatCountdown(secondsLeft)}.
+        </span>
+      )}
+    </div>
+  );
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-background px-4">
       <Card className="w-full max-w-md">
@@ -54,100 +139,206 @@ export default function LoginPage() {
           </div>
           <div>
             <CardTitle className="text-2xl font-bold" data-testid="text-login-title">
-              Welcome back
+              {challenge ? "Two-factor authentication" : "Welcome back"}
             </CardTitle>
             <CardDescription className="mt-2">
-              Sign in to your TaskFlow account
+              {!challenge && "Sign in to your TaskFlow account"}
+              {challenge && !useRecoveryCode && "Enter the 6-digit code from your authenticator app"}
+              {challenge && useRecoveryCode && "Enter one of the recovery codes you saved when you set up two-factor authentication"}
             </CardDescription>
           </div>
         </CardHeader>
 
         <CardContent>
-          <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-              {error && (
-                <div className="p-3 rounded-lg bg-destructive/10 text-destructive text-sm" data-testid="text-login-error">
-                  {error}
+          {challenge ? (
+            <form onSubmit={onSubmitCode} className="space-y-4">
+              {errorMessage}
+
+              {useRecoveryCode ? (
+                <div className="space-y-2">
+                  <Label htmlFor="recovery-code">Recovery code</Label>
+                  <Input
+                    id="recovery-code"
+                    placeholder="xxxxx-xxxxx"
+                    autoComplete="off"
+                    autoFocus
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    data-testid="input-recovery-code"
+                  />
+                </div>
+              ) : (
+                <div className="flex justify-center">
+                  <InputOTP
+                    maxLength={6}
+                    value={code}
+                    onChange={setCode}
+                    onComplete={submitCode}
+                    autoFocus
+                    data-testid="input-two-factor-code"
+                  >
+                    <InputOTPGroup>
+                      {Array.from({ length: 6 }, (_, index) => (
+                        <InputOTPSlot key={index} index={index} />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
                 </div>
               )}
 
-              <FormField
-                control={form.control}
-                name="email"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Email</FormLabel>
-                    <FormControl>
-                      <Input
-                        type="email"
-                        placeholder="Enter your email"
-                        autoComplete="email"
-                        {...field}
-                        data-testid="input-email"
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <FormField
-                control={form.control}
-                name="password"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Password</FormLabel>
-                    <FormControl>
-                      <div className="relative">
-                        <Input
-                          type={showPassword ? "text" : "password"}
-                          placeholder="Enter your password"
-                          autoComplete="current-password"
-                          {...field}
-                          data-testid="input-password"
-                        />
-                        <Button
-                          type="button"
-                          variant="ghost"
-                          size="icon"
-                          className="absolute right-0 top-0 h-full px-3"
-                          onClick={() => setShowPassword(!showPassword)}
-                          data-testid="button-toggle-password"
-                        >
-                          {showPassword ? (
-                            <EyeOff className="h-4 w-4 text-muted-foreground" />
-                          ) : (
-                            <Eye className="h-4 w-4 text-muted-foreground" />
-                          )}
-                        </Button>
-                      </div>
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
               <Button
                 type="submit"
                 className="w-full"
-                disabled={isLoading}
-                data-testid="button-login"
+                disabled={isLoading || secondsLeft > 0 || !code.trim()}
+                data-testid="button-verify-two-factor"
               >
                 {isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
-                Sign in
+                {secondsLeft > 0 ? `Try again in ${formatCountdown(secondsLeft)}` : "Verify"}
               </Button>
+
+              <div className="flex items-center justify-between text-sm">
+                <button
+                  type="button"
+                  className="text-primary font-medium hover:underline"
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode);
+                    setCode("");
+                  }}
+                  data-testid="button-toggle-recovery-code"
+                >
+                  {useRecoveryCode ? "Use your authenticator app" : "Use a recovery code"}
+                </button>
+                <button
+                  type="button"
+                  className="text-muted-foreground hover:underline"
+                  onClick={backToPassword}
+                  data-testid="button-back-to-password"
+                >
+                  Back
+                </button>
+              </div>
             </form>
-          </Form>
+          ) : (
+            <div className="space-y-4">
+              {passwordReset && !error && (
+                <div className="p-3 rounded-lg bg-primary/10 text-primary text-sm" data-testid="text-password-reset">
+                  Your password has been reset. Sign in with your new password.
+                </div>
+              )}
+
+              {errorMessage}
+
+              {providers?.sso && (
+                <Button asChild variant="outline" className="w-full">
+                  <a href="/api/auth/oidc/login" data-testid="button-sso-login">
+                    <KeyRound className="h-4 w-4 mr-2" />
+                    Sign in with {providers.sso.name}
+                  </a>
+                </Button>
+              )}
+
+              {providers?.sso && passwordLogin && (
+                <div className="flex items-center gap-3 text-xs uppercase text-muted-foreground">
+                  <div className="h-px flex-1 bg-border" />
+                  or
+                  <div className="h-px flex-1 bg-border" />
+                </div>
+              )}
+
+              {passwordLogin && (
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                    <FormField
+                      control={form.control}
+                      name="email"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Email</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="email"
+                              placeholder="Enter your email"
+                              autoComplete="email"
+                              {...field}
+                              data-testid="input-email"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="password"
+                      render={({ field }) => (
+                        <FormItem>
+                          <div className="flex items-center justify-between">
+                            <FormLabel>Password</FormLabel>
+                            <Link
+                              href="/forgot-password"
+                              className="text-sm text-primary font-medium hover:underline"
+                              data-testid="link-forgot-password"
+                            >
+                              Forgot password?
+                            </Link>
+                          </div>
+                          <FormControl>
+                            <div className="relative">
+                              <Input
+                                type={showPassword ? "text" : "password"}
+                                placeholder="Enter your password"
+                                autoComplete="current-password"
+                                {...field}
+                                data-testid="input-password"
+                              />
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="icon"
+                                className="absolute right-0 top-0 h-full px-3"
+                                onClick={() => setShowPassword(!showPassword)}
+                                data-testid="button-toggle-password"
+                              >
+                                {showPassword ? (
+                                  <EyeOff className="h-4 w-4 text-muted-foreground" />
+                                ) : (
+                                  <Eye className="h-4 w-4 text-muted-foreground" />
+                                )}
+                              </Button>
+                            </div>
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <Button
+                      type="submit"
+                      className="w-full"
+                      disabled={isLoading || secondsLeft > 0}
+                      data-testid="button-login"
+                    >
+                      {isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      {secondsLeft > 0 ? `Try again in ${formatCountdown(secondsLeft)}` : "Sign in"}
+                    </Button>
+                  </form>
+                </Form>
+              )}
+            </div>
+          )}
         </CardContent>
 
-        <CardFooter className="flex justify-center">
-          <p className="text-sm text-muted-foreground">
-            Don't have an account?{" "}
-            <Link href="/register" className="text-primary font-medium hover:underline" data-testid="link-register">
-              Sign up
-            </Link>
-          </p>
-        </CardFooter>
+        {passwordLogin && (
+          <CardFooter className="flex justify-center">
+            <p className="text-sm text-muted-foreground">
+              Don't have an account?{" "}
+              <Link href="/register" className="text-primary font-medium hover:underline" data-testid="link-register">
+                Sign up
+              </Link>
+            </p>
+          </CardFooter>
+        )}
       </Card>
     </div>
   );
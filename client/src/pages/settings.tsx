@@ -0,0 +1,227 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { AlarmClock, AlertTriangle, CalendarDays, LogOut, Monitor, Smartphone, UserPlus, type LucideIcon } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { TwoFactorSettings } from "@/components/two-factor-settings";
+import { ApiTokenSettings } from "@/components/api-token-settings";
+import type { EmailPreferenceKey, EmailPreferences, SessionInfo, UpdateEmailPreferences } from "@shared/schema";
+
+const emailOptions: { key: EmailPreferenceKey; title: string; description: string; icon: LucideIcon }[] = [
+  {
+    key: "assigned",
+    title: "Task assigned to me",
+    description: "When someone else assigns you a task",
+    icon: UserPlus,
+  },
+  {
+    key: "dueSoon",
+    title: "Due soon",
+    description: "When one of your tasks is due within a day",
+    icon: AlarmClock,
+  },
+  {
+    key: "overdue",
+    title: "Overdue",
+    description: "When one of your tasks passes its due date without being completed",
+    icon: AlertTriangle,
+  },
+  {
+    key: "dailyDigest",
+    title: "Daily digest",
+    description: "A morning summary of your overdue, due today and upcoming tasks",
+    icon: CalendarDays,
+  },
+];
+
+const browsers: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\//, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const platforms: [RegExp, string][] = [
+  [/iPhone|iPad/, "iOS"],
+  [/Android/, "Android"],
+  [/Windows/, "Windows"],
+  [/Mac OS X/, "macOS"],
+  [/Linux/, "Linux"],
+];
+
+// "Chrome on macOS" for the common browsers, otherwise the raw user agent
+function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device";
+  const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = platforms.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (!browser) return userAgent;
+  return platform ? `${browser} on ${platform}` : browser;
+}
+
+function isMobile(userAgent: string | null): boolean {
+  return !!userAgent && /Mobile|Android|iPhone|iPad/.test(userAgent);
+}
+
+export default function SettingsPage() {
+  const { user, logout } = useAuth();
+  const { toast } = useToast();
+
+  const { data: preferences, isLoading } = useQuery<EmailPreferences>({
+    queryKey: ["/api/users/me/email-preferences"],
+  });
+
+  const updatePreferencesMutation = useMutation({
+    mutationFn: async (data: UpdateEmailPreferences) => {
+      return apiRequest("PATCH", "/api/users/me/email-preferences", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users/me/email-preferences"] });
+    },
+  });
+
+  const { data: sessions, isLoading: sessionsLoading } = useQuery<SessionInfo[]>({
+    queryKey: ["/api/auth/sessions"],
+  });
+
+  const revokeSessionMutation = useMutation({
+    mutationFn: async (session: SessionInfo) => {
+      return apiRequest("DELETE", `/api/auth/sessions/${session.id}`);
+    },
+    onSuccess: (_, session) => {
+      if (session.current) {
+        logout();
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({ title: "Session revoked" });
+    },
+    onError: () => {
+      toast({ title: "Failed to revoke session", variant: "destructive" });
+    },
+  });
+
+  const revokeAllSessionsMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("DELETE", "/api/auth/sessions");
+    },
+    onSuccess: () => {
+      logout();
+    },
+    onError: () => {
+      toast({ title: "Failed to log out everywhere", variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="p-6 lg:p-8 space-y-6 max-w-3xl mx-auto">
+      <div>
+        <h1 className="text-3xl font-bold" data-testid="text-settings-title">
+          Settings
+        </h1>
+        <p className="text-muted-foreground mt-1">Manage notifications and the security of your account</p>
+      </div>
+
+      <Card data-testid="card-email-preferences">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">Email notifications</CardTitle>
+          <CardDescription>Sent to {user?.email}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {emailOptions.map((option) => (
+            <div key={option.key} className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-3">
+                <option.icon className="h-4 w-4 text-muted-foreground" />
+                <div>
+                  <p className="text-sm font-medium">{option.title}</p>
+                  <p className="text-sm text-muted-foreground">{option.description}</p>
+                </div>
+              </div>
+              {isLoading || !preferences ? (
+                <Skeleton className="h-6 w-11 rounded-full" />
+              ) : (
+                <Switch
+                  checked={preferences[option.key]}
+                  onCheckedChange={(checked) => updatePreferencesMutation.mutate({ [option.key]: checked })}
+                  disabled={updatePreferencesMutation.isPending}
+                  data-testid={`switch-email-${option.key}`}
+                />
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <TwoFactorSettings />
+
+      <Card data-testid="card-sessions">
+        <CardHeader className="pb-2 flex flex-row items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="text-base">Sessions</CardTitle>
+            <CardDescription>Devices that are signed in to your account</CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => revokeAllSessionsMutation.mutate()}
+            disabled={revokeAllSessionsMutation.isPending}
+            data-testid="button-logout-everywhere"
+          >
+            <LogOut className="h-4 w-4 mr-2" />
+            Log out everywhere
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {sessionsLoading || !sessions ? (
+            <>
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+            </>
+          ) : (
+            sessions.map((session) => {
+              const DeviceIcon = isMobile(session.userAgent) ? Smartphone : Monitor;
+              return (
+                <div
+                  key={session.id}
+                  className="flex items-center justify-between gap-4"
+                  data-testid={`session-${session.id}`}
+                >
+                  <div className="flex items-center gap-3 min-w-0">
+                    <DeviceIcon className="h-4 w-4 text-muted-foreground shrink-0" />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium flex items-center gap-2">
+                        <span className="truncate">{describeUserAgent(session.userAgent)}</span>
+                        {session.current && <Badge variant="secondary">This device</Badge>}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {session.ipAddress ?? "Unknown IP"} · Active{" "}
+                        {formatDistanceToNow(new Date(session.lastUsedAt), { addSuffix: true })}
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => revokeSessionMutation.mutate(session)}
+                    disabled={revokeSessionMutation.isPending}
+                    data-testid={`button-revoke-session-${session.id}`}
+                  >
+                    {session.current ? "Log out" : "Revoke"}
+                  </Button>
+                </div>
+              );
+            })
+          )}
+        </CardContent>
+      </Card>
+
+      <ApiTokenSettings />
+    </div>
+  );
+}
@@ -1,43 +1,82 @@
 import { useState, useMemo, useEffect, useCallback } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
-import { Plus } from "lucide-react";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useQuery, useInfiniteQuery, useMutation } from "@tanstack/react-query";
+import { Plus, Loader2, Download, Upload } from "lucide-react";
+import { queryClient, apiRequest, buildQueryUrl, fetchPage, getErrorMessage } from "@/lib/queryClient";
 import { useAuth } from "@/lib/auth";
+import { useProject } from "@/lib/project";
 import { getSocket } from "@/lib/socket";
+import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { FilterBar } from "@/components/filter-bar";
 import { TaskList } from "@/components/task-list";
 import { TaskModal } from "@/components/task-modal";
+import { TaskImportDialog } from "@/components/task-import-dialog";
 import { NotificationStack, type Notification } from "@/components/notification-toast";
-import type { TaskWithRelations, UserPublic, Priority, Status } from "@shared/schema";
+import { canCreateTask, getTaskPermissions } from "@shared/permissions";
+import type { TaskWithRelations, UserPublic, Priority, Status, TaskSortKey, TaskFileFormat } from "@shared/schema";
 
-const priorityOrder: Record<Priority, number> = {
-  urgent: 0,
-  high: 1,
-  medium: 2,
-  low: 3,
-};
+const PAGE_SIZE = 50;
+
+// Saves the response of a file download under the name the server gave it
+async function saveDownload(response: Response, fallbackName: string) {
+  const disposition = response.headers.get("Content-Disposition") ?? "";
+  const name = /filename="([^"]+)"/.exec(disposition)?.[1] ?? fallbackName;
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+}
 
 export default function TasksPage() {
   const { user } = useAuth();
+  const { toast } = useToast();
+  const { currentProject } = useProject();
+  const projectId = currentProject?.id;
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [selectedTask, setSelectedTask] = useState<TaskWithRelations | null>(null);
   const [statusFilter, setStatusFilter] = useState<Status | "all">("all");
   const [priorityFilter, setPriorityFilter] = useState<Priority | "all">("all");
-  const [sortBy, setSortBy] = useState<"dueDate" | "createdAt" | "priority">("dueDate");
+  const [assigneeFilter, setAssigneeFilter] = useState<string | "all">("all");
+  const [sortBy, setSortBy] = useState<TaskSortKey>("dueDate");
   const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+
+  const filters = {
+    projectId,
+    status: statusFilter === "all" ? undefined : statusFilter,
+    priority: priorityFilter === "all" ? undefined : priorityFilter,
+    assignedToId: assigneeFilter === "all" ? undefined : assigneeFilter,
+    sort: sortBy,
+  };
 
-  const { data: tasks = [], isLoading: tasksLoading } = useQuery<TaskWithRelations[]>({
-    queryKey: ["/api/tasks"],
+  // Filtering, sorting and paging all happen on the server
+  const {
+    data: taskPages,
+    isLoading: tasksLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/tasks", { ...filters, limit: PAGE_SIZE }],
+    queryFn: fetchPage<TaskWithRelations>,
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!projectId,
   });
 
+  const tasks = useMemo(() => taskPages?.pages.flatMap((page) => page.items) ?? [], [taskPages]);
+
   const { data: users = [] } = useQuery<UserPublic[]>({
-    queryKey: ["/api/users"],
+    queryKey: ["/api/projects", projectId, "members"],
+    enabled: !!projectId,
   });
 
   const createTaskMutation = useMutation({
-    mutationFn: async (data: unknown) => {
-      return apiRequest("POST", "/api/tasks", data);
+    mutationFn: async (data: Record<string, unknown>) => {
+      return apiRequest("POST", "/api/tasks", { ...data, projectId });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
@@ -53,6 +92,17 @@ export default function TasksPage() {
     },
   });
 
+  // The export holds every task matching the current filters, not just the loaded pages
+  const exportMutation = useMutation({
+    mutationFn: async (format: TaskFileFormat) => {
+      const response = await apiRequest("GET", buildQueryUrl(["/api/tasks/export", { ...filters, format }]));
+      await saveDownload(response, `tasks.${format}`);
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to export tasks", description: getErrorMessage(err), variant: "destructive" });
+    },
+  });
+
   const deleteTaskMutation = useMutation({
     mutationFn: async (id: string) => {
       return apiRequest("DELETE", `/api/tasks/${id}`);
@@ -100,41 +150,18 @@ export default function TasksPage() {
     setNotifications((prev) => prev.filter((n) => n.id !== id));
   }, []);
 
-  const filteredTasks = useMemo(() => {
-    let filtered = [...tasks];
-
-    if (statusFilter !== "all") {
-      filtered = filtered.filter((t) => t.status === statusFilter);
-    }
-
-    if (priorityFilter !== "all") {
-      filtered = filtered.filter((t) => t.priority === priorityFilter);
-    }
-
-    filtered.sort((a, b) => {
-      switch (sortBy) {
-        case "dueDate":
-          if (!a.dueDate) return 1;
-          if (!b.dueDate) return -1;
-          return new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime();
-        case "createdAt":
-          return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-        case "priority":
-          return priorityOrder[a.priority] - priorityOrder[b.priority];
-        default:
-          return 0;
-      }
-    });
-
-    return filtered;
-  }, [tasks, statusFilter, priorityFilter, sortBy]);
+  const canCreate = !!currentProject && canCreateTask(currentProject.role);
+  const selectedTaskPermissions =
+    selectedTask && currentProject && user
+      ? getTaskPermissions(currentProject.role, selectedTask, user.id)
+      : undefined;
 
   const handleOpenModal = (task?: TaskWithRelations) => {
     setSelectedTask(task || null);
     setIsModalOpen(true);
   };
 
-  const handleSaveTask = async (data: unknown) => {
+  const handleSaveTask = async (data: Record<string, unknown>) => {
     if (selectedTask) {
       await updateTaskMutation.mutateAsync({ id: selectedTask.id, data });
     } else {
@@ -148,18 +175,21 @@ export default function TasksPage() {
     }
   };
 
-  const handleStatusChange = async (taskId: string, completed: boolean) => {
+  const handleStatusChange = async (task: TaskWithRelations, completed: boolean) => {
     await updateTaskMutation.mutateAsync({
-      id: taskId,
-      data: { status: completed ? "completed" : "todo" },
+      id: task.id,
+      data: { status: completed ? "completed" : "todo", version: task.version },
     });
   };
 
   const handleClearFilters = () => {
     setStatusFilter("all");
     setPriorityFilter("all");
+    setAssigneeFilter("all");
   };
 
+  const hasActiveFilters = statusFilter !== "all" || priorityFilter !== "all" || assigneeFilter !== "all";
+
   return (
     <div className="p-6 lg:p-8 space-y-6 max-w-7xl mx-auto">
       <div className="flex items-center justify-between gap-4 flex-wrap">
@@ -171,18 +201,53 @@ export default function TasksPage() {
             Manage and track all your tasks in one place
           </p>
         </div>
-        <Button onClick={() => handleOpenModal()} data-testid="button-create-task">
-          <Plus className="h-4 w-4 mr-2" />
-          New Task
-        </Button>
+        <div className="flex items-center gap-2">
+          {projectId && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" disabled={exportMutation.isPending} data-testid="button-export-tasks">
+                  {exportMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Download className="h-4 w-4 mr-2" />
+                  )}
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => exportMutation.mutate("csv")} data-testid="menu-export-csv">
+                  CSV
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => exportMutation.mutate("json")} data-testid="menu-export-json">
+                  JSON
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+          {canCreate && (
+            <Button variant="outline" onClick={() => setIsImportOpen(true)} data-testid="button-open-import-tasks">
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </Button>
+          )}
+          {canCreate && (
+            <Button onClick={() => handleOpenModal()} data-testid="button-create-task">
+              <Plus className="h-4 w-4 mr-2" />
+              New Task
+            </Button>
+          )}
+        </div>
       </div>
 
       <FilterBar
         statusFilter={statusFilter}
         priorityFilter={priorityFilter}
+        assigneeFilter={assigneeFilter}
         sortBy={sortBy}
+        users={users}
         onStatusChange={setStatusFilter}
         onPriorityChange={setPriorityFilter}
+        onAssigneeChange={setAssigneeFilter}
         onSortChange={setSortBy}
         onClear={handleClearFilters}
       />
@@ -190,16 +255,16 @@ export default function TasksPage() {
       <div className="space-y-4">
         <div className="flex items-center justify-between">
           <p className="text-sm text-muted-foreground" data-testid="text-task-count">
-            Showing {filteredTasks.length} task{filteredTasks.length !== 1 ? "s" : ""}
+            Showing {tasks.length}{hasNextPage ? "+" : ""} task{tasks.length !== 1 ? "s" : ""}
           </p>
         </div>
 
         <TaskList
-          tasks={filteredTasks}
+          tasks={tasks}
           isLoading={tasksLoading}
           emptyTitle="No tasks found"
           emptyDescription={
-            statusFilter !== "all" || priorityFilter !== "all"
+            hasActiveFilters
               ? "Try adjusting your filters"
               : "Create your first task to get started"
           }
@@ -207,6 +272,20 @@ export default function TasksPage() {
           onTaskClick={handleOpenModal}
           onStatusChange={handleStatusChange}
         />
+
+        {hasNextPage && (
+          <div className="flex justify-center">
+            <Button
+              variant="outline"
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+              data-testid="button-load-more"
+            >
+              {isFetchingNextPage && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Load more
+            </Button>
+          </div>
+        )}
       </div>
 
       <TaskModal
@@ -214,12 +293,17 @@ export default function TasksPage() {
         onOpenChange={setIsModalOpen}
         task={selectedTask}
         users={users}
+        permissions={selectedTaskPermissions}
         onSave={handleSaveTask}
         onDelete={handleDeleteTask}
         isSaving={createTaskMutation.isPending || updateTaskMutation.isPending}
         isDeleting={deleteTaskMutation.isPending}
       />
 
+      {isImportOpen && projectId && (
+        <TaskImportDialog projectId={projectId} onClose={() => setIsImportOpen(false)} />
+      )}
+
       <NotificationStack notifications={notifications} onDismiss={dismissNotification} />
     </div>
   );
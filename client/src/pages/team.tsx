@@ -1,12 +1,29 @@
-import { useQuery } from "@tanstack/react-query";
-import { Users, CheckCircle, Clock, AlertTriangle } from "lucide-react";
+import { useEffect, useState, type FormEvent } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Users, CheckCircle, Clock, AlertTriangle, UserMinus, ListChecks, Lock, UserPlus } from "lucide-react";
+import { queryClient, apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { useProject } from "@/lib/project";
+import { getSocket, type PresenceEventType } from "@/lib/socket";
+import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { EmptyState } from "@/components/empty-state";
-import type { UserPublic, TaskWithRelations } from "@shared/schema";
-import { isPast, isToday } from "date-fns";
+import { ProjectWebhooks } from "@/components/project-webhooks";
+import { canManageMembers, canEditProject, canManageWebhooks } from "@shared/permissions";
+import { isTaskOverdue } from "@shared/due-dates";
+import type { TaskWithRelations, ProjectMemberWithUser, ProjectRole } from "@shared/schema";
 
 function getInitials(name: string): string {
   return name
@@ -17,8 +34,15 @@ function getInitials(name: string): string {
     .slice(0, 2);
 }
 
+const roleLabels: Record<ProjectRole, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  member: "Member",
+  viewer: "Viewer",
+};
+
 interface TeamMemberStats {
-  user: UserPublic;
+  user: ProjectMemberWithUser;
   assignedTasks: number;
   completedTasks: number;
   overdueTasks: number;
@@ -45,23 +69,106 @@ function TeamMemberSkeleton() {
 }
 
 export default function TeamPage() {
-  const { data: users = [], isLoading: usersLoading } = useQuery<UserPublic[]>({
-    queryKey: ["/api/users"],
+  const { currentProject } = useProject();
+  const projectId = currentProject?.id;
+  const role = currentProject?.role;
+  const canManage = !!role && canManageMembers(role);
+  const canEditRules = !!role && canEditProject(role);
+  const canEditWebhooks = !!role && canManageWebhooks(role);
+  const { toast } = useToast();
+  const [newMember, setNewMember] = useState("");
+
+  const { data: users = [], isLoading: usersLoading } = useQuery<ProjectMemberWithUser[]>({
+    queryKey: ["/api/projects", projectId, "members"],
+    enabled: !!projectId,
   });
 
   const { data: tasks = [], isLoading: tasksLoading } = useQuery<TaskWithRelations[]>({
-    queryKey: ["/api/tasks"],
+    queryKey: ["/api/tasks", { projectId }],
+    enabled: !!projectId,
+  });
+
+  const { data: presence } = useQuery<{ online: string[] }>({
+    queryKey: ["/api/projects", projectId, "presence"],
+    enabled: !!projectId,
+  });
+
+  useEffect(() => {
+    const socket = getSocket();
+    const presenceEvents: PresenceEventType[] = ["presence:online", "presence:offline"];
+
+    const handlePresenceEvent = () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "presence"] });
+    };
+
+    presenceEvents.forEach((event) => socket.on(event, handlePresenceEvent));
+
+    return () => {
+      presenceEvents.forEach((event) => socket.off(event, handlePresenceEvent));
+    };
+  }, [projectId]);
+
+  const onlineIds = new Set(presence?.online ?? []);
+
+  const addMemberMutation = useMutation({
+    mutationFn: async (emailOrUsername: string) => {
+      return apiRequest("POST", `/api/projects/${projectId}/members`, { emailOrUsername });
+    },
+    onSuccess: () => {
+      setNewMember("");
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "members"] });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to add member", description: getErrorMessage(err), variant: "destructive" });
+    },
+  });
+
+  const onAddMember = (event: FormEvent) => {
+    event.preventDefault();
+    if (newMember.trim()) {
+      addMemberMutation.mutate(newMember.trim());
+    }
+  };
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: ProjectRole }) => {
+      return apiRequest("PATCH", `/api/projects/${projectId}/members/${userId}`, { role });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "members"] });
+    },
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      return apiRequest("DELETE", `/api/projects/${projectId}/members/${userId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "members"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+    },
+  });
+
+  const updateProjectMutation = useMutation({
+    mutationFn: async (data: { requireSubtasksComplete?: boolean; requireBlockersComplete?: boolean }) => {
+      return apiRequest("PATCH", `/api/projects/${projectId}`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+    },
   });
 
   const isLoading = usersLoading || tasksLoading;
 
+  // Admins manage regular members; only the owner can touch other admins
+  const canManageMember = (member: ProjectMemberWithUser) =>
+    canManage && member.role !== "owner" && (member.role !== "admin" || role === "owner");
+
   const teamStats: TeamMemberStats[] = users.map((user) => {
     const assignedTasks = tasks.filter((t) => t.assignedToId === user.id);
     const completedTasks = assignedTasks.filter((t) => t.status === "completed").length;
     const inProgressTasks = assignedTasks.filter((t) => t.status === "in_progress").length;
-    const overdueTasks = assignedTasks.filter(
-      (t) => t.dueDate && isPast(new Date(t.dueDate)) && !isToday(new Date(t.dueDate)) && t.status !== "completed"
-    ).length;
+    const overdueTasks = assignedTasks.filter((t) => isTaskOverdue(t)).length;
 
     return {
       user,
@@ -74,15 +181,88 @@ export default function TeamPage() {
 
   return (
     <div className="p-6 lg:p-8 space-y-6 max-w-7xl mx-auto">
-      <div>
-        <h1 className="text-3xl font-bold" data-testid="text-team-title">
-          Team
-        </h1>
-        <p className="text-muted-foreground mt-1">
-          View team members and their task assignments
-        </p>
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div>
+          <h1 className="text-3xl font-bold" data-testid="text-team-title">
+            Team
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            View {currentProject?.name ?? "project"} members and their task assignments
+            {onlineIds.size > 0 && (
+              <span className="ml-2 text-green-600 dark:text-green-400" data-testid="text-online-count">
+                · {onlineIds.size} online
+              </span>
+            )}
+          </p>
+        </div>
+        {canManage && (
+          <form onSubmit={onAddMember} className="flex items-center gap-2">
+            <Input
+              placeholder="Email or username"
+              className="w-[220px]"
+              value={newMember}
+              onChange={(e) => setNewMember(e.target.value)}
+              data-testid="input-add-member"
+            />
+            <Button
+              type="submit"
+              variant="outline"
+              disabled={!newMember.trim() || addMemberMutation.isPending}
+              data-testid="button-add-member"
+            >
+              <UserPlus className="h-4 w-4 mr-2" />
+              Add member
+            </Button>
+          </form>
+        )}
       </div>
 
+      {canEditRules && currentProject && (
+        <Card data-testid="card-project-rules">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Project rules</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-3">
+                <ListChecks className="h-4 w-4 text-muted-foreground" />
+                <div>
+                  <p className="text-sm font-medium">Require subtasks before completion</p>
+                  <p className="text-sm text-muted-foreground">
+                    Tasks with open subtasks cannot be marked as completed
+                  </p>
+                </div>
+              </div>
+              <Switch
+                checked={currentProject.requireSubtasksComplete}
+                onCheckedChange={(checked) => updateProjectMutation.mutate({ requireSubtasksComplete: checked })}
+                disabled={updateProjectMutation.isPending}
+                data-testid="switch-require-subtasks"
+              />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-3">
+                <Lock className="h-4 w-4 text-muted-foreground" />
+                <div>
+                  <p className="text-sm font-medium">Respect dependencies</p>
+                  <p className="text-sm text-muted-foreground">
+                    Blocked tasks cannot move to In Progress until their blockers are completed
+                  </p>
+                </div>
+              </div>
+              <Switch
+                checked={currentProject.requireBlockersComplete}
+                onCheckedChange={(checked) => updateProjectMutation.mutate({ requireBlockersComplete: checked })}
+                disabled={updateProjectMutation.isPending}
+                data-testid="switch-require-blockers"
+              />
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {canEditWebhooks && projectId && <ProjectWebhooks projectId={projectId} />}
+
       {isLoading ? (
         <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
           {Array.from({ length: 6 }).map((_, i) => (
@@ -93,18 +273,27 @@ export default function TeamPage() {
         <EmptyState
           icon={Users}
           title="No team members yet"
-          description="Team members will appear here once they register"
+          description="Team members will appear here once they join the project"
         />
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
           {teamStats.map(({ user, assignedTasks, completedTasks, overdueTasks, inProgressTasks }) => (
             <Card key={user.id} className="p-6" data-testid={`card-team-member-${user.id}`}>
               <div className="flex items-start gap-4">
-                <Avatar className="h-12 w-12">
-                  <AvatarFallback className="bg-primary text-primary-foreground font-semibold">
-                    {getInitials(user.displayName || user.username)}
-                  </AvatarFallback>
-                </Avatar>
+                <div className="relative">
+                  <Avatar className="h-12 w-12">
+                    <AvatarFallback className="bg-primary text-primary-foreground font-semibold">
+                      {getInitials(user.displayName || user.username)}
+                    </AvatarFallback>
+                  </Avatar>
+                  {onlineIds.has(user.id) && (
+                    <span
+                      className="absolute bottom-0 right-0 h-3.5 w-3.5 rounded-full bg-green-500 ring-2 ring-card"
+                      title="Online"
+                      data-testid={`status-online-${user.id}`}
+                    />
+                  )}
+                </div>
                 <div className="flex-1 min-w-0">
                   <h3 className="font-semibold truncate" data-testid={`text-member-name-${user.id}`}>
                     {user.displayName || user.username}
@@ -115,7 +304,40 @@ export default function TeamPage() {
                   <p className="text-xs text-muted-foreground mt-1">
                     @{user.username}
                   </p>
+                  {role === "owner" && user.role !== "owner" ? (
+                    <Select
+                      value={user.role}
+                      onValueChange={(value) => updateRoleMutation.mutate({ userId: user.id, role: value as ProjectRole })}
+                      disabled={updateRoleMutation.isPending}
+                    >
+                      <SelectTrigger className="mt-2 h-7 w-[110px] text-xs" data-testid={`select-member-role-${user.id}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="admin">Admin</SelectItem>
+                        <SelectItem value="member">Member</SelectItem>
+                        <SelectItem value="viewer">Viewer</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Badge variant="outline" className="mt-2 text-[10px]" data-testid={`badge-member-role-${user.id}`}>
+                      {roleLabels[user.role]}
+                    </Badge>
+                  )}
                 </div>
+                {canManageMember(user) && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="shrink-0"
+                    onClick={() => removeMemberMutation.mutate(user.id)}
+                    disabled={removeMemberMutation.isPending}
+                    data-testid={`button-remove-member-${user.id}`}
+                    aria-label="Remove member"
+                  >
+                    <UserMinus className="h-4 w-4" />
+                  </Button>
+                )}
               </div>
 
               <div className="mt-6 grid grid-cols-2 gap-3">
@@ -0,0 +1,67 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useSearch } from "wouter";
+import { CheckCircle2, Loader2, XCircle } from "lucide-react";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { useAuth } from "@/lib/auth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+type VerifyState = { status: "verifying" } | { status: "verified" } | { status: "failed"; message: string };
+
+// Opened from the link in the verification email, signed in or not
+export default function VerifyEmailPage() {
+  const { user, refreshUser } = useAuth();
+  const token = new URLSearchParams(useSearch()).get("token");
+  const [state, setState] = useState<VerifyState>(
+    token ? { status: "verifying" } : { status: "failed", message: "This verification link is incomplete." },
+  );
+  // The token is single-use, so it must not be sent twice (StrictMode runs
+  // effects twice in development)
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    if (!token || submitted.current) return;
+    submitted.current = true;
+    apiRequest("POST", "/api/auth/verify-email", { token })
+      .then(async () => {
+        setState({ status: "verified" });
+        await refreshUser();
+      })
+      .catch((err: Error) => setState({ status: "failed", message: getErrorMessage(err) }));
+  }, [token, refreshUser]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center space-y-4">
+          <div className="flex justify-center">
+            {state.status === "verifying" && <Loader2 className="h-14 w-14 animate-spin text-primary" />}
+            {state.status === "verified" && <CheckCircle2 className="h-14 w-14 text-primary" />}
+            {state.status === "failed" && <XCircle className="h-14 w-14 text-destructive" />}
+          </div>
+          <div>
+            <CardTitle className="text-2xl font-bold" data-testid="text-verify-email-title">
+              {state.status === "verifying" && "Verifying your email"}
+              {state.status === "verified" && "Email verified"}
+              {state.status === "failed" && "Verification failed"}
+            </CardTitle>
+            <CardDescription className="mt-2" data-testid="text-verify-email-message">
+              {state.status === "verifying" && "Just a moment..."}
+              {state.status === "verified" && "Thanks for confirming your email address."}
+              {state.status === "failed" &&
+                `${state.message} ${user ? "You can request a new link from the banner in the app." : "Sign in to request a new link."}`}
+            </CardDescription>
+          </div>
+        </CardHeader>
+
+        {state.status !== "verifying" && (
+          <CardContent className="flex justify-center">
+            <Button asChild data-testid="button-continue">
+              <Link href={user ? "/" : "/login"}>{user ? "Go to TaskFlow" : "Sign in"}</Link>
+            </Button>
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import "dotenv/config";
+import { randomUUID } from "crypto";
+import { storage } from "../server/storage";
+import { getPool } from "../server/db";
+import type { TaskQuery, Priority, Status } from "@shared/schema";
+
+// Seeds a project with tasks and measures task list latency and the number of
+// SQL round trips per call.
+//
+//   npm run bench:tasks -- [taskCount] [iterations]
+//
+// Seeding writes to the configured database; point DATABASE_URL at a scratch
+// database. The seeded project (and its tasks) is deleted afterwards, the
+// seeded users are not. STORAGE_DRIVER=memory runs the same scenarios against
+// MemStorage for comparison.
+
+const taskCount = parseInt(process.argv[2] || "500", 10);
+const iterations = parseInt(process.argv[3] || "20", 10);
+const memberCount = 5;
+
+const priorities: Priority[] = ["low", "medium", "high", "urgent"];
+const statuses: Status[] = ["todo", "in_progress", "review", "completed"];
+
+let queryCount = 0;
+
+function countQueries() {
+  if (process.env.STORAGE_DRIVER === "memory") return;
+  const pool = getPool();
+  const query = pool.query.bind(pool) as (...args: unknown[]) => unknown;
+  (pool as { query: unknown }).query = (...args: unknown[]) => {
+    queryCount++;
+    return query(...args);
+  };
+}
+
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+}
+
+async function seed() {
+  const runId = randomUUID().slice(0, 8);
+  const members = [];
+  for (let i = 0; i < memberCount; i++) {
+    members.push(
+      await storage.createUser({
+        username: `bench-${runId}-${i}`,
+        email: `bench-${runId}-${i}@example.com`,
+        password: "not-a-real-hash",
+        displayName: `Bench User ${i}`,
+      }),
+    );
+  }
+
+  const owner = members[0];
+  const project = await storage.createProject({ name: `Benchmark ${runId}` }, owner.id);
+  for (const member of members.slice(1)) {
+    await storage.addProjectMember(project.id, member.id);
+  }
+
+  for (let i = 0; i < taskCount; i++) {
+    const assignee = i % 3 === 0 ? null : members[i % memberCount];
+    await storage.createTask(
+      {
+        projectId: project.id,
+        title: `Benchmark task ${i}`,
+        priority: priorities[i % priorities.length],
+        status: statuses[i % statuses.length],
+        assignedToId: assignee?.id ?? null,
+        dueDate: i % 4 === 0 ? null : new Date(Date.now() + (i - taskCount / 2) * 3_600_000).toISOString(),
+      },
+      members[i % memberCount].id,
+    );
+  }
+
+  return project;
+}
+
+async function measure(name: string, query: TaskQuery) {
+  await storage.queryTasks(query);
+
+  const timings: number[] = [];
+  let rows = 0;
+  queryCount = 0;
+  for (let i = 0; i < iterations; i++) {
+    const start = performance.now();
+    const page = await storage.queryTasks(query);
+    timings.push(performance.now() - start);
+    rows = page.tasks.length;
+  }
+  timings.sort((a, b) => a - b);
+
+  return {
+    scenario: name,
+    rows,
+    "median ms": percentile(timings, 50).toFixed(2),
+    "p95 ms": percentile(timings, 95).toFixed(2),
+    "queries/call": process.env.STORAGE_DRIVER === "memory" ? "-" : (queryCount / iterations).toFixed(1),
+  };
+}
+
+async function main() {
+  console.log(`seeding ${taskCount} tasks...`);
+  const project = await seed();
+  countQueries();
+
+  try {
+    const results = [
+      await measure("all tasks", { projectId: project.id, sort: "createdAt" }),
+      await measure("first page (50)", { projectId: project.id, sort: "dueDate", limit: 50 }),
+      await measure("status filter", { projectId: project.id, sort: "priority", status: "in_progress" }),
+    ];
+    console.table(results);
+  } finally {
+    await storage.deleteProject(project.id);
+  }
+
+  if (process.env.STORAGE_DRIVER !== "memory") {
+    await getPool().end();
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,88 @@
+import "dotenv/config";
+import { getPool } from "../server/db";
+
+// Moves a database from before projects existed onto them. Tasks now need a
+// project, so `npm run db:push` cannot add tasks.project_id to a table that
+// already has rows. Run this first:
+//
+//   npm run db:migrate-workspaces && npm run db:push
+//
+// Every user who owns no project gets a workspace, as registration creates
+// one, with them as its owner. Each existing task moves into its creator's
+// workspace and its assignee, if someone else, joins that workspace as a
+// member, so everyone still sees the tasks they saw before. Only then does
+// the column become NOT NULL. It all runs in one transaction and can be run
+// again safely; db:push then adds the remaining columns and indexes.
+
+const statements = [
+  `DO $$ BEGIN
+     CREATE TYPE project_role AS ENUM ('owner', 'admin', 'member', 'viewer');
+   EXCEPTION WHEN duplicate_object THEN NULL;
+   END $$`,
+  `CREATE TABLE IF NOT EXISTS projects (
+     id varchar(36) PRIMARY KEY DEFAULT gen_random_uuid(),
+     name varchar(100) NOT NULL,
+     description text,
+     owner_id varchar(36) NOT NULL REFERENCES users(id),
+     created_at timestamp NOT NULL DEFAULT now()
+   )`,
+  `CREATE TABLE IF NOT EXISTS project_members (
+     project_id varchar(36) NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+     user_id varchar(36) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+     role project_role NOT NULL DEFAULT 'member',
+     created_at timestamp NOT NULL DEFAULT now(),
+     PRIMARY KEY (project_id, user_id)
+   )`,
+  `ALTER TABLE tasks ADD COLUMN IF NOT EXISTS project_id varchar(36) REFERENCES projects(id) ON DELETE CASCADE`,
+  `WITH created AS (
+     INSERT INTO projects (name, owner_id)
+     SELECT left(coalesce(nullif(u.display_name, ''), u.username) || '''s workspace', 100), u.id
+     FROM users u
+     WHERE NOT EXISTS (SELECT 1 FROM project_members pm WHERE pm.user_id = u.id AND pm.role = 'owner')
+     RETURNING id, owner_id
+   )
+   INSERT INTO project_members (project_id, user_id, role)
+   SELECT id, owner_id, 'owner' FROM created`,
+  `UPDATE tasks t
+   SET project_id = (
+     SELECT pm.project_id FROM project_members pm
+     WHERE pm.user_id = t.creator_id AND pm.role = 'owner'
+     ORDER BY pm.created_at, pm.project_id
+     LIMIT 1
+   )
+   WHERE t.project_id IS NULL`,
+  `INSERT INTO project_members (project_id, user_id, role)
+   SELECT DISTINCT t.project_id, t.assigned_to_id, 'member'::project_role
+   FROM tasks t
+   WHERE t.assigned_to_id IS NOT NULL
+     AND NOT EXISTS (
+       SELECT 1 FROM project_members pm WHERE pm.project_id = t.project_id AND pm.user_id = t.assigned_to_id
+     )`,
+  `ALTER TABLE tasks ALTER COLUMN project_id SET NOT NULL`,
+];
+
+async function main() {
+  const client = await getPool().connect();
+  try {
+    await client.query("BEGIN");
+    for (const statement of statements) {
+      await client.query(statement);
+    }
+    const { rows } = await client.query<{ projects: number; tasks: number }>(
+      "SELECT (SELECT count(*) FROM projects)::int AS projects, (SELECT count(*) FROM tasks)::int AS tasks",
+    );
+    await client.query("COMMIT");
+    console.log(`Workspaces ready: ${rows[0].projects} projects, ${rows[0].tasks} tasks`);
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+    await getPool().end();
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,125 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import request from "supertest";
+import { api, signUp, startTestServer, type TestServer, type TestUser } from "./test-utils";
+
+let server: TestServer;
+
+beforeAll(async () => {
+  server = await startTestServer();
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// Requests made with a personal API token instead of cookies
+function bearer(token: string) {
+  return {
+    get: (url: string) => request(server.url).get(url).set("Authorization", `Bearer ${token}`),
+    post: (url: string, body?: object) =>
+      request(server.url).post(url).set("Authorization", `Bearer ${token}`).send(body),
+    delete: (url: string) => request(server.url).delete(url).set("Authorization", `Bearer ${token}`),
+  };
+}
+
+async function createToken(owner: TestUser, body: object) {
+  const res = await api(server, owner.cookies).post("/api/auth/tokens", body);
+  expect(res.status).toBe(201);
+  return res.body;
+}
+
+describe("personal API tokens", () => {
+  it("shows the token once and lists it without the secret", async () => {
+    const owner = await signUp(server);
+    const created = await createToken(owner, { name: "CI", scope: "read" });
+    expect(created.token).toMatch(/^tfp_/);
+    expect(created.tokenHint).toBe(created.token.slice(-4));
+    expect(created).not.toHaveProperty("tokenHash");
+
+    const list = await api(server, owner.cookies).get("/api/auth/tokens");
+    expect(list.body).toEqual([expect.objectContaining({ id: created.id, name: "CI", scope: "read" })]);
+    expect(list.body[0]).not.toHaveProperty("token");
+    expect(list.body[0]).not.toHaveProperty("tokenHash");
+  });
+
+  it("authenticates as the owner and records when it was used", async () => {
+    const owner = await signUp(server);
+    const { id, token } = await createToken(owner, { name: "Script", scope: "read" });
+
+    const me = await bearer(token).get("/api/auth/me");
+    expect(me.status).toBe(200);
+    expect(me.body.user.id).toBe(owner.user.id);
+
+    const list = await api(server, owner.cookies).get("/api/auth/tokens");
+    expect(list.body.find((t: { id: string }) => t.id === id).lastUsedAt).toBeTruthy();
+  });
+
+  it("lets a read token read but not write", async () => {
+    const owner = await signUp(server);
+    const { token } = await createToken(owner, { name: "Reader", scope: "read" });
+
+    expect((await bearer(token).get(`/api/tasks?projectId=${owner.projectId}`)).status).toBe(200);
+
+    const write = await bearer(token).post("/api/tasks", { projectId: owner.projectId, title: "Nope" });
+    expect(write.status).toBe(403);
+    expect(write.body.message).toBe("This API token is read-only");
+  });
+
+  it("lets a read-write token change tasks within the owner's projects", async () => {
+    const owner = await signUp(server);
+    const stranger = await signUp(server);
+    const { token } = await createToken(owner, { name: "Writer", scope: "read_write" });
+
+    const created = await bearer(token).post("/api/tasks", { projectId: owner.projectId, title: "From a script" });
+    expect(created.status).toBe(201);
+    expect(created.body.creatorId).toBe(owner.user.id);
+
+    const elsewhere = await bearer(token).post("/api/tasks", { projectId: stranger.projectId, title: "Nope" });
+    expect(elsewhere.status).toBe(404);
+  });
+
+  it("cannot manage tokens, sessions or two-factor auth", async () => {
+    const owner = await signUp(server);
+    const { id, token } = await createToken(owner, { name: "Writer", scope: "read_write" });
+
+    for (const res of [
+      await bearer(token).post("/api/auth/tokens", { name: "More", scope: "read_write" }),
+      await bearer(token).get("/api/auth/tokens"),
+      await bearer(token).delete(`/api/auth/tokens/${id}`),
+      await bearer(token).get("/api/auth/sessions"),
+      await bearer(token).post("/api/auth/2fa/setup"),
+    ]) {
+      expect(res.status).toBe(403);
+      expect(res.body.message).toBe("API tokens cannot be used for this request");
+    }
+  });
+
+  it("rejects unknown, revoked and expired tokens", async () => {
+    const owner = await signUp(server);
+    expect((await bearer("tfp_not-a-real-token").get("/api/auth/me")).status).toBe(401);
+
+    const revoked = await createToken(owner, { name: "Old", scope: "read" });
+    expect((await api(server, owner.cookies).delete(`/api/auth/tokens/${revoked.id}`)).status).toBe(200);
+    expect((await bearer(revoked.token).get("/api/auth/me")).status).toBe(401);
+
+    const expiring = await createToken(owner, { name: "Short", scope: "read", expiresInDays: 1 });
+    expect((await bearer(expiring.token).get("/api/auth/me")).status).toBe(200);
+    vi.useFakeTimers({ toFake: ["Date"], now: Date.now() + 25 * 60 * 60 * 1000 });
+    const expired = await bearer(expiring.token).get("/api/auth/me");
+    expect(expired.status).toBe(401);
+    expect(expired.body.message).toBe("Invalid or expired API token");
+  });
+
+  it("only lets the owner revoke a token", async () => {
+    const owner = await signUp(server);
+    const other = await signUp(server);
+    const { id, token } = await createToken(owner, { name: "Mine", scope: "read" });
+
+    expect((await api(server, other.cookies).delete(`/api/auth/tokens/${id}`)).status).toBe(404);
+    expect((await bearer(token).get("/api/auth/me")).status).toBe(200);
+  });
+});
@@ -0,0 +1,388 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import request from "supertest";
+import {
+  ACCESS_COOKIE,
+  REFRESH_COOKIE,
+  TEST_PASSWORD,
+  api,
+  captureMail,
+  connectSocket,
+  getSetCookies,
+  linkToken,
+  signUp,
+  startTestServer,
+  totpCode,
+  type TestServer,
+  type TestSocket,
+} from "./test-utils";
+import { storage } from "./storage";
+
+let server: TestServer;
+const sockets: TestSocket[] = [];
+const mail = captureMail();
+
+afterEach(() => {
+  vi.useRealTimers();
+  sockets.splice(0).forEach(({ socket }) => socket.disconnect());
+});
+
+beforeAll(async () => {
+  server = await startTestServer();
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+describe("registration and sign-in", () => {
+  it("signs a new user in and answers /me with them", async () => {
+    const { user, cookies } = await signUp(server);
+    expect(user).not.toHaveProperty("password");
+
+    const me = await api(server, cookies).get("/api/auth/me");
+    expect(me.status).toBe(200);
+    expect(me.body.user).toMatchObject({ id: user.id, username: user.username });
+  });
+
+  it("refuses a taken email", async () => {
+    const { email } = await signUp(server);
+    const res = await api(server).post("/api/auth/register", { username: "someone-else", email, password: TEST_PASSWORD });
+    expect(res.status).toBe(400);
+    expect(res.body.message).toBe("Email already in use");
+  });
+
+  it("signs in with the right password only", async () => {
+    const { email } = await signUp(server);
+
+    const wrong = await api(server).post("/api/auth/login", { email, password: "wrong-password" });
+    expect(wrong.status).toBe(401);
+    expect(getSetCookies(wrong.headers)[ACCESS_COOKIE]).toBeUndefined();
+
+    const login = await api(server).post("/api/auth/login", { email, password: TEST_PASSWORD });
+    expect(login.status).toBe(200);
+    expect(getSetCookies(login.headers)[ACCESS_COOKIE]).toBeTruthy();
+  });
+
+  it("needs a valid token for protected routes", async () => {
+    expect((await api(server).get("/api/auth/me")).status).toBe(401);
+    expect((await api(server, { [ACCESS_COOKIE]: "not-a-token" }).get("/api/auth/me")).status).toBe(401);
+  });
+});
+
+describe("sessions", () => {
+  async function login(email: string, userAgent = "test-agent") {
+    const res = await api(server).post("/api/auth/login", { email, password: TEST_PASSWORD }).set("User-Agent", userAgent);
+    expect(res.status).toBe(200);
+    return getSetCookies(res.headers);
+  }
+
+  it("rotates the refresh token and keeps the session", async () => {
+    const { cookies } = await signUp(server);
+    expect(cookies[REFRESH_COOKIE]).toBeTruthy();
+
+    const refreshed = await api(server, { [REFRESH_COOKIE]: cookies[REFRESH_COOKIE] }).post("/api/auth/refresh");
+    expect(refreshed.status).toBe(200);
+    const next = getSetCookies(refreshed.headers);
+    expect(next[ACCESS_COOKIE]).toBeTruthy();
+    expect(next[REFRESH_COOKIE]).toBeTruthy();
+    expect(next[REFRESH_COOKIE]).not.toBe(cookies[REFRESH_COOKIE]);
+    expect((await api(server, next).get("/api/auth/me")).status).toBe(200);
+    expect((await api(server).post("/api/auth/refresh")).status).toBe(401);
+  });
+
+  it("forgives a replaced refresh token briefly, then treats it as stolen", async () => {
+    const { cookies } = await signUp(server);
+    const old = { [REFRESH_COOKIE]: cookies[REFRESH_COOKIE] };
+    const next = getSetCookies((await api(server, old).post("/api/auth/refresh")).headers);
+
+    // A second tab refreshing with the same token at the same time
+    const concurrent = await api(server, old).post("/api/auth/refresh");
+    expect(concurrent.status).toBe(200);
+    const concurrentCookies = getSetCookies(concurrent.headers);
+    expect(concurrentCookies[ACCESS_COOKIE]).toBeTruthy();
+    expect(concurrentCookies[REFRESH_COOKIE]).toBeUndefined();
+
+    vi.useFakeTimers({ toFake: ["Date"], now: Date.now() + 60_000 });
+    const replayed = await api(server, old).post("/api/auth/refresh");
+    expect(replayed.status).toBe(401);
+    expect(getSetCookies(replayed.headers)[REFRESH_COOKIE]).toBe("");
+    // The whole session is gone, the legitimate holder included
+    expect((await api(server, next).post("/api/auth/refresh")).status).toBe(401);
+    expect((await api(server, next).get("/api/auth/me")).status).toBe(401);
+  });
+
+  it("ends the session on logout", async () => {
+    const { cookies } = await signUp(server);
+    const logout = await api(server, cookies).post("/api/auth/logout");
+    expect(getSetCookies(logout.headers)).toMatchObject({ [ACCESS_COOKIE]: "", [REFRESH_COOKIE]: "" });
+    // Even a copy of the access token taken before logging out stops working
+    expect((await api(server, cookies).get("/api/auth/me")).status).toBe(401);
+    expect((await api(server, cookies).post("/api/auth/refresh")).status).toBe(401);
+  });
+
+  it("lists devices and revokes one or all of them", async () => {
+    const { cookies, email } = await signUp(server);
+    const laptop = await login(email, "laptop");
+    const phone = await login(email, "phone");
+
+    const sessions = await api(server, laptop).get("/api/auth/sessions");
+    expect(sessions.body).toHaveLength(3);
+    expect(sessions.body.filter((session: { current: boolean }) => session.current)).toHaveLength(1);
+    const phoneSession = sessions.body.find((session: { userAgent: string }) => session.userAgent === "phone");
+    expect(phoneSession).toMatchObject({ current: false, id: expect.any(String) });
+    expect(phoneSession).not.toHaveProperty("refreshTokenHash");
+
+    expect((await api(server, laptop).delete(`/api/auth/sessions/${phoneSession.id}`)).status).toBe(200);
+    expect((await api(server, phone).get("/api/auth/me")).status).toBe(401);
+    expect((await api(server, laptop).delete(`/api/auth/sessions/${phoneSession.id}`)).status).toBe(404);
+    const other = await signUp(server);
+    const laptopSession = sessions.body.find((session: { current: boolean }) => session.current);
+    expect((await api(server, other.cookies).delete(`/api/auth/sessions/${laptopSession.id}`)).status).toBe(404);
+
+    const all = await api(server, laptop).delete("/api/auth/sessions");
+    expect(all.body.count).toBe(2);
+    expect((await api(server, laptop).get("/api/auth/me")).status).toBe(401);
+    expect((await api(server, cookies).get("/api/auth/me")).status).toBe(401);
+  });
+
+  it("disconnects the sockets of a revoked session and refuses its token", async () => {
+    const { cookies } = await signUp(server);
+    const listener = connectSocket(server, cookies[ACCESS_COOKIE]);
+    sockets.push(listener);
+    await listener.connected;
+
+    const disconnected = listener.next("disconnect");
+    await api(server, cookies).post("/api/auth/logout");
+    expect(await disconnected).toBe("io server disconnect");
+
+    const again = connectSocket(server, cookies[ACCESS_COOKIE]);
+    sockets.push(again);
+    await expect(again.connected).rejects.toThrow("Invalid or expired token");
+  });
+});
+
+describe("email verification", () => {
+  it("emails a single-use link on registration", async () => {
+    const { cookies, email } = await signUp(server);
+    const message = mail.sent.findLast((sent) => sent.to === email)!;
+    expect(message.subject).toBe("Verify your email address");
+    expect((await api(server, cookies).get("/api/auth/me")).body.user.emailVerifiedAt).toBeNull();
+
+    // Signed out, as the link may be opened on another device
+    const verified = await api(server).post("/api/auth/verify-email", { token: linkToken(message) });
+    expect(verified.status).toBe(200);
+    expect(verified.body.user.emailVerifiedAt).toEqual(expect.any(String));
+    expect(verified.body.user).not.toHaveProperty("password");
+
+    const reused = await api(server).post("/api/auth/verify-email", { token: linkToken(message) });
+    expect(reused.status).toBe(400);
+    expect(reused.body.message).toBe("This verification link is invalid or has expired");
+    expect((await api(server, cookies).post("/api/auth/verify-email/resend")).status).toBe(400);
+  });
+
+  it("resends a fresh link to unverified users", async () => {
+    const { cookies, email } = await signUp(server);
+    const resend = mail.next(email);
+    expect((await api(server, cookies).post("/api/auth/verify-email/resend")).status).toBe(200);
+    const message = await resend;
+    expect((await api(server).post("/api/auth/verify-email", { token: linkToken(message) })).status).toBe(200);
+  });
+});
+
+describe("password reset", () => {
+  const newPassword = "Another-secret1";
+
+  it("answers the same for unknown emails and sends nothing", async () => {
+    const sentBefore = mail.sent.length;
+    const res = await api(server).post("/api/auth/forgot-password", { email: "nobody@example.com" });
+    expect(res.status).toBe(200);
+    expect(res.body.message).toBe("If an account exists for that email, we sent a link to reset the password");
+    expect(mail.sent).toHaveLength(sentBefore);
+  });
+
+  it("sets the new password once per link and signs every session out", async () => {
+    const { cookies, email } = await signUp(server);
+    const apiToken = await api(server, cookies).post("/api/auth/tokens", { name: "Script", scope: "read_write" });
+    const requested = mail.next(email);
+    await api(server).post("/api/auth/forgot-password", { email });
+    const message = await requested;
+    expect(message.subject).toBe("Reset your TaskFlow password");
+
+    const reset = await api(server).post("/api/auth/reset-password", { token: linkToken(message), password: newPassword });
+    expect(reset.status).toBe(200);
+    expect((await api(server, cookies).get("/api/auth/me")).status).toBe(401);
+    expect((await api(server, cookies).post("/api/auth/refresh")).status).toBe(401);
+    // API tokens the old password could have created stop working too
+    const bearer = await request(server.url).get("/api/auth/me").set("Authorization", `Bearer ${apiToken.body.token}`);
+    expect(bearer.status).toBe(401);
+
+    expect((await api(server).post("/api/auth/login", { email, password: TEST_PASSWORD })).status).toBe(401);
+    const login = await api(server).post("/api/auth/login", { email, password: newPassword });
+    expect(login.status).toBe(200);
+    // Following the link proved the address
+    expect(login.body.user.emailVerifiedAt).toEqual(expect.any(String));
+
+    const reused = await api(server).post("/api/auth/reset-password", { token: linkToken(message), password: "Third-secret1" });
+    expect(reused.status).toBe(400);
+    expect(reused.body.message).toBe("This reset link is invalid or has expired");
+  });
+
+  it("refuses expired links", async () => {
+    const { email } = await signUp(server);
+    const requested = mail.next(email);
+    await api(server).post("/api/auth/forgot-password", { email });
+    const token = linkToken(await requested);
+
+    vi.useFakeTimers({ toFake: ["Date"], now: Date.now() + 2 * 60 * 60 * 1000 });
+    expect((await api(server).post("/api/auth/reset-password", { token, password: newPassword })).status).toBe(400);
+  });
+});
+
+describe("rate limits", () => {
+  it("throttles failed sign-ins per account with Retry-After, even for the right password", async () => {
+    const { email, user } = await signUp(server);
+    const audit = vi.spyOn(storage, "createAuthAuditEntry");
+    // Five free attempts; the sixth failure makes the account wait
+    for (let i = 0; i < 6; i++) {
+      expect((await api(server).post("/api/auth/login", { email, password: "wrong-password" })).status).toBe(401);
+    }
+
+    const limited = await api(server).post("/api/auth/login", { email: email.toUpperCase(), password: TEST_PASSWORD });
+    expect(limited.status).toBe(429);
+    expect(limited.headers["retry-after"]).toBe("1");
+    expect(limited.body).toEqual({ message: "Too many attempts. Please try again in 1 second.", retryAfter: 1 });
+
+    const events = audit.mock.calls.map(([entry]) => [entry.event, entry.action, entry.email, entry.userId]);
+    expect(events).toContainEqual(["login_failed", "login", email, user.id]);
+    expect(events.at(-1)).toEqual(["rate_limited", "login", email, null]);
+    audit.mockRestore();
+
+    // Once the wait is over, signing in works and clears the count
+    vi.useFakeTimers({ toFake: ["Date"], now: Date.now() + 2000 });
+    expect((await api(server).post("/api/auth/login", { email, password: TEST_PASSWORD })).status).toBe(200);
+    expect((await api(server).post("/api/auth/login", { email, password: "wrong-password" })).status).toBe(401);
+  });
+
+  it("throttles registrations per IP address", async () => {
+    const { email } = await signUp(server);
+    // Failed registrations count too
+    for (let i = 0; i < 10; i++) {
+      const taken = await api(server).post("/api/auth/register", { username: "taken", email, password: TEST_PASSWORD });
+      expect(taken.status).toBe(400);
+    }
+    const limited = await api(server).post("/api/auth/register", {
+      username: "late-comer",
+      email: "late-comer@example.com",
+      password: TEST_PASSWORD,
+    });
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers["retry-after"])).toBeGreaterThan(0);
+  });
+
+  it("throttles reset emails per address", async () => {
+    const { email } = await signUp(server);
+    for (let i = 0; i < 4; i++) {
+      expect((await api(server).post("/api/auth/forgot-password", { email })).status).toBe(200);
+    }
+    expect((await api(server).post("/api/auth/forgot-password", { email })).status).toBe(429);
+  });
+});
+
+describe("two-factor authentication", () => {
+  async function enableTwoFactor(
+    cookies: Record<string, string>,
+  ): Promise<{ secret: string; enabledWith: string; recoveryCodes: string[] }> {
+    const setup = await api(server, cookies).post("/api/auth/2fa/setup");
+    expect(setup.status).toBe(200);
+    const { secret, otpauthUri, qrCode } = setup.body;
+    expect(otpauthUri).toContain(`secret=${secret}`);
+    expect(qrCode).toMatch(/^data:image\/png;base64,/);
+
+    expect((await api(server, cookies).post("/api/auth/2fa/enable", { code: "000000" })).status).toBe(400);
+    const enabledWith = totpCode(secret);
+    const enable = await api(server, cookies).post("/api/auth/2fa/enable", { code: enabledWith });
+    expect(enable.status).toBe(200);
+    return { secret, enabledWith, recoveryCodes: enable.body.recoveryCodes };
+  }
+
+  async function startLogin(email: string): Promise<string> {
+    const res = await api(server).post("/api/auth/login", { email, password: TEST_PASSWORD });
+    expect(res.status).toBe(200);
+    expect(res.body.twoFactorRequired).toBe(true);
+    expect(getSetCookies(res.headers)[ACCESS_COOKIE]).toBeUndefined();
+    return res.body.challengeToken;
+  }
+
+  const secondStep = (challengeToken: string, code: string) =>
+    api(server).post("/api/auth/login/2fa", { challengeToken, code });
+
+  it("asks for a code after the password and accepts each code once", async () => {
+    const { cookies, email } = await signUp(server);
+    const { secret, enabledWith } = await enableTwoFactor(cookies);
+    expect((await api(server, cookies).post("/api/auth/2fa/setup")).status).toBe(400);
+
+    const challengeToken = await startLogin(email);
+    // The code used to enable two-factor auth is spent already
+    expect((await secondStep(challengeToken, enabledWith)).status).toBe(400);
+
+    const code = totpCode(secret, 1);
+    const login = await secondStep(challengeToken, code);
+    expect(login.status).toBe(200);
+    expect(getSetCookies(login.headers)[ACCESS_COOKIE]).toBeTruthy();
+    expect((await secondStep(challengeToken, code)).status).toBe(400);
+
+    // An access token is no challenge token
+    expect((await secondStep(cookies[ACCESS_COOKIE], totpCode(secret, 1))).status).toBe(401);
+  });
+
+  it("accepts each recovery code once, however it is typed", async () => {
+    const { cookies, email } = await signUp(server);
+    const { secret, recoveryCodes } = await enableTwoFactor(cookies);
+    expect(recoveryCodes).toHaveLength(10);
+
+    const typed = recoveryCodes[0].toUpperCase().replace("-", " ");
+    const login = await secondStep(await startLogin(email), typed);
+    expect(login.status).toBe(200);
+    expect((await secondStep(await startLogin(email), recoveryCodes[0])).status).toBe(400);
+
+    const signedIn = getSetCookies(login.headers);
+    expect((await api(server, signedIn).get("/api/auth/2fa")).body).toMatchObject({
+      enabled: true,
+      recoveryCodesRemaining: 9,
+    });
+
+    const regenerated = await api(server, signedIn).post("/api/auth/2fa/recovery-codes", { code: totpCode(secret, 1) });
+    expect(regenerated.body.recoveryCodes).toHaveLength(10);
+    expect((await secondStep(await startLogin(email), recoveryCodes[1])).status).toBe(400);
+  });
+
+  it("rate limits wrong codes, even sent all at once", async () => {
+    const { cookies, email } = await signUp(server);
+    const { secret } = await enableTwoFactor(cookies);
+    const challengeToken = await startLogin(email);
+
+    // Five free attempts and the one that starts the wait get checked
+    const burst = await Promise.all(Array.from({ length: 8 }, () => secondStep(challengeToken, "000000")));
+    const statuses = burst.map((res) => res.status).sort();
+    expect(statuses).toEqual([400, 400, 400, 400, 400, 400, 429, 429]);
+    expect((await secondStep(challengeToken, totpCode(secret, 1))).status).toBe(429);
+  });
+
+  it("needs the password and a code to be turned off", async () => {
+    const { cookies, email } = await signUp(server);
+    const { secret } = await enableTwoFactor(cookies);
+
+    const wrongPassword = await api(server, cookies).post("/api/auth/2fa/disable", {
+      password: "wrong-password",
+      code: totpCode(secret, 1),
+    });
+    expect(wrongPassword.status).toBe(400);
+    expect(wrongPassword.body.message).toBe("Incorrect password");
+
+    const disable = await api(server, cookies).post("/api/auth/2fa/disable", { password: TEST_PASSWORD, code: totpCode(secret, 1) });
+    expect(disable.status).toBe(200);
+    expect(disable.body.enabled).toBe(false);
+    const login = await api(server).post("/api/auth/login", { email, password: TEST_PASSWORD });
+    expect(login.body.user).toMatchObject({ email });
+  });
+});
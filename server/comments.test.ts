@@ -0,0 +1,106 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { api, connectSocket, signUp, startTestServer, ACCESS_COOKIE, type TestServer, type TestSocket, type TestUser } from "./test-utils";
+
+let server: TestServer;
+const sockets: TestSocket[] = [];
+
+beforeAll(async () => {
+  server = await startTestServer();
+});
+
+afterEach(() => {
+  sockets.splice(0).forEach(({ socket }) => socket.disconnect());
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+// A task in the owner's workspace, which member and viewer can see
+async function setUpTask(): Promise<{ owner: TestUser; member: TestUser; viewer: TestUser; taskId: string }> {
+  const owner = await signUp(server, "owner");
+  const member = await signUp(server, "member");
+  const viewer = await signUp(server, "viewer");
+  const client = api(server, owner.cookies);
+  await client.post(`/api/projects/${owner.projectId}/members`, { emailOrUsername: member.email });
+  await client.post(`/api/projects/${owner.projectId}/members`, { emailOrUsername: viewer.email, role: "viewer" });
+  const task = await client.post("/api/tasks", { projectId: owner.projectId, title: "Discuss me" });
+  return { owner, member, viewer, taskId: task.body.id };
+}
+
+describe("task comments", () => {
+  it("adds, lists, edits and deletes comments in order", async () => {
+    const { owner, member, taskId } = await setUpTask();
+    const first = await api(server, member.cookies).post(`/api/tasks/${taskId}/comments`, { body: "  First!  " });
+    expect(first.status).toBe(201);
+    expect(first.body).toMatchObject({ taskId, body: "First!", authorId: member.user.id });
+    expect(first.body.author).toMatchObject({ id: member.user.id });
+    expect(first.body.author).not.toHaveProperty("password");
+    await new Promise((resolve) => setTimeout(resolve, 2));
+    await api(server, owner.cookies).post(`/api/tasks/${taskId}/comments`, { body: "Second" });
+
+    const list = await api(server, owner.cookies).get(`/api/tasks/${taskId}/comments`);
+    expect(list.body.map((comment: { body: string }) => comment.body)).toEqual(["First!", "Second"]);
+
+    const edited = await api(server, member.cookies).patch(`/api/tasks/${taskId}/comments/${first.body.id}`, {
+      body: "First, edited",
+    });
+    expect(edited.status).toBe(200);
+    expect(edited.body.body).toBe("First, edited");
+
+    expect((await api(server, member.cookies).delete(`/api/tasks/${taskId}/comments/${first.body.id}`)).status).toBe(200);
+    const after = await api(server, owner.cookies).get(`/api/tasks/${taskId}/comments`);
+    expect(after.body.map((comment: { body: string }) => comment.body)).toEqual(["Second"]);
+  });
+
+  it("validates the body", async () => {
+    const { member, taskId } = await setUpTask();
+    const res = await api(server, member.cookies).post(`/api/tasks/${taskId}/comments`, { body: "   " });
+    expect(res.status).toBe(400);
+    expect(res.body.message).toBe("Comment cannot be empty");
+  });
+
+  it("lets only authors edit, authors and admins delete, and viewers read", async () => {
+    const { owner, member, viewer, taskId } = await setUpTask();
+    const comment = await api(server, member.cookies).post(`/api/tasks/${taskId}/comments`, { body: "Mine" });
+    const url = `/api/tasks/${taskId}/comments/${comment.body.id}`;
+
+    expect((await api(server, owner.cookies).patch(url, { body: "Owner's now" })).status).toBe(403);
+    expect((await api(server, viewer.cookies).get(`/api/tasks/${taskId}/comments`)).status).toBe(200);
+    expect((await api(server, viewer.cookies).post(`/api/tasks/${taskId}/comments`, { body: "Hi" })).status).toBe(403);
+    expect((await api(server, viewer.cookies).delete(url)).status).toBe(403);
+    expect((await api(server, owner.cookies).delete(url)).status).toBe(200);
+  });
+
+  it("hides the thread from non-members and comments from other tasks", async () => {
+    const { owner, taskId } = await setUpTask();
+    const outsider = await signUp(server);
+    expect((await api(server, outsider.cookies).get(`/api/tasks/${taskId}/comments`)).status).toBe(404);
+    expect((await api(server, outsider.cookies).post(`/api/tasks/${taskId}/comments`, { body: "Hi" })).status).toBe(404);
+
+    const comment = await api(server, owner.cookies).post(`/api/tasks/${taskId}/comments`, { body: "Here" });
+    const otherTask = await api(server, owner.cookies).post("/api/tasks", { projectId: owner.projectId, title: "Other" });
+    const wrongTask = `/api/tasks/${otherTask.body.id}/comments/${comment.body.id}`;
+    expect((await api(server, owner.cookies).patch(wrongTask, { body: "Moved" })).status).toBe(404);
+    expect((await api(server, owner.cookies).delete(wrongTask)).status).toBe(404);
+  });
+
+  it("sends comment events to sockets", async () => {
+    const { owner, member, taskId } = await setUpTask();
+    const listener = connectSocket(server, owner.cookies[ACCESS_COOKIE]);
+    sockets.push(listener);
+    await listener.connected;
+
+    const created = listener.next("comment:created");
+    const comment = await api(server, member.cookies).post(`/api/tasks/${taskId}/comments`, { body: "Live" });
+    expect(await created).toMatchObject({ taskId, commentId: comment.body.id, data: { body: "Live" } });
+
+    const updated = listener.next("comment:updated");
+    await api(server, member.cookies).patch(`/api/tasks/${taskId}/comments/${comment.body.id}`, { body: "Edited" });
+    expect(await updated).toMatchObject({ taskId, commentId: comment.body.id, data: { body: "Edited" } });
+
+    const deleted = listener.next("comment:deleted");
+    await api(server, member.cookies).delete(`/api/tasks/${taskId}/comments/${comment.body.id}`);
+    expect(await deleted).toEqual({ taskId, commentId: comment.body.id });
+  });
+});
@@ -0,0 +1,146 @@
+import { format } from "date-fns";
+import { storage } from "./storage";
+import { mailer, type MailMessage } from "./mailer";
+import { displayName } from "./notifications";
+import type { EmailPreferenceKey, Task, User } from "@shared/schema";
+
+export const APP_URL = (process.env.APP_URL || "http://localhost:5000").replace(/\/$/, "");
+
+type RenderedEmail = Omit<MailMessage, "to">;
+
+export interface DigestTasks {
+  overdue: Task[];
+  dueToday: Task[];
+  upcoming: Task[];
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function formatDueDate(task: Pick<Task, "dueDate">): string {
+  return task.dueDate ? format(task.dueDate, "PPP") : "no due date";
+}
+
+// Wraps the paragraphs of a message in the shared layout and adds the
+// footer that points to the email settings
+function render(subject: string, paragraphs: string[], tasks: Task[] = []): RenderedEmail {
+  const settingsUrl = `${APP_URL}/settings`;
+  const taskLines = tasks.map((task) => `- ${task.title} (due ${formatDueDate(task)})`);
+  const text = [
+    ...paragraphs,
+    ...(taskLines.length > 0 ? [taskLines.join("\n")] : []),
+    `Open TaskFlow: ${APP_URL}`,
+    `You can turn these emails off in your settings: ${settingsUrl}`,
+  ].join("\n\n");
+
+  const taskItems = tasks
+    .map((task) => `<li>${escapeHtml(task.title)} <span style="color:#6b7280">(due ${formatDueDate(task)})</span></li>`)
+    .join("");
+  const html = `<div style="font-family:sans-serif;font-size:14px;line-height:1.5;color:#111827">
+${paragraphs.map((p) => `<p>${escapeHtml(p)}</p>`).join("\n")}
+${taskItems ? `<ul>${taskItems}</ul>` : ""}
+<p><a href="${APP_URL}">Open TaskFlow</a></p>
+<p style="color:#6b7280;font-size:12px">You can turn these emails off in your <a href="${settingsUrl}">settings</a>.</p>
+</div>`;
+
+  return { subject, text, html };
+}
+
+// Layout for account emails, which carry a single link and are sent
+// whatever the email preferences say
+function renderAccount(subject: string, paragraphs: string[], action: { label: string; url: string }): RenderedEmail {
+  const text = [
+    ...paragraphs,
+    `${action.label}: ${action.url}`,
+    "If you did not ask for this, you can ignore this email.",
+  ].join("\n\n");
+
+  const html = `<div style="font-family:sans-serif;font-size:14px;line-height:1.5;color:#111827">
+${paragraphs.map((p) => `<p>${escapeHtml(p)}</p>`).join("\n")}
+<p><a href="${escapeHtml(action.url)}">${escapeHtml(action.label)}</a></p>
+<p style="color:#6b7280;font-size:12px">If you did not ask for this, you can ignore this email.</p>
+</div>`;
+
+  return { subject, text, html };
+}
+
+export const emailTemplates = {
+  assigned: (recipient: User, actor: string, task: Task) =>
+    render(`${actor} assigned you "${task.title}"`, [
+      `Hi ${displayName(recipient)},`,
+      `${actor} assigned you the task "${task.title}"${task.dueDate ? `, due ${formatDueDate(task)}` : ""}.`,
+    ]),
+
+  dueSoon: (recipient: User, task: Pick<Task, "title" | "dueDate">) =>
+    render(`"${task.title}" is due soon`, [
+      `Hi ${displayName(recipient)},`,
+      `The task "${task.title}" is due ${formatDueDate(task)}.`,
+    ]),
+
+  overdue: (recipient: User, task: Pick<Task, "title" | "dueDate">) =>
+    render(`"${task.title}" is overdue`, [
+      `Hi ${displayName(recipient)},`,
+      `The task "${task.title}" was due ${formatDueDate(task)} and is not completed yet.`,
+    ]),
+
+  dailyDigest: (recipient: User, digest: DigestTasks) => {
+    const sections: string[] = [];
+    if (digest.overdue.length > 0) sections.push(`${digest.overdue.length} overdue`);
+    if (digest.dueToday.length > 0) sections.push(`${digest.dueToday.length} due today`);
+    if (digest.upcoming.length > 0) sections.push(`${digest.upcoming.length} due this week`);
+    return render(
+      `Your tasks for ${format(new Date(), "EEEE, MMMM d")}`,
+      [`Hi ${displayName(recipient)},`, `You have ${sections.join(", ") || "no open tasks with due dates"}.`],
+      [...digest.overdue, ...digest.dueToday, ...digest.upcoming],
+    );
+  },
+
+  passwordReset: (recipient: User, token: string, expiresInMinutes: number) =>
+    renderAccount(
+      "Reset your TaskFlow password",
+      [
+        `Hi ${displayName(recipient)},`,
+        `Someone asked to reset the password of your TaskFlow account. The link below works once and expires in ${expiresInMinutes} minutes.`,
+      ],
+      { label: "Reset your password", url: `${APP_URL}/reset-password?token=${encodeURIComponent(token)}` },
+    ),
+
+  verifyEmail: (recipient: User, token: string) =>
+    renderAccount(
+      "Verify your email address",
+      [`Hi ${displayName(recipient)},`, `Please confirm that ${recipient.email} is your email address.`],
+      { label: "Verify your email", url: `${APP_URL}/verify-email?token=${encodeURIComponent(token)}` },
+    ),
+};
+
+// Sends an account email (password reset, verification) regardless of
+// preferences. Unlike notifications, failures are thrown so the caller can
+// tell the user the email could not be sent.
+export async function sendAccountEmail(recipient: User, email: RenderedEmail): Promise<void> {
+  await mailer.send({ to: recipient.email, ...email });
+}
+
+// Sends the email unless the recipient opted out of this kind; returns
+// whether it was sent. Delivery failures are logged, never thrown, so they
+// cannot fail the request that triggered them.
+export async function sendEmailNotification(
+  userId: string,
+  kind: EmailPreferenceKey,
+  build: (recipient: User) => RenderedEmail,
+): Promise<boolean> {
+  try {
+    const [recipient, preferences] = await Promise.all([storage.getUser(userId), storage.getEmailPreferences(userId)]);
+    if (!recipient || !preferences[kind]) return false;
+    await mailer.send({ to: recipient.email, ...build(recipient) });
+    return true;
+  } catch (error) {
+    console.error(error);
+    return false;
+  }
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { EventLog } from "./event-log";
+
+describe("EventLog", () => {
+  it("numbers events across rooms and returns the missed ones for the given rooms", () => {
+    const log = new EventLog();
+    const start = log.position();
+    expect(start.seq).toBe(0);
+    log.append("project:a", "task:created", { n: 1 });
+    log.append("project:b", "task:created", { n: 2 });
+    const last = log.append("project:a", "task:deleted", { n: 3 });
+    expect(last.seq).toBe(3);
+    expect(log.position()).toEqual({ epoch: start.epoch, seq: 3 });
+
+    expect(log.since(start, new Set(["project:a"]))!.map((entry) => entry.seq)).toEqual([1, 3]);
+    expect(log.since({ epoch: log.epoch, seq: 1 }, new Set(["project:a", "project:b"]))!.map((e) => e.seq)).toEqual([2, 3]);
+    expect(log.since(log.position(), new Set(["project:a"]))).toEqual([]);
+  });
+
+  it("asks for a resync when the gap was dropped or the position is not from this log", () => {
+    const log = new EventLog(2);
+    const start = log.position();
+    log.append("room", "one", null);
+    log.append("room", "two", null);
+    expect(log.since(start, new Set(["room"]))).toHaveLength(2);
+
+    log.append("room", "three", null);
+    expect(log.since(start, new Set(["room"]))).toBeNull();
+    expect(log.since({ epoch: log.epoch, seq: 1 }, new Set(["room"]))!.map((e) => e.event)).toEqual(["two", "three"]);
+    expect(log.since({ epoch: "another-server", seq: 3 }, new Set(["room"]))).toBeNull();
+    expect(log.since({ epoch: log.epoch, seq: 4 }, new Set(["room"]))).toBeNull();
+  });
+});
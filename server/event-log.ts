@@ -0,0 +1,53 @@
+import { randomUUID } from "crypto";
+
+// Bounded in-memory log of the events broadcast to rooms, so a socket that
+// reconnects can be sent what it missed. Sequence numbers increase across all
+// rooms; the epoch changes on every server start, so positions from before a
+// restart are never mistaken for current ones.
+
+export interface EventPosition {
+  epoch: string;
+  seq: number;
+}
+
+export interface LoggedEvent {
+  seq: number;
+  room: string;
+  event: string;
+  data: unknown;
+}
+
+export class EventLog {
+  readonly epoch = randomUUID();
+  private seq = 0;
+  private entries: LoggedEvent[] = [];
+
+  constructor(private readonly capacity = 1000) {}
+
+  append(room: string, event: string, data: unknown): LoggedEvent {
+    const entry = { seq: ++this.seq, room, event, data };
+    this.entries.push(entry);
+    if (this.entries.length > this.capacity) {
+      this.entries.shift();
+    }
+    return entry;
+  }
+
+  position(): EventPosition {
+    return { epoch: this.epoch, seq: this.seq };
+  }
+
+  // Events after `from` in any of the given rooms, or null when some of them
+  // have already been dropped (or `from` belongs to another epoch) and the
+  // client has to reload instead
+  since(from: EventPosition, rooms: Set<string>): LoggedEvent[] | null {
+    if (from.epoch !== this.epoch || from.seq > this.seq) {
+      return null;
+    }
+    const oldest = this.entries.length > 0 ? this.entries[0].seq : this.seq + 1;
+    if (from.seq < oldest - 1) {
+      return null;
+    }
+    return this.entries.filter((entry) => entry.seq > from.seq && rooms.has(entry.room));
+  }
+}
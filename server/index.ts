@@ -6,6 +6,12 @@ import { serveStatic } from "./static";
 import { createServer } from "http";
 
 const app = express();
+// Behind a reverse proxy, req.ip (used by the auth rate limits) is only the
+// client's address when the proxy is trusted: a hop count or address list
+if (process.env.TRUST_PROXY) {
+  const trustProxy = process.env.TRUST_PROXY;
+  app.set("trust proxy", /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy);
+}
 app.use(cookieParser());
 const httpServer = createServer(app);
 
@@ -15,6 +21,17 @@ declare module "http" {
   }
 }
 
+// Task imports carry the whole file, well past the default 100kb limit
+app.use(
+  "/api/tasks/import",
+  express.json({
+    limit: "5mb",
+    verify: (req, _res, buf) => {
+      req.rawBody = buf;
+    },
+  }),
+);
+
 app.use(
   express.json({
     verify: (req, _res, buf) => {
@@ -36,6 +53,11 @@ export function log(message: string, source = "express") {
   console.log(`${formattedTime} [${source}] ${message}`);
 }
 
+// Auth and webhook responses can hold API tokens, TOTP secrets, recovery
+// codes and signing secrets that are shown only once, so their bodies are
+// left out of the log
+const UNLOGGED_BODY_PATHS = [/^\/api\/auth\//, /^\/api\/projects\/[^/]+\/webhooks(\/|$)/];
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -51,7 +73,7 @@ app.use((req, res, next) => {
     const duration = Date.now() - start;
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (capturedJsonResponse) {
+      if (capturedJsonResponse && !UNLOGGED_BODY_PATHS.some((pattern) => pattern.test(path))) {
         logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
       }
 
@@ -0,0 +1,30 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+// The transport is chosen when the module loads, so each test loads it anew
+async function loadMailer(env: Record<string, string>) {
+  for (const [name, value] of Object.entries(env)) {
+    vi.stubEnv(name, value);
+  }
+  vi.resetModules();
+  return import("./mailer");
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("mail transport", () => {
+  it("logs to the console outside production", async () => {
+    const { mailer, ConsoleTransport } = await loadMailer({ NODE_ENV: "development", MAIL_TRANSPORT: "" });
+    expect(mailer).toBeInstanceOf(ConsoleTransport);
+  });
+
+  it("must be chosen explicitly in production", async () => {
+    await expect(loadMailer({ NODE_ENV: "production", MAIL_TRANSPORT: "" })).rejects.toThrow(
+      "MAIL_TRANSPORT must be set to smtp, file or console in production",
+    );
+
+    const { mailer, ConsoleTransport } = await loadMailer({ NODE_ENV: "production", MAIL_TRANSPORT: "console" });
+    expect(mailer).toBeInstanceOf(ConsoleTransport);
+  });
+});
@@ -0,0 +1,136 @@
+import { Router } from "express";
+import { createHash, generateKeyPairSync, randomUUID } from "crypto";
+import jwt from "jsonwebtoken";
+import { escapeHtml } from "./email";
+import { generateToken } from "./tokens";
+
+// A stand-in OpenID Connect provider for development and tests, mounted at
+// MOCK_IDP_PATH when OIDC_MOCK=true. It signs in whoever types an email
+// address, with no password, so it must never be enabled in production.
+// Keys and codes live in memory and are lost on restart.
+
+const CODE_TTL_MS = 60 * 1000;
+const ID_TOKEN_TTL_SECONDS = 5 * 60;
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+  email: string;
+  name: string;
+  expiresAt: number;
+}
+
+function renderSignInPage(params: Record<string, string>): string {
+  const hidden = Object.entries(params)
+    .map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}">`)
+    .join("\n");
+  return `<!doctype html>
+<html>
+<head><meta charset="utf-8"><title>Mock identity provider</title></head>
+<body style="font-family:sans-serif;max-width:360px;margin:80px auto">
+<h1 style="font-size:20px">Mock identity provider</h1>
+<p style="color:#6b7280;font-size:14px">Development only: sign in as anyone.</p>
+<form method="post">
+${hidden}
+<p><label>Email<br><input name="email" type="email" required autofocus style="width:100%"></label></p>
+<p><label>Name<br><input name="name" style="width:100%"></label></p>
+<p><button type="submit">Sign in</button></p>
+</form>
+</body>
+</html>`;
+}
+
+export function createMockIdp(issuer: string): Router {
+  const router = Router();
+  const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  const kid = randomUUID();
+  const codes = new Map<string, PendingCode>();
+
+  router.get("/.well-known/openid-configuration", (_req, res) => {
+    res.json({
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+      response_types_supported: ["code"],
+      subject_types_supported: ["public"],
+      id_token_signing_alg_values_supported: ["RS256"],
+      code_challenge_methods_supported: ["S256"],
+      scopes_supported: ["openid", "email", "profile"],
+    });
+  });
+
+  router.get("/jwks", (_req, res) => {
+    res.json({ keys: [{ ...publicKey.export({ format: "jwk" }), kid, use: "sig", alg: "RS256" }] });
+  });
+
+  router.get("/authorize", (req, res) => {
+    const params = Object.fromEntries(
+      Object.entries(req.query).filter((entry): entry is [string, string] => typeof entry[1] === "string"),
+    );
+    res.type("html").send(renderSignInPage(params));
+  });
+
+  router.post("/authorize", (req, res) => {
+    const { client_id, redirect_uri, state, nonce, code_challenge, code_challenge_method, email, name } = req.body;
+    if (!client_id || !redirect_uri || !email) {
+      return res.status(400).send("client_id, redirect_uri and email are required");
+    }
+    if (code_challenge_method !== "S256" || !code_challenge) {
+      return res.status(400).send("PKCE with S256 is required");
+    }
+
+    const code = generateToken();
+    codes.set(code, {
+      clientId: client_id,
+      redirectUri: redirect_uri,
+      codeChallenge: code_challenge,
+      nonce,
+      email: String(email).trim().toLowerCase(),
+      name: name || String(email).split("@")[0],
+      expiresAt: Date.now() + CODE_TTL_MS,
+    });
+
+    const url = new URL(redirect_uri);
+    url.searchParams.set("code", code);
+    if (state) url.searchParams.set("state", state);
+    res.redirect(url.toString());
+  });
+
+  router.post("/token", (req, res) => {
+    const { grant_type, code, redirect_uri, client_id, code_verifier } = req.body;
+    const pending = code ? codes.get(code) : undefined;
+    if (code) codes.delete(code);
+
+    if (
+      grant_type !== "authorization_code" ||
+      !pending ||
+      pending.expiresAt < Date.now() ||
+      pending.redirectUri !== redirect_uri ||
+      pending.clientId !== client_id
+    ) {
+      return res.status(400).json({ error: "invalid_grant" });
+    }
+    if (createHash("sha256").update(String(code_verifier ?? "")).digest("base64url") !== pending.codeChallenge) {
+      return res.status(400).json({ error: "invalid_grant", error_description: "PKCE verification failed" });
+    }
+
+    const idToken = jwt.sign(
+      { email: pending.email, email_verified: true, name: pending.name, nonce: pending.nonce },
+      privateKey,
+      {
+        algorithm: "RS256",
+        keyid: kid,
+        issuer,
+        audience: pending.clientId,
+        subject: `mock|${pending.email}`,
+        expiresIn: ID_TOKEN_TTL_SECONDS,
+      },
+    );
+    res.json({ access_token: generateToken(), token_type: "Bearer", expires_in: ID_TOKEN_TTL_SECONDS, id_token: idToken });
+  });
+
+  return router;
+}
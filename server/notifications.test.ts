@@ -0,0 +1,192 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { extractMentions } from "./notifications";
+import { emailTemplates } from "./email";
+import {
+  api,
+  captureMail,
+  connectSocket,
+  signUp,
+  startTestServer,
+  ACCESS_COOKIE,
+  type TestServer,
+  type TestSocket,
+  type TestUser,
+} from "./test-utils";
+import type { Task, User } from "@shared/schema";
+
+let server: TestServer;
+const sockets: TestSocket[] = [];
+const mail = captureMail();
+
+beforeAll(async () => {
+  server = await startTestServer();
+});
+
+afterEach(() => {
+  sockets.splice(0).forEach(({ socket }) => socket.disconnect());
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+async function inbox(user: TestUser): Promise<{ type: string; message: string; readAt: string | null; id: string }[]> {
+  return (await api(server, user.cookies).get("/api/notifications")).body;
+}
+
+async function setUpTeam() {
+  const owner = await signUp(server, "owner");
+  const member = await signUp(server, "member");
+  const client = api(server, owner.cookies);
+  await client.post(`/api/projects/${owner.projectId}/members`, { emailOrUsername: member.email });
+  return { owner, member, client };
+}
+
+describe("extractMentions", () => {
+  it("finds each @username once, lower-cased, without trailing punctuation", () => {
+    expect(extractMentions("@Ann and @bob.smith, see @ann. Mail me at me@example.com")).toEqual(["ann", "bob.smith"]);
+    expect(extractMentions("No mentions here")).toEqual([]);
+  });
+});
+
+describe("notifications", () => {
+  it("tells the assignee, but not the actor, when a task is assigned", async () => {
+    const { owner, member, client } = await setUpTeam();
+    await client.post("/api/tasks", { projectId: owner.projectId, title: "Mine", assignedToId: owner.user.id });
+    await client.post("/api/tasks", { projectId: owner.projectId, title: "Theirs", assignedToId: member.user.id });
+
+    expect(await inbox(owner)).toEqual([]);
+    const [notification] = await inbox(member);
+    expect(notification).toMatchObject({ type: "assigned", message: `${owner.user.username} assigned you to "Theirs"` });
+  });
+
+  it("tells the creator and assignee about status changes", async () => {
+    const { owner, member, client } = await setUpTeam();
+    const task = await client.post("/api/tasks", { projectId: owner.projectId, title: "Move me", assignedToId: member.user.id });
+    await api(server, member.cookies).patch(`/api/tasks/${task.body.id}`, { status: "in_progress", version: 1 });
+
+    const [notification] = await inbox(owner);
+    expect(notification).toMatchObject({
+      type: "status_changed",
+      message: `${member.user.username} moved "Move me" to In Progress`,
+    });
+    expect((await inbox(member)).map((n) => n.type)).toEqual(["assigned"]);
+  });
+
+  it("notifies mentioned members instead of a plain comment notification, and new mentions on edit", async () => {
+    const { owner, member, client } = await setUpTeam();
+    const third = await signUp(server, "third");
+    await client.post(`/api/projects/${owner.projectId}/members`, { emailOrUsername: third.email });
+    const outsider = await signUp(server, "outsider");
+    const task = await client.post("/api/tasks", { projectId: owner.projectId, title: "Talk" });
+
+    const comment = await api(server, member.cookies).post(`/api/tasks/${task.body.id}/comments`, {
+      body: `@${owner.user.username.toUpperCase()} and @${outsider.user.username}, thoughts?`,
+    });
+    expect((await inbox(owner)).map((n) => n.type)).toEqual(["mention"]);
+    expect(await inbox(outsider)).toEqual([]);
+    expect(await inbox(third)).toEqual([]);
+
+    await api(server, member.cookies).patch(`/api/tasks/${task.body.id}/comments/${comment.body.id}`, {
+      body: `@${owner.user.username} and @${third.user.username}, thoughts?`,
+    });
+    expect((await inbox(owner)).map((n) => n.type)).toEqual(["mention"]);
+    const [mention] = await inbox(third);
+    expect(mention).toMatchObject({ type: "mention", message: `${member.user.username} mentioned you on "Talk"` });
+
+    await api(server, third.cookies).post(`/api/tasks/${task.body.id}/comments`, { body: "Plain reply" });
+    const types = (await inbox(owner)).map((n) => n.type).sort();
+    expect(types).toEqual(["comment", "mention"]);
+  });
+
+  it("marks notifications read one by one or all at once, and keeps them private", async () => {
+    const { owner, member, client } = await setUpTeam();
+    for (const title of ["One", "Two", "Three"]) {
+      await client.post("/api/tasks", { projectId: owner.projectId, title, assignedToId: member.user.id });
+    }
+    const memberClient = api(server, member.cookies);
+    expect((await memberClient.get("/api/notifications/unread-count")).body).toEqual({ count: 3 });
+
+    const [first] = await inbox(member);
+    expect((await client.post(`/api/notifications/${first.id}/read`)).status).toBe(404);
+    const read = await memberClient.post(`/api/notifications/${first.id}/read`);
+    expect(read.body.readAt).toEqual(expect.any(String));
+    expect((await memberClient.get("/api/notifications?unread=true")).body).toHaveLength(2);
+    expect((await memberClient.get("/api/notifications?limit=1")).body).toHaveLength(1);
+
+    expect((await memberClient.post("/api/notifications/read-all")).body).toEqual({ count: 2 });
+    expect((await memberClient.get("/api/notifications/unread-count")).body).toEqual({ count: 0 });
+  });
+
+  it("pushes new notifications to the recipient's sockets", async () => {
+    const { owner, member, client } = await setUpTeam();
+    const listener = connectSocket(server, member.cookies[ACCESS_COOKIE]);
+    sockets.push(listener);
+    await listener.connected;
+
+    const created = listener.next("notification:created");
+    await client.post("/api/tasks", { projectId: owner.projectId, title: "Live", assignedToId: member.user.id });
+    expect(await created).toMatchObject({ type: "assigned", userId: member.user.id, actor: { id: owner.user.id } });
+
+    const readAll = listener.next("notification:read_all");
+    await api(server, member.cookies).post("/api/notifications/read-all");
+    await readAll;
+  });
+});
+
+describe("email notifications", () => {
+  it("emails the assignee unless they opted out", async () => {
+    const { owner, member, client } = await setUpTeam();
+    const assigned = mail.next(member.email);
+    await client.post("/api/tasks", { projectId: owner.projectId, title: "Mail me", assignedToId: member.user.id });
+    const message = await assigned;
+    expect(message.subject).toBe(`${owner.user.username} assigned you "Mail me"`);
+    expect(message.text).toContain("/settings");
+
+    const memberClient = api(server, member.cookies);
+    expect((await memberClient.get("/api/users/me/email-preferences")).body).toMatchObject({
+      assigned: true,
+      dueSoon: true,
+      overdue: true,
+      dailyDigest: false,
+    });
+    const updated = await memberClient.patch("/api/users/me/email-preferences", { assigned: false });
+    expect(updated.body).toMatchObject({ assigned: false, dueSoon: true });
+    expect((await memberClient.patch("/api/users/me/email-preferences", { assigned: "no" })).status).toBe(400);
+
+    // Emails go out in the order they were triggered, so once the owner's
+    // arrives, the member's would have too
+    await client.post("/api/tasks", { projectId: owner.projectId, title: "Silent", assignedToId: member.user.id });
+    const other = await signUp(server);
+    await client.post(`/api/projects/${owner.projectId}/members`, { emailOrUsername: other.email });
+    const marker = mail.next(other.email);
+    await client.post("/api/tasks", { projectId: owner.projectId, title: "Marker", assignedToId: other.user.id });
+    await marker;
+    const assignments = mail.sent.filter((sent) => sent.to === member.email && sent.subject.includes("assigned you"));
+    expect(assignments.map((sent) => sent.subject)).toEqual([
+      `${owner.user.username} assigned you "Mail me"`,
+    ]);
+  });
+});
+
+describe("email templates", () => {
+  const recipient = { username: "ann", displayName: "Ann <Admin>", email: "ann@example.com" } as User;
+  const task = { title: "Fix <script>", dueDate: new Date(2030, 0, 2) } as Task;
+
+  it("escapes user text in the HTML part only", () => {
+    const email = emailTemplates.overdue(recipient, task);
+    expect(email.subject).toBe('"Fix <script>" is overdue');
+    expect(email.text).toContain("Hi Ann <Admin>,");
+    expect(email.html).toContain("Fix &lt;script&gt;");
+    expect(email.html).not.toContain("<script>");
+  });
+
+  it("summarizes the digest by section", () => {
+    const email = emailTemplates.dailyDigest(recipient, { overdue: [task], dueToday: [], upcoming: [task, task] });
+    expect(email.text).toContain("You have 1 overdue, 2 due this week.");
+    expect(email.text).toContain("- Fix <script> (due January 2nd, 2030)");
+    expect(emailTemplates.dailyDigest(recipient, { overdue: [], dueToday: [], upcoming: [] }).text).toContain(
+      "You have no open tasks with due dates.",
+    );
+  });
+});
@@ -0,0 +1,35 @@
+import type { Status, Task, UserPublic } from "@shared/schema";
+
+// Message text for the notifications written by the routes. Messages are
+// stored as rendered so the inbox does not depend on the task still existing
+// in the same shape.
+
+const statusLabels: Record<Status, string> = {
+  todo: "To Do",
+  in_progress: "In Progress",
+  review: "Review",
+  completed: "Completed",
+};
+
+export function displayName(user: Pick<UserPublic, "displayName" | "username">): string {
+  return user.displayName || user.username;
+}
+
+export const notificationMessages = {
+  assigned: (actor: string, task: Pick<Task, "title">) => `${actor} assigned you to "${task.title}"`,
+  comment: (actor: string, task: Pick<Task, "title">) => `${actor} commented on "${task.title}"`,
+  mention: (actor: string, task: Pick<Task, "title">) => `${actor} mentioned you on "${task.title}"`,
+  statusChanged: (actor: string, task: Pick<Task, "title" | "status">) =>
+    `${actor} moved "${task.title}" to ${statusLabels[task.status]}`,
+  dueSoon: (task: Pick<Task, "title">) => `"${task.title}" is due soon`,
+  overdue: (task: Pick<Task, "title">) => `"${task.title}" is overdue`,
+};
+
+// Lower-cased usernames written as @username in a comment
+export function extractMentions(body: string): string[] {
+  const mentions = new Set<string>();
+  for (const match of Array.from(body.matchAll(/(?:^|[^\w@])@([\w.-]+)/g))) {
+    mentions.add(match[1].replace(/[.-]+$/, "").toLowerCase());
+  }
+  return Array.from(mentions);
+}
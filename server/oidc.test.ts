@@ -0,0 +1,218 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+// The mock provider's issuer is APP_URL plus MOCK_IDP_PATH, read when the
+// modules load, so the server's port is picked before anything is imported
+const { port } = await vi.hoisted(async () => {
+  const { createServer } = await import("net");
+  const probe = createServer();
+  await new Promise<void>((resolve) => probe.listen(0, "127.0.0.1", resolve));
+  const { port } = probe.address() as import("net").AddressInfo;
+  await new Promise((resolve) => probe.close(resolve));
+  process.env.APP_URL = `http://127.0.0.1:${port}`;
+  process.env.OIDC_MOCK = "true";
+  process.env.OIDC_PROVIDER_NAME = "Mock SSO";
+  return { port };
+});
+
+import { createServer } from "http";
+import type { AddressInfo } from "net";
+import request from "supertest";
+import {
+  ACCESS_COOKIE,
+  api,
+  cookieHeader,
+  getSetCookies,
+  signUp,
+  startTestServer,
+  type TestServer,
+} from "./test-utils";
+import { storage } from "./storage";
+
+let server: TestServer;
+
+beforeAll(async () => {
+  server = await startTestServer(port);
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+// Where a redirect goes, relative to the server
+function redirectPath(location: string): string {
+  const url = new URL(location, server.url);
+  return `${url.pathname}${url.search}`;
+}
+
+// Follows the flow up to the callback: the login redirect, then the mock
+// provider's sign-in form. Returns the callback URL and the state cookie.
+async function authorize(email: string) {
+  const login = await request(server.url).get("/api/auth/oidc/login");
+  expect(login.status).toBe(302);
+  const stateCookie = getSetCookies(login.headers);
+  const authorizeUrl = new URL(login.headers.location);
+
+  const signIn = await request(server.url)
+    .post(authorizeUrl.pathname)
+    .type("form")
+    .send({ ...Object.fromEntries(authorizeUrl.searchParams), email, name: "Sam Single" });
+  expect(signIn.status).toBe(302);
+  return { callback: redirectPath(signIn.headers.location), stateCookie };
+}
+
+async function signInWithSso(email: string) {
+  const { callback, stateCookie } = await authorize(email);
+  const res = await request(server.url).get(callback).set("Cookie", cookieHeader(stateCookie));
+  return { res, cookies: getSetCookies(res.headers) };
+}
+
+describe("single sign-on", () => {
+  it("lists the provider for the sign-in page", async () => {
+    const res = await api(server).get("/api/auth/providers");
+    expect(res.body).toEqual({ passwordLogin: true, sso: { name: "Mock SSO" } });
+  });
+
+  it("sends the browser to the provider with PKCE and a state cookie", async () => {
+    const login = await request(server.url).get("/api/auth/oidc/login");
+    expect(login.status).toBe(302);
+
+    const url = new URL(login.headers.location);
+    expect(url.origin + url.pathname).toBe(`${server.url}/mock-idp/authorize`);
+    expect(url.searchParams.get("response_type")).toBe("code");
+    expect(url.searchParams.get("code_challenge_method")).toBe("S256");
+    expect(url.searchParams.get("state")).toBeTruthy();
+    expect(url.searchParams.get("nonce")).toBeTruthy();
+    expect(getSetCookies(login.headers).taskflow_oidc).toBeTruthy();
+  });
+
+  it("provisions a verified account with a workspace on first sign-in", async () => {
+    const { res, cookies } = await signInWithSso("newcomer@example.com");
+    expect(res.status).toBe(302);
+    expect(res.headers.location).toBe("/");
+    expect(cookies[ACCESS_COOKIE]).toBeTruthy();
+
+    const me = await api(server, cookies).get("/api/auth/me");
+    expect(me.body.user).toMatchObject({ email: "newcomer@example.com", username: "newcomer", displayName: "Sam Single" });
+    expect(me.body.user.emailVerifiedAt).toBeTruthy();
+
+    const projects = await api(server, cookies).get("/api/projects");
+    expect(projects.body).toHaveLength(1);
+  });
+
+  it("signs the same identity into the same account again", async () => {
+    const first = await signInWithSso("returning@example.com");
+    const second = await signInWithSso("returning@example.com");
+
+    const firstMe = await api(server, first.cookies).get("/api/auth/me");
+    const secondMe = await api(server, second.cookies).get("/api/auth/me");
+    expect(secondMe.body.user.id).toBe(firstMe.body.user.id);
+  });
+
+  it("links a verified email to the existing password account", async () => {
+    const { user, email } = await signUp(server);
+
+    const { cookies } = await signInWithSso(email);
+    const me = await api(server, cookies).get("/api/auth/me");
+    expect(me.body.user.id).toBe(user.id);
+    expect(me.body.user.emailVerifiedAt).toBeTruthy();
+  });
+
+  it("appends a number to a taken username", async () => {
+    const { user } = await signUp(server, "taken");
+
+    const { cookies } = await signInWithSso(`${user.username}@elsewhere.example`);
+    const me = await api(server, cookies).get("/api/auth/me");
+    expect(me.body.user.username).toBe(`${user.username}2`);
+  });
+
+  it("rejects a callback whose state does not match the cookie", async () => {
+    const first = await authorize("mixup@example.com");
+    const second = await authorize("mixup@example.com");
+
+    const res = await request(server.url).get(first.callback).set("Cookie", cookieHeader(second.stateCookie));
+    expect(res.status).toBe(302);
+    expect(decodeURIComponent(res.headers.location)).toContain("/login?sso_error=Your sign-in attempt has expired");
+    expect(getSetCookies(res.headers)[ACCESS_COOKIE]).toBeUndefined();
+    expect(await storage.getUserByEmail("mixup@example.com")).toBeUndefined();
+  });
+
+  it("rejects a callback without the state cookie", async () => {
+    const { callback } = await authorize("nocookie@example.com");
+
+    const res = await request(server.url).get(callback);
+    expect(decodeURIComponent(res.headers.location)).toContain("/login?sso_error=Your sign-in attempt has expired");
+  });
+
+  it("does not accept an authorization code twice", async () => {
+    const { callback, stateCookie } = await authorize("replay@example.com");
+    const first = await request(server.url).get(callback).set("Cookie", cookieHeader(stateCookie));
+    expect(first.headers.location).toBe("/");
+
+    const replay = await request(server.url).get(callback).set("Cookie", cookieHeader(stateCookie));
+    expect(replay.headers.location).toMatch(/^\/login\?sso_error=/);
+    expect(getSetCookies(replay.headers)[ACCESS_COOKIE]).toBeUndefined();
+  });
+
+  it("shows the provider's error on the sign-in page", async () => {
+    const res = await request(server.url).get("/api/auth/oidc/callback?error=access_denied&error_description=Nope");
+    expect(decodeURIComponent(res.headers.location)).toBe(
+      "/login?sso_error=The identity provider refused the sign-in: Nope",
+    );
+  });
+});
+
+describe("mock identity provider", () => {
+  it("refuses a token request with the wrong PKCE verifier", async () => {
+    const { callback } = await authorize("pkce@example.com");
+    const code = new URL(callback, server.url).searchParams.get("code");
+
+    const res = await request(server.url).post("/mock-idp/token").type("form").send({
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: `${server.url}/api/auth/oidc/callback`,
+      client_id: "taskflow",
+      code_verifier: "not-the-verifier",
+    });
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe("invalid_grant");
+  });
+});
+
+describe("provider discovery", () => {
+  it("refuses a provider that names a different issuer", async () => {
+    // Serves the mock provider's metadata under another issuer's address
+    const metadata = (await request(server.url).get("/mock-idp/.well-known/openid-configuration")).body;
+    const impostor = createServer((_req, res) => {
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify(metadata));
+    });
+    await new Promise<void>((resolve) => impostor.listen(0, "127.0.0.1", resolve));
+    const issuer = `http://127.0.0.1:${(impostor.address() as AddressInfo).port}`;
+
+    vi.stubEnv("OIDC_ISSUER", issuer);
+    vi.resetModules();
+    try {
+      const { createAuthorizationRequest, oidcConfig } = await import("./oidc");
+      expect(oidcConfig?.issuer).toBe(issuer);
+      await expect(createAuthorizationRequest(oidcConfig!)).rejects.toThrow(
+        "The identity provider reported an issuer other than the configured one",
+      );
+    } finally {
+      vi.unstubAllEnvs();
+      impostor.close();
+    }
+  });
+});
+
+describe("mock identity provider in production", () => {
+  it("stops the server from starting", async () => {
+    vi.stubEnv("NODE_ENV", "production");
+    vi.stubEnv("MAIL_TRANSPORT", "console");
+    vi.resetModules();
+    try {
+      await expect(import("./oidc")).rejects.toThrow("OIDC_MOCK must not be enabled in production");
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+});
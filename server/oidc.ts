@@ -0,0 +1,212 @@
+import { createHash, createPublicKey, type JsonWebKey, type KeyObject } from "crypto";
+import jwt, { type JwtPayload } from "jsonwebtoken";
+import { APP_URL } from "./email";
+import { generateToken } from "./tokens";
+
+// Single sign-on with an OpenID Connect identity provider, using the
+// authorization code flow with PKCE. Configured with OIDC_ISSUER,
+// OIDC_CLIENT_ID and optionally OIDC_CLIENT_SECRET, OIDC_REDIRECT_URI,
+// OIDC_SCOPES and OIDC_PROVIDER_NAME. With OIDC_MOCK=true and no issuer, the
+// built-in mock provider from server/mock-idp.ts is used.
+
+export const MOCK_IDP_PATH = "/mock-idp";
+export const mockIdpEnabled = process.env.OIDC_MOCK === "true";
+
+// The mock provider signs in anyone as any email address, so a production
+// server refuses to start with it rather than just warning
+if (mockIdpEnabled && process.env.NODE_ENV === "production") {
+  throw new Error("OIDC_MOCK must not be enabled in production");
+}
+
+const SIGNING_ALGORITHMS: jwt.Algorithm[] = ["RS256", "RS384", "RS512", "PS256", "PS384", "PS512", "ES256", "ES384", "ES512"];
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret: string | null;
+  redirectUri: string;
+  scopes: string;
+  // Shown on the sign-in button
+  providerName: string;
+}
+
+function loadOidcConfig(): OidcConfig | null {
+  const issuer = process.env.OIDC_ISSUER || (mockIdpEnabled ? `${APP_URL}${MOCK_IDP_PATH}` : "");
+  if (!issuer) return null;
+  const clientId = process.env.OIDC_CLIENT_ID || (mockIdpEnabled ? "taskflow" : "");
+  if (!clientId) {
+    throw new Error("OIDC_CLIENT_ID is required when OIDC_ISSUER is set");
+  }
+  return {
+    // Kept exactly as configured, since the provider must report the same
+    issuer,
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET || null,
+    redirectUri: process.env.OIDC_REDIRECT_URI || `${APP_URL}/api/auth/oidc/callback`,
+    scopes: process.env.OIDC_SCOPES || "openid email profile",
+    providerName: process.env.OIDC_PROVIDER_NAME || "SSO",
+  };
+}
+
+// Null when single sign-on is not configured
+export const oidcConfig = loadOidcConfig();
+
+// Failures whose message can be shown to the person signing in
+export class OidcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OidcError";
+  }
+}
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+export interface OidcClaims {
+  iss: string;
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  preferred_username?: string;
+}
+
+// State kept in a cookie between the redirect to the provider and the callback
+export interface AuthorizationRequest {
+  url: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init);
+  if (!res.ok) {
+    throw new OidcError(`The identity provider could not be reached (${res.status})`);
+  }
+  return res.json() as Promise<T>;
+}
+
+let metadata: Promise<ProviderMetadata> | null = null;
+let signingKeys = new Map<string, KeyObject>();
+
+// Discovered on first use and kept; a failed lookup is retried next time.
+// The provider must name itself with the configured issuer (OpenID Connect
+// Discovery 4.3), or its metadata could send us to another provider's
+// endpoints and keys.
+function getMetadata(config: OidcConfig): Promise<ProviderMetadata> {
+  if (!metadata) {
+    const url = `${config.issuer.replace(/\/$/, "")}/.well-known/openid-configuration`;
+    metadata = fetchJson<ProviderMetadata>(url)
+      .then((provider) => {
+        if (provider.issuer !== config.issuer) {
+          throw new OidcError("The identity provider reported an issuer other than the configured one");
+        }
+        return provider;
+      })
+      .catch((error) => {
+        metadata = null;
+        throw error;
+      });
+  }
+  return metadata;
+}
+
+// Keys are fetched again when a token names one we do not know, which is
+// how providers roll their keys over
+async function getSigningKey(provider: ProviderMetadata, kid: string | undefined): Promise<KeyObject> {
+  const find = () => (kid ? signingKeys.get(kid) : signingKeys.size === 1 ? Array.from(signingKeys.values())[0] : undefined);
+  let key = find();
+  if (!key) {
+    const jwks = await fetchJson<{ keys: (JsonWebKey & { kid?: string; use?: string })[] }>(provider.jwks_uri);
+    signingKeys = new Map(
+      jwks.keys
+        .filter((jwk) => !jwk.use || jwk.use === "sig")
+        .map((jwk) => [jwk.kid ?? "", createPublicKey({ key: jwk, format: "jwk" })]),
+    );
+    key = find();
+  }
+  if (!key) {
+    throw new OidcError("The identity provider signed the sign-in with an unknown key");
+  }
+  return key;
+}
+
+export async function createAuthorizationRequest(config: OidcConfig): Promise<AuthorizationRequest> {
+  const provider = await getMetadata(config);
+  const state = generateToken(16);
+  const nonce = generateToken(16);
+  const codeVerifier = generateToken(32);
+
+  const url = new URL(provider.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: "code",
+    client_id: config.clientId,
+    redirect_uri: config.redirectUri,
+    scope: config.scopes,
+    state,
+    nonce,
+    code_challenge: createHash("sha256").update(codeVerifier).digest("base64url"),
+    code_challenge_method: "S256",
+  }).toString();
+
+  return { url: url.toString(), state, nonce, codeVerifier };
+}
+
+// Trades the authorization code for tokens and returns the claims of the
+// verified ID token
+export async function completeAuthorization(
+  config: OidcConfig,
+  code: string,
+  request: Pick<AuthorizationRequest, "nonce" | "codeVerifier">,
+): Promise<OidcClaims> {
+  const provider = await getMetadata(config);
+
+  const headers: Record<string, string> = {
+    "Content-Type": "application/x-www-form-urlencoded",
+    Accept: "application/json",
+  };
+  if (config.clientSecret) {
+    const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+  }
+  const tokens = await fetchJson<{ id_token?: string }>(provider.token_endpoint, {
+    method: "POST",
+    headers,
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: config.redirectUri,
+      client_id: config.clientId,
+      code_verifier: request.codeVerifier,
+    }),
+  });
+  if (!tokens.id_token) {
+    throw new OidcError("The identity provider did not return an ID token");
+  }
+
+  const decoded = jwt.decode(tokens.id_token, { complete: true });
+  if (!decoded || typeof decoded.payload === "string") {
+    throw new OidcError("The identity provider returned a malformed ID token");
+  }
+  const key = await getSigningKey(provider, decoded.header.kid);
+
+  let claims: JwtPayload & OidcClaims;
+  try {
+    claims = jwt.verify(tokens.id_token, key, {
+      algorithms: SIGNING_ALGORITHMS,
+      issuer: provider.issuer,
+      audience: config.clientId,
+    }) as JwtPayload & OidcClaims;
+  } catch {
+    throw new OidcError("The identity provider returned an invalid ID token");
+  }
+  if (claims.nonce !== request.nonce || !claims.sub) {
+    throw new OidcError("The identity provider returned an invalid ID token");
+  }
+  return claims;
+}
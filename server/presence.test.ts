@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { PresenceTracker } from "./presence";
+
+describe("PresenceTracker", () => {
+  it("counts a user online once across tabs", () => {
+    const presence = new PresenceTracker();
+    expect(presence.connect("tab1", "ann")).toBe(true);
+    expect(presence.connect("tab2", "ann")).toBe(false);
+    expect(presence.isOnline("ann")).toBe(true);
+
+    expect(presence.disconnect("tab1")).toMatchObject({ userId: "ann", wentOffline: false });
+    expect(presence.disconnect("tab2")).toMatchObject({ userId: "ann", wentOffline: true });
+    expect(presence.isOnline("ann")).toBe(false);
+    expect(presence.disconnect("tab2")).toBeUndefined();
+  });
+
+  it("tracks which task each socket has open and whether it is editing", () => {
+    const presence = new PresenceTracker();
+    presence.connect("tab1", "ann");
+    presence.connect("tab2", "ann");
+    presence.connect("tab3", "bob");
+
+    expect(presence.setTask("tab1", "task1")).toBeNull();
+    presence.setTask("tab2", "task1", true);
+    presence.setTask("tab3", "task1");
+    expect(presence.getTaskViewers("task1")).toEqual([
+      { userId: "ann", editing: true },
+      { userId: "bob", editing: false },
+    ]);
+
+    expect(presence.setTask("tab3", "task2", true)).toBe("task1");
+    expect(presence.setTask("tab2", null, true)).toBe("task1");
+    expect(presence.getTaskViewers("task1")).toEqual([{ userId: "ann", editing: false }]);
+    expect(presence.getTaskViewers("task2")).toEqual([{ userId: "bob", editing: true }]);
+    expect(presence.setTask("unknown", "task1")).toBeNull();
+  });
+});
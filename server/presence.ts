@@ -0,0 +1,61 @@
+// In-memory record of which user each socket belongs to and which task, if
+// any, that socket has open. A user is online while at least one of their
+// sockets is connected; several tabs of the same user count once.
+
+export interface TaskViewer {
+  userId: string;
+  editing: boolean;
+}
+
+interface SocketPresence {
+  userId: string;
+  taskId: string | null;
+  editing: boolean;
+}
+
+export class PresenceTracker {
+  private sockets = new Map<string, SocketPresence>();
+
+  // Returns true when this is the user's first connected socket
+  connect(socketId: string, userId: string): boolean {
+    const wasOnline = this.isOnline(userId);
+    this.sockets.set(socketId, { userId, taskId: null, editing: false });
+    return !wasOnline;
+  }
+
+  // Returns the socket's presence, with wentOffline set when it was the
+  // user's last connected socket
+  disconnect(socketId: string): (SocketPresence & { wentOffline: boolean }) | undefined {
+    const presence = this.sockets.get(socketId);
+    if (!presence) return undefined;
+    this.sockets.delete(socketId);
+    return { ...presence, wentOffline: !this.isOnline(presence.userId) };
+  }
+
+  isOnline(userId: string): boolean {
+    return Array.from(this.sockets.values()).some((p) => p.userId === userId);
+  }
+
+  // Points the socket at a task (or at nothing); returns the task it had open before
+  setTask(socketId: string, taskId: string | null, editing = false): string | null {
+    const presence = this.sockets.get(socketId);
+    if (!presence) return null;
+    const previous = presence.taskId;
+    presence.taskId = taskId;
+    presence.editing = taskId !== null && editing;
+    return previous;
+  }
+
+  getTaskViewers(taskId: string): TaskViewer[] {
+    const viewers = new Map<string, TaskViewer>();
+    for (const presence of Array.from(this.sockets.values())) {
+      if (presence.taskId !== taskId) continue;
+      const existing = viewers.get(presence.userId);
+      viewers.set(presence.userId, {
+        userId: presence.userId,
+        editing: presence.editing || (existing?.editing ?? false),
+      });
+    }
+    return Array.from(viewers.values());
+  }
+}
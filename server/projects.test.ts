@@ -0,0 +1,276 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+  api,
+  signUp,
+  startTestServer,
+  startWebhookReceiver,
+  type TestServer,
+  type WebhookReceiver,
+} from "./test-utils";
+import { signWebhookPayload } from "./webhooks";
+
+let server: TestServer;
+let receiver: WebhookReceiver;
+
+beforeAll(async () => {
+  server = await startTestServer();
+  receiver = await startWebhookReceiver();
+});
+
+afterAll(async () => {
+  await server.close();
+  await receiver.close();
+});
+
+describe("projects", () => {
+  it("gives every new user a workspace they own", async () => {
+    const { user, cookies, projectId } = await signUp(server, "ann");
+    const res = await api(server, cookies).get(`/api/projects/${projectId}`);
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ name: `${user.username}'s workspace`, ownerId: user.id });
+  });
+
+  it("lets the owner create, rename and delete a project", async () => {
+    const { cookies } = await signUp(server);
+    const client = api(server, cookies);
+
+    const created = await client.post("/api/projects", { name: "Launch", description: "Q3 launch" });
+    expect(created.status).toBe(201);
+    expect((await client.get("/api/projects")).body.map((p: { name: string }) => p.name)).toContain("Launch");
+
+    const renamed = await client.patch(`/api/projects/${created.body.id}`, { name: "Relaunch" });
+    expect(renamed.body.name).toBe("Relaunch");
+
+    expect((await client.delete(`/api/projects/${created.body.id}`)).status).toBe(200);
+    expect((await client.get(`/api/projects/${created.body.id}`)).status).toBe(404);
+  });
+
+  it("hides projects from non-members", async () => {
+    const owner = await signUp(server);
+    const outsider = await signUp(server);
+    const client = api(server, outsider.cookies);
+
+    expect((await client.get(`/api/projects/${owner.projectId}`)).status).toBe(404);
+    expect((await client.get(`/api/projects/${owner.projectId}/members`)).status).toBe(404);
+    expect((await client.get(`/api/tasks?projectId=${owner.projectId}`)).status).toBe(404);
+    expect((await client.post("/api/tasks", { projectId: owner.projectId, title: "Sneaky" })).status).toBe(404);
+  });
+
+  it("scopes tasks to their project", async () => {
+    const ann = await signUp(server);
+    const bob = await signUp(server);
+    const task = await api(server, ann.cookies).post("/api/tasks", { projectId: ann.projectId, title: "Ann's task" });
+
+    const bobTasks = await api(server, bob.cookies).get(`/api/tasks?projectId=${bob.projectId}`);
+    expect(bobTasks.body).toEqual([]);
+    expect((await api(server, bob.cookies).get(`/api/tasks/${task.body.id}`)).status).toBe(404);
+    expect((await api(server, bob.cookies).patch(`/api/tasks/${task.body.id}`, { title: "Mine" })).status).toBe(404);
+    expect((await api(server, bob.cookies).delete(`/api/tasks/${task.body.id}`)).status).toBe(404);
+  });
+
+  it("lets the owner add members, who then see the project's tasks", async () => {
+    const owner = await signUp(server);
+    const member = await signUp(server);
+    const ownerClient = api(server, owner.cookies);
+
+    // Only members can be assigned
+    const early = await ownerClient.post("/api/tasks", { projectId: owner.projectId, title: "Shared", assignedToId: member.user.id });
+    expect(early.status).toBe(400);
+
+    const added = await ownerClient.post(`/api/projects/${owner.projectId}/members`, { emailOrUsername: member.email });
+    expect(added.status).toBe(201);
+    const again = await ownerClient.post(`/api/projects/${owner.projectId}/members`, { emailOrUsername: member.email });
+    expect(again.status).toBe(400);
+
+    const task = await ownerClient.post("/api/tasks", { projectId: owner.projectId, title: "Shared", assignedToId: member.user.id });
+    expect(task.status).toBe(201);
+    const memberTasks = await api(server, member.cookies).get(`/api/tasks?projectId=${owner.projectId}`);
+    expect(memberTasks.body.map((t: { id: string }) => t.id)).toEqual([task.body.id]);
+  });
+
+  it("adds members by exact username as well as email", async () => {
+    const owner = await signUp(server);
+    const member = await signUp(server);
+    const client = api(server, owner.cookies);
+    const url = `/api/projects/${owner.projectId}/members`;
+
+    const unknown = await client.post(url, { emailOrUsername: `${member.user.username}x` });
+    expect(unknown.status).toBe(404);
+    expect(unknown.body.message).toBe("No user has that email or username");
+
+    expect((await client.post(url, { emailOrUsername: ` ${member.user.username} ` })).status).toBe(201);
+    expect((await client.get(url)).body.map((m: { id: string }) => m.id)).toContain(member.user.id);
+  });
+
+  it("does not list the other accounts of the deployment", async () => {
+    const { cookies } = await signUp(server);
+    expect((await api(server, cookies).get("/api/users")).status).toBe(404);
+  });
+
+  it("lets only the owner manage the project and its members, and members leave", async () => {
+    const owner = await signUp(server);
+    const member = await signUp(server);
+    const other = await signUp(server);
+    await api(server, owner.cookies).post(`/api/projects/${owner.projectId}/members`, { emailOrUsername: member.email });
+    await api(server, owner.cookies).post(`/api/projects/${owner.projectId}/members`, { emailOrUsername: other.email });
+    const memberClient = api(server, member.cookies);
+
+    expect((await memberClient.patch(`/api/projects/${owner.projectId}`, { name: "Mine" })).status).toBe(403);
+    expect((await memberClient.delete(`/api/projects/${owner.projectId}`)).status).toBe(403);
+    expect((await memberClient.delete(`/api/projects/${owner.projectId}/members/${other.user.id}`)).status).toBe(403);
+
+    const ownerLeaves = await api(server, owner.cookies).delete(`/api/projects/${owner.projectId}/members/${owner.user.id}`);
+    expect(ownerLeaves.status).toBe(400);
+
+    expect((await memberClient.delete(`/api/projects/${owner.projectId}/members/${member.user.id}`)).status).toBe(200);
+    expect((await memberClient.get(`/api/projects/${owner.projectId}`)).status).toBe(404);
+  });
+});
+
+describe("project roles", () => {
+  async function setUpTeam() {
+    const owner = await signUp(server, "owner");
+    const admin = await signUp(server, "admin");
+    const member = await signUp(server, "member");
+    const viewer = await signUp(server, "viewer");
+    const client = api(server, owner.cookies);
+    for (const [user, role] of [
+      [admin, "admin"],
+      [member, "member"],
+      [viewer, "viewer"],
+    ] as const) {
+      const res = await client.post(`/api/projects/${owner.projectId}/members`, { emailOrUsername: user.email, role });
+      expect(res.status).toBe(201);
+    }
+    return { projectId: owner.projectId, owner, admin, member, viewer };
+  }
+
+  it("tells each member their role", async () => {
+    const { projectId, admin, viewer } = await setUpTeam();
+    expect((await api(server, admin.cookies).get(`/api/projects/${projectId}`)).body.role).toBe("admin");
+    expect((await api(server, viewer.cookies).get(`/api/projects/${projectId}`)).body.role).toBe("viewer");
+    const members = await api(server, viewer.cookies).get(`/api/projects/${projectId}/members`);
+    expect(members.body.map((m: { role: string }) => m.role).sort()).toEqual(["admin", "member", "owner", "viewer"]);
+  });
+
+  it("lets admins edit the project and manage members but not delete it or add admins", async () => {
+    const { projectId, admin, member } = await setUpTeam();
+    const outsider = await signUp(server);
+    const client = api(server, admin.cookies);
+
+    expect((await client.patch(`/api/projects/${projectId}`, { name: "Renamed" })).status).toBe(200);
+    expect((await client.delete(`/api/projects/${projectId}`)).status).toBe(403);
+    const addAdmin = await client.post(`/api/projects/${projectId}/members`, { emailOrUsername: outsider.email, role: "admin" });
+    expect(addAdmin.status).toBe(403);
+    expect((await client.post(`/api/projects/${projectId}/members`, { emailOrUsername: outsider.email })).status).toBe(201);
+    expect((await client.delete(`/api/projects/${projectId}/members/${member.user.id}`)).status).toBe(200);
+    // Roles are the owner's to change
+    expect((await client.patch(`/api/projects/${projectId}/members/${outsider.user.id}`, { role: "viewer" })).status).toBe(403);
+  });
+
+  it("lets the owner change roles, except their own", async () => {
+    const { projectId, owner, member } = await setUpTeam();
+    const client = api(server, owner.cookies);
+    const promoted = await client.patch(`/api/projects/${projectId}/members/${member.user.id}`, { role: "admin" });
+    expect(promoted.status).toBe(200);
+    expect(promoted.body.role).toBe("admin");
+    expect((await client.patch(`/api/projects/${projectId}/members/${owner.user.id}`, { role: "admin" })).status).toBe(400);
+    expect((await client.patch(`/api/projects/${projectId}/members/${member.user.id}`, { role: "owner" })).status).toBe(400);
+  });
+
+  it("lets members edit their own tasks and assignees only move theirs", async () => {
+    const { projectId, owner, member } = await setUpTeam();
+    const ownTask = await api(server, member.cookies).post("/api/tasks", { projectId, title: "Mine" });
+    expect(ownTask.status).toBe(201);
+    const assigned = await api(server, owner.cookies).post("/api/tasks", {
+      projectId,
+      title: "Assigned to member",
+      assignedToId: member.user.id,
+    });
+    const client = api(server, member.cookies);
+
+    expect((await client.patch(`/api/tasks/${ownTask.body.id}`, { title: "Still mine", version: 1 })).status).toBe(200);
+    expect((await client.patch(`/api/tasks/${assigned.body.id}`, { status: "in_progress", version: 1 })).status).toBe(200);
+    expect((await client.patch(`/api/tasks/${assigned.body.id}`, { title: "Renamed", version: 2 })).status).toBe(403);
+    expect((await client.delete(`/api/tasks/${assigned.body.id}`)).status).toBe(403);
+    expect((await client.delete(`/api/tasks/${ownTask.body.id}`)).status).toBe(200);
+  });
+
+  it("lets admins change any task and keeps viewers read-only", async () => {
+    const { projectId, member, admin, viewer } = await setUpTeam();
+    const task = await api(server, member.cookies).post("/api/tasks", { projectId, title: "Member's task" });
+
+    const viewerClient = api(server, viewer.cookies);
+    expect((await viewerClient.get(`/api/tasks/${task.body.id}`)).status).toBe(200);
+    expect((await viewerClient.post("/api/tasks", { projectId, title: "Viewer's task" })).status).toBe(403);
+    expect((await viewerClient.patch(`/api/tasks/${task.body.id}`, { status: "completed", version: 1 })).status).toBe(403);
+
+    expect((await api(server, admin.cookies).patch(`/api/tasks/${task.body.id}`, { title: "Edited", version: 1 })).status).toBe(200);
+    expect((await api(server, admin.cookies).delete(`/api/tasks/${task.body.id}`)).status).toBe(200);
+  });
+});
+
+describe("project webhooks", () => {
+  it("shows the secret once and lists webhooks without it", async () => {
+    const owner = await signUp(server);
+    const client = api(server, owner.cookies);
+    const url = `/api/projects/${owner.projectId}/webhooks`;
+
+    const created = await client.post(url, { url: receiver.url, events: ["task:created"] });
+    expect(created.status).toBe(201);
+    expect(created.body.secret).toMatch(/^whsec_/);
+
+    const list = await client.get(url);
+    expect(list.body).toEqual([expect.objectContaining({ id: created.body.id, url: receiver.url, active: true })]);
+    expect(list.body[0]).not.toHaveProperty("secret");
+  });
+
+  it("validates the URL and events", async () => {
+    const owner = await signUp(server);
+    const client = api(server, owner.cookies);
+    const url = `/api/projects/${owner.projectId}/webhooks`;
+
+    expect((await client.post(url, { url: "ftp://example.com/hook", events: ["task:created"] })).status).toBe(400);
+    expect((await client.post(url, { url: receiver.url, events: [] })).status).toBe(400);
+    expect((await client.post(url, { url: receiver.url, events: ["task:exploded"] })).status).toBe(400);
+  });
+
+  it("limits webhooks to project owners and admins", async () => {
+    const owner = await signUp(server);
+    const member = await signUp(server);
+    const outsider = await signUp(server);
+    await api(server, owner.cookies).post(`/api/projects/${owner.projectId}/members`, { emailOrUsername: member.email });
+    const url = `/api/projects/${owner.projectId}/webhooks`;
+
+    const forbidden = await api(server, member.cookies).post(url, { url: receiver.url, events: ["task:created"] });
+    expect(forbidden.status).toBe(403);
+    expect(forbidden.body.message).toBe("Only project owners and admins can manage webhooks");
+    expect((await api(server, outsider.cookies).get(url)).status).toBe(404);
+  });
+
+  it("delivers task events, logs them and redelivers on request", async () => {
+    const owner = await signUp(server);
+    const client = api(server, owner.cookies);
+    const webhook = await client.post(`/api/projects/${owner.projectId}/webhooks`, {
+      url: receiver.url,
+      events: ["task:created"],
+    });
+
+    const received = receiver.next();
+    const task = await client.post("/api/tasks", { projectId: owner.projectId, title: "Hooked" });
+    const { headers, body } = await received;
+    expect(JSON.parse(body)).toMatchObject({ event: "task:created", data: { taskId: task.body.id, data: { title: "Hooked" } } });
+    const timestamp = String(headers["x-taskflow-timestamp"]);
+    expect(headers["x-taskflow-signature"]).toBe(signWebhookPayload(webhook.body.secret, timestamp, body));
+
+    const deliveriesUrl = `/api/projects/${owner.projectId}/webhooks/${webhook.body.id}/deliveries`;
+    const log = await client.get(deliveriesUrl);
+    expect(log.body).toHaveLength(1);
+
+    const redelivered = receiver.next();
+    const redelivery = await client.post(`${deliveriesUrl}/${log.body[0].id}/redeliver`);
+    expect(redelivery.status).toBe(201);
+    expect(redelivery.body.redeliveryOfId).toBe(log.body[0].id);
+    expect((await redelivered).body).toBe(body);
+  });
+});
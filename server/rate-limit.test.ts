@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { MemoryRateLimitStore, RateLimiter, applyAttempt, attemptAll, type RateLimitPolicy } from "./rate-limit";
+
+const policy: RateLimitPolicy = {
+  freeAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 4000,
+  lockoutAfter: 6,
+  lockoutMs: 60_000,
+  windowMs: 10 * 60_000,
+};
+
+describe("applyAttempt", () => {
+  it("doubles the wait after the free attempts, up to maxDelayMs, then locks out", () => {
+    let record = undefined;
+    let now = 0;
+    const waits: number[] = [];
+    const lockouts: boolean[] = [];
+    for (let i = 0; i < 6; i++) {
+      const result = applyAttempt(record, policy, now);
+      expect(result.attempt.allowed).toBe(true);
+      record = result.record;
+      waits.push(result.attempt.retryAfterMs);
+      lockouts.push(result.attempt.lockedOut);
+      now += result.attempt.retryAfterMs;
+    }
+    expect(waits).toEqual([0, 0, 0, 1000, 2000, 60_000]);
+    expect(lockouts).toEqual([false, false, false, false, false, true]);
+    // The lockout starts the count over
+    expect(record!.attempts).toBe(0);
+  });
+
+  it("refuses an attempt while the key has to wait, without counting it", () => {
+    let record = undefined;
+    for (let i = 0; i < 4; i++) {
+      record = applyAttempt(record, policy, 0).record;
+    }
+    const refused = applyAttempt(record, policy, 400);
+    expect(refused.attempt).toEqual({ allowed: false, retryAfterMs: 600, lockedOut: false });
+    expect(refused.record).toBe(record);
+  });
+
+  it("forgets the count after windowMs without attempts", () => {
+    let record = undefined;
+    for (let i = 0; i < 3; i++) {
+      record = applyAttempt(record, policy, 0).record;
+    }
+    expect(applyAttempt(record, policy, policy.windowMs).record.attempts).toBe(1);
+  });
+});
+
+describe("RateLimiter", () => {
+  it("lets only the free attempts and one more through a parallel burst", async () => {
+    const limiter = new RateLimiter("test", policy, new MemoryRateLimitStore());
+    const attempts = await Promise.all(Array.from({ length: 10 }, () => limiter.attempt("key", 0)));
+    expect(attempts.filter((attempt) => attempt.allowed)).toHaveLength(policy.freeAttempts + 1);
+  });
+
+  it("keeps the wait when an attempt is refunded", async () => {
+    const limiter = new RateLimiter("test", policy, new MemoryRateLimitStore());
+    for (let i = 0; i < 4; i++) {
+      await limiter.attempt("key", 0);
+    }
+    await limiter.refund("key", 0);
+    expect((await limiter.attempt("key", 500)).allowed).toBe(false);
+    // The refunded attempt makes the next wait as long as the last one
+    expect((await limiter.attempt("key", 1000)).retryAfterMs).toBe(1000);
+  });
+
+  it("starts over after a reset", async () => {
+    const limiter = new RateLimiter("test", policy, new MemoryRateLimitStore());
+    for (let i = 0; i < 4; i++) {
+      await limiter.attempt("key", 0);
+    }
+    await limiter.reset("key");
+    expect(await limiter.attempt("key", 0)).toEqual({ allowed: true, retryAfterMs: 0, lockedOut: false });
+  });
+});
+
+describe("attemptAll", () => {
+  it("refunds the other limiters when one refuses", async () => {
+    const store = new MemoryRateLimitStore();
+    const ip = new RateLimiter("ip", policy, store);
+    const account = new RateLimiter("account", policy, store);
+    for (let i = 0; i < 4; i++) {
+      await account.attempt("alice", 0);
+    }
+
+    const result = await attemptAll([[ip, "10.0.0.1"], [account, "alice"]], 0);
+    expect(result.retryAfterMs).toBe(1000);
+
+    // The IP address was not charged for the refused attempt
+    for (let i = 0; i < policy.freeAttempts; i++) {
+      expect((await ip.attempt("10.0.0.1", 0)).retryAfterMs).toBe(0);
+    }
+  });
+});
@@ -0,0 +1,200 @@
+// Throttling for the auth routes. Every key (an IP address or an account)
+// gets a few free attempts; after that each further attempt makes the
+// next one wait twice as long, and once lockoutAfter attempts pile up the key
+// is locked out for lockoutMs. A key's count is forgotten after windowMs
+// without attempts. An attempt is counted before the password or code is
+// checked, in one atomic step with the check that it may happen at all, so
+// requests sent in parallel cannot all slip through before the first
+// failure is recorded; a successful attempt then resets or refunds its
+// count. State lives in a RateLimitStore: in memory by default, which is
+// enough for a single server process; pass a shared store when several
+// processes have to agree.
+
+export interface RateLimitRecord {
+  attempts: number;
+  // Epoch milliseconds before which the key may not try again, 0 if never
+  blockedUntil: number;
+  expiresAt: number;
+}
+
+export interface RateLimitPolicy {
+  freeAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  lockoutAfter: number;
+  lockoutMs: number;
+  windowMs: number;
+}
+
+export interface RateLimitAttempt {
+  // False when the key still has to wait; the attempt is not counted then
+  allowed: boolean;
+  // How long the key now has to wait, 0 when it may try again right away
+  retryAfterMs: number;
+  // Set on the attempt that locked the key out
+  lockedOut: boolean;
+}
+
+export interface RateLimitStore {
+  // Must check and count the attempt atomically, as applyAttempt describes
+  consume(key: string, policy: RateLimitPolicy, now: number): Promise<RateLimitAttempt>;
+  // Takes back one counted attempt, leaving any wait in place
+  refund(key: string, now: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+// The record after one more attempt by a key, and how that attempt went
+export function applyAttempt(
+  record: RateLimitRecord | undefined,
+  policy: RateLimitPolicy,
+  now: number,
+): { record: RateLimitRecord; attempt: RateLimitAttempt } {
+  const { freeAttempts, baseDelayMs, maxDelayMs, lockoutAfter, lockoutMs, windowMs } = policy;
+  const current = record && record.expiresAt > now ? record : undefined;
+  if (current && current.blockedUntil > now) {
+    return { record: current, attempt: { allowed: false, retryAfterMs: current.blockedUntil - now, lockedOut: false } };
+  }
+
+  const attempts = (current?.attempts ?? 0) + 1;
+  const lockedOut = attempts >= lockoutAfter;
+  let retryAfterMs = 0;
+  if (lockedOut) {
+    retryAfterMs = lockoutMs;
+  } else if (attempts > freeAttempts) {
+    retryAfterMs = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempts - freeAttempts - 1));
+  }
+
+  const blockedUntil = retryAfterMs > 0 ? now + retryAfterMs : 0;
+  return {
+    // A lockout starts the count over once it ends
+    record: { attempts: lockedOut ? 0 : attempts, blockedUntil, expiresAt: Math.max(blockedUntil, now) + windowMs },
+    attempt: { allowed: true, retryAfterMs, lockedOut },
+  };
+}
+
+const PRUNE_EVERY_WRITES = 1000;
+
+// Atomic because nothing awaits between reading and writing a record
+export class MemoryRateLimitStore implements RateLimitStore {
+  private records = new Map<string, RateLimitRecord>();
+  private writes = 0;
+
+  async consume(key: string, policy: RateLimitPolicy, now: number): Promise<RateLimitAttempt> {
+    const { record, attempt } = applyAttempt(this.records.get(key), policy, now);
+    if (attempt.allowed) {
+      this.records.set(key, record);
+      if (++this.writes % PRUNE_EVERY_WRITES === 0) {
+        this.prune(now);
+      }
+    }
+    return attempt;
+  }
+
+  async refund(key: string, now: number): Promise<void> {
+    const record = this.records.get(key);
+    if (record && record.expiresAt > now && record.attempts > 0) {
+      this.records.set(key, { ...record, attempts: record.attempts - 1 });
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+
+  // Keys that are never seen again would otherwise stay forever
+  private prune(now: number): void {
+    for (const [key, record] of Array.from(this.records.entries())) {
+      if (record.expiresAt <= now) {
+        this.records.delete(key);
+      }
+    }
+  }
+}
+
+export class RateLimiter {
+  constructor(
+    private readonly name: string,
+    private readonly policy: RateLimitPolicy,
+    private readonly store: RateLimitStore,
+  ) {}
+
+  // Counts an attempt by the key, unless it still has to wait
+  async attempt(key: string, now = Date.now()): Promise<RateLimitAttempt> {
+    return this.store.consume(this.storeKey(key), this.policy, now);
+  }
+
+  // For an attempt that turned out fine but should not clear the whole count
+  async refund(key: string, now = Date.now()): Promise<void> {
+    await this.store.refund(this.storeKey(key), now);
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.store.delete(this.storeKey(key));
+  }
+
+  private storeKey(key: string): string {
+    return `${this.name}:${key}`;
+  }
+}
+
+// Counts one attempt against several limiters at once. When any of them
+// refuses, the attempts the others counted are refunded and retryAfterMs
+// is the longest wait; otherwise it is 0.
+export async function attemptAll(
+  limits: [RateLimiter, string][],
+  now = Date.now(),
+): Promise<{ retryAfterMs: number; attempts: RateLimitAttempt[] }> {
+  const attempts = await Promise.all(limits.map(([limiter, key]) => limiter.attempt(key, now)));
+  const refused = attempts.filter((attempt) => !attempt.allowed);
+  if (refused.length === 0) {
+    return { retryAfterMs: 0, attempts };
+  }
+  await Promise.all(
+    limits.map(([limiter, key], i) => (attempts[i].allowed ? limiter.refund(key, now) : undefined)),
+  );
+  return { retryAfterMs: Math.max(...refused.map((attempt) => attempt.retryAfterMs)), attempts };
+}
+
+const MINUTE_MS = 60 * 1000;
+const store: RateLimitStore = new MemoryRateLimitStore();
+
+export const authRateLimits = {
+  // Sign-ins from one IP address, whatever the account; successful ones are
+  // refunded
+  loginIp: new RateLimiter(
+    "login:ip",
+    { freeAttempts: 20, baseDelayMs: 1000, maxDelayMs: 5 * MINUTE_MS, lockoutAfter: 50, lockoutMs: 60 * MINUTE_MS, windowMs: 60 * MINUTE_MS },
+    store,
+  ),
+  // Sign-ins against one account, from anywhere, since its last success
+  loginAccount: new RateLimiter(
+    "login:account",
+    { freeAttempts: 5, baseDelayMs: 1000, maxDelayMs: 5 * MINUTE_MS, lockoutAfter: 10, lockoutMs: 15 * MINUTE_MS, windowMs: 15 * MINUTE_MS },
+    store,
+  ),
+  // Two-factor codes for one account since its last accepted one, at
+  // sign-in or in the settings
+  twoFactorAccount: new RateLimiter(
+    "two-factor:account",
+    { freeAttempts: 5, baseDelayMs: 1000, maxDelayMs: 5 * MINUTE_MS, lockoutAfter: 10, lockoutMs: 15 * MINUTE_MS, windowMs: 15 * MINUTE_MS },
+    store,
+  ),
+  // Every registration from one IP address, successful or not
+  registerIp: new RateLimiter(
+    "register:ip",
+    { freeAttempts: 10, baseDelayMs: 10 * 1000, maxDelayMs: 10 * MINUTE_MS, lockoutAfter: 30, lockoutMs: 60 * MINUTE_MS, windowMs: 60 * MINUTE_MS },
+    store,
+  ),
+  // Password reset emails, per requesting IP address and per email, so
+  // nobody can flood an inbox
+  passwordResetIp: new RateLimiter(
+    "password-reset:ip",
+    { freeAttempts: 10, baseDelayMs: 10 * 1000, maxDelayMs: 10 * MINUTE_MS, lockoutAfter: 30, lockoutMs: 60 * MINUTE_MS, windowMs: 60 * MINUTE_MS },
+    store,
+  ),
+  passwordResetAccount: new RateLimiter(
+    "password-reset:account",
+    { freeAttempts: 3, baseDelayMs: MINUTE_MS, maxDelayMs: 30 * MINUTE_MS, lockoutAfter: 10, lockoutMs: 60 * MINUTE_MS, windowMs: 60 * MINUTE_MS },
+    store,
+  ),
+};
@@ -1,29 +1,200 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
-import { Server as SocketIOServer } from "socket.io";
+import { Server as SocketIOServer, type Socket } from "socket.io";
 import bcrypt from "bcrypt";
 import jwt from "jsonwebtoken";
-import { storage } from "./storage";
-import { registerSchema, loginSchema, insertTaskSchema, updateTaskSchema } from "@shared/schema";
+import QRCode from "qrcode";
+import { storage, TaskVersionConflictError } from "./storage";
+import { PresenceTracker } from "./presence";
+import { EventLog } from "./event-log";
+import { displayName, extractMentions, notificationMessages } from "./notifications";
+import { emailTemplates, sendAccountEmail, sendEmailNotification } from "./email";
+import { DueDateScheduler } from "./scheduler";
+import { generateToken, hashToken } from "./tokens";
+import { attemptAll, authRateLimits } from "./rate-limit";
+import { generateRecoveryCodes, generateTotpSecret, normalizeRecoveryCode, totpUri, verifyTotp } from "./totp";
+import {
+  MOCK_IDP_PATH,
+  OidcError,
+  completeAuthorization,
+  createAuthorizationRequest,
+  mockIdpEnabled,
+  oidcConfig,
+  type AuthorizationRequest,
+  type OidcClaims,
+  type OidcConfig,
+} from "./oidc";
+import { createMockIdp } from "./mock-idp";
+import { WebhookDispatcher, generateWebhookSecret } from "./webhooks";
+import { formatTaskExport, prepareTaskImport } from "./task-transfer";
+import {
+  registerSchema,
+  loginSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  verifyEmailSchema,
+  twoFactorCodeBodySchema,
+  loginTwoFactorSchema,
+  disableTwoFactorSchema,
+  createApiTokenSchema,
+  insertTaskSchema,
+  updateTaskSchema,
+  taskQuerySchema,
+  taskExportQuerySchema,
+  taskImportSchema,
+  insertProjectSchema,
+  updateProjectSchema,
+  addProjectMemberSchema,
+  updateProjectMemberSchema,
+  insertCommentSchema,
+  updateCommentSchema,
+  insertSubtaskSchema,
+  updateSubtaskSchema,
+  addTaskDependencySchema,
+  notificationQuerySchema,
+  updateEmailPreferencesSchema,
+  insertWebhookSchema,
+  updateWebhookSchema,
+  type CommentWithAuthor,
+  type InsertNotification,
+  type Subtask,
+  type TaskWithRelations,
+  type TaskDependency,
+  type ApiToken,
+  type ApiTokenInfo,
+  type ApiTokenScope,
+  type AuthProviders,
+  type AuthTokenPurpose,
+  type CreatedApiToken,
+  type InsertAuthAuditEntry,
+  type Session,
+  type SessionInfo,
+  type TwoFactorAuth,
+  type TwoFactorChallenge,
+  type TwoFactorSetup,
+  type TwoFactorStatus,
+  type User,
+  type Webhook,
+  type WebhookInfo,
+  type CreatedWebhook,
+  type TaskImportResult,
+} from "@shared/schema";
+import {
+  canComment,
+  canCreateTask,
+  canDeleteProject,
+  canEditProject,
+  canManageMembers,
+  canManageWebhooks,
+  getCommentPermissions,
+  getTaskPermissions,
+} from "@shared/permissions";
 import { z } from "zod";
 
 const JWT_SECRET = process.env.SESSION_SECRET || "taskflow-secret-key-change-in-production";
 const COOKIE_NAME = "taskflow_token";
+const REFRESH_COOKIE_NAME = "taskflow_refresh";
+// The refresh cookie is only sent to the endpoints that need it
+const REFRESH_COOKIE_PATH = "/api/auth";
+const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000;
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+// A refresh token replaced less than this long ago still gets an access
+// token, so two tabs refreshing at once do not look like a stolen token
+const REFRESH_REUSE_GRACE_MS = 30 * 1000;
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+const EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000;
+// Time to enter the code after the password was accepted
+const TWO_FACTOR_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const TWO_FACTOR_CHALLENGE_AUDIENCE = "two-factor-challenge";
+// With PASSWORD_LOGIN_ENABLED=false accounts can only sign in through SSO
+const PASSWORD_LOGIN_ENABLED = process.env.PASSWORD_LOGIN_ENABLED !== "false";
+// Holds the state, nonce and PKCE verifier while the browser is away at the
+// identity provider
+const OIDC_COOKIE_NAME = "taskflow_oidc";
+const OIDC_COOKIE_PATH = "/api/auth/oidc";
+const OIDC_STATE_TTL_MS = 10 * 60 * 1000;
+const OIDC_STATE_AUDIENCE = "oidc-state";
+// Personal API tokens start with a recognizable prefix, so a leaked one is
+// easy to spot in logs and by secret scanners
+const API_TOKEN_PREFIX = "tfp_";
+// How often a token's last-used time is written, at most
+const API_TOKEN_TOUCH_INTERVAL_MS = 60 * 1000;
+const READ_ONLY_METHODS = ["GET", "HEAD", "OPTIONS"];
+const NEXT_CURSOR_HEADER = "X-Next-Cursor";
+const WEBHOOK_DELIVERIES_LIMIT = 50;
 
 interface JWTPayload {
   userId: string;
   email: string;
+  sessionId: string;
+}
+
+// Who a request is authenticated as. Requests made with a personal API
+// token have no session and carry the token's scope instead.
+interface AuthContext {
+  userId: string;
+  email: string;
+  sessionId: string | null;
+  apiTokenScope: ApiTokenScope | null;
 }
 
 declare global {
   namespace Express {
     interface Request {
-      user?: JWTPayload;
+      user?: AuthContext;
     }
   }
 }
 
-function authMiddleware(req: Request, res: Response, next: NextFunction) {
+function isSessionActive(session: Session): boolean {
+  return !session.revokedAt && session.expiresAt > new Date();
+}
+
+// Access tokens are short-lived JWTs naming their session; they are only
+// accepted while that session has not been revoked
+async function verifyAccessToken(token: string): Promise<JWTPayload> {
+  const decoded = jwt.verify(token, JWT_SECRET) as JWTPayload;
+  const session = decoded.sessionId ? await storage.getSession(decoded.sessionId) : undefined;
+  if (!session || session.userId !== decoded.userId || !isSessionActive(session)) {
+    throw new Error("Session has ended");
+  }
+  return decoded;
+}
+
+async function verifyApiToken(token: string): Promise<{ apiToken: ApiToken; user: User } | null> {
+  if (!token.startsWith(API_TOKEN_PREFIX)) return null;
+  const apiToken = await storage.getApiTokenByHash(hashToken(token));
+  if (!apiToken || (apiToken.expiresAt && apiToken.expiresAt <= new Date())) return null;
+  const user = await storage.getUser(apiToken.userId);
+  if (!user) return null;
+
+  if (!apiToken.lastUsedAt || Date.now() - apiToken.lastUsedAt.getTime() > API_TOKEN_TOUCH_INTERVAL_MS) {
+    await storage.touchApiToken(apiToken.id);
+  }
+  return { apiToken, user };
+}
+
+// Accepts the access token cookie from the browser, or a personal API token
+// sent as "Authorization: Bearer"
+async function authMiddleware(req: Request, res: Response, next: NextFunction) {
+  const bearer = req.get("authorization")?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (bearer) {
+    try {
+      const verified = await verifyApiToken(bearer);
+      if (!verified) {
+        return res.status(401).json({ message: "Invalid or expired API token" });
+      }
+      const { apiToken, user } = verified;
+      if (apiToken.scope === "read" && !READ_ONLY_METHODS.includes(req.method)) {
+        return res.status(403).json({ message: "This API token is read-only" });
+      }
+      req.user = { userId: user.id, email: user.email, sessionId: null, apiTokenScope: apiToken.scope };
+    } catch (error) {
+      return handleError(res, error, "Authentication failed");
+    }
+    return next();
+  }
+
   const token = req.cookies?.[COOKIE_NAME];
   
   if (!token) {
@@ -31,12 +202,311 @@ function authMiddleware(req: Request, res: Response, next: NextFunction) {
   }
 
   try {
-    const decoded = jwt.verify(token, JWT_SECRET) as JWTPayload;
-    req.user = decoded;
-    next();
+    const { userId, email, sessionId } = await verifyAccessToken(token);
+    req.user = { userId, email, sessionId, apiTokenScope: null };
   } catch {
     return res.status(401).json({ message: "Invalid or expired token" });
   }
+  next();
+}
+
+// Account security (sessions, two-factor auth, API tokens) is managed from a
+// signed-in browser only, so a leaked API token cannot be used to mint more
+// tokens or lock the owner out
+function requireSession(req: Request, res: Response, next: NextFunction) {
+  if (!req.user?.sessionId) {
+    return res.status(403).json({ message: "API tokens cannot be used for this request" });
+  }
+  next();
+}
+
+function signAccessToken(user: Pick<User, "id" | "email">, sessionId: string): string {
+  return jwt.sign({ userId: user.id, email: user.email, sessionId } as JWTPayload, JWT_SECRET, {
+    expiresIn: ACCESS_TOKEN_TTL_MS / 1000,
+  });
+}
+
+function setAuthCookies(res: Response, accessToken: string, refreshToken?: string) {
+  const secure = process.env.NODE_ENV === "production";
+  res.cookie(COOKIE_NAME, accessToken, {
+    httpOnly: true,
+    secure,
+    sameSite: "lax",
+    maxAge: ACCESS_TOKEN_TTL_MS,
+  });
+  if (refreshToken) {
+    res.cookie(REFRESH_COOKIE_NAME, refreshToken, {
+      httpOnly: true,
+      secure,
+      sameSite: "lax",
+      path: REFRESH_COOKIE_PATH,
+      maxAge: REFRESH_TOKEN_TTL_MS,
+    });
+  }
+}
+
+function clearAuthCookies(res: Response) {
+  res.clearCookie(COOKIE_NAME);
+  res.clearCookie(REFRESH_COOKIE_NAME, { path: REFRESH_COOKIE_PATH });
+}
+
+function getClientInfo(req: Request): { userAgent: string | null; ipAddress: string | null } {
+  return { userAgent: req.get("user-agent") ?? null, ipAddress: req.ip ?? null };
+}
+
+// Signs the user in on this device: a new session with its refresh token
+async function startSession(req: Request, res: Response, user: User): Promise<Session> {
+  const refreshToken = generateToken();
+  const session = await storage.createSession({
+    userId: user.id,
+    refreshTokenHash: hashToken(refreshToken),
+    ...getClientInfo(req),
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+  });
+  setAuthCookies(res, signAccessToken(user, session.id), refreshToken);
+  return session;
+}
+
+// Creates a single-use token for an account email link; only its hash is kept
+async function issueAuthToken(user: User, purpose: AuthTokenPurpose, ttlMs: number): Promise<string> {
+  const token = generateToken();
+  await storage.createAuthToken({
+    userId: user.id,
+    purpose,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + ttlMs),
+  });
+  return token;
+}
+
+async function sendVerificationEmail(user: User): Promise<void> {
+  const token = await issueAuthToken(user, "email_verification", EMAIL_VERIFICATION_TTL_MS);
+  await sendAccountEmail(user, emailTemplates.verifyEmail(user, token));
+}
+
+// Proves the password was right; only /api/auth/login/2fa accepts it, since
+// access tokens carry no audience
+function signTwoFactorChallenge(user: User): string {
+  return jwt.sign({ userId: user.id }, JWT_SECRET, {
+    audience: TWO_FACTOR_CHALLENGE_AUDIENCE,
+    expiresIn: TWO_FACTOR_CHALLENGE_TTL_MS / 1000,
+  });
+}
+
+function verifyTwoFactorChallenge(challengeToken: string): string | null {
+  try {
+    const decoded = jwt.verify(challengeToken, JWT_SECRET, { audience: TWO_FACTOR_CHALLENGE_AUDIENCE }) as {
+      userId: string;
+    };
+    return decoded.userId;
+  } catch {
+    return null;
+  }
+}
+
+// A code from the authenticator app, each accepted once, or else an unused
+// recovery code
+async function verifySecondFactor(twoFactor: TwoFactorAuth, code: string): Promise<boolean> {
+  const step = verifyTotp(twoFactor.secret, code, twoFactor.lastUsedStep);
+  if (step !== null) {
+    return storage.claimTwoFactorStep(twoFactor.userId, step);
+  }
+  return storage.consumeRecoveryCode(twoFactor.userId, hashToken(normalizeRecoveryCode(code)));
+}
+
+async function toTwoFactorStatus(userId: string): Promise<TwoFactorStatus> {
+  const twoFactor = await storage.getTwoFactorAuth(userId);
+  const enabled = !!twoFactor?.enabledAt;
+  return {
+    enabled,
+    enabledAt: twoFactor?.enabledAt ?? null,
+    recoveryCodesRemaining: enabled ? await storage.getRemainingRecoveryCodeCount(userId) : 0,
+  };
+}
+
+async function issueRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = generateRecoveryCodes();
+  await storage.replaceRecoveryCodes(userId, codes.map(hashToken));
+  return codes;
+}
+
+function toApiTokenInfo(token: ApiToken): ApiTokenInfo {
+  const { userId, tokenHash, ...info } = token;
+  return info;
+}
+
+function requirePasswordLogin(_req: Request, res: Response, next: NextFunction) {
+  if (!PASSWORD_LOGIN_ENABLED) {
+    return res.status(403).json({ message: "Password sign-in is disabled; sign in with SSO" });
+  }
+  next();
+}
+
+type OidcState = Omit<AuthorizationRequest, "url">;
+
+function signOidcState(request: OidcState): string {
+  const { state, nonce, codeVerifier } = request;
+  return jwt.sign({ state, nonce, codeVerifier }, JWT_SECRET, {
+    audience: OIDC_STATE_AUDIENCE,
+    expiresIn: OIDC_STATE_TTL_MS / 1000,
+  });
+}
+
+function verifyOidcState(token: string | undefined): OidcState | null {
+  if (!token) return null;
+  try {
+    return jwt.verify(token, JWT_SECRET, { audience: OIDC_STATE_AUDIENCE }) as OidcState;
+  } catch {
+    return null;
+  }
+}
+
+// Usernames must be unique, so a taken one gets a number appended
+async function findAvailableUsername(preferred: string): Promise<string> {
+  const base = preferred.toLowerCase().replace(/[^a-z0-9_.-]/g, "").slice(0, 24).padEnd(3, "0");
+  let username = base;
+  for (let suffix = 2; await storage.getUserByUsername(username); suffix++) {
+    username = `${base}${suffix}`;
+  }
+  return username;
+}
+
+// The account an SSO sign-in belongs to: the one already linked to the
+// identity, else an existing account with the same verified email, else a
+// new one. Only a verified email links, or anyone who can set an address at
+// the provider could take over the account that uses it here.
+async function findOrProvisionOidcUser(config: OidcConfig, claims: OidcClaims): Promise<User> {
+  const identity = await storage.getUserIdentity(config.issuer, claims.sub);
+  if (identity) {
+    const linked = await storage.getUser(identity.userId);
+    if (linked) return linked;
+  }
+
+  if (!claims.email) {
+    throw new OidcError("The identity provider did not share your email address");
+  }
+  const emailVerified = claims.email_verified === true;
+
+  let user = await storage.getUserByEmail(claims.email);
+  if (user && !emailVerified) {
+    throw new OidcError("An account with this email already exists. Sign in with your password instead.");
+  }
+  if (!user) {
+    const username = await findAvailableUsername(claims.preferred_username || claims.email.split("@")[0]);
+    // SSO accounts get a random password nobody knows; one can be set
+    // through the reset flow if password sign-in is enabled
+    user = await storage.createUser({
+      username,
+      email: claims.email,
+      password: await bcrypt.hash(generateToken(), 10),
+      displayName: claims.name?.slice(0, 50) || undefined,
+    });
+    await storage.createProject({ name: `${user.displayName || user.username}'s workspace` }, user.id);
+  }
+
+  await storage.createUserIdentity({ userId: user.id, issuer: config.issuer, subject: claims.sub, email: claims.email });
+  if (emailVerified && !user.emailVerifiedAt) {
+    user = (await storage.markEmailVerified(user.id)) ?? user;
+  }
+  return user;
+}
+
+function toSessionInfo(session: Session, currentSessionId: string | null): SessionInfo {
+  const { id, userAgent, ipAddress, createdAt, lastUsedAt, expiresAt } = session;
+  return { id, userAgent, ipAddress, createdAt, lastUsedAt, expiresAt, current: id === currentSessionId };
+}
+
+// Rate limits and the audit log track accounts by email, whatever its case
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function formatWait(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds} ${seconds === 1 ? "second" : "seconds"}`;
+  }
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} ${minutes === 1 ? "minute" : "minutes"}`;
+}
+
+function sendRateLimited(res: Response, retryAfterMs: number) {
+  const retryAfter = Math.ceil(retryAfterMs / 1000);
+  res.set("Retry-After", String(retryAfter));
+  return res.status(429).json({
+    message: `Too many attempts. Please try again in ${formatWait(retryAfter)}.`,
+    retryAfter,
+  });
+}
+
+// Writing the audit log must never fail the request being audited
+async function recordAuthAudit(req: Request, entry: Pick<InsertAuthAuditEntry, "event" | "action" | "email" | "userId">) {
+  try {
+    await storage.createAuthAuditEntry({ ...entry, ...getClientInfo(req) });
+  } catch (error) {
+    console.error(error);
+  }
+}
+
+// Checks a two-factor code under the account's rate limit. When the code is
+// not accepted the response has been sent and false is returned.
+async function checkSecondFactor(
+  req: Request,
+  res: Response,
+  user: User,
+  twoFactor: TwoFactorAuth,
+  code: string,
+  action: string,
+): Promise<boolean> {
+  const audit = { action, email: normalizeEmail(user.email), userId: user.id };
+  const attempt = await authRateLimits.twoFactorAccount.attempt(user.id);
+  if (!attempt.allowed) {
+    await recordAuthAudit(req, { event: "rate_limited", ...audit });
+    sendRateLimited(res, attempt.retryAfterMs);
+    return false;
+  }
+
+  if (await verifySecondFactor(twoFactor, code)) {
+    await authRateLimits.twoFactorAccount.reset(user.id);
+    return true;
+  }
+
+  await recordAuthAudit(req, { event: "two_factor_failed", ...audit });
+  if (attempt.lockedOut) {
+    await recordAuthAudit(req, { event: "account_locked", ...audit });
+  }
+  res.status(400).json({ message: "Invalid authentication code" });
+  return false;
+}
+
+function toWebhookInfo(webhook: Webhook): WebhookInfo {
+  const { secret, ...info } = webhook;
+  return info;
+}
+
+// Finds the webhook named in the URL for someone who may manage the
+// project's webhooks. Otherwise the response has been sent and undefined is
+// returned.
+async function findManagedWebhook(req: Request, res: Response): Promise<Webhook | undefined> {
+  if (!(await checkWebhookAccess(req, res))) return undefined;
+  const webhook = await storage.getWebhook(req.params.webhookId);
+  if (!webhook || webhook.projectId !== req.params.id) {
+    res.status(404).json({ message: "Webhook not found" });
+    return undefined;
+  }
+  return webhook;
+}
+
+async function checkWebhookAccess(req: Request, res: Response): Promise<boolean> {
+  const membership = await storage.getProjectMember(req.params.id, req.user!.userId);
+  if (!membership) {
+    res.status(404).json({ message: "Project not found" });
+    return false;
+  }
+  if (!canManageWebhooks(membership.role)) {
+    res.status(403).json({ message: "Only project owners and admins can manage webhooks" });
+    return false;
+  }
+  return true;
 }
 
 function handleError(res: Response, error: unknown, defaultMessage: string) {
@@ -50,6 +520,40 @@ function handleError(res: Response, error: unknown, defaultMessage: string) {
   return res.status(500).json({ message: defaultMessage });
 }
 
+// Task ids along the "blocks" links from `from` to `to`, or null when `to`
+// cannot be reached
+function findDependencyPath(dependencies: TaskDependency[], from: string, to: string): string[] | null {
+  const previous = new Map<string, string>([[from, from]]);
+  const queue = [from];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === to) {
+      const path = [to];
+      while (path[0] !== from) {
+        path.unshift(previous.get(path[0])!);
+      }
+      return path;
+    }
+    for (const dependency of dependencies) {
+      if (dependency.blockerId === current && !previous.has(dependency.blockedId)) {
+        previous.set(dependency.blockedId, current);
+        queue.push(dependency.blockedId);
+      }
+    }
+  }
+  return null;
+}
+
+// Where a reconnecting socket left off, sent in the handshake auth
+const resumePositionSchema = z.object({
+  epoch: z.string(),
+  seq: z.number().int().nonnegative(),
+});
+
+const userRoom = (userId: string) => `user:${userId}`;
+const sessionRoom = (sessionId: string) => `session:${sessionId}`;
+const projectRoom = (projectId: string) => `project:${projectId}`;
+
 export async function registerRoutes(
   httpServer: Server,
   app: Express
@@ -62,36 +566,314 @@ export async function registerRoutes(
     },
   });
 
-  io.use((socket, next) => {
+  io.use(async (socket, next) => {
     const token = socket.handshake.auth.token || socket.handshake.headers.cookie?.split(COOKIE_NAME + "=")[1]?.split(";")[0];
-    if (token) {
-      try {
-        const decoded = jwt.verify(token, JWT_SECRET) as JWTPayload;
-        (socket as any).user = decoded;
-      } catch {
-        // Continue without auth for now
-      }
+    if (!token) {
+      return next(new Error("Authentication required"));
+    }
+    try {
+      socket.data.user = await verifyAccessToken(token);
+    } catch {
+      return next(new Error("Invalid or expired token"));
     }
     next();
   });
 
-  io.on("connection", (socket) => {
+  const presence = new PresenceTracker();
+  const events = new EventLog();
+  const webhooks = new WebhookDispatcher();
+
+  // Every socket sits in its user's room and in one room per project the user
+  // belongs to; membership changes below move the user's sockets between rooms
+  io.on("connection", async (socket) => {
+    const { userId, sessionId } = socket.data.user as JWTPayload;
     console.log("Client connected:", socket.id);
+    const cameOnline = presence.connect(socket.id, userId);
+
+    // Sent when a task modal opens, and again whenever the form becomes or
+    // stops being dirty
+    socket.on("presence:view", async (payload: { taskId?: string; editing?: boolean } = {}) => {
+      try {
+        const task = payload.taskId ? await storage.getTask(payload.taskId) : undefined;
+        if (!task || !(await storage.getProjectMember(task.projectId, userId))) return;
+        const previous = presence.setTask(socket.id, task.id, payload.editing === true);
+        if (previous && previous !== task.id) {
+          await emitTaskViewers(previous);
+        }
+        await emitTaskViewers(task.id);
+      } catch (error) {
+        console.error(error);
+      }
+    });
+
+    socket.on("presence:leave", async () => {
+      try {
+        const previous = presence.setTask(socket.id, null);
+        if (previous) {
+          await emitTaskViewers(previous);
+        }
+      } catch (error) {
+        console.error(error);
+      }
+    });
 
-    socket.on("disconnect", () => {
+    socket.on("disconnect", async () => {
       console.log("Client disconnected:", socket.id);
+      try {
+        const left = presence.disconnect(socket.id);
+        if (left?.taskId) {
+          await emitTaskViewers(left.taskId);
+        }
+        if (left?.wentOffline) {
+          await emitPresenceChange(userId, "presence:offline");
+        }
+      } catch (error) {
+        console.error(error);
+      }
+    });
+
+    try {
+      socket.join([userRoom(userId), sessionRoom(sessionId)]);
+      const userProjects = await storage.getProjectsForUser(userId);
+      socket.join(userProjects.map((project) => projectRoom(project.id)));
+      resumeEvents(socket);
+      if (cameOnline) {
+        await emitPresenceChange(userId, "presence:online");
+      }
+    } catch (error) {
+      console.error(error);
+      socket.disconnect(true);
+    }
+  });
+
+  // Task, comment, subtask and dependency events carry a sequence number and
+  // are kept in the event log; presence events are not, a reconnecting client
+  // re-fetches presence anyway
+  function broadcast(room: string, event: string, data: unknown) {
+    const { seq } = events.append(room, event, data);
+    io.to(room).emit(event, data, { seq });
+  }
+
+  // Task events also go to the project's webhooks
+  function emitTaskEvent(projectId: string, event: string, data: unknown) {
+    broadcast(projectRoom(projectId), event, data);
+    void webhooks.dispatch(projectId, event, data);
+  }
+
+  function emitUserEvent(userId: string, event: string, data: unknown) {
+    broadcast(userRoom(userId), event, data);
+  }
+
+  // Must run synchronously after the socket joined its rooms so that no event
+  // falls between the replay and the live stream
+  function resumeEvents(socket: Socket) {
+    const resume = resumePositionSchema.safeParse(socket.handshake.auth.resume);
+    if (resume.success) {
+      const missed = events.since(resume.data, socket.rooms);
+      if (missed) {
+        for (const entry of missed) {
+          socket.emit(entry.event, entry.data, { seq: entry.seq });
+        }
+      } else {
+        socket.emit("events:resync");
+      }
+    }
+    socket.emit("events:position", events.position());
+  }
+
+  // Revoked sessions lose their open sockets right away rather than at the
+  // next handshake
+  function disconnectSessions(sessionIds: string[]) {
+    if (sessionIds.length > 0) {
+      io.in(sessionIds.map(sessionRoom)).disconnectSockets(true);
+    }
+  }
+
+  function joinProjectRoom(userId: string, projectId: string) {
+    io.in(userRoom(userId)).socketsJoin(projectRoom(projectId));
+  }
+
+  function leaveProjectRoom(userId: string, projectId: string) {
+    io.in(userRoom(userId)).socketsLeave(projectRoom(projectId));
+  }
+
+  async function emitPresenceChange(userId: string, event: "presence:online" | "presence:offline") {
+    const userProjects = await storage.getProjectsForUser(userId);
+    if (userProjects.length > 0) {
+      io.to(userProjects.map((project) => projectRoom(project.id))).emit(event, { userId });
+    }
+  }
+
+  async function emitTaskViewers(taskId: string) {
+    const task = await storage.getTask(taskId);
+    if (task) {
+      io.to(projectRoom(task.projectId)).emit("presence:task", { taskId, viewers: presence.getTaskViewers(taskId) });
+    }
+  }
+
+  // A subtask change also changes the parent's progress, so the parent is
+  // re-sent as task:updated for views that only render task cards
+  async function emitSubtaskEvent(event: string, taskId: string, subtaskId: string, data?: Subtask) {
+    const parent = await storage.getTask(taskId);
+    if (parent) {
+      emitTaskEvent(parent.projectId, event, { taskId, subtaskId, data });
+      emitTaskEvent(parent.projectId, "task:updated", { taskId, data: parent });
+    }
+  }
+
+  // Writes a notification for each recipient other than the acting user and
+  // pushes it to the recipient's sockets. A failure here is logged rather than
+  // failing the request that caused it.
+  async function notify(recipientIds: (string | null)[], notification: Omit<InsertNotification, "userId">) {
+    try {
+      const userIds = Array.from(new Set(recipientIds)).filter(
+        (id): id is string => !!id && id !== notification.actorId,
+      );
+      const created = await storage.createNotifications(userIds.map((userId) => ({ ...notification, userId })));
+      for (const item of created) {
+        emitUserEvent(item.userId, "notification:created", item);
+      }
+    } catch (error) {
+      console.error(error);
+    }
+  }
+
+  // In-app notification plus, unless they opted out, an email. The email is
+  // not awaited so a slow mail server does not hold up the response.
+  async function notifyAssignee(task: TaskWithRelations, actorId: string, actor: string) {
+    if (!task.assignedToId || task.assignedToId === actorId) return;
+    await notify([task.assignedToId], {
+      type: "assigned",
+      taskId: task.id,
+      actorId,
+      message: notificationMessages.assigned(actor, task),
+    });
+    void sendEmailNotification(task.assignedToId, "assigned", (recipient) =>
+      emailTemplates.assigned(recipient, actor, task),
+    );
+  }
+
+  async function getActorName(userId: string): Promise<string> {
+    const user = await storage.getUser(userId);
+    return user ? displayName(user) : "Someone";
+  }
+
+  // Project members @mentioned in the comment get a mention; the task's creator
+  // and assignee get a comment notification unless they were mentioned. An
+  // edited comment only notifies newly added mentions.
+  async function notifyComment(task: TaskWithRelations, comment: CommentWithAuthor, previousBody?: string) {
+    const actor = displayName(comment.author);
+    const previousMentions = previousBody ? extractMentions(previousBody) : [];
+    const mentions = extractMentions(comment.body).filter((username) => !previousMentions.includes(username));
+    const members = mentions.length > 0 ? await storage.getProjectMembers(task.projectId) : [];
+    const mentioned = members.filter((m) => mentions.includes(m.username.toLowerCase())).map((m) => m.id);
+
+    await notify(mentioned, {
+      type: "mention",
+      taskId: task.id,
+      actorId: comment.authorId,
+      message: notificationMessages.mention(actor, task),
     });
+    if (previousBody === undefined) {
+      await notify(
+        [task.creatorId, task.assignedToId].filter((id) => !id || !mentioned.includes(id)),
+        {
+          type: "comment",
+          taskId: task.id,
+          actorId: comment.authorId,
+          message: notificationMessages.comment(actor, task),
+        },
+      );
+    }
+  }
+
+  const scheduler = new DueDateScheduler({ emitTaskEvent, notify });
+  scheduler.start();
+  webhooks.start();
+  // The background jobs would otherwise keep the process alive
+  httpServer.on("close", () => {
+    scheduler.stop();
+    webhooks.stop();
   });
 
-  function emitTaskEvent(event: string, data: unknown) {
-    io.emit(event, data);
+  if (mockIdpEnabled && oidcConfig) {
+    app.use(MOCK_IDP_PATH, createMockIdp(oidcConfig.issuer));
   }
 
   // Auth routes
-  app.post("/api/auth/register", async (req, res) => {
+  app.get("/api/auth/providers", (_req, res) => {
+    const providers: AuthProviders = {
+      passwordLogin: PASSWORD_LOGIN_ENABLED,
+      sso: oidcConfig ? { name: oidcConfig.providerName } : null,
+    };
+    res.json(providers);
+  });
+
+  // Single sign-on: sends the browser to the identity provider, which sends
+  // it back to the callback below
+  app.get("/api/auth/oidc/login", async (_req, res) => {
+    if (!oidcConfig) {
+      return res.status(404).json({ message: "Single sign-on is not configured" });
+    }
+    try {
+      const { url, ...state } = await createAuthorizationRequest(oidcConfig);
+      res.cookie(OIDC_COOKIE_NAME, signOidcState(state), {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === "production",
+        // Lax, so the cookie comes along on the provider's redirect back
+        sameSite: "lax",
+        path: OIDC_COOKIE_PATH,
+        maxAge: OIDC_STATE_TTL_MS,
+      });
+      return res.redirect(url);
+    } catch (error) {
+      console.error(error);
+      const message = error instanceof OidcError ? error.message : "Single sign-on is unavailable right now";
+      return res.redirect(`/login?sso_error=${encodeURIComponent(message)}`);
+    }
+  });
+
+  // Errors are shown on the login page, since the browser arrives here by
+  // redirect rather than from our client
+  app.get("/api/auth/oidc/callback", async (req, res) => {
+    const state = verifyOidcState(req.cookies?.[OIDC_COOKIE_NAME]);
+    res.clearCookie(OIDC_COOKIE_NAME, { path: OIDC_COOKIE_PATH });
+    try {
+      if (!oidcConfig) {
+        throw new OidcError("Single sign-on is not configured");
+      }
+      if (typeof req.query.error === "string") {
+        const description = typeof req.query.error_description === "string" ? req.query.error_description : req.query.error;
+        throw new OidcError(`The identity provider refused the sign-in: ${description}`);
+      }
+      if (!state || req.query.state !== state.state || typeof req.query.code !== "string") {
+        throw new OidcError("Your sign-in attempt has expired. Please try again.");
+      }
+
+      const claims = await completeAuthorization(oidcConfig, req.query.code, state);
+      const user = await findOrProvisionOidcUser(oidcConfig, claims);
+      // The identity provider is trusted with any second factor, so local
+      // two-factor auth only applies to password sign-in
+      await startSession(req, res, user);
+      return res.redirect("/");
+    } catch (error) {
+      console.error(error);
+      const message = error instanceof OidcError ? error.message : "Single sign-on failed. Please try again.";
+      return res.redirect(`/login?sso_error=${encodeURIComponent(message)}`);
+    }
+  });
+
+  app.post("/api/auth/register", requirePasswordLogin, async (req, res) => {
     try {
       const data = registerSchema.parse(req.body);
 
+      const ip = req.ip ?? "unknown";
+      const attempt = await authRateLimits.registerIp.attempt(ip);
+      if (!attempt.allowed) {
+        await recordAuthAudit(req, { event: "rate_limited", action: "register", email: normalizeEmail(data.email), userId: null });
+        return sendRateLimited(res, attempt.retryAfterMs);
+      }
+
       const existingEmail = await storage.getUserByEmail(data.email);
       if (existingEmail) {
         return res.status(400).json({ message: "Email already in use" });
@@ -108,18 +890,20 @@ export async function registerRoutes(
         password: hashedPassword,
       });
 
-      const token = jwt.sign(
-        { userId: user.id, email: user.email } as JWTPayload,
-        JWT_SECRET,
-        { expiresIn: "7d" }
+      await storage.createProject(
+        { name: `${user.displayName || user.username}'s workspace` },
+        user.id
       );
 
-      res.cookie(COOKIE_NAME, token, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === "production",
-        sameSite: "lax",
-        maxAge: 7 * 24 * 60 * 60 * 1000,
-      });
+      await startSession(req, res, user);
+
+      // The account works before the address is verified, so a failed
+      // email does not fail the registration; it can be resent later
+      try {
+        await sendVerificationEmail(user);
+      } catch (error) {
+        console.error(error);
+      }
 
       const { password, ...publicUser } = user;
       return res.status(201).json({ user: publicUser });
@@ -128,32 +912,44 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/auth/login", async (req, res) => {
+  app.post("/api/auth/login", requirePasswordLogin, async (req, res) => {
     try {
       const data = loginSchema.parse(req.body);
+      const email = normalizeEmail(data.email);
+      const ip = req.ip ?? "unknown";
 
-      const user = await storage.getUserByEmail(data.email);
-      if (!user) {
-        return res.status(401).json({ message: "Invalid email or password" });
+      // The attempt is counted before the password is checked, so guessing
+      // goes no faster however many requests are sent at once
+      const { retryAfterMs, attempts } = await attemptAll([
+        [authRateLimits.loginIp, ip],
+        [authRateLimits.loginAccount, email],
+      ]);
+      if (retryAfterMs > 0) {
+        await recordAuthAudit(req, { event: "rate_limited", action: "login", email, userId: null });
+        return sendRateLimited(res, retryAfterMs);
       }
 
-      const validPassword = await bcrypt.compare(data.password, user.password);
-      if (!validPassword) {
+      const user = await storage.getUserByEmail(data.email);
+      const validPassword = user ? await bcrypt.compare(data.password, user.password) : false;
+      if (!user || !validPassword) {
+        const userId = user?.id ?? null;
+        await recordAuthAudit(req, { event: "login_failed", action: "login", email, userId });
+        if (attempts[1].lockedOut) {
+          await recordAuthAudit(req, { event: "account_locked", action: "login", email, userId });
+        }
         return res.status(401).json({ message: "Invalid email or password" });
       }
 
-      const token = jwt.sign(
-        { userId: user.id, email: user.email } as JWTPayload,
-        JWT_SECRET,
-        { expiresIn: "7d" }
-      );
+      await Promise.all([authRateLimits.loginIp.refund(ip), authRateLimits.loginAccount.reset(email)]);
 
-      res.cookie(COOKIE_NAME, token, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === "production",
-        sameSite: "lax",
-        maxAge: 7 * 24 * 60 * 60 * 1000,
-      });
+      // No cookies yet: the session only starts once the code is in
+      const twoFactor = await storage.getTwoFactorAuth(user.id);
+      if (twoFactor?.enabledAt) {
+        const challenge: TwoFactorChallenge = { twoFactorRequired: true, challengeToken: signTwoFactorChallenge(user) };
+        return res.json(challenge);
+      }
+
+      await startSession(req, res, user);
 
       const { password, ...publicUser } = user;
       return res.json({ user: publicUser });
@@ -162,48 +958,772 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/auth/logout", (req, res) => {
-    res.clearCookie(COOKIE_NAME);
-    return res.json({ message: "Logged out successfully" });
-  });
-
-  app.get("/api/auth/me", authMiddleware, async (req, res) => {
+  // Second step of signing in to an account with two-factor auth
+  app.post("/api/auth/login/2fa", requirePasswordLogin, async (req, res) => {
     try {
-      const user = await storage.getUser(req.user!.userId);
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+      const data = loginTwoFactorSchema.parse(req.body);
+
+      const userId = verifyTwoFactorChallenge(data.challengeToken);
+      const user = userId ? await storage.getUser(userId) : undefined;
+      const twoFactor = user ? await storage.getTwoFactorAuth(user.id) : undefined;
+      if (!user || !twoFactor?.enabledAt) {
+        return res.status(401).json({ message: "Your sign-in attempt has expired. Please sign in again." });
+      }
+
+      if (!(await checkSecondFactor(req, res, user, twoFactor, data.code, "login"))) {
+        return;
       }
+
+      await startSession(req, res, user);
+
       const { password, ...publicUser } = user;
       return res.json({ user: publicUser });
     } catch (error) {
-      return handleError(res, error, "Failed to get user");
+      return handleError(res, error, "Login failed");
     }
   });
 
-  // Users routes
-  app.get("/api/users", authMiddleware, async (req, res) => {
+  // Trades the refresh cookie for a new access token and a new refresh token
+  app.post("/api/auth/refresh", async (req, res) => {
     try {
-      const allUsers = await storage.getAllUsers();
-      return res.json(allUsers);
+      const refreshToken = req.cookies?.[REFRESH_COOKIE_NAME];
+      if (!refreshToken) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const tokenHash = hashToken(refreshToken);
+      const session = await storage.getSessionByRefreshToken(tokenHash);
+      if (!session) {
+        // An already rotated token is expected right after a concurrent
+        // refresh; any later use means it leaked, so the session is ended
+        const rotated = await storage.getSessionByPreviousRefreshToken(tokenHash);
+        const rotatedUser = rotated && (await storage.getUser(rotated.userId));
+        const withinGrace = !!rotated && Date.now() - rotated.lastUsedAt.getTime() < REFRESH_REUSE_GRACE_MS;
+        if (rotated && rotatedUser && withinGrace && isSessionActive(rotated)) {
+          setAuthCookies(res, signAccessToken(rotatedUser, rotated.id));
+          return res.json({ message: "Session refreshed" });
+        }
+        if (rotated && (await storage.revokeSession(rotated.id))) {
+          disconnectSessions([rotated.id]);
+        }
+        clearAuthCookies(res);
+        return res.status(401).json({ message: "Invalid or expired session" });
+      }
+
+      const user = await storage.getUser(session.userId);
+      if (!user || !isSessionActive(session)) {
+        clearAuthCookies(res);
+        return res.status(401).json({ message: "Invalid or expired session" });
+      }
+
+      const nextRefreshToken = generateToken();
+      const rotated = await storage.rotateSession(session.id, tokenHash, {
+        refreshTokenHash: hashToken(nextRefreshToken),
+        ...getClientInfo(req),
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+      });
+      // Losing a race against a concurrent refresh still yields an access token
+      setAuthCookies(res, signAccessToken(user, session.id), rotated ? nextRefreshToken : undefined);
+      return res.json({ message: "Session refreshed" });
     } catch (error) {
-      return handleError(res, error, "Failed to get users");
+      return handleError(res, error, "Failed to refresh session");
     }
   });
 
-  // Tasks routes
+  app.post("/api/auth/logout", async (req, res) => {
+    try {
+      const refreshToken = req.cookies?.[REFRESH_COOKIE_NAME];
+      const session = refreshToken ? await storage.getSessionByRefreshToken(hashToken(refreshToken)) : undefined;
+      if (session && (await storage.revokeSession(session.id))) {
+        disconnectSessions([session.id]);
+      }
+      clearAuthCookies(res);
+      return res.json({ message: "Logged out successfully" });
+    } catch (error) {
+      return handleError(res, error, "Logout failed");
+    }
+  });
+
+  app.get("/api/auth/sessions", authMiddleware, requireSession, async (req, res) => {
+    try {
+      const active = await storage.getActiveSessions(req.user!.userId);
+      return res.json(active.map((session) => toSessionInfo(session, req.user!.sessionId)));
+    } catch (error) {
+      return handleError(res, error, "Failed to get sessions");
+    }
+  });
+
+  // Log out everywhere, this device included
+  app.delete("/api/auth/sessions", authMiddleware, requireSession, async (req, res) => {
+    try {
+      const revoked = await storage.revokeUserSessions(req.user!.userId);
+      disconnectSessions(revoked);
+      clearAuthCookies(res);
+      return res.json({ message: "Logged out of all sessions", count: revoked.length });
+    } catch (error) {
+      return handleError(res, error, "Failed to revoke sessions");
+    }
+  });
+
+  app.delete("/api/auth/sessions/:id", authMiddleware, requireSession, async (req, res) => {
+    try {
+      const session = await storage.getSession(req.params.id);
+      if (!session || session.userId !== req.user!.userId || !isSessionActive(session)) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      await storage.revokeSession(session.id);
+      disconnectSessions([session.id]);
+      if (session.id === req.user!.sessionId) {
+        clearAuthCookies(res);
+      }
+
+      return res.json({ message: "Session revoked" });
+    } catch (error) {
+      return handleError(res, error, "Failed to revoke session");
+    }
+  });
+
+  // Answers the same whether or not the email belongs to an account, so the
+  // endpoint cannot be used to find out who is registered
+  app.post("/api/auth/forgot-password", requirePasswordLogin, async (req, res) => {
+    try {
+      const data = forgotPasswordSchema.parse(req.body);
+      const email = normalizeEmail(data.email);
+      const ip = req.ip ?? "unknown";
+
+      // Counted per email whether or not it has an account, so being
+      // throttled does not tell either
+      const { retryAfterMs } = await attemptAll([
+        [authRateLimits.passwordResetIp, ip],
+        [authRateLimits.passwordResetAccount, email],
+      ]);
+      if (retryAfterMs > 0) {
+        await recordAuthAudit(req, { event: "rate_limited", action: "forgot_password", email, userId: null });
+        return sendRateLimited(res, retryAfterMs);
+      }
+
+      const user = await storage.getUserByEmail(data.email);
+      if (user) {
+        try {
+          const token = await issueAuthToken(user, "password_reset", PASSWORD_RESET_TTL_MS);
+          await sendAccountEmail(user, emailTemplates.passwordReset(user, token, PASSWORD_RESET_TTL_MS / 60_000));
+        } catch (error) {
+          console.error(error);
+        }
+      }
+
+      return res.json({ message: "If an account exists for that email, we sent a link to reset the password" });
+    } catch (error) {
+      return handleError(res, error, "Failed to request password reset");
+    }
+  });
+
+  // Sets the new password, signs out every session and revokes the API
+  // tokens, since whoever knew the old password may still be signed in or
+  // have created one
+  app.post("/api/auth/reset-password", requirePasswordLogin, async (req, res) => {
+    try {
+      const data = resetPasswordSchema.parse(req.body);
+
+      const token = await storage.consumeAuthToken(hashToken(data.token), "password_reset");
+      if (!token) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired" });
+      }
+
+      const hashedPassword = await bcrypt.hash(data.password, 10);
+      await storage.updateUser(token.userId, { password: hashedPassword });
+      // Following the emailed link proves the address, too
+      await storage.markEmailVerified(token.userId);
+      disconnectSessions(await storage.revokeUserSessions(token.userId));
+      await storage.deleteUserApiTokens(token.userId);
+      clearAuthCookies(res);
+
+      return res.json({ message: "Your password has been reset. Please sign in." });
+    } catch (error) {
+      return handleError(res, error, "Failed to reset password");
+    }
+  });
+
+  // Works signed out too, since the link may be opened on another device
+  app.post("/api/auth/verify-email", async (req, res) => {
+    try {
+      const data = verifyEmailSchema.parse(req.body);
+
+      const token = await storage.consumeAuthToken(hashToken(data.token), "email_verification");
+      if (!token) {
+        return res.status(400).json({ message: "This verification link is invalid or has expired" });
+      }
+
+      const user = await storage.markEmailVerified(token.userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const { password, ...publicUser } = user;
+      return res.json({ user: publicUser });
+    } catch (error) {
+      return handleError(res, error, "Failed to verify email");
+    }
+  });
+
+  app.post("/api/auth/verify-email/resend", authMiddleware, requireSession, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.emailVerifiedAt) {
+        return res.status(400).json({ message: "Your email is already verified" });
+      }
+
+      await sendVerificationEmail(user);
+      return res.json({ message: `We sent a new verification link to ${user.email}` });
+    } catch (error) {
+      return handleError(res, error, "Failed to send verification email");
+    }
+  });
+
+  app.get("/api/auth/2fa", authMiddleware, requireSession, async (req, res) => {
+    try {
+      return res.json(await toTwoFactorStatus(req.user!.userId));
+    } catch (error) {
+      return handleError(res, error, "Failed to get two-factor status");
+    }
+  });
+
+  // Starts enrollment with a new secret; it takes effect once /enable has
+  // seen a code generated from it
+  app.post("/api/auth/2fa/setup", authMiddleware, requireSession, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const existing = await storage.getTwoFactorAuth(user.id);
+      if (existing?.enabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+      }
+
+      const secret = generateTotpSecret();
+      await storage.startTwoFactorEnrollment(user.id, secret);
+      const otpauthUri = totpUri(secret, user.email);
+      const setup: TwoFactorSetup = { secret, otpauthUri, qrCode: await QRCode.toDataURL(otpauthUri) };
+      return res.json(setup);
+    } catch (error) {
+      return handleError(res, error, "Failed to start two-factor setup");
+    }
+  });
+
+  // Returns the recovery codes; this is the only time they are shown
+  app.post("/api/auth/2fa/enable", authMiddleware, requireSession, async (req, res) => {
+    try {
+      const data = twoFactorCodeBodySchema.parse(req.body);
+
+      const twoFactor = await storage.getTwoFactorAuth(req.user!.userId);
+      if (!twoFactor || twoFactor.enabledAt) {
+        return res.status(400).json({ message: "Start two-factor setup first" });
+      }
+
+      const step = verifyTotp(twoFactor.secret, data.code, null);
+      if (step === null) {
+        return res.status(400).json({ message: "Invalid authentication code" });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      if (!(await storage.enableTwoFactorAuth(twoFactor.userId, step, recoveryCodes.map(hashToken)))) {
+        return res.status(400).json({ message: "Start two-factor setup first" });
+      }
+
+      return res.json({ recoveryCodes });
+    } catch (error) {
+      return handleError(res, error, "Failed to enable two-factor authentication");
+    }
+  });
+
+  app.post("/api/auth/2fa/recovery-codes", authMiddleware, requireSession, async (req, res) => {
+    try {
+      const data = twoFactorCodeBodySchema.parse(req.body);
+
+      const user = await storage.getUser(req.user!.userId);
+      const twoFactor = user ? await storage.getTwoFactorAuth(user.id) : undefined;
+      if (!user || !twoFactor?.enabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+
+      if (!(await checkSecondFactor(req, res, user, twoFactor, data.code, "regenerate_recovery_codes"))) {
+        return;
+      }
+
+      return res.json({ recoveryCodes: await issueRecoveryCodes(user.id) });
+    } catch (error) {
+      return handleError(res, error, "Failed to regenerate recovery codes");
+    }
+  });
+
+  // Needs both the password and a code, so a session left open on a shared
+  // computer is not enough to turn it off
+  app.post("/api/auth/2fa/disable", authMiddleware, requireSession, async (req, res) => {
+    try {
+      const data = disableTwoFactorSchema.parse(req.body);
+
+      const user = await storage.getUser(req.user!.userId);
+      const twoFactor = user ? await storage.getTwoFactorAuth(user.id) : undefined;
+      if (!user || !twoFactor?.enabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+
+      const email = normalizeEmail(user.email);
+      const attempt = await authRateLimits.loginAccount.attempt(email);
+      if (!attempt.allowed) {
+        await recordAuthAudit(req, { event: "rate_limited", action: "disable_two_factor", email, userId: user.id });
+        return sendRateLimited(res, attempt.retryAfterMs);
+      }
+      if (!(await bcrypt.compare(data.password, user.password))) {
+        await recordAuthAudit(req, { event: "login_failed", action: "disable_two_factor", email, userId: user.id });
+        if (attempt.lockedOut) {
+          await recordAuthAudit(req, { event: "account_locked", action: "disable_two_factor", email, userId: user.id });
+        }
+        return res.status(400).json({ message: "Incorrect password" });
+      }
+      await authRateLimits.loginAccount.reset(email);
+
+      if (!(await checkSecondFactor(req, res, user, twoFactor, data.code, "disable_two_factor"))) {
+        return;
+      }
+
+      await storage.disableTwoFactorAuth(user.id);
+      return res.json(await toTwoFactorStatus(user.id));
+    } catch (error) {
+      return handleError(res, error, "Failed to disable two-factor authentication");
+    }
+  });
+
+  app.get("/api/auth/tokens", authMiddleware, requireSession, async (req, res) => {
+    try {
+      const tokens = await storage.getApiTokensByUser(req.user!.userId);
+      return res.json(tokens.map(toApiTokenInfo));
+    } catch (error) {
+      return handleError(res, error, "Failed to get API tokens");
+    }
+  });
+
+  // The token itself is in this answer only; the server keeps its hash
+  app.post("/api/auth/tokens", authMiddleware, requireSession, async (req, res) => {
+    try {
+      const data = createApiTokenSchema.parse(req.body);
+      const token = API_TOKEN_PREFIX + generateToken();
+      const apiToken = await storage.createApiToken({
+        userId: req.user!.userId,
+        name: data.name,
+        scope: data.scope,
+        tokenHash: hashToken(token),
+        tokenHint: token.slice(-4),
+        expiresAt: data.expiresInDays ? new Date(Date.now() + data.expiresInDays * 24 * 60 * 60 * 1000) : null,
+      });
+      const created: CreatedApiToken = { ...toApiTokenInfo(apiToken), token };
+      return res.status(201).json(created);
+    } catch (error) {
+      return handleError(res, error, "Failed to create API token");
+    }
+  });
+
+  app.delete("/api/auth/tokens/:id", authMiddleware, requireSession, async (req, res) => {
+    try {
+      const deleted = await storage.deleteApiToken(req.params.id, req.user!.userId);
+      if (!deleted) {
+        return res.status(404).json({ message: "API token not found" });
+      }
+      return res.json({ message: "API token revoked" });
+    } catch (error) {
+      return handleError(res, error, "Failed to revoke API token");
+    }
+  });
+
+  app.get("/api/auth/me", authMiddleware, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const { password, ...publicUser } = user;
+      return res.json({ user: publicUser });
+    } catch (error) {
+      return handleError(res, error, "Failed to get user");
+    }
+  });
+
+  // Users routes
+  app.get("/api/users/me/email-preferences", authMiddleware, async (req, res) => {
+    try {
+      const preferences = await storage.getEmailPreferences(req.user!.userId);
+      return res.json(preferences);
+    } catch (error) {
+      return handleError(res, error, "Failed to get email preferences");
+    }
+  });
+
+  app.patch("/api/users/me/email-preferences", authMiddleware, async (req, res) => {
+    try {
+      const data = updateEmailPreferencesSchema.parse(req.body);
+      const preferences = await storage.updateEmailPreferences(req.user!.userId, data);
+      return res.json(preferences);
+    } catch (error) {
+      return handleError(res, error, "Failed to update email preferences");
+    }
+  });
+
+  // Projects routes
+  app.get("/api/projects", authMiddleware, async (req, res) => {
+    try {
+      const userProjects = await storage.getProjectsForUser(req.user!.userId);
+      return res.json(userProjects);
+    } catch (error) {
+      return handleError(res, error, "Failed to get projects");
+    }
+  });
+
+  app.post("/api/projects", authMiddleware, async (req, res) => {
+    try {
+      const data = insertProjectSchema.parse(req.body);
+      const project = await storage.createProject(data, req.user!.userId);
+      joinProjectRoom(req.user!.userId, project.id);
+      return res.status(201).json({ ...project, role: "owner" });
+    } catch (error) {
+      return handleError(res, error, "Failed to create project");
+    }
+  });
+
+  app.get("/api/projects/:id", authMiddleware, async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.id);
+      const membership = project && (await storage.getProjectMember(project.id, req.user!.userId));
+      if (!project || !membership) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      return res.json({ ...project, role: membership.role });
+    } catch (error) {
+      return handleError(res, error, "Failed to get project");
+    }
+  });
+
+  app.patch("/api/projects/:id", authMiddleware, async (req, res) => {
+    try {
+      const membership = await storage.getProjectMember(req.params.id, req.user!.userId);
+      if (!membership) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      if (!canEditProject(membership.role)) {
+        return res.status(403).json({ message: "You do not have permission to edit this project" });
+      }
+
+      const data = updateProjectSchema.parse(req.body);
+      const project = await storage.updateProject(req.params.id, data);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      return res.json({ ...project, role: membership.role });
+    } catch (error) {
+      return handleError(res, error, "Failed to update project");
+    }
+  });
+
+  app.delete("/api/projects/:id", authMiddleware, async (req, res) => {
+    try {
+      const membership = await storage.getProjectMember(req.params.id, req.user!.userId);
+      if (!membership) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      if (!canDeleteProject(membership.role)) {
+        return res.status(403).json({ message: "Only the project owner can delete this project" });
+      }
+
+      const deleted = await storage.deleteProject(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      io.in(projectRoom(req.params.id)).socketsLeave(projectRoom(req.params.id));
+      return res.json({ message: "Project deleted successfully" });
+    } catch (error) {
+      return handleError(res, error, "Failed to delete project");
+    }
+  });
+
+  app.get("/api/projects/:id/presence", authMiddleware, async (req, res) => {
+    try {
+      if (!(await storage.getProjectMember(req.params.id, req.user!.userId))) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      const members = await storage.getProjectMembers(req.params.id);
+      const online = members.filter((member) => presence.isOnline(member.id)).map((member) => member.id);
+      return res.json({ online });
+    } catch (error) {
+      return handleError(res, error, "Failed to get presence");
+    }
+  });
+
+  app.get("/api/projects/:id/members", authMiddleware, async (req, res) => {
+    try {
+      if (!(await storage.getProjectMember(req.params.id, req.user!.userId))) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      const members = await storage.getProjectMembers(req.params.id);
+      return res.json(members);
+    } catch (error) {
+      return handleError(res, error, "Failed to get project members");
+    }
+  });
+
+  app.post("/api/projects/:id/members", authMiddleware, async (req, res) => {
+    try {
+      const membership = await storage.getProjectMember(req.params.id, req.user!.userId);
+      if (!membership) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      if (!canManageMembers(membership.role)) {
+        return res.status(403).json({ message: "You do not have permission to add members" });
+      }
+
+      const data = addProjectMemberSchema.parse(req.body);
+      if (data.role === "admin" && membership.role !== "owner") {
+        return res.status(403).json({ message: "Only the project owner can add admins" });
+      }
+      const user =
+        (await storage.getUserByEmail(data.emailOrUsername)) ?? (await storage.getUserByUsername(data.emailOrUsername));
+      if (!user) {
+        return res.status(404).json({ message: "No user has that email or username" });
+      }
+      if (await storage.getProjectMember(req.params.id, user.id)) {
+        return res.status(400).json({ message: "User is already a member of this project" });
+      }
+
+      const member = await storage.addProjectMember(req.params.id, user.id, data.role);
+      joinProjectRoom(user.id, req.params.id);
+      return res.status(201).json(member);
+    } catch (error) {
+      return handleError(res, error, "Failed to add project member");
+    }
+  });
+
+  app.patch("/api/projects/:id/members/:userId", authMiddleware, async (req, res) => {
+    try {
+      const membership = await storage.getProjectMember(req.params.id, req.user!.userId);
+      if (!membership) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      if (membership.role !== "owner") {
+        return res.status(403).json({ message: "Only the project owner can change member roles" });
+      }
+
+      const data = updateProjectMemberSchema.parse(req.body);
+      const target = await storage.getProjectMember(req.params.id, req.params.userId);
+      if (!target) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      if (target.role === "owner") {
+        return res.status(400).json({ message: "The project owner's role cannot be changed" });
+      }
+
+      const member = await storage.updateProjectMemberRole(req.params.id, req.params.userId, data.role);
+      return res.json(member);
+    } catch (error) {
+      return handleError(res, error, "Failed to update project member");
+    }
+  });
+
+  app.delete("/api/projects/:id/members/:userId", authMiddleware, async (req, res) => {
+    try {
+      const membership = await storage.getProjectMember(req.params.id, req.user!.userId);
+      if (!membership) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      const target = await storage.getProjectMember(req.params.id, req.params.userId);
+      if (!target) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      if (target.role === "owner") {
+        return res.status(400).json({ message: "The project owner cannot be removed" });
+      }
+      // Members may leave on their own; removing others requires admin rights,
+      // and only the owner can remove an admin.
+      const isSelf = target.userId === req.user!.userId;
+      if (!isSelf && (!canManageMembers(membership.role) || (target.role === "admin" && membership.role !== "owner"))) {
+        return res.status(403).json({ message: "You do not have permission to remove this member" });
+      }
+
+      const removed = await storage.removeProjectMember(req.params.id, req.params.userId);
+      if (!removed) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      leaveProjectRoom(req.params.userId, req.params.id);
+      return res.json({ message: "Member removed successfully" });
+    } catch (error) {
+      return handleError(res, error, "Failed to remove project member");
+    }
+  });
+
+  // Webhooks routes
+  app.get("/api/projects/:id/webhooks", authMiddleware, async (req, res) => {
+    try {
+      if (!(await checkWebhookAccess(req, res))) return;
+      const projectWebhooks = await storage.getWebhooksByProject(req.params.id);
+      return res.json(projectWebhooks.map(toWebhookInfo));
+    } catch (error) {
+      return handleError(res, error, "Failed to get webhooks");
+    }
+  });
+
+  // The secret is in this answer only, for setting up the receiver
+  app.post("/api/projects/:id/webhooks", authMiddleware, async (req, res) => {
+    try {
+      if (!(await checkWebhookAccess(req, res))) return;
+      const data = insertWebhookSchema.parse(req.body);
+      const webhook = await storage.createWebhook({
+        ...data,
+        projectId: req.params.id,
+        secret: generateWebhookSecret(),
+        createdById: req.user!.userId,
+      });
+      const created: CreatedWebhook = { ...toWebhookInfo(webhook), secret: webhook.secret };
+      return res.status(201).json(created);
+    } catch (error) {
+      return handleError(res, error, "Failed to create webhook");
+    }
+  });
+
+  app.patch("/api/projects/:id/webhooks/:webhookId", authMiddleware, async (req, res) => {
+    try {
+      const webhook = await findManagedWebhook(req, res);
+      if (!webhook) return;
+      const data = updateWebhookSchema.parse(req.body);
+      const updated = await storage.updateWebhook(webhook.id, data);
+      if (!updated) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+      return res.json(toWebhookInfo(updated));
+    } catch (error) {
+      return handleError(res, error, "Failed to update webhook");
+    }
+  });
+
+  app.delete("/api/projects/:id/webhooks/:webhookId", authMiddleware, async (req, res) => {
+    try {
+      const webhook = await findManagedWebhook(req, res);
+      if (!webhook) return;
+      await storage.deleteWebhook(webhook.id);
+      return res.json({ message: "Webhook deleted" });
+    } catch (error) {
+      return handleError(res, error, "Failed to delete webhook");
+    }
+  });
+
+  // The most recent deliveries, newest first
+  app.get("/api/projects/:id/webhooks/:webhookId/deliveries", authMiddleware, async (req, res) => {
+    try {
+      const webhook = await findManagedWebhook(req, res);
+      if (!webhook) return;
+      const deliveries = await storage.getWebhookDeliveries(webhook.id, WEBHOOK_DELIVERIES_LIMIT);
+      return res.json(deliveries);
+    } catch (error) {
+      return handleError(res, error, "Failed to get webhook deliveries");
+    }
+  });
+
+  app.post("/api/projects/:id/webhooks/:webhookId/deliveries/:deliveryId/redeliver", authMiddleware, async (req, res) => {
+    try {
+      const webhook = await findManagedWebhook(req, res);
+      if (!webhook) return;
+      const delivery = await storage.getWebhookDelivery(req.params.deliveryId);
+      if (!delivery || delivery.webhookId !== webhook.id) {
+        return res.status(404).json({ message: "Delivery not found" });
+      }
+      if (!webhook.active) {
+        return res.status(400).json({ message: "Enable the webhook to redeliver" });
+      }
+      const redelivery = await webhooks.redeliver(delivery);
+      return res.status(201).json(redelivery);
+    } catch (error) {
+      return handleError(res, error, "Failed to redeliver webhook");
+    }
+  });
+
+  // Tasks routes
   app.get("/api/tasks", authMiddleware, async (req, res) => {
     try {
-      const allTasks = await storage.getAllTasks();
-      return res.json(allTasks);
+      const query = taskQuerySchema.parse(req.query);
+      if (!(await storage.getProjectMember(query.projectId, req.user!.userId))) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      const page = await storage.queryTasks(query);
+      // The body stays a plain array; the cursor for the next page (if any)
+      // travels in a header so existing clients keep working.
+      if (page.nextCursor) {
+        res.setHeader(NEXT_CURSOR_HEADER, page.nextCursor);
+      }
+      return res.json(page.tasks);
     } catch (error) {
       return handleError(res, error, "Failed to get tasks");
     }
   });
 
+  // The whole filtered list as a file download
+  app.get("/api/tasks/export", authMiddleware, async (req, res) => {
+    try {
+      const { format, ...query } = taskExportQuerySchema.parse(req.query);
+      if (!(await storage.getProjectMember(query.projectId, req.user!.userId))) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      const { tasks } = await storage.queryTasks(query);
+      res.attachment(`tasks-${new Date().toISOString().slice(0, 10)}.${format}`);
+      return res.send(formatTaskExport(tasks, format));
+    } catch (error) {
+      return handleError(res, error, "Failed to export tasks");
+    }
+  });
+
+  // Answers a dry run with the preview of every row. Otherwise the tasks are
+  // created in one transaction, and only if no row has errors.
+  app.post("/api/tasks/import", authMiddleware, async (req, res) => {
+    try {
+      const { projectId, format, content, dryRun } = taskImportSchema.parse(req.body);
+      const membership = await storage.getProjectMember(projectId, req.user!.userId);
+      if (!membership) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      if (!canCreateTask(membership.role)) {
+        return res.status(403).json({ message: "You do not have permission to create tasks in this project" });
+      }
+
+      const { rows, ignoredColumns } = await prepareTaskImport(projectId, format, content);
+      const preview: TaskImportResult = { dryRun, rows, ignoredColumns, imported: 0 };
+      if (dryRun) {
+        return res.json(preview);
+      }
+      if (rows.some((row) => row.errors.length > 0)) {
+        return res.status(400).json({ message: "Fix the rows with errors before importing", ...preview });
+      }
+
+      const created = await storage.createTasks(rows.map((row) => row.task!), req.user!.userId);
+      // Imported tasks reach boards and webhooks like any other, but their
+      // assignees are not notified of each one
+      for (const task of created) {
+        emitTaskEvent(task.projectId, "task:created", { taskId: task.id, data: task });
+        if (task.assignedToId) {
+          void webhooks.dispatch(task.projectId, "task:assigned", { taskId: task.id, userId: task.assignedToId, data: task });
+        }
+      }
+
+      const result: TaskImportResult = { ...preview, imported: created.length };
+      return res.status(201).json(result);
+    } catch (error) {
+      return handleError(res, error, "Failed to import tasks");
+    }
+  });
+
   app.get("/api/tasks/:id", authMiddleware, async (req, res) => {
     try {
       const task = await storage.getTask(req.params.id);
-      if (!task) {
+      if (!task || !(await storage.getProjectMember(task.projectId, req.user!.userId))) {
         return res.status(404).json({ message: "Task not found" });
       }
       return res.json(task);
@@ -215,9 +1735,25 @@ export async function registerRoutes(
   app.post("/api/tasks", authMiddleware, async (req, res) => {
     try {
       const data = insertTaskSchema.parse(req.body);
+      const membership = await storage.getProjectMember(data.projectId, req.user!.userId);
+      if (!membership) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      if (!canCreateTask(membership.role)) {
+        return res.status(403).json({ message: "You do not have permission to create tasks in this project" });
+      }
+      if (data.assignedToId && !(await storage.getProjectMember(data.projectId, data.assignedToId))) {
+        return res.status(400).json({ message: "Assignee must be a member of the project" });
+      }
+
       const task = await storage.createTask(data, req.user!.userId);
       
-      emitTaskEvent("task:created", { taskId: task.id, data: task });
+      emitTaskEvent(task.projectId, "task:created", { taskId: task.id, data: task });
+
+      if (task.assignedToId) {
+        void webhooks.dispatch(task.projectId, "task:assigned", { taskId: task.id, userId: task.assignedToId, data: task });
+        await notifyAssignee(task, req.user!.userId, await getActorName(req.user!.userId));
+      }
       
       return res.status(201).json(task);
     } catch (error) {
@@ -228,30 +1764,74 @@ export async function registerRoutes(
   app.patch("/api/tasks/:id", authMiddleware, async (req, res) => {
     try {
       const existingTask = await storage.getTask(req.params.id);
-      if (!existingTask) {
+      const membership = existingTask && (await storage.getProjectMember(existingTask.projectId, req.user!.userId));
+      if (!existingTask || !membership) {
         return res.status(404).json({ message: "Task not found" });
       }
 
       const data = updateTaskSchema.parse(req.body);
+      // An edit names the version it was made on, so that it cannot silently
+      // undo a change it never saw. Only reordering a card may leave it out.
+      const isPositionOnly = Object.keys(data).every((key) => ["position", "version"].includes(key));
+      if (data.version === undefined && !isPositionOnly) {
+        return res.status(400).json({ message: "version is required to update a task" });
+      }
+      const permissions = getTaskPermissions(membership.role, existingTask, req.user!.userId);
+      // Moving a card on the board changes only its status and position
+      const isMoveOnly = Object.keys(data).every((key) => ["status", "position", "version"].includes(key));
+      if (!permissions.canEdit && !(isMoveOnly && permissions.canChangeStatus)) {
+        return res.status(403).json({ message: "You do not have permission to edit this task" });
+      }
+      if (data.assignedToId && !(await storage.getProjectMember(existingTask.projectId, data.assignedToId))) {
+        return res.status(400).json({ message: "Assignee must be a member of the project" });
+      }
+      if (data.status && data.status !== existingTask.status) {
+        const project = await storage.getProject(existingTask.projectId);
+        const { total, completed } = existingTask.subtaskProgress;
+        if (data.status === "completed" && project?.requireSubtasksComplete && completed < total) {
+          return res.status(400).json({ message: "Complete all subtasks before completing this task" });
+        }
+        if (data.status === "in_progress" && project?.requireBlockersComplete && existingTask.openBlockerCount > 0) {
+          return res.status(400).json({ message: "This task is blocked by tasks that are not completed yet" });
+        }
+      }
       const previousAssignee = existingTask.assignedToId;
       
-      const task = await storage.updateTask(req.params.id, data);
+      const task = await storage.updateTask(req.params.id, data, req.user!.userId);
       if (!task) {
         return res.status(404).json({ message: "Task not found" });
       }
 
-      emitTaskEvent("task:updated", { taskId: task.id, data: task });
+      emitTaskEvent(task.projectId, "task:updated", { taskId: task.id, data: task });
 
-      if (data.assignedToId && data.assignedToId !== previousAssignee) {
-        emitTaskEvent("task:assigned", {
-          taskId: task.id,
-          userId: data.assignedToId,
-          data: task,
-        });
+      const assigneeChanged = !!data.assignedToId && data.assignedToId !== previousAssignee;
+      const statusChanged = task.status !== existingTask.status;
+      if (assigneeChanged) {
+        const assigned = { taskId: task.id, userId: data.assignedToId, data: task };
+        emitUserEvent(data.assignedToId!, "task:assigned", assigned);
+        void webhooks.dispatch(task.projectId, "task:assigned", assigned);
+      }
+
+      if (assigneeChanged || statusChanged) {
+        const actor = await getActorName(req.user!.userId);
+        if (assigneeChanged) {
+          await notifyAssignee(task, req.user!.userId, actor);
+        }
+        if (statusChanged) {
+          await notify([task.creatorId, task.assignedToId], {
+            type: "status_changed",
+            taskId: task.id,
+            actorId: req.user!.userId,
+            message: notificationMessages.statusChanged(actor, task),
+          });
+        }
       }
 
       return res.json(task);
     } catch (error) {
+      if (error instanceof TaskVersionConflictError) {
+        return res.status(409).json({ message: error.message, task: error.current });
+      }
       return handleError(res, error, "Failed to update task");
     }
   });
@@ -259,16 +1839,20 @@ export async function registerRoutes(
   app.delete("/api/tasks/:id", authMiddleware, async (req, res) => {
     try {
       const existingTask = await storage.getTask(req.params.id);
-      if (!existingTask) {
+      const membership = existingTask && (await storage.getProjectMember(existingTask.projectId, req.user!.userId));
+      if (!existingTask || !membership) {
         return res.status(404).json({ message: "Task not found" });
       }
+      if (!getTaskPermissions(membership.role, existingTask, req.user!.userId).canDelete) {
+        return res.status(403).json({ message: "You do not have permission to delete this task" });
+      }
 
       const deleted = await storage.deleteTask(req.params.id);
       if (!deleted) {
         return res.status(404).json({ message: "Task not found" });
       }
 
-      emitTaskEvent("task:deleted", { taskId: req.params.id });
+      emitTaskEvent(existingTask.projectId, "task:deleted", { taskId: req.params.id });
 
       return res.json({ message: "Task deleted successfully" });
     } catch (error) {
@@ -276,5 +1860,333 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/tasks/:id/activity", authMiddleware, async (req, res) => {
+    try {
+      const task = await storage.getTask(req.params.id);
+      if (!task || !(await storage.getProjectMember(task.projectId, req.user!.userId))) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      const activity = await storage.getTaskActivity(task.id);
+      return res.json(activity);
+    } catch (error) {
+      return handleError(res, error, "Failed to get task activity");
+    }
+  });
+
+  // Subtask routes
+  app.get("/api/tasks/:id/subtasks", authMiddleware, async (req, res) => {
+    try {
+      const task = await storage.getTask(req.params.id);
+      if (!task || !(await storage.getProjectMember(task.projectId, req.user!.userId))) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      const subtasks = await storage.getSubtasks(task.id);
+      return res.json(subtasks);
+    } catch (error) {
+      return handleError(res, error, "Failed to get subtasks");
+    }
+  });
+
+  app.post("/api/tasks/:id/subtasks", authMiddleware, async (req, res) => {
+    try {
+      const task = await storage.getTask(req.params.id);
+      const membership = task && (await storage.getProjectMember(task.projectId, req.user!.userId));
+      if (!task || !membership) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      if (!getTaskPermissions(membership.role, task, req.user!.userId).canEdit) {
+        return res.status(403).json({ message: "You do not have permission to edit this task" });
+      }
+
+      const data = insertSubtaskSchema.parse(req.body);
+      const subtask = await storage.createSubtask(task.id, data);
+
+      await emitSubtaskEvent("subtask:created", task.id, subtask.id, subtask);
+
+      return res.status(201).json(subtask);
+    } catch (error) {
+      return handleError(res, error, "Failed to create subtask");
+    }
+  });
+
+  app.patch("/api/tasks/:id/subtasks/:subtaskId", authMiddleware, async (req, res) => {
+    try {
+      const task = await storage.getTask(req.params.id);
+      const membership = task && (await storage.getProjectMember(task.projectId, req.user!.userId));
+      const existingSubtask = await storage.getSubtask(req.params.subtaskId);
+      if (!task || !membership || !existingSubtask || existingSubtask.taskId !== task.id) {
+        return res.status(404).json({ message: "Subtask not found" });
+      }
+
+      const data = updateSubtaskSchema.parse(req.body);
+      // Ticking items off follows the same rule as changing the task's status
+      const permissions = getTaskPermissions(membership.role, task, req.user!.userId);
+      const isToggleOnly = Object.keys(data).every((key) => key === "isCompleted");
+      if (!permissions.canEdit && !(isToggleOnly && permissions.canChangeStatus)) {
+        return res.status(403).json({ message: "You do not have permission to edit this task" });
+      }
+
+      const subtask = await storage.updateSubtask(existingSubtask.id, data);
+      if (!subtask) {
+        return res.status(404).json({ message: "Subtask not found" });
+      }
+
+      await emitSubtaskEvent("subtask:updated", task.id, subtask.id, subtask);
+
+      return res.json(subtask);
+    } catch (error) {
+      return handleError(res, error, "Failed to update subtask");
+    }
+  });
+
+  app.delete("/api/tasks/:id/subtasks/:subtaskId", authMiddleware, async (req, res) => {
+    try {
+      const task = await storage.getTask(req.params.id);
+      const membership = task && (await storage.getProjectMember(task.projectId, req.user!.userId));
+      const existingSubtask = await storage.getSubtask(req.params.subtaskId);
+      if (!task || !membership || !existingSubtask || existingSubtask.taskId !== task.id) {
+        return res.status(404).json({ message: "Subtask not found" });
+      }
+      if (!getTaskPermissions(membership.role, task, req.user!.userId).canEdit) {
+        return res.status(403).json({ message: "You do not have permission to edit this task" });
+      }
+
+      const deleted = await storage.deleteSubtask(existingSubtask.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Subtask not found" });
+      }
+
+      await emitSubtaskEvent("subtask:deleted", task.id, existingSubtask.id);
+
+      return res.json({ message: "Subtask deleted successfully" });
+    } catch (error) {
+      return handleError(res, error, "Failed to delete subtask");
+    }
+  });
+
+  // Task dependency routes
+  app.get("/api/tasks/:id/dependencies", authMiddleware, async (req, res) => {
+    try {
+      const task = await storage.getTask(req.params.id);
+      if (!task || !(await storage.getProjectMember(task.projectId, req.user!.userId))) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      const dependencies = await storage.getTaskDependencies(task.id);
+      return res.json(dependencies);
+    } catch (error) {
+      return handleError(res, error, "Failed to get dependencies");
+    }
+  });
+
+  app.post("/api/tasks/:id/dependencies", authMiddleware, async (req, res) => {
+    try {
+      const task = await storage.getTask(req.params.id);
+      const membership = task && (await storage.getProjectMember(task.projectId, req.user!.userId));
+      if (!task || !membership) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      if (!getTaskPermissions(membership.role, task, req.user!.userId).canEdit) {
+        return res.status(403).json({ message: "You do not have permission to edit this task" });
+      }
+
+      const { blockerId } = addTaskDependencySchema.parse(req.body);
+      const blocker = await storage.getTask(blockerId);
+      if (!blocker || blocker.projectId !== task.projectId) {
+        return res.status(400).json({ message: "Blocking task must belong to the same project" });
+      }
+      if (blocker.id === task.id) {
+        return res.status(400).json({ message: "A task cannot block itself" });
+      }
+
+      const dependencies = await storage.getProjectDependencies(task.projectId);
+      if (dependencies.some((d) => d.blockerId === blocker.id && d.blockedId === task.id)) {
+        return res.status(400).json({ message: "This dependency already exists" });
+      }
+      // The new link closes a cycle if the blocker already waits on this task
+      const path = findDependencyPath(dependencies, task.id, blocker.id);
+      if (path) {
+        const titles = await Promise.all(path.map(async (id) => (await storage.getTask(id))?.title ?? id));
+        return res.status(400).json({
+          message: `This dependency would create a cycle: ${[...titles, task.title].join(" → ")}`,
+        });
+      }
+
+      const dependency = await storage.addTaskDependency(blocker.id, task.id);
+
+      emitTaskEvent(task.projectId, "dependency:created", { taskId: task.id, blockerId: blocker.id });
+      const updated = await storage.getTask(task.id);
+      if (updated) {
+        emitTaskEvent(task.projectId, "task:updated", { taskId: task.id, data: updated });
+      }
+
+      return res.status(201).json(dependency);
+    } catch (error) {
+      return handleError(res, error, "Failed to add dependency");
+    }
+  });
+
+  app.delete("/api/tasks/:id/dependencies/:blockerId", authMiddleware, async (req, res) => {
+    try {
+      const task = await storage.getTask(req.params.id);
+      const membership = task && (await storage.getProjectMember(task.projectId, req.user!.userId));
+      if (!task || !membership) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      if (!getTaskPermissions(membership.role, task, req.user!.userId).canEdit) {
+        return res.status(403).json({ message: "You do not have permission to edit this task" });
+      }
+
+      const removed = await storage.removeTaskDependency(req.params.blockerId, task.id);
+      if (!removed) {
+        return res.status(404).json({ message: "Dependency not found" });
+      }
+
+      emitTaskEvent(task.projectId, "dependency:deleted", { taskId: task.id, blockerId: req.params.blockerId });
+      const updated = await storage.getTask(task.id);
+      if (updated) {
+        emitTaskEvent(task.projectId, "task:updated", { taskId: task.id, data: updated });
+      }
+
+      return res.json({ message: "Dependency removed successfully" });
+    } catch (error) {
+      return handleError(res, error, "Failed to remove dependency");
+    }
+  });
+
+  // Task comments routes
+  app.get("/api/tasks/:id/comments", authMiddleware, async (req, res) => {
+    try {
+      const task = await storage.getTask(req.params.id);
+      if (!task || !(await storage.getProjectMember(task.projectId, req.user!.userId))) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      const comments = await storage.getTaskComments(task.id);
+      return res.json(comments);
+    } catch (error) {
+      return handleError(res, error, "Failed to get comments");
+    }
+  });
+
+  app.post("/api/tasks/:id/comments", authMiddleware, async (req, res) => {
+    try {
+      const task = await storage.getTask(req.params.id);
+      const membership = task && (await storage.getProjectMember(task.projectId, req.user!.userId));
+      if (!task || !membership) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      if (!canComment(membership.role)) {
+        return res.status(403).json({ message: "You do not have permission to comment on this task" });
+      }
+
+      const data = insertCommentSchema.parse(req.body);
+      const comment = await storage.createComment(task.id, req.user!.userId, data.body);
+
+      emitTaskEvent(task.projectId, "comment:created", { taskId: task.id, commentId: comment.id, data: comment });
+      await notifyComment(task, comment);
+
+      return res.status(201).json(comment);
+    } catch (error) {
+      return handleError(res, error, "Failed to create comment");
+    }
+  });
+
+  app.patch("/api/tasks/:id/comments/:commentId", authMiddleware, async (req, res) => {
+    try {
+      const task = await storage.getTask(req.params.id);
+      const membership = task && (await storage.getProjectMember(task.projectId, req.user!.userId));
+      const existingComment = await storage.getComment(req.params.commentId);
+      if (!task || !membership || !existingComment || existingComment.taskId !== task.id) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      if (!getCommentPermissions(membership.role, existingComment, req.user!.userId).canEdit) {
+        return res.status(403).json({ message: "You can only edit your own comments" });
+      }
+
+      const data = updateCommentSchema.parse(req.body);
+      const comment = await storage.updateComment(existingComment.id, data.body);
+      if (!comment) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+
+      emitTaskEvent(task.projectId, "comment:updated", { taskId: task.id, commentId: comment.id, data: comment });
+      await notifyComment(task, comment, existingComment.body);
+
+      return res.json(comment);
+    } catch (error) {
+      return handleError(res, error, "Failed to update comment");
+    }
+  });
+
+  app.delete("/api/tasks/:id/comments/:commentId", authMiddleware, async (req, res) => {
+    try {
+      const task = await storage.getTask(req.params.id);
+      const membership = task && (await storage.getProjectMember(task.projectId, req.user!.userId));
+      const existingComment = await storage.getComment(req.params.commentId);
+      if (!task || !membership || !existingComment || existingComment.taskId !== task.id) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      if (!getCommentPermissions(membership.role, existingComment, req.user!.userId).canDelete) {
+        return res.status(403).json({ message: "You do not have permission to delete this comment" });
+      }
+
+      const deleted = await storage.deleteComment(existingComment.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+
+      emitTaskEvent(task.projectId, "comment:deleted", { taskId: task.id, commentId: existingComment.id });
+
+      return res.json({ message: "Comment deleted successfully" });
+    } catch (error) {
+      return handleError(res, error, "Failed to delete comment");
+    }
+  });
+
+  app.get("/api/notifications", authMiddleware, async (req, res) => {
+    try {
+      const query = notificationQuerySchema.parse(req.query);
+      const items = await storage.getNotifications(req.user!.userId, query);
+      return res.json(items);
+    } catch (error) {
+      return handleError(res, error, "Failed to get notifications");
+    }
+  });
+
+  app.get("/api/notifications/unread-count", authMiddleware, async (req, res) => {
+    try {
+      const count = await storage.getUnreadNotificationCount(req.user!.userId);
+      return res.json({ count });
+    } catch (error) {
+      return handleError(res, error, "Failed to get unread notification count");
+    }
+  });
+
+  app.post("/api/notifications/read-all", authMiddleware, async (req, res) => {
+    try {
+      const count = await storage.markAllNotificationsRead(req.user!.userId);
+
+      emitUserEvent(req.user!.userId, "notification:read_all", {});
+
+      return res.json({ count });
+    } catch (error) {
+      return handleError(res, error, "Failed to mark notifications as read");
+    }
+  });
+
+  app.post("/api/notifications/:id/read", authMiddleware, async (req, res) => {
+    try {
+      const notification = await storage.markNotificationRead(req.params.id, req.user!.userId);
+      if (!notification) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+
+      emitUserEvent(req.user!.userId, "notification:read", { notificationId: notification.id });
+
+      return res.json(notification);
+    } catch (error) {
+      return handleError(res, error, "Failed to mark notification as read");
+    }
+  });
+
   return httpServer;
 }
@@ -0,0 +1,154 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { addDays, addHours, set } from "date-fns";
+import { DueDateScheduler } from "./scheduler";
+import { storage } from "./storage";
+import { captureMail } from "./test-utils";
+import type { Project, User } from "@shared/schema";
+
+const mail = captureMail();
+// Past DIGEST_HOUR, so a tick also sends the daily digests
+const now = set(new Date(), { hours: 9, minutes: 0, seconds: 0, milliseconds: 0 });
+let userCount = 0;
+let ann: User;
+let bob: User;
+let project: Project;
+
+async function createUser(name: string): Promise<User> {
+  const username = `${name}${++userCount}`;
+  return storage.createUser({ username, email: `${username}@example.com`, password: "hash" });
+}
+
+function createScheduler() {
+  const hooks = { emitTaskEvent: vi.fn(), notify: vi.fn(async () => {}) };
+  return { hooks, scheduler: new DueDateScheduler(hooks) };
+}
+
+beforeEach(async () => {
+  mail.sent.splice(0);
+  ann = await createUser("ann");
+  bob = await createUser("bob");
+  project = await storage.createProject({ name: "Deadlines" }, ann.id);
+  await storage.addProjectMember(project.id, bob.id);
+});
+
+describe("DueDateScheduler", () => {
+  it("reminds the assignee, or else the creator, of overdue and due-soon tasks", async () => {
+    const late = await storage.createTask(
+      { projectId: project.id, title: "Late", assignedToId: bob.id, dueDate: addDays(now, -2).toISOString() },
+      ann.id,
+    );
+    const soon = await storage.createTask(
+      { projectId: project.id, title: "Soon", dueDate: addHours(now, 5).toISOString() },
+      ann.id,
+    );
+    await storage.createTask({ projectId: project.id, title: "Later", dueDate: addDays(now, 3).toISOString() }, ann.id);
+    const done = await storage.createTask(
+      { projectId: project.id, title: "Done", dueDate: addDays(now, -2).toISOString() },
+      ann.id,
+    );
+    await storage.updateTask(done.id, { status: "completed" }, ann.id);
+
+    const { hooks, scheduler } = createScheduler();
+    await scheduler.tick(now);
+
+    expect(hooks.emitTaskEvent.mock.calls.map(([projectId, event, data]) => [projectId, event, data.taskId, data.userId])).toEqual([
+      [project.id, "task:overdue", late.id, bob.id],
+      [project.id, "task:due_soon", soon.id, ann.id],
+    ]);
+    expect(hooks.notify.mock.calls).toEqual([
+      [[bob.id], { type: "overdue", taskId: late.id, actorId: null, message: '"Late" is overdue' }],
+      [[ann.id], { type: "due_soon", taskId: soon.id, actorId: null, message: '"Soon" is due soon' }],
+    ]);
+    expect(mail.sent.map((message) => [message.to, message.subject])).toEqual([
+      [bob.email, '"Late" is overdue'],
+      [ann.email, '"Soon" is due soon'],
+    ]);
+  });
+
+  it("sends each reminder once across ticks and restarts, until the due date moves", async () => {
+    const task = await storage.createTask(
+      { projectId: project.id, title: "Once", assignedToId: bob.id, dueDate: addHours(now, 2).toISOString() },
+      ann.id,
+    );
+    const first = createScheduler();
+    await first.scheduler.tick(now);
+    await first.scheduler.tick(now);
+    await createScheduler().scheduler.tick(now);
+    expect(mail.sent.filter((message) => message.to === bob.email)).toHaveLength(1);
+
+    await storage.updateTask(task.id, { dueDate: addHours(now, 3).toISOString() }, ann.id);
+    const restarted = createScheduler();
+    await restarted.scheduler.tick(now);
+    expect(restarted.hooks.notify).toHaveBeenCalledTimes(1);
+
+    // Once it is overdue it gets its own reminder
+    await restarted.scheduler.tick(addDays(now, 2));
+    expect(restarted.hooks.notify.mock.calls[1][1]).toMatchObject({ type: "overdue", taskId: task.id });
+  });
+
+  it("sends the daily digest once a day to users who opted in", async () => {
+    await storage.updateEmailPreferences(bob.id, { dailyDigest: true, overdue: false, dueSoon: false });
+    await storage.createTask(
+      { projectId: project.id, title: "Overdue one", assignedToId: bob.id, dueDate: addDays(now, -1).toISOString() },
+      ann.id,
+    );
+    await storage.createTask(
+      { projectId: project.id, title: "Next week", assignedToId: bob.id, dueDate: addDays(now, 3).toISOString() },
+      ann.id,
+    );
+
+    const { scheduler } = createScheduler();
+    await scheduler.tick(now);
+    await scheduler.tick(now);
+    const digests = mail.sent.filter((message) => message.to === bob.email);
+    expect(digests).toHaveLength(1);
+    expect(digests[0].subject).toMatch(/^Your tasks for /);
+    expect(digests[0].text).toContain("You have 1 overdue, 1 due this week.");
+    expect(mail.sent.some((message) => message.to === ann.email && message.subject.startsWith("Your tasks"))).toBe(false);
+  });
+});
+
+describe("getDueTaskReminders", () => {
+  it("lists only the reminders not sent yet for each task's current due date", async () => {
+    const dueBefore = addHours(now, 24);
+    const overdueBefore = set(now, { hours: 0 });
+    const late = await storage.createTask(
+      { projectId: project.id, title: "Late", assignedToId: bob.id, dueDate: addDays(now, -1).toISOString() },
+      ann.id,
+    );
+    const soon = await storage.createTask(
+      { projectId: project.id, title: "Soon", dueDate: addHours(now, 2).toISOString() },
+      ann.id,
+    );
+    const ids = async (days = 0) =>
+      (await storage.getDueTaskReminders(addDays(dueBefore, days), addDays(overdueBefore, days)))
+        .filter((reminder) => reminder.projectId === project.id)
+        .map((reminder) => [reminder.id, reminder.kind]);
+
+    expect(await storage.getDueTaskReminders(dueBefore, overdueBefore)).toContainEqual({
+      id: late.id,
+      projectId: project.id,
+      title: "Late",
+      assignedToId: bob.id,
+      creatorId: ann.id,
+      dueDate: late.dueDate,
+      kind: "overdue",
+    });
+    expect(await ids()).toEqual([
+      [late.id, "overdue"],
+      [soon.id, "due_soon"],
+    ]);
+
+    await storage.claimTaskReminder(late.id, "overdue", late.dueDate!);
+    await storage.claimTaskReminder(soon.id, "due_soon", soon.dueDate!);
+    expect(await ids()).toEqual([]);
+
+    // A new due date, or the due-soon task falling overdue, needs a new reminder
+    await storage.updateTask(late.id, { dueDate: addDays(now, -2).toISOString() }, ann.id);
+    expect(await ids()).toEqual([[late.id, "overdue"]]);
+    expect(await ids(1)).toEqual([
+      [late.id, "overdue"],
+      [soon.id, "overdue"],
+    ]);
+  });
+});
@@ -0,0 +1,106 @@
+import { addDays, addHours, endOfDay, isSameDay, startOfDay } from "date-fns";
+import { storage } from "./storage";
+import { emailTemplates, sendEmailNotification, type DigestTasks } from "./email";
+import { notificationMessages } from "./notifications";
+import { DUE_SOON_HOURS, isTaskOverdue } from "@shared/due-dates";
+import type { DueTaskReminder, InsertNotification } from "@shared/schema";
+
+// Background job in the server process that reminds people of due dates.
+// Every tick it looks at open tasks due within DUE_SOON_HOURS (or already
+// past due) and sends a due-soon or overdue reminder to the assignee, or the
+// creator when nobody is assigned. Sent reminders are recorded per task and
+// due date in storage, so restarts and several server processes never send
+// one twice, and moving the due date arms the reminder again. After
+// DIGEST_HOUR it also sends the daily digest emails.
+
+const INTERVAL_MS = Number(process.env.SCHEDULER_INTERVAL_MS) || 60_000;
+const DIGEST_HOUR = Number(process.env.DIGEST_HOUR ?? 8);
+const DIGEST_DAYS_AHEAD = 7;
+
+export interface DueDateSchedulerHooks {
+  emitTaskEvent(projectId: string, event: string, data: unknown): void;
+  notify(recipientIds: (string | null)[], notification: Omit<InsertNotification, "userId">): Promise<void>;
+}
+
+export class DueDateScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(private readonly hooks: DueDateSchedulerHooks) {}
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.tick(), INTERVAL_MS);
+    void this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Skips a tick while the previous one is still running
+  async tick(now = new Date()): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      await this.sendReminders(now);
+      if (now.getHours() >= DIGEST_HOUR) {
+        await this.sendDigests(now);
+      }
+    } catch (error) {
+      console.error(error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // Storage leaves out the reminders already sent; claiming one still guards
+  // against another server process sending it in the meantime
+  private async sendReminders(now: Date): Promise<void> {
+    const reminders = await storage.getDueTaskReminders(addHours(now, DUE_SOON_HOURS), startOfDay(now));
+    for (const task of reminders) {
+      if (await storage.claimTaskReminder(task.id, task.kind, task.dueDate)) {
+        await this.remind(task, task.kind === "overdue");
+      }
+    }
+  }
+
+  private async remind(task: DueTaskReminder, overdue: boolean): Promise<void> {
+    const recipientId = task.assignedToId ?? task.creatorId;
+    this.hooks.emitTaskEvent(task.projectId, overdue ? "task:overdue" : "task:due_soon", {
+      taskId: task.id,
+      userId: recipientId,
+      data: task,
+    });
+    await this.hooks.notify([recipientId], {
+      type: overdue ? "overdue" : "due_soon",
+      taskId: task.id,
+      actorId: null,
+      message: overdue ? notificationMessages.overdue(task) : notificationMessages.dueSoon(task),
+    });
+    await sendEmailNotification(recipientId, overdue ? "overdue" : "dueSoon", (recipient) =>
+      overdue ? emailTemplates.overdue(recipient, task) : emailTemplates.dueSoon(recipient, task),
+    );
+  }
+
+  private async sendDigests(now: Date): Promise<void> {
+    const userIds = await storage.claimDailyDigests(startOfDay(now));
+    for (const userId of userIds) {
+      const tasks = (await storage.getTasksByAssignee(userId))
+        .filter((task) => task.dueDate && task.status !== "completed")
+        .sort((a, b) => a.dueDate!.getTime() - b.dueDate!.getTime());
+      const digest: DigestTasks = {
+        overdue: tasks.filter((task) => isTaskOverdue(task, now)),
+        dueToday: tasks.filter((task) => isSameDay(task.dueDate!, now)),
+        upcoming: tasks.filter(
+          (task) => task.dueDate! > endOfDay(now) && task.dueDate! <= endOfDay(addDays(now, DIGEST_DAYS_AHEAD)),
+        ),
+      };
+      if (digest.overdue.length + digest.dueToday.length + digest.upcoming.length === 0) continue;
+      await sendEmailNotification(userId, "dailyDigest", (recipient) => emailTemplates.dailyDigest(recipient, digest));
+    }
+  }
+}
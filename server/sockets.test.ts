@@ -0,0 +1,198 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { api, connectSocket, signUp, startTestServer, ACCESS_COOKIE, type TestServer, type TestSocket, type TestUser } from "./test-utils";
+
+let server: TestServer;
+const sockets: TestSocket[] = [];
+
+beforeAll(async () => {
+  server = await startTestServer();
+});
+
+afterEach(() => {
+  sockets.splice(0).forEach(({ socket }) => socket.disconnect());
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+async function connect(user: TestUser): Promise<TestSocket> {
+  const listener = connectSocket(server, user.cookies[ACCESS_COOKIE]);
+  sockets.push(listener);
+  await listener.connected;
+  return listener;
+}
+
+// Events reach each socket in the order they were sent, so once `user` sees a
+// task created in their own workspace, anything sent before it has arrived
+async function flush(listener: TestSocket, user: TestUser): Promise<void> {
+  const marker = listener.next("task:created");
+  await api(server, user.cookies).post("/api/tasks", { projectId: user.projectId, title: "Marker" });
+  await marker;
+}
+
+function eventsOf(listener: TestSocket, event: string): unknown[] {
+  return listener.received.filter((received) => received.event === event).map((received) => received.data);
+}
+
+describe("socket authentication", () => {
+  it("rejects sockets without a token or with a bad one", async () => {
+    const anonymous = connectSocket(server);
+    sockets.push(anonymous);
+    await expect(anonymous.connected).rejects.toThrow("Authentication required");
+
+    const forged = connectSocket(server, "not-a-token");
+    sockets.push(forged);
+    await expect(forged.connected).rejects.toThrow("Invalid or expired token");
+  });
+});
+
+describe("socket rooms", () => {
+  it("sends project events only to the project's members", async () => {
+    const owner = await signUp(server);
+    const outsider = await signUp(server);
+    const ownerSocket = await connect(owner);
+    const outsiderSocket = await connect(outsider);
+
+    const created = ownerSocket.next("task:created");
+    const task = await api(server, owner.cookies).post("/api/tasks", { projectId: owner.projectId, title: "Private" });
+    expect(await created).toMatchObject({ taskId: task.body.id });
+
+    await flush(outsiderSocket, outsider);
+    expect(eventsOf(outsiderSocket, "task:created")).not.toContainEqual(expect.objectContaining({ taskId: task.body.id }));
+  });
+
+  it("sends task:assigned only to the assignee", async () => {
+    const owner = await signUp(server);
+    const assignee = await signUp(server);
+    await api(server, owner.cookies).post(`/api/projects/${owner.projectId}/members`, { emailOrUsername: assignee.email });
+    const ownerSocket = await connect(owner);
+    const assigneeSocket = await connect(assignee);
+
+    const assigned = assigneeSocket.next("task:assigned");
+    const task = await api(server, owner.cookies).post("/api/tasks", { projectId: owner.projectId, title: "Yours" });
+    await api(server, owner.cookies).patch(`/api/tasks/${task.body.id}`, { assignedToId: assignee.user.id, version: 1 });
+    expect(await assigned).toMatchObject({ taskId: task.body.id });
+
+    await flush(ownerSocket, owner);
+    expect(eventsOf(ownerSocket, "task:assigned")).toEqual([]);
+  });
+
+  it("moves connected sockets in and out of a project's room with its membership", async () => {
+    const owner = await signUp(server);
+    const member = await signUp(server);
+    const memberSocket = await connect(member);
+    const client = api(server, owner.cookies);
+
+    await client.post(`/api/projects/${owner.projectId}/members`, { emailOrUsername: member.email });
+    const created = memberSocket.next("task:created");
+    const task = await client.post("/api/tasks", { projectId: owner.projectId, title: "Shared" });
+    expect(await created).toMatchObject({ taskId: task.body.id });
+
+    await client.delete(`/api/projects/${owner.projectId}/members/${member.user.id}`);
+    const later = await client.post("/api/tasks", { projectId: owner.projectId, title: "After removal" });
+    await flush(memberSocket, member);
+    expect(eventsOf(memberSocket, "task:created")).not.toContainEqual(expect.objectContaining({ taskId: later.body.id }));
+  });
+
+  it("joins a new project's room on creation", async () => {
+    const owner = await signUp(server);
+    const ownerSocket = await connect(owner);
+    const project = await api(server, owner.cookies).post("/api/projects", { name: "Fresh" });
+
+    const created = ownerSocket.next("task:created");
+    const task = await api(server, owner.cookies).post("/api/tasks", { projectId: project.body.id, title: "First" });
+    expect(await created).toMatchObject({ taskId: task.body.id });
+  });
+});
+
+describe("presence", () => {
+  it("reports teammates coming online and going offline", async () => {
+    const owner = await signUp(server);
+    const member = await signUp(server);
+    await api(server, owner.cookies).post(`/api/projects/${owner.projectId}/members`, { emailOrUsername: member.email });
+    const ownerSocket = await connect(owner);
+
+    const online = ownerSocket.next("presence:online");
+    const memberSocket = await connect(member);
+    expect(await online).toEqual({ userId: member.user.id });
+    const presence = await api(server, owner.cookies).get(`/api/projects/${owner.projectId}/presence`);
+    expect(presence.body.online.sort()).toEqual([owner.user.id, member.user.id].sort());
+
+    const offline = ownerSocket.next("presence:offline");
+    memberSocket.socket.disconnect();
+    expect(await offline).toEqual({ userId: member.user.id });
+    const after = await api(server, owner.cookies).get(`/api/projects/${owner.projectId}/presence`);
+    expect(after.body.online).toEqual([owner.user.id]);
+  });
+
+  it("shares who has a task open and who is editing it", async () => {
+    const owner = await signUp(server);
+    const member = await signUp(server);
+    const outsider = await signUp(server);
+    await api(server, owner.cookies).post(`/api/projects/${owner.projectId}/members`, { emailOrUsername: member.email });
+    const task = await api(server, owner.cookies).post("/api/tasks", { projectId: owner.projectId, title: "Open me" });
+    const ownerSocket = await connect(owner);
+    const memberSocket = await connect(member);
+
+    let viewers = ownerSocket.next("presence:task");
+    memberSocket.socket.emit("presence:view", { taskId: task.body.id, editing: true });
+    expect(await viewers).toEqual({ taskId: task.body.id, viewers: [{ userId: member.user.id, editing: true }] });
+
+    // Outsiders cannot announce themselves on tasks they cannot see
+    const outsiderSocket = await connect(outsider);
+    outsiderSocket.socket.emit("presence:view", { taskId: task.body.id });
+
+    viewers = ownerSocket.next("presence:task");
+    memberSocket.socket.emit("presence:leave");
+    expect(await viewers).toEqual({ taskId: task.body.id, viewers: [] });
+    expect(eventsOf(ownerSocket, "presence:task")).toHaveLength(2);
+  });
+});
+
+describe("event replay", () => {
+  it("numbers logged events and replays what a reconnecting socket missed", async () => {
+    const owner = await signUp(server);
+    const outsider = await signUp(server);
+    const first = connectSocket(server, owner.cookies[ACCESS_COOKIE]);
+    sockets.push(first);
+    const position = first.next("events:position");
+    await first.connected;
+    const start = await position;
+    expect(start).toMatchObject({ epoch: expect.any(String), seq: expect.any(Number) });
+    first.socket.disconnect();
+
+    const client = api(server, owner.cookies);
+    const missed = await client.post("/api/tasks", { projectId: owner.projectId, title: "Missed" });
+    await client.patch(`/api/tasks/${missed.body.id}`, { status: "review", version: 1 });
+    await api(server, outsider.cookies).post("/api/tasks", { projectId: outsider.projectId, title: "Not mine" });
+
+    const resumed = connectSocket(server, owner.cookies[ACCESS_COOKIE], start as { epoch: string; seq: number });
+    sockets.push(resumed);
+    const caughtUp = resumed.next("events:position");
+    await resumed.connected;
+    const end = await caughtUp;
+
+    const replayed = resumed.received.filter((received) => received.event.startsWith("task:"));
+    expect(replayed.map((received) => received.event)).toEqual(["task:created", "task:updated"]);
+    expect(replayed[0].data).toMatchObject({ taskId: missed.body.id });
+    expect(replayed[0].seq).toBeLessThan(replayed[1].seq!);
+    expect(end).toMatchObject({ seq: expect.any(Number) });
+    expect(resumed.received.some((received) => received.event === "events:resync")).toBe(false);
+
+    // Live events keep counting from there
+    const live = resumed.next("task:deleted");
+    await client.delete(`/api/tasks/${missed.body.id}`);
+    await live;
+    expect(resumed.received.at(-1)!.seq).toBeGreaterThan(replayed[1].seq!);
+  });
+
+  it("asks a socket from another server run to resync", async () => {
+    const owner = await signUp(server);
+    const stale = connectSocket(server, owner.cookies[ACCESS_COOKIE], { epoch: "previous-run", seq: 5 });
+    sockets.push(stale);
+    const resync = stale.next("events:resync");
+    await stale.connected;
+    await resync;
+  });
+});
@@ -0,0 +1,214 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { MemStorage, TaskVersionConflictError } from "./storage";
+import type { Project, TaskQuery, User } from "@shared/schema";
+
+let storage: MemStorage;
+let ann: User;
+let bob: User;
+let project: Project;
+
+beforeEach(async () => {
+  storage = new MemStorage();
+  ann = await storage.createUser({ username: "ann", email: "ann@example.com", password: "hash", displayName: "Ann" });
+  bob = await storage.createUser({ username: "bob", email: "bob@example.com", password: "hash" });
+  project = await storage.createProject({ name: "Launch" }, ann.id);
+  await storage.addProjectMember(project.id, bob.id);
+});
+
+describe("MemStorage users", () => {
+  it("fills in the column defaults", () => {
+    expect(bob.id).toBeTruthy();
+    expect(bob.displayName).toBeNull();
+    expect(bob.createdAt).toBeInstanceOf(Date);
+  });
+
+  it("keeps emails and usernames unique like the database does", async () => {
+    await expect(storage.createUser({ username: "ann2", email: "ann@example.com", password: "hash" })).rejects.toThrow(
+      "Email already in use",
+    );
+    await expect(storage.createUser({ username: "ann", email: "other@example.com", password: "hash" })).rejects.toThrow(
+      "Username already taken",
+    );
+  });
+
+  it("never returns passwords in the member list", async () => {
+    const members = await storage.getProjectMembers(project.id);
+    expect(members.map((member) => member.username).sort()).toEqual(["ann", "bob"]);
+    members.forEach((member) => expect(member).not.toHaveProperty("password"));
+  });
+});
+
+describe("MemStorage projects", () => {
+  it("makes the owner the first member", async () => {
+    const own = await storage.createProject({ name: "Solo", description: "Just me" }, bob.id);
+    expect(own).toMatchObject({ name: "Solo", description: "Just me", ownerId: bob.id });
+    expect(await storage.getProjectMember(own.id, bob.id)).toMatchObject({ role: "owner" });
+    expect(await storage.getProjectMember(own.id, ann.id)).toBeUndefined();
+    const projects = await storage.getProjectsForUser(bob.id);
+    expect(projects.map((p) => [p.name, p.role])).toEqual([
+      ["Launch", "member"],
+      ["Solo", "owner"],
+    ]);
+  });
+
+  it("adds members with a role, changes it and removes them once", async () => {
+    const members = await storage.getProjectMembers(project.id);
+    expect(members.map((member) => [member.username, member.role])).toEqual([
+      ["ann", "owner"],
+      ["bob", "member"],
+    ]);
+    expect(await storage.updateProjectMemberRole(project.id, bob.id, "viewer")).toMatchObject({ role: "viewer" });
+    await expect(storage.addProjectMember(project.id, bob.id)).rejects.toThrow("already a member");
+    expect(await storage.removeProjectMember(project.id, bob.id)).toBe(true);
+    expect(await storage.removeProjectMember(project.id, bob.id)).toBe(false);
+    expect(await storage.getProjectsForUser(bob.id)).toEqual([]);
+  });
+
+  it("deletes the project's members and tasks with it", async () => {
+    const task = await storage.createTask({ projectId: project.id, title: "Plan" }, ann.id);
+    expect(await storage.deleteProject(project.id)).toBe(true);
+    expect(await storage.getProject(project.id)).toBeUndefined();
+    expect(await storage.getTask(task.id)).toBeUndefined();
+    expect(await storage.getProjectMember(project.id, ann.id)).toBeUndefined();
+  });
+});
+
+describe("MemStorage tasks", () => {
+  it("fills in the column defaults and enriches the creator and assignee", async () => {
+    const task = await storage.createTask({ projectId: project.id, title: "Plan", assignedToId: bob.id }, ann.id);
+    expect(task).toMatchObject({ title: "Plan", description: null, dueDate: null, priority: "medium", status: "todo" });
+    expect(task.creator).toMatchObject({ id: ann.id, username: "ann" });
+    expect(task.assignedTo).toMatchObject({ id: bob.id, username: "bob" });
+    expect(task.creator).not.toHaveProperty("password");
+  });
+
+  it("refuses unknown creators and assignees like the foreign keys do", async () => {
+    await expect(storage.createTask({ projectId: project.id, title: "Plan" }, "missing")).rejects.toThrow("Creator not found");
+    await expect(storage.createTask({ projectId: "missing", title: "Plan" }, ann.id)).rejects.toThrow("Project not found");
+    await expect(
+      storage.createTask({ projectId: project.id, title: "Plan", assignedToId: "missing" }, ann.id),
+    ).rejects.toThrow("Assignee not found");
+  });
+
+  it("lists a project's tasks newest first, and tasks by creator and by assignee", async () => {
+    const first = await storage.createTask({ projectId: project.id, title: "First" }, ann.id);
+    await new Promise((resolve) => setTimeout(resolve, 2));
+    const second = await storage.createTask({ projectId: project.id, title: "Second", assignedToId: bob.id }, bob.id);
+
+    const other = await storage.createProject({ name: "Other" }, ann.id);
+    await storage.createTask({ projectId: other.id, title: "Elsewhere" }, ann.id);
+
+    const page = await storage.queryTasks({ projectId: project.id, sort: "createdAt" });
+    expect(page.tasks.map((task) => task.id)).toEqual([second.id, first.id]);
+    expect(page.nextCursor).toBeNull();
+    expect((await storage.getTasksByCreator(bob.id)).map((task) => task.id)).toEqual([second.id]);
+    expect((await storage.getTasksByAssignee(bob.id)).map((task) => task.id)).toEqual([second.id]);
+  });
+
+  it("filters a query and pages through it with a cursor", async () => {
+    const titles = ["Low later", "High soon", "Urgent undated", "Medium soon"];
+    await storage.createTask({ projectId: project.id, title: titles[0], priority: "low", dueDate: "2030-03-01" }, ann.id);
+    await storage.createTask({ projectId: project.id, title: titles[1], priority: "high", dueDate: "2030-01-01" }, bob.id);
+    await storage.createTask({ projectId: project.id, title: titles[2], priority: "urgent" }, ann.id);
+    await storage.createTask(
+      { projectId: project.id, title: titles[3], priority: "medium", dueDate: "2030-01-01", assignedToId: bob.id },
+      ann.id,
+    );
+
+    const byDueDate: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await storage.queryTasks({ projectId: project.id, sort: "dueDate", limit: 3, cursor });
+      byDueDate.push(...page.tasks.map((task) => task.title));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+    // Equal due dates fall back to the id, so only the set of the first two is fixed
+    expect(byDueDate.slice(0, 2).sort()).toEqual(["High soon", "Medium soon"]);
+    expect(byDueDate.slice(2)).toEqual(["Low later", "Urgent undated"]);
+
+    const byPriority = await storage.queryTasks({ projectId: project.id, sort: "priority" });
+    expect(byPriority.tasks.map((task) => task.priority)).toEqual(["urgent", "high", "medium", "low"]);
+
+    const filter = (query: Partial<TaskQuery>) =>
+      storage
+        .queryTasks({ projectId: project.id, sort: "createdAt", ...query })
+        .then((page) => page.tasks.map((task) => task.title).sort());
+    expect(await filter({ creatorId: bob.id })).toEqual(["High soon"]);
+    expect(await filter({ assignedToId: bob.id })).toEqual(["Medium soon"]);
+    expect(await filter({ priority: "urgent" })).toEqual(["Urgent undated"]);
+    expect(await filter({ dueFrom: new Date("2030-02-01") })).toEqual(["Low later"]);
+    expect(await filter({ dueTo: new Date("2030-02-01") })).toEqual(["High soon", "Medium soon"]);
+    await expect(storage.queryTasks({ projectId: project.id, sort: "createdAt", cursor: "nope" })).rejects.toThrow(
+      "Invalid cursor",
+    );
+  });
+
+  it("updates, clears the due date and deletes", async () => {
+    const dueDate = "2030-01-01T00:00:00.000Z";
+    const task = await storage.createTask({ projectId: project.id, title: "Plan", dueDate }, ann.id);
+    expect(task.dueDate).toEqual(new Date(dueDate));
+
+    const updated = await storage.updateTask(task.id, { status: "in_progress", dueDate: null }, ann.id);
+    expect(updated).toMatchObject({ status: "in_progress", dueDate: null, title: "Plan" });
+    expect(updated!.updatedAt.getTime()).toBeGreaterThanOrEqual(task.updatedAt.getTime());
+
+    expect(await storage.updateTask("missing", { title: "Nope" }, ann.id)).toBeUndefined();
+    expect(await storage.deleteTask(task.id)).toBe(true);
+    expect(await storage.deleteTask(task.id)).toBe(false);
+    expect(await storage.getTask(task.id)).toBeUndefined();
+  });
+});
+
+describe("MemStorage task versions", () => {
+  it("bumps the version on every update and enforces the precondition", async () => {
+    const task = await storage.createTask({ projectId: project.id, title: "Versioned" }, ann.id);
+    expect(task.version).toBe(1);
+    expect((await storage.updateTask(task.id, { title: "Once" }, ann.id))!.version).toBe(2);
+    const conflict = await storage.updateTask(task.id, { title: "Stale", version: 1 }, ann.id).catch((error) => error);
+    expect(conflict).toBeInstanceOf(TaskVersionConflictError);
+    // The copy the caller gets to merge with is the one that won
+    expect(conflict.current).toMatchObject({ id: task.id, title: "Once", version: 2, creator: { id: ann.id } });
+    expect((await storage.getTask(task.id))!.title).toBe("Once");
+    expect((await storage.updateTask(task.id, { title: "Twice", version: 2 }, ann.id))!.version).toBe(3);
+  });
+});
+
+describe("MemStorage activity", () => {
+  it("records one entry per changed tracked field and drops it with the task", async () => {
+    const task = await storage.createTask({ projectId: project.id, title: "Ship", dueDate: "2030-01-01" }, ann.id);
+    await storage.updateTask(task.id, { status: "completed", assignedToId: bob.id, description: "Untracked" }, bob.id);
+    await new Promise((resolve) => setTimeout(resolve, 2));
+    await storage.updateTask(task.id, { status: "completed", dueDate: null }, ann.id);
+
+    const activity = await storage.getTaskActivity(task.id);
+    expect(activity.map((a) => [a.field, a.oldValue, a.newValue, a.actor.username])).toEqual([
+      ["dueDate", "2030-01-01T00:00:00.000Z", null, "ann"],
+      ["assignedToId", null, bob.id, "bob"],
+      ["status", "todo", "completed", "bob"],
+    ]);
+
+    await storage.deleteTask(task.id);
+    expect(await storage.getTaskActivity(task.id)).toEqual([]);
+  });
+});
+
+describe("MemStorage comments", () => {
+  it("keeps a task's thread in order and deletes it with the task", async () => {
+    const task = await storage.createTask({ projectId: project.id, title: "Talk" }, ann.id);
+    const first = await storage.createComment(task.id, bob.id, "First");
+    // Comments in the same millisecond are ordered by id instead
+    await new Promise((resolve) => setTimeout(resolve, 2));
+    await storage.createComment(task.id, ann.id, "Second");
+    expect((await storage.getTaskComments(task.id)).map((c) => [c.body, c.author.username])).toEqual([
+      ["First", "bob"],
+      ["Second", "ann"],
+    ]);
+
+    expect(await storage.updateComment(first.id, "Edited")).toMatchObject({ body: "Edited" });
+    expect(await storage.updateComment("missing", "Nope")).toBeUndefined();
+
+    await storage.deleteTask(task.id);
+    expect(await storage.getComment(first.id)).toBeUndefined();
+    expect(await storage.getTaskComments(task.id)).toEqual([]);
+  });
+});
@@ -1,6 +1,25 @@
 import {
   users,
   tasks,
+  projects,
+  projectMembers,
+  taskComments,
+  taskActivity,
+  subtasks,
+  taskDependencies,
+  notifications,
+  emailPreferences,
+  taskReminders,
+  sessions,
+  userIdentities,
+  authTokens,
+  authAuditLog,
+  twoFactorAuth,
+  recoveryCodes,
+  apiTokens,
+  webhooks,
+  webhookDeliveries,
+  trackedTaskFields,
   type User,
   type InsertUser,
   type Task,
@@ -8,9 +27,57 @@ import {
   type UpdateTask,
   type UserPublic,
   type TaskWithRelations,
+  type Project,
+  type InsertProject,
+  type UpdateProject,
+  type ProjectMember,
+  type ProjectRole,
+  type ProjectWithRole,
+  type ProjectMemberWithUser,
+  type Priority,
+  type TaskQuery,
+  type TaskSortKey,
+  type TaskPage,
+  type TaskComment,
+  type CommentWithAuthor,
+  type TaskActivity,
+  type Subtask,
+  type InsertSubtask,
+  type UpdateSubtask,
+  type TaskDependency,
+  type TaskDependencies,
+  type ActivityWithActor,
+  type TrackedTaskField,
+  type Notification,
+  type InsertNotification,
+  type NotificationQuery,
+  type NotificationWithActor,
+  type EmailPreferences,
+  type UpdateEmailPreferences,
+  type TaskReminderKind,
+  type DueTaskReminder,
+  type Session,
+  type InsertSession,
+  type UserIdentity,
+  type InsertUserIdentity,
+  type AuthToken,
+  type AuthTokenPurpose,
+  type InsertAuthToken,
+  type AuthAuditEntry,
+  type InsertAuthAuditEntry,
+  type TwoFactorAuth,
+  type RecoveryCode,
+  type ApiToken,
+  type InsertApiToken,
+  type Webhook,
+  type InsertWebhook,
+  type UpdateWebhook,
+  type WebhookDelivery,
+  type InsertWebhookDelivery,
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, and, or, desc, asc } from "drizzle-orm";
+import { getDb } from "./db";
+import { eq, ne, and, or, desc, asc, gt, lt, gte, lte, isNull, inArray, arrayContains, notExists, sql, type SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
 import { randomUUID } from "crypto";
 
 export interface IStorage {
@@ -19,15 +86,138 @@ export interface IStorage {
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: string, data: Partial<InsertUser>): Promise<User | undefined>;
-  getAllUsers(): Promise<UserPublic[]>;
+  markEmailVerified(id: string): Promise<User | undefined>;
+
+  getUserIdentity(issuer: string, subject: string): Promise<UserIdentity | undefined>;
+  createUserIdentity(data: InsertUserIdentity): Promise<UserIdentity>;
+
+  // Replaces any unused token the user has for the same purpose
+  createAuthToken(data: InsertAuthToken): Promise<AuthToken>;
+  // Marks the token used and returns it, unless it is unknown, already used
+  // or expired
+  consumeAuthToken(tokenHash: string, purpose: AuthTokenPurpose): Promise<AuthToken | undefined>;
+
+  createAuthAuditEntry(data: InsertAuthAuditEntry): Promise<AuthAuditEntry>;
+
+  getTwoFactorAuth(userId: string): Promise<TwoFactorAuth | undefined>;
+  // Stores a new secret that is not enabled yet, replacing any earlier one
+  startTwoFactorEnrollment(userId: string, secret: string): Promise<TwoFactorAuth>;
+  // Enables the pending secret, recording the step of the code that proved
+  // it, and replaces the recovery codes; false when nothing was pending
+  enableTwoFactorAuth(userId: string, step: number, recoveryCodeHashes: string[]): Promise<boolean>;
+  disableTwoFactorAuth(userId: string): Promise<void>;
+  // Records a code's time step; false when that step or a later one was
+  // already used, so each code works once
+  claimTwoFactorStep(userId: string, step: number): Promise<boolean>;
+  replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void>;
+  consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
+  getRemainingRecoveryCodeCount(userId: string): Promise<number>;
+
+  createApiToken(data: InsertApiToken): Promise<ApiToken>;
+  getApiTokensByUser(userId: string): Promise<ApiToken[]>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  touchApiToken(id: string): Promise<void>;
+  // False when the user has no such token
+  deleteApiToken(id: string, userId: string): Promise<boolean>;
+  // Returns how many tokens the user had
+  deleteUserApiTokens(userId: string): Promise<number>;
+
+  createSession(data: InsertSession): Promise<Session>;
+  getSession(id: string): Promise<Session | undefined>;
+  getSessionByRefreshToken(refreshTokenHash: string): Promise<Session | undefined>;
+  getSessionByPreviousRefreshToken(refreshTokenHash: string): Promise<Session | undefined>;
+  // Swaps in a new refresh token, but only if the session still holds
+  // `currentHash`; undefined when another request rotated it first
+  rotateSession(
+    id: string,
+    currentHash: string,
+    data: Pick<Session, "refreshTokenHash" | "userAgent" | "ipAddress" | "expiresAt">,
+  ): Promise<Session | undefined>;
+  getActiveSessions(userId: string): Promise<Session[]>;
+  revokeSession(id: string): Promise<boolean>;
+  // Returns the ids of the sessions that were still active
+  revokeUserSessions(userId: string): Promise<string[]>;
+
+  getProject(id: string): Promise<Project | undefined>;
+  getProjectsForUser(userId: string): Promise<ProjectWithRole[]>;
+  createProject(project: InsertProject, ownerId: string): Promise<Project>;
+  updateProject(id: string, data: UpdateProject): Promise<Project | undefined>;
+  deleteProject(id: string): Promise<boolean>;
+  getProjectMembers(projectId: string): Promise<ProjectMemberWithUser[]>;
+  getProjectMember(projectId: string, userId: string): Promise<ProjectMember | undefined>;
+  addProjectMember(projectId: string, userId: string, role?: ProjectRole): Promise<ProjectMember>;
+  updateProjectMemberRole(projectId: string, userId: string, role: ProjectRole): Promise<ProjectMember | undefined>;
+  removeProjectMember(projectId: string, userId: string): Promise<boolean>;
 
   getTask(id: string): Promise<TaskWithRelations | undefined>;
-  getAllTasks(): Promise<TaskWithRelations[]>;
+  queryTasks(query: TaskQuery): Promise<TaskPage>;
   getTasksByCreator(creatorId: string): Promise<TaskWithRelations[]>;
   getTasksByAssignee(assigneeId: string): Promise<TaskWithRelations[]>;
   createTask(task: InsertTask, creatorId: string): Promise<TaskWithRelations>;
-  updateTask(id: string, data: UpdateTask): Promise<TaskWithRelations | undefined>;
+  // All or nothing: a failure creates none of the tasks
+  createTasks(tasks: InsertTask[], creatorId: string): Promise<TaskWithRelations[]>;
+  updateTask(id: string, data: UpdateTask, actorId: string): Promise<TaskWithRelations | undefined>;
   deleteTask(id: string): Promise<boolean>;
+
+  getComment(id: string): Promise<TaskComment | undefined>;
+  getTaskComments(taskId: string): Promise<CommentWithAuthor[]>;
+  createComment(taskId: string, authorId: string, body: string): Promise<CommentWithAuthor>;
+  updateComment(id: string, body: string): Promise<CommentWithAuthor | undefined>;
+  deleteComment(id: string): Promise<boolean>;
+
+  getTaskActivity(taskId: string): Promise<ActivityWithActor[]>;
+
+  getSubtask(id: string): Promise<Subtask | undefined>;
+  getSubtasks(taskId: string): Promise<Subtask[]>;
+  createSubtask(taskId: string, data: InsertSubtask): Promise<Subtask>;
+  updateSubtask(id: string, data: UpdateSubtask): Promise<Subtask | undefined>;
+  deleteSubtask(id: string): Promise<boolean>;
+
+  getTaskDependencies(taskId: string): Promise<TaskDependencies>;
+  getProjectDependencies(projectId: string): Promise<TaskDependency[]>;
+  addTaskDependency(blockerId: string, blockedId: string): Promise<TaskDependency>;
+  removeTaskDependency(blockerId: string, blockedId: string): Promise<boolean>;
+
+  getNotifications(userId: string, query: NotificationQuery): Promise<NotificationWithActor[]>;
+  getUnreadNotificationCount(userId: string): Promise<number>;
+  createNotifications(data: InsertNotification[]): Promise<NotificationWithActor[]>;
+  markNotificationRead(id: string, userId: string): Promise<Notification | undefined>;
+  markAllNotificationsRead(userId: string): Promise<number>;
+
+  getEmailPreferences(userId: string): Promise<EmailPreferences>;
+  updateEmailPreferences(userId: string, data: UpdateEmailPreferences): Promise<EmailPreferences>;
+  // Marks today's digest as sent for every opted-in user who has not had one
+  // since `since`, and returns their ids
+  claimDailyDigests(since: Date): Promise<string[]>;
+
+  // Open tasks due by `dueBefore` whose reminder has not been sent for their
+  // due date yet; the overdue reminder for those due before `overdueBefore`,
+  // the due-soon one for the rest
+  getDueTaskReminders(dueBefore: Date, overdueBefore: Date): Promise<DueTaskReminder[]>;
+  // Records that the reminder was sent for this due date; false when it
+  // already had been
+  claimTaskReminder(taskId: string, kind: TaskReminderKind, dueDate: Date): Promise<boolean>;
+
+  getWebhooksByProject(projectId: string): Promise<Webhook[]>;
+  getWebhook(id: string): Promise<Webhook | undefined>;
+  // Active webhooks of the project that subscribe to the event
+  getWebhooksForEvent(projectId: string, event: string): Promise<Webhook[]>;
+  createWebhook(data: InsertWebhook & Pick<Webhook, "projectId" | "secret" | "createdById">): Promise<Webhook>;
+  updateWebhook(id: string, data: UpdateWebhook): Promise<Webhook | undefined>;
+  deleteWebhook(id: string): Promise<boolean>;
+
+  // New deliveries are pending and due right away
+  createWebhookDeliveries(data: InsertWebhookDelivery[]): Promise<WebhookDelivery[]>;
+  getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined>;
+  getWebhookDeliveries(webhookId: string, limit: number): Promise<WebhookDelivery[]>;
+  // Takes up to `limit` pending deliveries that are due and pushes their next
+  // attempt to leaseUntil, so no other process picks them up meanwhile
+  claimDueWebhookDeliveries(now: Date, leaseUntil: Date, limit: number): Promise<WebhookDelivery[]>;
+  updateWebhookDelivery(
+    id: string,
+    data: Partial<Omit<WebhookDelivery, "id" | "webhookId" | "event" | "payload" | "createdAt">>,
+  ): Promise<WebhookDelivery | undefined>;
+  deleteWebhookDeliveriesBefore(before: Date): Promise<number>;
 }
 
 function toPublicUser(user: User): UserPublic {
@@ -35,25 +225,169 @@ function toPublicUser(user: User): UserPublic {
   return publicUser;
 }
 
+// Keyset pagination: a cursor holds the sort value and id of the last task
+// on the previous page, so pages stay stable while tasks are being added.
+type TaskCursor = { value: string | null; id: string };
+
+function taskSortValue(task: Task, sort: TaskSortKey): string | null {
+  switch (sort) {
+    case "createdAt":
+      return task.createdAt.toISOString();
+    case "dueDate":
+      return task.dueDate ? task.dueDate.toISOString() : null;
+    case "priority":
+      return task.priority;
+  }
+}
+
+function encodeTaskCursor(task: Task, sort: TaskSortKey): string {
+  return Buffer.from(JSON.stringify([taskSortValue(task, sort), task.id])).toString("base64url");
+}
+
+function decodeTaskCursor(cursor: string): TaskCursor {
+  try {
+    const [value, id] = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if ((typeof value === "string" || value === null) && typeof id === "string") {
+      return { value, id };
+    }
+  } catch {
+    // fall through
+  }
+  throw new Error("Invalid cursor");
+}
+
+function toTaskPage<T extends Task>(rows: T[], query: TaskQuery): { rows: T[]; nextCursor: string | null } {
+  if (!query.limit || rows.length <= query.limit) {
+    return { rows, nextCursor: null };
+  }
+  const page = rows.slice(0, query.limit);
+  return { rows: page, nextCursor: encodeTaskCursor(page[page.length - 1], query.sort) };
+}
+
+// Sort orders: newest first, soonest due first (undated last), most urgent first.
+// Ties are broken by id so that the order is total.
+function taskOrderBy(sort: TaskSortKey): SQL[] {
+  switch (sort) {
+    case "createdAt":
+      return [desc(tasks.createdAt), desc(tasks.id)];
+    case "dueDate":
+      return [asc(tasks.dueDate), asc(tasks.id)];
+    case "priority":
+      return [desc(tasks.priority), asc(tasks.id)];
+  }
+}
+
+function afterTaskCursor(sort: TaskSortKey, cursor: TaskCursor): SQL {
+  switch (sort) {
+    case "createdAt": {
+      const createdAt = new Date(cursor.value!);
+      return or(lt(tasks.createdAt, createdAt), and(eq(tasks.createdAt, createdAt), lt(tasks.id, cursor.id)))!;
+    }
+    case "dueDate": {
+      if (cursor.value === null) {
+        return and(isNull(tasks.dueDate), gt(tasks.id, cursor.id))!;
+      }
+      const dueDate = new Date(cursor.value);
+      return or(
+        gt(tasks.dueDate, dueDate),
+        and(eq(tasks.dueDate, dueDate), gt(tasks.id, cursor.id)),
+        isNull(tasks.dueDate),
+      )!;
+    }
+    case "priority": {
+      const priority = cursor.value as Priority;
+      return or(lt(tasks.priority, priority), and(eq(tasks.priority, priority), gt(tasks.id, cursor.id)))!;
+    }
+  }
+}
+
+const creators = alias(users, "creator");
+const assignees = alias(users, "assignee");
+
+type TaskRow = {
+  task: Task;
+  creator: User;
+  assignedTo: User | null;
+  subtaskTotal: number;
+  subtaskCompleted: number;
+  openBlockerCount: number;
+};
+
+function toTaskWithRelations(row: TaskRow): TaskWithRelations {
+  return {
+    ...row.task,
+    creator: toPublicUser(row.creator),
+    assignedTo: row.assignedTo ? toPublicUser(row.assignedTo) : null,
+    subtaskProgress: { total: row.subtaskTotal, completed: row.subtaskCompleted },
+    openBlockerCount: row.openBlockerCount,
+  };
+}
+
+type FieldChange = { field: TrackedTaskField; oldValue: string | null; newValue: string | null };
+
+function trackedValue(task: Task, field: TrackedTaskField): string | null {
+  const value = task[field];
+  if (value instanceof Date) return value.toISOString();
+  return value ?? null;
+}
+
+function diffTrackedFields(before: Task, after: Task): FieldChange[] {
+  return trackedTaskFields
+    .map((field) => ({ field, oldValue: trackedValue(before, field), newValue: trackedValue(after, field) }))
+    .filter((change) => change.oldValue !== change.newValue);
+}
+
+// What a user without a stored row gets
+function defaultEmailPreferences(userId: string): EmailPreferences {
+  return { userId, assigned: true, dueSoon: true, overdue: true, dailyDigest: false };
+}
+
+function toNotificationWithActor(row: { notification: Notification; actor: User | null }): NotificationWithActor {
+  return { ...row.notification, actor: row.actor ? toPublicUser(row.actor) : null };
+}
+
+// Thrown by updateTask when the caller's version precondition no longer holds,
+// with the task as it is now, read where the mismatch was found
+export class TaskVersionConflictError extends Error {
+  constructor(readonly current: TaskWithRelations) {
+    super("This task was changed by someone else");
+    this.name = "TaskVersionConflictError";
+  }
+}
+
+function toTaskUpdate(data: UpdateTask): Partial<Task> {
+  const { dueDate, version: _version, ...rest } = data;
+  const updateData: Partial<Task> = {
+    ...rest,
+    updatedAt: new Date(),
+  };
+  if (dueDate !== undefined) {
+    updateData.dueDate = dueDate ? new Date(dueDate) : null;
+  }
+  return updateData;
+}
+
 export class DatabaseStorage implements IStorage {
+  private db = getDb();
+
   async getUser(id: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
     return user || undefined;
   }
 
   async getUserByUsername(username: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.username, username));
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
     return user || undefined;
   }
 
   async getUserByEmail(email: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.email, email));
+    const [user] = await this.db.select().from(users).where(eq(users.email, email));
     return user || undefined;
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = randomUUID();
-    const [user] = await db
+    const [user] = await this.db
       .insert(users)
       .values({ ...insertUser, id })
       .returning();
@@ -61,7 +395,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateUser(id: string, data: Partial<InsertUser>): Promise<User | undefined> {
-    const [user] = await db
+    const [user] = await this.db
       .update(users)
       .set(data)
       .where(eq(users.id, id))
@@ -69,92 +403,1706 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
-  async getAllUsers(): Promise<UserPublic[]> {
-    const allUsers = await db.select().from(users);
-    return allUsers.map(toPublicUser);
+  async markEmailVerified(id: string): Promise<User | undefined> {
+    await this.db
+      .update(users)
+      .set({ emailVerifiedAt: new Date() })
+      .where(and(eq(users.id, id), isNull(users.emailVerifiedAt)));
+    return this.getUser(id);
   }
 
-  private async enrichTask(task: Task): Promise<TaskWithRelations> {
-    const [creator] = await db.select().from(users).where(eq(users.id, task.creatorId));
-    let assignedTo: UserPublic | null = null;
-    if (task.assignedToId) {
-      const [assignee] = await db.select().from(users).where(eq(users.id, task.assignedToId));
-      assignedTo = assignee ? toPublicUser(assignee) : null;
-    }
-    return {
-      ...task,
-      creator: toPublicUser(creator),
-      assignedTo,
-    };
+  async getUserIdentity(issuer: string, subject: string): Promise<UserIdentity | undefined> {
+    const [identity] = await this.db
+      .select()
+      .from(userIdentities)
+      .where(and(eq(userIdentities.issuer, issuer), eq(userIdentities.subject, subject)));
+    return identity;
   }
 
-  async getTask(id: string): Promise<TaskWithRelations | undefined> {
-    const [task] = await db.select().from(tasks).where(eq(tasks.id, id));
-    if (!task) return undefined;
-    return this.enrichTask(task);
+  async createUserIdentity(data: InsertUserIdentity): Promise<UserIdentity> {
+    const [identity] = await this.db
+      .insert(userIdentities)
+      .values({ ...data, id: randomUUID() })
+      .returning();
+    return identity;
   }
 
-  async getAllTasks(): Promise<TaskWithRelations[]> {
-    const allTasks = await db.select().from(tasks).orderBy(desc(tasks.createdAt));
-    return Promise.all(allTasks.map((t) => this.enrichTask(t)));
+  async createAuthToken(data: InsertAuthToken): Promise<AuthToken> {
+    return this.db.transaction(async (tx) => {
+      await tx
+        .delete(authTokens)
+        .where(and(eq(authTokens.userId, data.userId), eq(authTokens.purpose, data.purpose), isNull(authTokens.usedAt)));
+      const [token] = await tx
+        .insert(authTokens)
+        .values({ ...data, id: randomUUID() })
+        .returning();
+      return token;
+    });
   }
 
-  async getTasksByCreator(creatorId: string): Promise<TaskWithRelations[]> {
-    const creatorTasks = await db
+  async consumeAuthToken(tokenHash: string, purpose: AuthTokenPurpose): Promise<AuthToken | undefined> {
+    const [token] = await this.db
+      .update(authTokens)
+      .set({ usedAt: new Date() })
+      .where(
+        and(
+          eq(authTokens.tokenHash, tokenHash),
+          eq(authTokens.purpose, purpose),
+          isNull(authTokens.usedAt),
+          gt(authTokens.expiresAt, new Date()),
+        ),
+      )
+      .returning();
+    return token;
+  }
+
+  async createAuthAuditEntry(data: InsertAuthAuditEntry): Promise<AuthAuditEntry> {
+    const [entry] = await this.db
+      .insert(authAuditLog)
+      .values({ ...data, id: randomUUID() })
+      .returning();
+    return entry;
+  }
+
+  async getTwoFactorAuth(userId: string): Promise<TwoFactorAuth | undefined> {
+    const [row] = await this.db.select().from(twoFactorAuth).where(eq(twoFactorAuth.userId, userId));
+    return row;
+  }
+
+  async startTwoFactorEnrollment(userId: string, secret: string): Promise<TwoFactorAuth> {
+    const values = { secret, enabledAt: null, lastUsedStep: null, createdAt: new Date() };
+    const [row] = await this.db
+      .insert(twoFactorAuth)
+      .values({ userId, ...values })
+      .onConflictDoUpdate({ target: twoFactorAuth.userId, set: values })
+      .returning();
+    return row;
+  }
+
+  async enableTwoFactorAuth(userId: string, step: number, recoveryCodeHashes: string[]): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const enabled = await tx
+        .update(twoFactorAuth)
+        .set({ enabledAt: new Date(), lastUsedStep: step })
+        .where(and(eq(twoFactorAuth.userId, userId), isNull(twoFactorAuth.enabledAt)))
+        .returning({ userId: twoFactorAuth.userId });
+      if (enabled.length === 0) return false;
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      await tx.insert(recoveryCodes).values(recoveryCodeHashes.map((codeHash) => ({ id: randomUUID(), userId, codeHash })));
+      return true;
+    });
+  }
+
+  async disableTwoFactorAuth(userId: string): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx.delete(twoFactorAuth).where(eq(twoFactorAuth.userId, userId));
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+    });
+  }
+
+  async claimTwoFactorStep(userId: string, step: number): Promise<boolean> {
+    const claimed = await this.db
+      .update(twoFactorAuth)
+      .set({ lastUsedStep: step })
+      .where(
+        and(
+          eq(twoFactorAuth.userId, userId),
+          or(isNull(twoFactorAuth.lastUsedStep), lt(twoFactorAuth.lastUsedStep, step)),
+        ),
+      )
+      .returning({ userId: twoFactorAuth.userId });
+    return claimed.length > 0;
+  }
+
+  async replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      await tx.insert(recoveryCodes).values(codeHashes.map((codeHash) => ({ id: randomUUID(), userId, codeHash })));
+    });
+  }
+
+  async consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const used = await this.db
+      .update(recoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(and(eq(recoveryCodes.userId, userId), eq(recoveryCodes.codeHash, codeHash), isNull(recoveryCodes.usedAt)))
+      .returning({ id: recoveryCodes.id });
+    return used.length > 0;
+  }
+
+  async getRemainingRecoveryCodeCount(userId: string): Promise<number> {
+    const [row] = await this.db
+      .select({ count: sql<number>`cast(count(*) as integer)` })
+      .from(recoveryCodes)
+      .where(and(eq(recoveryCodes.userId, userId), isNull(recoveryCodes.usedAt)));
+    return row.count;
+  }
+
+  async createApiToken(data: InsertApiToken): Promise<ApiToken> {
+    const [token] = await this.db
+      .insert(apiTokens)
+      .values({ ...data, id: randomUUID() })
+      .returning();
+    return token;
+  }
+
+  async getApiTokensByUser(userId: string): Promise<ApiToken[]> {
+    return this.db
+      .select()
+      .from(apiTokens)
+      .where(eq(apiTokens.userId, userId))
+      .orderBy(desc(apiTokens.createdAt));
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await this.db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async touchApiToken(id: string): Promise<void> {
+    await this.db.update(apiTokens).set({ lastUsedAt: new Date() }).where(eq(apiTokens.id, id));
+  }
+
+  async deleteApiToken(id: string, userId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(apiTokens)
+      .where(and(eq(apiTokens.id, id), eq(apiTokens.userId, userId)))
+      .returning({ id: apiTokens.id });
+    return deleted.length > 0;
+  }
+
+  async deleteUserApiTokens(userId: string): Promise<number> {
+    const deleted = await this.db
+      .delete(apiTokens)
+      .where(eq(apiTokens.userId, userId))
+      .returning({ id: apiTokens.id });
+    return deleted.length;
+  }
+
+  async createSession(data: InsertSession): Promise<Session> {
+    const now = new Date();
+    const [session] = await this.db
+      .insert(sessions)
+      .values({ ...data, id: randomUUID(), createdAt: now, lastUsedAt: now })
+      .returning();
+    return session;
+  }
+
+  async getSession(id: string): Promise<Session | undefined> {
+    const [session] = await this.db.select().from(sessions).where(eq(sessions.id, id));
+    return session;
+  }
+
+  async getSessionByRefreshToken(refreshTokenHash: string): Promise<Session | undefined> {
+    const [session] = await this.db.select().from(sessions).where(eq(sessions.refreshTokenHash, refreshTokenHash));
+    return session;
+  }
+
+  async getSessionByPreviousRefreshToken(refreshTokenHash: string): Promise<Session | undefined> {
+    const [session] = await this.db.select().from(sessions).where(eq(sessions.previousTokenHash, refreshTokenHash));
+    return session;
+  }
+
+  async rotateSession(
+    id: string,
+    currentHash: string,
+    data: Pick<Session, "refreshTokenHash" | "userAgent" | "ipAddress" | "expiresAt">,
+  ): Promise<Session | undefined> {
+    const [session] = await this.db
+      .update(sessions)
+      .set({ ...data, previousTokenHash: currentHash, lastUsedAt: new Date() })
+      .where(and(eq(sessions.id, id), eq(sessions.refreshTokenHash, currentHash), isNull(sessions.revokedAt)))
+      .returning();
+    return session;
+  }
+
+  async getActiveSessions(userId: string): Promise<Session[]> {
+    return this.db
+      .select()
+      .from(sessions)
+      .where(and(eq(sessions.userId, userId), isNull(sessions.revokedAt), gt(sessions.expiresAt, new Date())))
+      .orderBy(desc(sessions.lastUsedAt));
+  }
+
+  async revokeSession(id: string): Promise<boolean> {
+    const result = await this.db
+      .update(sessions)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(sessions.id, id), isNull(sessions.revokedAt)))
+      .returning({ id: sessions.id });
+    return result.length > 0;
+  }
+
+  async revokeUserSessions(userId: string): Promise<string[]> {
+    const result = await this.db
+      .update(sessions)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(sessions.userId, userId), isNull(sessions.revokedAt)))
+      .returning({ id: sessions.id });
+    return result.map((r) => r.id);
+  }
+
+  async getProject(id: string): Promise<Project | undefined> {
+    const [project] = await this.db.select().from(projects).where(eq(projects.id, id));
+    return project || undefined;
+  }
+
+  async getProjectsForUser(userId: string): Promise<ProjectWithRole[]> {
+    const rows = await this.db
+      .select({ project: projects, role: projectMembers.role })
+      .from(projects)
+      .innerJoin(projectMembers, eq(projectMembers.projectId, projects.id))
+      .where(eq(projectMembers.userId, userId))
+      .orderBy(asc(projects.name));
+    return rows.map((r) => ({ ...r.project, role: r.role }));
+  }
+
+  async createProject(insertProject: InsertProject, ownerId: string): Promise<Project> {
+    return this.db.transaction(async (tx) => {
+      const [project] = await tx
+        .insert(projects)
+        .values({ ...insertProject, id: randomUUID(), ownerId })
+        .returning();
+      await tx.insert(projectMembers).values({ projectId: project.id, userId: ownerId, role: "owner" });
+      return project;
+    });
+  }
+
+  async updateProject(id: string, data: UpdateProject): Promise<Project | undefined> {
+    const [project] = await this.db
+      .update(projects)
+      .set(data)
+      .where(eq(projects.id, id))
+      .returning();
+    return project || undefined;
+  }
+
+  async deleteProject(id: string): Promise<boolean> {
+    const result = await this.db.delete(projects).where(eq(projects.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async getProjectMembers(projectId: string): Promise<ProjectMemberWithUser[]> {
+    const rows = await this.db
+      .select({ user: users, role: projectMembers.role })
+      .from(projectMembers)
+      .innerJoin(users, eq(users.id, projectMembers.userId))
+      .where(eq(projectMembers.projectId, projectId))
+      .orderBy(asc(projectMembers.createdAt));
+    return rows.map((r) => ({ ...toPublicUser(r.user), role: r.role }));
+  }
+
+  async getProjectMember(projectId: string, userId: string): Promise<ProjectMember | undefined> {
+    const [member] = await this.db
       .select()
+      .from(projectMembers)
+      .where(and(eq(projectMembers.projectId, projectId), eq(projectMembers.userId, userId)));
+    return member || undefined;
+  }
+
+  async addProjectMember(projectId: string, userId: string, role: ProjectRole = "member"): Promise<ProjectMember> {
+    const [member] = await this.db
+      .insert(projectMembers)
+      .values({ projectId, userId, role })
+      .returning();
+    return member;
+  }
+
+  async updateProjectMemberRole(projectId: string, userId: string, role: ProjectRole): Promise<ProjectMember | undefined> {
+    const [member] = await this.db
+      .update(projectMembers)
+      .set({ role })
+      .where(and(eq(projectMembers.projectId, projectId), eq(projectMembers.userId, userId)))
+      .returning();
+    return member || undefined;
+  }
+
+  async removeProjectMember(projectId: string, userId: string): Promise<boolean> {
+    const result = await this.db
+      .delete(projectMembers)
+      .where(and(eq(projectMembers.projectId, projectId), eq(projectMembers.userId, userId)))
+      .returning();
+    return result.length > 0;
+  }
+
+  // Tasks are always loaded together with their creator and assignee in a
+  // single query, so list methods cost one round trip regardless of size.
+  // Inside a transaction, pass it as `db` to read through it
+  private selectTasks(db: Pick<typeof this.db, "select"> = this.db) {
+    return db
+      .select({
+        task: tasks,
+        creator: creators,
+        assignedTo: assignees,
+        subtaskTotal: sql<number>`(select count(*) from ${subtasks} where ${subtasks.taskId} = ${tasks.id})`.mapWith(Number),
+        subtaskCompleted: sql<number>`(select count(*) from ${subtasks} where ${subtasks.taskId} = ${tasks.id} and ${subtasks.isCompleted})`.mapWith(Number),
+        openBlockerCount: sql<number>`(select count(*) from ${taskDependencies} inner join ${tasks} as "blocker" on "blocker"."id" = ${taskDependencies.blockerId} where ${taskDependencies.blockedId} = ${tasks.id} and "blocker"."status" <> 'completed')`.mapWith(Number),
+      })
       .from(tasks)
+      .innerJoin(creators, eq(creators.id, tasks.creatorId))
+      .leftJoin(assignees, eq(assignees.id, tasks.assignedToId))
+      .$dynamic();
+  }
+
+  async getTask(id: string): Promise<TaskWithRelations | undefined> {
+    const [row] = await this.selectTasks().where(eq(tasks.id, id));
+    return row ? toTaskWithRelations(row) : undefined;
+  }
+
+  async queryTasks(query: TaskQuery): Promise<TaskPage> {
+    const conditions: SQL[] = [eq(tasks.projectId, query.projectId)];
+    if (query.status) conditions.push(eq(tasks.status, query.status));
+    if (query.priority) conditions.push(eq(tasks.priority, query.priority));
+    if (query.assignedToId) conditions.push(eq(tasks.assignedToId, query.assignedToId));
+    if (query.creatorId) conditions.push(eq(tasks.creatorId, query.creatorId));
+    if (query.dueFrom) conditions.push(gte(tasks.dueDate, query.dueFrom));
+    if (query.dueTo) conditions.push(lte(tasks.dueDate, query.dueTo));
+    if (query.cursor) conditions.push(afterTaskCursor(query.sort, decodeTaskCursor(query.cursor)));
+
+    let select = this.selectTasks()
+      .where(and(...conditions))
+      .orderBy(...taskOrderBy(query.sort));
+    if (query.limit) {
+      select = select.limit(query.limit + 1);
+    }
+
+    const { rows, nextCursor } = toTaskPage((await select).map(toTaskWithRelations), query);
+    return { tasks: rows, nextCursor };
+  }
+
+  async getTasksByCreator(creatorId: string): Promise<TaskWithRelations[]> {
+    const rows = await this.selectTasks()
       .where(eq(tasks.creatorId, creatorId))
       .orderBy(desc(tasks.createdAt));
-    return Promise.all(creatorTasks.map((t) => this.enrichTask(t)));
+    return rows.map(toTaskWithRelations);
   }
 
   async getTasksByAssignee(assigneeId: string): Promise<TaskWithRelations[]> {
-    const assigneeTasks = await db
-      .select()
-      .from(tasks)
+    const rows = await this.selectTasks()
       .where(eq(tasks.assignedToId, assigneeId))
       .orderBy(desc(tasks.createdAt));
-    return Promise.all(assigneeTasks.map((t) => this.enrichTask(t)));
+    return rows.map(toTaskWithRelations);
   }
 
   async createTask(insertTask: InsertTask, creatorId: string): Promise<TaskWithRelations> {
-    const id = randomUUID();
+    const [task] = await this.createTasks([insertTask], creatorId);
+    return task;
+  }
+
+  async createTasks(insertTasks: InsertTask[], creatorId: string): Promise<TaskWithRelations[]> {
+    if (insertTasks.length === 0) return [];
+    const now = new Date();
+    const ids = await this.db.transaction(async (tx) => {
+      const created: string[] = [];
+      for (const insertTask of insertTasks) {
+        const [task] = await tx
+          .insert(tasks)
+          .values({
+            ...insertTask,
+            id: randomUUID(),
+            creatorId,
+            dueDate: insertTask.dueDate ? new Date(insertTask.dueDate) : null,
+            // New tasks go to the bottom of their board column
+            position: sql`(select coalesce(max(${tasks.position}), 0) + 1 from ${tasks} where ${tasks.projectId} = ${insertTask.projectId})`,
+            createdAt: now,
+            updatedAt: now,
+          })
+          .returning({ id: tasks.id });
+        created.push(task.id);
+      }
+      return created;
+    });
+    const rows = await this.selectTasks().where(inArray(tasks.id, ids));
+    const byId = new Map(rows.map((row) => [row.task.id, toTaskWithRelations(row)]));
+    return ids.map((id) => byId.get(id)!);
+  }
+
+  async updateTask(id: string, data: UpdateTask, actorId: string): Promise<TaskWithRelations | undefined> {
+    const updated = await this.db.transaction(async (tx) => {
+      const [before] = await tx.select().from(tasks).where(eq(tasks.id, id)).for("update");
+      if (!before) return false;
+      if (data.version !== undefined && data.version !== before.version) {
+        const [current] = await this.selectTasks(tx).where(eq(tasks.id, id));
+        throw new TaskVersionConflictError(toTaskWithRelations(current));
+      }
+      const [after] = await tx
+        .update(tasks)
+        .set({ ...toTaskUpdate(data), version: before.version + 1 })
+        .where(eq(tasks.id, id))
+        .returning();
+      const changes = diffTrackedFields(before, after);
+      if (changes.length > 0) {
+        await tx.insert(taskActivity).values(
+          changes.map((change) => ({ ...change, id: randomUUID(), taskId: id, actorId, createdAt: after.updatedAt })),
+        );
+      }
+      return true;
+    });
+    if (!updated) return undefined;
+    return this.getTask(id);
+  }
+
+  async deleteTask(id: string): Promise<boolean> {
+    const result = await this.db.delete(tasks).where(eq(tasks.id, id)).returning();
+    return result.length > 0;
+  }
+
+  private selectComments() {
+    return this.db
+      .select({ comment: taskComments, author: users })
+      .from(taskComments)
+      .innerJoin(users, eq(users.id, taskComments.authorId))
+      .$dynamic();
+  }
+
+  async getComment(id: string): Promise<TaskComment | undefined> {
+    const [comment] = await this.db.select().from(taskComments).where(eq(taskComments.id, id));
+    return comment || undefined;
+  }
+
+  async getTaskComments(taskId: string): Promise<CommentWithAuthor[]> {
+    const rows = await this.selectComments()
+      .where(eq(taskComments.taskId, taskId))
+      .orderBy(asc(taskComments.createdAt), asc(taskComments.id));
+    return rows.map((r) => ({ ...r.comment, author: toPublicUser(r.author) }));
+  }
+
+  private async getCommentWithAuthor(id: string): Promise<CommentWithAuthor | undefined> {
+    const [row] = await this.selectComments().where(eq(taskComments.id, id));
+    return row ? { ...row.comment, author: toPublicUser(row.author) } : undefined;
+  }
+
+  async createComment(taskId: string, authorId: string, body: string): Promise<CommentWithAuthor> {
+    const now = new Date();
+    const [comment] = await this.db
+      .insert(taskComments)
+      .values({ id: randomUUID(), taskId, authorId, body, createdAt: now, updatedAt: now })
+      .returning({ id: taskComments.id });
+    return (await this.getCommentWithAuthor(comment.id))!;
+  }
+
+  async updateComment(id: string, body: string): Promise<CommentWithAuthor | undefined> {
+    const [comment] = await this.db
+      .update(taskComments)
+      .set({ body, updatedAt: new Date() })
+      .where(eq(taskComments.id, id))
+      .returning({ id: taskComments.id });
+    if (!comment) return undefined;
+    return this.getCommentWithAuthor(comment.id);
+  }
+
+  async deleteComment(id: string): Promise<boolean> {
+    const result = await this.db.delete(taskComments).where(eq(taskComments.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async getTaskActivity(taskId: string): Promise<ActivityWithActor[]> {
+    const rows = await this.db
+      .select({ activity: taskActivity, actor: users })
+      .from(taskActivity)
+      .innerJoin(users, eq(users.id, taskActivity.actorId))
+      .where(eq(taskActivity.taskId, taskId))
+      .orderBy(desc(taskActivity.createdAt), asc(taskActivity.field));
+    return rows.map((r) => ({
+      ...r.activity,
+      field: r.activity.field as TrackedTaskField,
+      actor: toPublicUser(r.actor),
+    }));
+  }
+
+  async getSubtask(id: string): Promise<Subtask | undefined> {
+    const [subtask] = await this.db.select().from(subtasks).where(eq(subtasks.id, id));
+    return subtask;
+  }
+
+  async getSubtasks(taskId: string): Promise<Subtask[]> {
+    return this.db
+      .select()
+      .from(subtasks)
+      .where(eq(subtasks.taskId, taskId))
+      .orderBy(asc(subtasks.position), asc(subtasks.createdAt));
+  }
+
+  async createSubtask(taskId: string, data: InsertSubtask): Promise<Subtask> {
     const now = new Date();
-    const [task] = await db
-      .insert(tasks)
+    const [subtask] = await this.db
+      .insert(subtasks)
       .values({
-        ...insertTask,
-        id,
-        creatorId,
-        dueDate: insertTask.dueDate ? new Date(insertTask.dueDate) : null,
+        id: randomUUID(),
+        taskId,
+        title: data.title,
+        position: sql`(select coalesce(max(${subtasks.position}) + 1, 0) from ${subtasks} where ${subtasks.taskId} = ${taskId})`,
         createdAt: now,
         updatedAt: now,
       })
       .returning();
-    return this.enrichTask(task);
+    return subtask;
   }
 
-  async updateTask(id: string, data: UpdateTask): Promise<TaskWithRelations | undefined> {
-    const updateData: Partial<Task> = {
-      ...data,
-      updatedAt: new Date(),
+  async updateSubtask(id: string, data: UpdateSubtask): Promise<Subtask | undefined> {
+    const [subtask] = await this.db
+      .update(subtasks)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(subtasks.id, id))
+      .returning();
+    return subtask;
+  }
+
+  async deleteSubtask(id: string): Promise<boolean> {
+    const result = await this.db.delete(subtasks).where(eq(subtasks.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async getTaskDependencies(taskId: string): Promise<TaskDependencies> {
+    const [blockedBy, blocks] = await Promise.all([
+      this.db
+        .select({ task: tasks })
+        .from(taskDependencies)
+        .innerJoin(tasks, eq(tasks.id, taskDependencies.blockerId))
+        .where(eq(taskDependencies.blockedId, taskId))
+        .orderBy(asc(tasks.createdAt)),
+      this.db
+        .select({ task: tasks })
+        .from(taskDependencies)
+        .innerJoin(tasks, eq(tasks.id, taskDependencies.blockedId))
+        .where(eq(taskDependencies.blockerId, taskId))
+        .orderBy(asc(tasks.createdAt)),
+    ]);
+    return {
+      blockedBy: blockedBy.map((r) => r.task),
+      blocks: blocks.map((r) => r.task),
     };
-    if (data.dueDate !== undefined) {
-      updateData.dueDate = data.dueDate ? new Date(data.dueDate) : null;
-    }
-    const [task] = await db
-      .update(tasks)
-      .set(updateData)
-      .where(eq(tasks.id, id))
+  }
+
+  async getProjectDependencies(projectId: string): Promise<TaskDependency[]> {
+    const rows = await this.db
+      .select({ dependency: taskDependencies })
+      .from(taskDependencies)
+      .innerJoin(tasks, eq(tasks.id, taskDependencies.blockedId))
+      .where(eq(tasks.projectId, projectId));
+    return rows.map((r) => r.dependency);
+  }
+
+  async addTaskDependency(blockerId: string, blockedId: string): Promise<TaskDependency> {
+    const [dependency] = await this.db
+      .insert(taskDependencies)
+      .values({ blockerId, blockedId, createdAt: new Date() })
       .returning();
-    if (!task) return undefined;
-    return this.enrichTask(task);
+    return dependency;
   }
 
-  async deleteTask(id: string): Promise<boolean> {
-    const result = await db.delete(tasks).where(eq(tasks.id, id)).returning();
+  async removeTaskDependency(blockerId: string, blockedId: string): Promise<boolean> {
+    const result = await this.db
+      .delete(taskDependencies)
+      .where(and(eq(taskDependencies.blockerId, blockerId), eq(taskDependencies.blockedId, blockedId)))
+      .returning();
     return result.length > 0;
   }
+
+  private selectNotifications() {
+    return this.db
+      .select({ notification: notifications, actor: users })
+      .from(notifications)
+      .leftJoin(users, eq(users.id, notifications.actorId))
+      .$dynamic();
+  }
+
+  async getNotifications(userId: string, query: NotificationQuery): Promise<NotificationWithActor[]> {
+    const conditions = [eq(notifications.userId, userId)];
+    if (query.unread) {
+      conditions.push(isNull(notifications.readAt));
+    }
+    const rows = await this.selectNotifications()
+      .where(and(...conditions))
+      .orderBy(desc(notifications.createdAt), desc(notifications.id))
+      .limit(query.limit);
+    return rows.map(toNotificationWithActor);
+  }
+
+  async getUnreadNotificationCount(userId: string): Promise<number> {
+    const [row] = await this.db
+      .select({ count: sql<number>`cast(count(*) as integer)` })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+    return row.count;
+  }
+
+  async createNotifications(data: InsertNotification[]): Promise<NotificationWithActor[]> {
+    if (data.length === 0) return [];
+    const now = new Date();
+    const created = await this.db
+      .insert(notifications)
+      .values(data.map((n) => ({ ...n, id: randomUUID(), createdAt: now })))
+      .returning({ id: notifications.id });
+    const rows = await this.selectNotifications().where(inArray(notifications.id, created.map((n) => n.id)));
+    return rows.map(toNotificationWithActor);
+  }
+
+  async markNotificationRead(id: string, userId: string): Promise<Notification | undefined> {
+    const [notification] = await this.db
+      .update(notifications)
+      .set({ readAt: sql`coalesce(${notifications.readAt}, now())` })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning();
+    return notification;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<number> {
+    const result = await this.db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)))
+      .returning({ id: notifications.id });
+    return result.length;
+  }
+
+  async getEmailPreferences(userId: string): Promise<EmailPreferences> {
+    const [row] = await this.db.select().from(emailPreferences).where(eq(emailPreferences.userId, userId));
+    if (!row) return defaultEmailPreferences(userId);
+    const { lastDigestSentAt, updatedAt, ...preferences } = row;
+    return preferences;
+  }
+
+  async updateEmailPreferences(userId: string, data: UpdateEmailPreferences): Promise<EmailPreferences> {
+    const current = await this.getEmailPreferences(userId);
+    const now = new Date();
+    const [row] = await this.db
+      .insert(emailPreferences)
+      .values({ ...current, ...data, updatedAt: now })
+      .onConflictDoUpdate({ target: emailPreferences.userId, set: { ...data, updatedAt: now } })
+      .returning();
+    const { lastDigestSentAt, updatedAt, ...preferences } = row;
+    return preferences;
+  }
+
+  async claimDailyDigests(since: Date): Promise<string[]> {
+    const rows = await this.db
+      .update(emailPreferences)
+      .set({ lastDigestSentAt: new Date() })
+      .where(
+        and(
+          eq(emailPreferences.dailyDigest, true),
+          or(isNull(emailPreferences.lastDigestSentAt), lt(emailPreferences.lastDigestSentAt, since)),
+        ),
+      )
+      .returning({ userId: emailPreferences.userId });
+    return rows.map((r) => r.userId);
+  }
+
+  async getDueTaskReminders(dueBefore: Date, overdueBefore: Date): Promise<DueTaskReminder[]> {
+    const kind = sql<TaskReminderKind>`(case when ${lt(tasks.dueDate, overdueBefore)}
+      then 'overdue' else 'due_soon' end)::task_reminder_kind`;
+    const rows = await this.db
+      .select({
+        id: tasks.id,
+        projectId: tasks.projectId,
+        title: tasks.title,
+        assignedToId: tasks.assignedToId,
+        creatorId: tasks.creatorId,
+        dueDate: tasks.dueDate,
+        kind,
+      })
+      .from(tasks)
+      .where(
+        and(
+          lte(tasks.dueDate, dueBefore),
+          ne(tasks.status, "completed"),
+          notExists(
+            this.db
+              .select({ taskId: taskReminders.taskId })
+              .from(taskReminders)
+              .where(
+                and(
+                  eq(taskReminders.taskId, tasks.id),
+                  eq(taskReminders.kind, kind),
+                  eq(taskReminders.dueDate, tasks.dueDate),
+                ),
+              ),
+          ),
+        ),
+      )
+      .orderBy(asc(tasks.dueDate));
+    return rows.map((row) => ({ ...row, dueDate: row.dueDate! }));
+  }
+
+  async claimTaskReminder(taskId: string, kind: TaskReminderKind, dueDate: Date): Promise<boolean> {
+    const now = new Date();
+    const rows = await this.db
+      .insert(taskReminders)
+      .values({ taskId, kind, dueDate, sentAt: now })
+      .onConflictDoUpdate({
+        target: [taskReminders.taskId, taskReminders.kind],
+        set: { dueDate, sentAt: now },
+        setWhere: ne(taskReminders.dueDate, dueDate),
+      })
+      .returning({ taskId: taskReminders.taskId });
+    return rows.length > 0;
+  }
+
+  async getWebhooksByProject(projectId: string): Promise<Webhook[]> {
+    return this.db
+      .select()
+      .from(webhooks)
+      .where(eq(webhooks.projectId, projectId))
+      .orderBy(asc(webhooks.createdAt));
+  }
+
+  async getWebhook(id: string): Promise<Webhook | undefined> {
+    const [webhook] = await this.db.select().from(webhooks).where(eq(webhooks.id, id));
+    return webhook;
+  }
+
+  async getWebhooksForEvent(projectId: string, event: string): Promise<Webhook[]> {
+    return this.db
+      .select()
+      .from(webhooks)
+      .where(and(eq(webhooks.projectId, projectId), eq(webhooks.active, true), arrayContains(webhooks.events, [event])));
+  }
+
+  async createWebhook(data: InsertWebhook & Pick<Webhook, "projectId" | "secret" | "createdById">): Promise<Webhook> {
+    const now = new Date();
+    const [webhook] = await this.db
+      .insert(webhooks)
+      .values({ ...data, id: randomUUID(), createdAt: now, updatedAt: now })
+      .returning();
+    return webhook;
+  }
+
+  async updateWebhook(id: string, data: UpdateWebhook): Promise<Webhook | undefined> {
+    const [webhook] = await this.db
+      .update(webhooks)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(webhooks.id, id))
+      .returning();
+    return webhook;
+  }
+
+  async deleteWebhook(id: string): Promise<boolean> {
+    const result = await this.db.delete(webhooks).where(eq(webhooks.id, id)).returning({ id: webhooks.id });
+    return result.length > 0;
+  }
+
+  async createWebhookDeliveries(data: InsertWebhookDelivery[]): Promise<WebhookDelivery[]> {
+    if (data.length === 0) return [];
+    const now = new Date();
+    return this.db
+      .insert(webhookDeliveries)
+      .values(data.map((d) => ({ ...d, id: randomUUID(), status: "pending" as const, nextAttemptAt: now, createdAt: now })))
+      .returning();
+  }
+
+  async getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await this.db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, id));
+    return delivery;
+  }
+
+  async getWebhookDeliveries(webhookId: string, limit: number): Promise<WebhookDelivery[]> {
+    return this.db
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.webhookId, webhookId))
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(limit);
+  }
+
+  async claimDueWebhookDeliveries(now: Date, leaseUntil: Date, limit: number): Promise<WebhookDelivery[]> {
+    return this.db.transaction(async (tx) => {
+      const due = await tx
+        .select({ id: webhookDeliveries.id })
+        .from(webhookDeliveries)
+        .where(and(eq(webhookDeliveries.status, "pending"), lte(webhookDeliveries.nextAttemptAt, now)))
+        .orderBy(asc(webhookDeliveries.nextAttemptAt))
+        .limit(limit)
+        .for("update", { skipLocked: true });
+      if (due.length === 0) return [];
+      return tx
+        .update(webhookDeliveries)
+        .set({ nextAttemptAt: leaseUntil })
+        .where(inArray(webhookDeliveries.id, due.map((d) => d.id)))
+        .returning();
+    });
+  }
+
+  async updateWebhookDelivery(
+    id: string,
+    data: Partial<Omit<WebhookDelivery, "id" | "webhookId" | "event" | "payload" | "createdAt">>,
+  ): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await this.db
+      .update(webhookDeliveries)
+      .set(data)
+      .where(eq(webhookDeliveries.id, id))
+      .returning();
+    return delivery;
+  }
+
+  async deleteWebhookDeliveriesBefore(before: Date): Promise<number> {
+    const deleted = await this.db
+      .delete(webhookDeliveries)
+      .where(and(lt(webhookDeliveries.createdAt, before), ne(webhookDeliveries.status, "pending")))
+      .returning({ id: webhookDeliveries.id });
+    return deleted.length;
+  }
+}
+
+function byCreatedAtDesc(a: Task, b: Task): number {
+  return b.createdAt.getTime() - a.createdAt.getTime();
+}
+
+const priorityRank: Record<Priority, number> = {
+  urgent: 0,
+  high: 1,
+  medium: 2,
+  low: 3,
+};
+
+function compareIds(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+// Same orderings as taskOrderBy, applied to (sort value, id) pairs
+function compareTaskKeys(sort: TaskSortKey, a: TaskCursor, b: TaskCursor): number {
+  switch (sort) {
+    case "createdAt": {
+      const diff = new Date(b.value!).getTime() - new Date(a.value!).getTime();
+      return diff !== 0 ? diff : compareIds(b.id, a.id);
+    }
+    case "dueDate": {
+      if (a.value !== b.value) {
+        if (a.value === null) return 1;
+        if (b.value === null) return -1;
+        const diff = new Date(a.value).getTime() - new Date(b.value).getTime();
+        if (diff !== 0) return diff;
+      }
+      return compareIds(a.id, b.id);
+    }
+    case "priority": {
+      const diff = priorityRank[a.value as Priority] - priorityRank[b.value as Priority];
+      return diff !== 0 ? diff : compareIds(a.id, b.id);
+    }
+  }
+}
+
+// In-memory implementation used by tests and offline development.
+// Mirrors the column defaults and relation enrichment of DatabaseStorage.
+export class MemStorage implements IStorage {
+  private users = new Map<string, User>();
+  private sessions = new Map<string, Session>();
+  private userIdentities: UserIdentity[] = [];
+  private authTokens = new Map<string, AuthToken>();
+  private authAuditLog: AuthAuditEntry[] = [];
+  private twoFactorAuth = new Map<string, TwoFactorAuth>();
+  private recoveryCodes: RecoveryCode[] = [];
+  private apiTokens = new Map<string, ApiToken>();
+  private projects = new Map<string, Project>();
+  private projectMembers: ProjectMember[] = [];
+  private tasks = new Map<string, Task>();
+  private comments = new Map<string, TaskComment>();
+  private activity: TaskActivity[] = [];
+  private subtasks = new Map<string, Subtask>();
+  private dependencies: TaskDependency[] = [];
+  private notifications: Notification[] = [];
+  private emailPreferences = new Map<string, EmailPreferences>();
+  private digestSentAt = new Map<string, Date>();
+  // Due date each reminder was sent for, keyed by "<taskId>:<kind>"
+  private reminders = new Map<string, Date>();
+  private webhooks = new Map<string, Webhook>();
+  private webhookDeliveries = new Map<string, WebhookDelivery>();
+
+  async getUser(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find((u) => u.username === username);
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find((u) => u.email === email);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    if (await this.getUserByEmail(insertUser.email)) {
+      throw new Error("Email already in use");
+    }
+    if (await this.getUserByUsername(insertUser.username)) {
+      throw new Error("Username already taken");
+    }
+    const user: User = {
+      ...insertUser,
+      id: randomUUID(),
+      displayName: insertUser.displayName ?? null,
+      emailVerifiedAt: null,
+      createdAt: new Date(),
+    };
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  async updateUser(id: string, data: Partial<InsertUser>): Promise<User | undefined> {
+    const existing = this.users.get(id);
+    if (!existing) return undefined;
+    const user: User = { ...existing, ...data };
+    this.users.set(id, user);
+    return user;
+  }
+
+  async markEmailVerified(id: string): Promise<User | undefined> {
+    const existing = this.users.get(id);
+    if (!existing) return undefined;
+    if (existing.emailVerifiedAt) return existing;
+    const user: User = { ...existing, emailVerifiedAt: new Date() };
+    this.users.set(id, user);
+    return user;
+  }
+
+  async getUserIdentity(issuer: string, subject: string): Promise<UserIdentity | undefined> {
+    return this.userIdentities.find((i) => i.issuer === issuer && i.subject === subject);
+  }
+
+  async createUserIdentity(data: InsertUserIdentity): Promise<UserIdentity> {
+    if (await this.getUserIdentity(data.issuer, data.subject)) {
+      throw new Error("Identity already linked");
+    }
+    const identity: UserIdentity = { ...data, id: randomUUID(), createdAt: new Date() };
+    this.userIdentities.push(identity);
+    return identity;
+  }
+
+  async createAuthToken(data: InsertAuthToken): Promise<AuthToken> {
+    for (const token of Array.from(this.authTokens.values())) {
+      if (token.userId === data.userId && token.purpose === data.purpose && !token.usedAt) {
+        this.authTokens.delete(token.id);
+      }
+    }
+    const token: AuthToken = { ...data, id: randomUUID(), usedAt: null, createdAt: new Date() };
+    this.authTokens.set(token.id, token);
+    return token;
+  }
+
+  async consumeAuthToken(tokenHash: string, purpose: AuthTokenPurpose): Promise<AuthToken | undefined> {
+    const token = Array.from(this.authTokens.values()).find((t) => t.tokenHash === tokenHash);
+    if (!token || token.purpose !== purpose || token.usedAt || token.expiresAt <= new Date()) return undefined;
+    const used: AuthToken = { ...token, usedAt: new Date() };
+    this.authTokens.set(token.id, used);
+    return used;
+  }
+
+  async createAuthAuditEntry(data: InsertAuthAuditEntry): Promise<AuthAuditEntry> {
+    const entry: AuthAuditEntry = { ...data, id: randomUUID(), createdAt: new Date() };
+    this.authAuditLog.push(entry);
+    return entry;
+  }
+
+  async getTwoFactorAuth(userId: string): Promise<TwoFactorAuth | undefined> {
+    return this.twoFactorAuth.get(userId);
+  }
+
+  async startTwoFactorEnrollment(userId: string, secret: string): Promise<TwoFactorAuth> {
+    const row: TwoFactorAuth = { userId, secret, enabledAt: null, lastUsedStep: null, createdAt: new Date() };
+    this.twoFactorAuth.set(userId, row);
+    return row;
+  }
+
+  async enableTwoFactorAuth(userId: string, step: number, recoveryCodeHashes: string[]): Promise<boolean> {
+    const row = this.twoFactorAuth.get(userId);
+    if (!row || row.enabledAt) return false;
+    this.twoFactorAuth.set(userId, { ...row, enabledAt: new Date(), lastUsedStep: step });
+    await this.replaceRecoveryCodes(userId, recoveryCodeHashes);
+    return true;
+  }
+
+  async disableTwoFactorAuth(userId: string): Promise<void> {
+    this.twoFactorAuth.delete(userId);
+    this.recoveryCodes = this.recoveryCodes.filter((c) => c.userId !== userId);
+  }
+
+  async claimTwoFactorStep(userId: string, step: number): Promise<boolean> {
+    const row = this.twoFactorAuth.get(userId);
+    if (!row || (row.lastUsedStep !== null && row.lastUsedStep >= step)) return false;
+    this.twoFactorAuth.set(userId, { ...row, lastUsedStep: step });
+    return true;
+  }
+
+  async replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void> {
+    this.recoveryCodes = [
+      ...this.recoveryCodes.filter((c) => c.userId !== userId),
+      ...codeHashes.map((codeHash) => ({ id: randomUUID(), userId, codeHash, usedAt: null })),
+    ];
+  }
+
+  async consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const code = this.recoveryCodes.find((c) => c.userId === userId && c.codeHash === codeHash && !c.usedAt);
+    if (!code) return false;
+    code.usedAt = new Date();
+    return true;
+  }
+
+  async getRemainingRecoveryCodeCount(userId: string): Promise<number> {
+    return this.recoveryCodes.filter((c) => c.userId === userId && !c.usedAt).length;
+  }
+
+  async createApiToken(data: InsertApiToken): Promise<ApiToken> {
+    const token: ApiToken = { ...data, id: randomUUID(), lastUsedAt: null, createdAt: new Date() };
+    this.apiTokens.set(token.id, token);
+    return token;
+  }
+
+  async getApiTokensByUser(userId: string): Promise<ApiToken[]> {
+    return Array.from(this.apiTokens.values())
+      .filter((t) => t.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    return Array.from(this.apiTokens.values()).find((t) => t.tokenHash === tokenHash);
+  }
+
+  async touchApiToken(id: string): Promise<void> {
+    const token = this.apiTokens.get(id);
+    if (token) {
+      this.apiTokens.set(id, { ...token, lastUsedAt: new Date() });
+    }
+  }
+
+  async deleteApiToken(id: string, userId: string): Promise<boolean> {
+    const token = this.apiTokens.get(id);
+    if (!token || token.userId !== userId) return false;
+    return this.apiTokens.delete(id);
+  }
+
+  async deleteUserApiTokens(userId: string): Promise<number> {
+    let deleted = 0;
+    for (const token of Array.from(this.apiTokens.values())) {
+      if (token.userId === userId && this.apiTokens.delete(token.id)) {
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  async createSession(data: InsertSession): Promise<Session> {
+    const now = new Date();
+    const session: Session = {
+      ...data,
+      id: randomUUID(),
+      previousTokenHash: null,
+      createdAt: now,
+      lastUsedAt: now,
+      revokedAt: null,
+    };
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  async getSession(id: string): Promise<Session | undefined> {
+    return this.sessions.get(id);
+  }
+
+  async getSessionByRefreshToken(refreshTokenHash: string): Promise<Session | undefined> {
+    return Array.from(this.sessions.values()).find((s) => s.refreshTokenHash === refreshTokenHash);
+  }
+
+  async getSessionByPreviousRefreshToken(refreshTokenHash: string): Promise<Session | undefined> {
+    return Array.from(this.sessions.values()).find((s) => s.previousTokenHash === refreshTokenHash);
+  }
+
+  async rotateSession(
+    id: string,
+    currentHash: string,
+    data: Pick<Session, "refreshTokenHash" | "userAgent" | "ipAddress" | "expiresAt">,
+  ): Promise<Session | undefined> {
+    const existing = this.sessions.get(id);
+    if (!existing || existing.refreshTokenHash !== currentHash || existing.revokedAt) return undefined;
+    const session: Session = { ...existing, ...data, previousTokenHash: currentHash, lastUsedAt: new Date() };
+    this.sessions.set(id, session);
+    return session;
+  }
+
+  async getActiveSessions(userId: string): Promise<Session[]> {
+    const now = new Date();
+    return Array.from(this.sessions.values())
+      .filter((s) => s.userId === userId && !s.revokedAt && s.expiresAt > now)
+      .sort((a, b) => b.lastUsedAt.getTime() - a.lastUsedAt.getTime());
+  }
+
+  async revokeSession(id: string): Promise<boolean> {
+    const session = this.sessions.get(id);
+    if (!session || session.revokedAt) return false;
+    this.sessions.set(id, { ...session, revokedAt: new Date() });
+    return true;
+  }
+
+  async revokeUserSessions(userId: string): Promise<string[]> {
+    const revoked: string[] = [];
+    for (const session of Array.from(this.sessions.values())) {
+      if (session.userId === userId && !session.revokedAt) {
+        this.sessions.set(session.id, { ...session, revokedAt: new Date() });
+        revoked.push(session.id);
+      }
+    }
+    return revoked;
+  }
+
+
+  async getProject(id: string): Promise<Project | undefined> {
+    return this.projects.get(id);
+  }
+
+  async getProjectsForUser(userId: string): Promise<ProjectWithRole[]> {
+    return this.projectMembers
+      .filter((m) => m.userId === userId)
+      .map((m) => ({ ...this.projects.get(m.projectId)!, role: m.role }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async createProject(insertProject: InsertProject, ownerId: string): Promise<Project> {
+    if (!this.users.has(ownerId)) {
+      throw new Error("Owner not found");
+    }
+    const project: Project = {
+      id: randomUUID(),
+      name: insertProject.name,
+      description: insertProject.description ?? null,
+      ownerId,
+      requireSubtasksComplete: false,
+      requireBlockersComplete: false,
+      createdAt: new Date(),
+    };
+    this.projects.set(project.id, project);
+    await this.addProjectMember(project.id, ownerId, "owner");
+    return project;
+  }
+
+  async updateProject(id: string, data: UpdateProject): Promise<Project | undefined> {
+    const existing = this.projects.get(id);
+    if (!existing) return undefined;
+    const project: Project = { ...existing, ...data };
+    this.projects.set(id, project);
+    return project;
+  }
+
+  async deleteProject(id: string): Promise<boolean> {
+    if (!this.projects.delete(id)) return false;
+    this.projectMembers = this.projectMembers.filter((m) => m.projectId !== id);
+    for (const webhook of await this.getWebhooksByProject(id)) {
+      await this.deleteWebhook(webhook.id);
+    }
+    for (const task of Array.from(this.tasks.values())) {
+      if (task.projectId === id) await this.deleteTask(task.id);
+    }
+    return true;
+  }
+
+  async getProjectMembers(projectId: string): Promise<ProjectMemberWithUser[]> {
+    return this.projectMembers
+      .filter((m) => m.projectId === projectId)
+      .map((m) => ({ ...toPublicUser(this.users.get(m.userId)!), role: m.role }));
+  }
+
+  async getProjectMember(projectId: string, userId: string): Promise<ProjectMember | undefined> {
+    return this.projectMembers.find((m) => m.projectId === projectId && m.userId === userId);
+  }
+
+  async addProjectMember(projectId: string, userId: string, role: ProjectRole = "member"): Promise<ProjectMember> {
+    if (!this.projects.has(projectId) || !this.users.has(userId)) {
+      throw new Error("Project or user not found");
+    }
+    if (await this.getProjectMember(projectId, userId)) {
+      throw new Error("User is already a member of this project");
+    }
+    const member: ProjectMember = { projectId, userId, role, createdAt: new Date() };
+    this.projectMembers.push(member);
+    return member;
+  }
+
+  async updateProjectMemberRole(projectId: string, userId: string, role: ProjectRole): Promise<ProjectMember | undefined> {
+    const member = await this.getProjectMember(projectId, userId);
+    if (!member) return undefined;
+    member.role = role;
+    return member;
+  }
+
+  async removeProjectMember(projectId: string, userId: string): Promise<boolean> {
+    const before = this.projectMembers.length;
+    this.projectMembers = this.projectMembers.filter(
+      (m) => !(m.projectId === projectId && m.userId === userId),
+    );
+    return this.projectMembers.length < before;
+  }
+
+  private enrichTask(task: Task): TaskWithRelations {
+    const creator = this.users.get(task.creatorId);
+    if (!creator) {
+      throw new Error(`Creator ${task.creatorId} not found for task ${task.id}`);
+    }
+    const assignee = task.assignedToId ? this.users.get(task.assignedToId) : undefined;
+    const children = this.listSubtasks(task.id);
+    return {
+      ...task,
+      creator: toPublicUser(creator),
+      assignedTo: assignee ? toPublicUser(assignee) : null,
+      subtaskProgress: {
+        total: children.length,
+        completed: children.filter((s) => s.isCompleted).length,
+      },
+      openBlockerCount: this.dependencies.filter(
+        (d) => d.blockedId === task.id && this.tasks.get(d.blockerId)?.status !== "completed",
+      ).length,
+    };
+  }
+
+  private listTasks(predicate: (task: Task) => boolean): TaskWithRelations[] {
+    return Array.from(this.tasks.values())
+      .filter(predicate)
+      .sort(byCreatedAtDesc)
+      .map((t) => this.enrichTask(t));
+  }
+
+  async getTask(id: string): Promise<TaskWithRelations | undefined> {
+    const task = this.tasks.get(id);
+    if (!task) return undefined;
+    return this.enrichTask(task);
+  }
+
+  async queryTasks(query: TaskQuery): Promise<TaskPage> {
+    const key = (task: Task): TaskCursor => ({ value: taskSortValue(task, query.sort), id: task.id });
+    const cursor = query.cursor ? decodeTaskCursor(query.cursor) : undefined;
+    const matching = Array.from(this.tasks.values())
+      .filter((t) =>
+        t.projectId === query.projectId &&
+        (!query.status || t.status === query.status) &&
+        (!query.priority || t.priority === query.priority) &&
+        (!query.assignedToId || t.assignedToId === query.assignedToId) &&
+        (!query.creatorId || t.creatorId === query.creatorId) &&
+        (!query.dueFrom || (!!t.dueDate && t.dueDate >= query.dueFrom)) &&
+        (!query.dueTo || (!!t.dueDate && t.dueDate <= query.dueTo)) &&
+        (!cursor || compareTaskKeys(query.sort, key(t), cursor) > 0)
+      )
+      .sort((a, b) => compareTaskKeys(query.sort, key(a), key(b)));
+
+    const { rows, nextCursor } = toTaskPage(
+      query.limit ? matching.slice(0, query.limit + 1) : matching,
+      query,
+    );
+    return {
+      tasks: rows.map((t) => this.enrichTask(t)),
+      nextCursor,
+    };
+  }
+
+  async getTasksByCreator(creatorId: string): Promise<TaskWithRelations[]> {
+    return this.listTasks((t) => t.creatorId === creatorId);
+  }
+
+  async getTasksByAssignee(assigneeId: string): Promise<TaskWithRelations[]> {
+    return this.listTasks((t) => t.assignedToId === assigneeId);
+  }
+
+  private checkNewTask(insertTask: InsertTask, creatorId: string): void {
+    if (!this.users.has(creatorId)) {
+      throw new Error("Creator not found");
+    }
+    if (!this.projects.has(insertTask.projectId)) {
+      throw new Error("Project not found");
+    }
+    if (insertTask.assignedToId && !this.users.has(insertTask.assignedToId)) {
+      throw new Error("Assignee not found");
+    }
+  }
+
+  async createTask(insertTask: InsertTask, creatorId: string): Promise<TaskWithRelations> {
+    this.checkNewTask(insertTask, creatorId);
+    const now = new Date();
+    const task: Task = {
+      id: randomUUID(),
+      projectId: insertTask.projectId,
+      title: insertTask.title,
+      description: insertTask.description ?? null,
+      dueDate: insertTask.dueDate ? new Date(insertTask.dueDate) : null,
+      priority: insertTask.priority ?? "medium",
+      status: insertTask.status ?? "todo",
+      creatorId,
+      assignedToId: insertTask.assignedToId ?? null,
+      version: 1,
+      position:
+        Array.from(this.tasks.values())
+          .filter((t) => t.projectId === insertTask.projectId)
+          .reduce((max, t) => Math.max(max, t.position), 0) + 1,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.tasks.set(task.id, task);
+    return this.enrichTask(task);
+  }
+
+  async createTasks(insertTasks: InsertTask[], creatorId: string): Promise<TaskWithRelations[]> {
+    // Checked up front so that a bad task leaves none of them behind
+    for (const insertTask of insertTasks) {
+      this.checkNewTask(insertTask, creatorId);
+    }
+    const created: TaskWithRelations[] = [];
+    for (const insertTask of insertTasks) {
+      created.push(await this.createTask(insertTask, creatorId));
+    }
+    return created;
+  }
+
+  async updateTask(id: string, data: UpdateTask, actorId: string): Promise<TaskWithRelations | undefined> {
+    const existing = this.tasks.get(id);
+    if (!existing) return undefined;
+    if (data.assignedToId && !this.users.has(data.assignedToId)) {
+      throw new Error("Assignee not found");
+    }
+    if (data.version !== undefined && data.version !== existing.version) {
+      throw new TaskVersionConflictError(this.enrichTask(existing));
+    }
+    const task: Task = { ...existing, ...toTaskUpdate(data), version: existing.version + 1 };
+    this.tasks.set(id, task);
+    for (const change of diffTrackedFields(existing, task)) {
+      this.activity.push({ ...change, id: randomUUID(), taskId: id, actorId, createdAt: task.updatedAt });
+    }
+    return this.enrichTask(task);
+  }
+
+  async deleteTask(id: string): Promise<boolean> {
+    if (!this.tasks.delete(id)) return false;
+    for (const comment of Array.from(this.comments.values())) {
+      if (comment.taskId === id) this.comments.delete(comment.id);
+    }
+    this.activity = this.activity.filter((a) => a.taskId !== id);
+    for (const subtask of this.listSubtasks(id)) {
+      this.subtasks.delete(subtask.id);
+    }
+    this.dependencies = this.dependencies.filter((d) => d.blockerId !== id && d.blockedId !== id);
+    this.notifications = this.notifications.filter((n) => n.taskId !== id);
+    this.reminders.delete(`${id}:due_soon`);
+    this.reminders.delete(`${id}:overdue`);
+    return true;
+  }
+
+  private withAuthor(comment: TaskComment): CommentWithAuthor {
+    return { ...comment, author: toPublicUser(this.users.get(comment.authorId)!) };
+  }
+
+  async getComment(id: string): Promise<TaskComment | undefined> {
+    return this.comments.get(id);
+  }
+
+  async getTaskComments(taskId: string): Promise<CommentWithAuthor[]> {
+    return Array.from(this.comments.values())
+      .filter((c) => c.taskId === taskId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || compareIds(a.id, b.id))
+      .map((c) => this.withAuthor(c));
+  }
+
+  async createComment(taskId: string, authorId: string, body: string): Promise<CommentWithAuthor> {
+    if (!this.tasks.has(taskId) || !this.users.has(authorId)) {
+      throw new Error("Task or author not found");
+    }
+    const now = new Date();
+    const comment: TaskComment = { id: randomUUID(), taskId, authorId, body, createdAt: now, updatedAt: now };
+    this.comments.set(comment.id, comment);
+    return this.withAuthor(comment);
+  }
+
+  async updateComment(id: string, body: string): Promise<CommentWithAuthor | undefined> {
+    const existing = this.comments.get(id);
+    if (!existing) return undefined;
+    const comment: TaskComment = { ...existing, body, updatedAt: new Date() };
+    this.comments.set(id, comment);
+    return this.withAuthor(comment);
+  }
+
+  async deleteComment(id: string): Promise<boolean> {
+    return this.comments.delete(id);
+  }
+
+  async getTaskActivity(taskId: string): Promise<ActivityWithActor[]> {
+    return this.activity
+      .filter((a) => a.taskId === taskId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || a.field.localeCompare(b.field))
+      .map((a) => ({
+        ...a,
+        field: a.field as TrackedTaskField,
+        actor: toPublicUser(this.users.get(a.actorId)!),
+      }));
+  }
+
+  private listSubtasks(taskId: string): Subtask[] {
+    return Array.from(this.subtasks.values())
+      .filter((s) => s.taskId === taskId)
+      .sort((a, b) => a.position - b.position || a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getSubtask(id: string): Promise<Subtask | undefined> {
+    return this.subtasks.get(id);
+  }
+
+  async getSubtasks(taskId: string): Promise<Subtask[]> {
+    return this.listSubtasks(taskId);
+  }
+
+  async createSubtask(taskId: string, data: InsertSubtask): Promise<Subtask> {
+    if (!this.tasks.has(taskId)) {
+      throw new Error("Task not found");
+    }
+    const siblings = this.listSubtasks(taskId);
+    const now = new Date();
+    const subtask: Subtask = {
+      id: randomUUID(),
+      taskId,
+      title: data.title,
+      isCompleted: false,
+      position: siblings.length > 0 ? siblings[siblings.length - 1].position + 1 : 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.subtasks.set(subtask.id, subtask);
+    return subtask;
+  }
+
+  async updateSubtask(id: string, data: UpdateSubtask): Promise<Subtask | undefined> {
+    const existing = this.subtasks.get(id);
+    if (!existing) return undefined;
+    const subtask: Subtask = { ...existing, ...data, updatedAt: new Date() };
+    this.subtasks.set(id, subtask);
+    return subtask;
+  }
+
+  async deleteSubtask(id: string): Promise<boolean> {
+    return this.subtasks.delete(id);
+  }
+
+  async getTaskDependencies(taskId: string): Promise<TaskDependencies> {
+    const related = (ids: string[]) =>
+      ids
+        .map((id) => this.tasks.get(id)!)
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    return {
+      blockedBy: related(this.dependencies.filter((d) => d.blockedId === taskId).map((d) => d.blockerId)),
+      blocks: related(this.dependencies.filter((d) => d.blockerId === taskId).map((d) => d.blockedId)),
+    };
+  }
+
+  async getProjectDependencies(projectId: string): Promise<TaskDependency[]> {
+    return this.dependencies.filter((d) => this.tasks.get(d.blockedId)?.projectId === projectId);
+  }
+
+  async addTaskDependency(blockerId: string, blockedId: string): Promise<TaskDependency> {
+    if (!this.tasks.has(blockerId) || !this.tasks.has(blockedId)) {
+      throw new Error("Task not found");
+    }
+    if (this.dependencies.some((d) => d.blockerId === blockerId && d.blockedId === blockedId)) {
+      throw new Error("Dependency already exists");
+    }
+    const dependency: TaskDependency = { blockerId, blockedId, createdAt: new Date() };
+    this.dependencies.push(dependency);
+    return dependency;
+  }
+
+  async removeTaskDependency(blockerId: string, blockedId: string): Promise<boolean> {
+    const before = this.dependencies.length;
+    this.dependencies = this.dependencies.filter(
+      (d) => !(d.blockerId === blockerId && d.blockedId === blockedId),
+    );
+    return this.dependencies.length < before;
+  }
+
+  private withActor(notification: Notification): NotificationWithActor {
+    const actor = notification.actorId ? this.users.get(notification.actorId) : undefined;
+    return { ...notification, actor: actor ? toPublicUser(actor) : null };
+  }
+
+  async getNotifications(userId: string, query: NotificationQuery): Promise<NotificationWithActor[]> {
+    return this.notifications
+      .filter((n) => n.userId === userId && (!query.unread || !n.readAt))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || compareIds(b.id, a.id))
+      .slice(0, query.limit)
+      .map((n) => this.withActor(n));
+  }
+
+  async getUnreadNotificationCount(userId: string): Promise<number> {
+    return this.notifications.filter((n) => n.userId === userId && !n.readAt).length;
+  }
+
+  async createNotifications(data: InsertNotification[]): Promise<NotificationWithActor[]> {
+    const now = new Date();
+    const created = data.map((n): Notification => ({ ...n, id: randomUUID(), readAt: null, createdAt: now }));
+    this.notifications.push(...created);
+    return created.map((n) => this.withActor(n));
+  }
+
+  async markNotificationRead(id: string, userId: string): Promise<Notification | undefined> {
+    const notification = this.notifications.find((n) => n.id === id && n.userId === userId);
+    if (!notification) return undefined;
+    notification.readAt = notification.readAt ?? new Date();
+    return notification;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<number> {
+    const now = new Date();
+    let count = 0;
+    for (const notification of this.notifications) {
+      if (notification.userId === userId && !notification.readAt) {
+        notification.readAt = now;
+        count++;
+      }
+    }
+    return count;
+  }
+
+  async getEmailPreferences(userId: string): Promise<EmailPreferences> {
+    return this.emailPreferences.get(userId) ?? defaultEmailPreferences(userId);
+  }
+
+  async updateEmailPreferences(userId: string, data: UpdateEmailPreferences): Promise<EmailPreferences> {
+    const preferences: EmailPreferences = { ...(await this.getEmailPreferences(userId)), ...data };
+    this.emailPreferences.set(userId, preferences);
+    return preferences;
+  }
+
+  async claimDailyDigests(since: Date): Promise<string[]> {
+    const now = new Date();
+    const claimed: string[] = [];
+    for (const preferences of Array.from(this.emailPreferences.values())) {
+      const sentAt = this.digestSentAt.get(preferences.userId);
+      if (preferences.dailyDigest && (!sentAt || sentAt < since)) {
+        this.digestSentAt.set(preferences.userId, now);
+        claimed.push(preferences.userId);
+      }
+    }
+    return claimed;
+  }
+
+  async getDueTaskReminders(dueBefore: Date, overdueBefore: Date): Promise<DueTaskReminder[]> {
+    const due: DueTaskReminder[] = [];
+    for (const { id, projectId, title, assignedToId, creatorId, dueDate, status } of Array.from(this.tasks.values())) {
+      if (!dueDate || dueDate > dueBefore || status === "completed") continue;
+      const kind = dueDate < overdueBefore ? "overdue" : "due_soon";
+      if (this.reminders.get(`${id}:${kind}`)?.getTime() === dueDate.getTime()) continue;
+      due.push({ id, projectId, title, assignedToId, creatorId, dueDate, kind });
+    }
+    return due.sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+  }
+
+  async claimTaskReminder(taskId: string, kind: TaskReminderKind, dueDate: Date): Promise<boolean> {
+    const key = `${taskId}:${kind}`;
+    if (this.reminders.get(key)?.getTime() === dueDate.getTime()) return false;
+    this.reminders.set(key, dueDate);
+    return true;
+  }
+
+  async getWebhooksByProject(projectId: string): Promise<Webhook[]> {
+    return Array.from(this.webhooks.values())
+      .filter((w) => w.projectId === projectId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getWebhook(id: string): Promise<Webhook | undefined> {
+    return this.webhooks.get(id);
+  }
+
+  async getWebhooksForEvent(projectId: string, event: string): Promise<Webhook[]> {
+    return (await this.getWebhooksByProject(projectId)).filter((w) => w.active && w.events.includes(event));
+  }
+
+  async createWebhook(data: InsertWebhook & Pick<Webhook, "projectId" | "secret" | "createdById">): Promise<Webhook> {
+    const now = new Date();
+    const webhook: Webhook = { ...data, id: randomUUID(), createdAt: now, updatedAt: now };
+    this.webhooks.set(webhook.id, webhook);
+    return webhook;
+  }
+
+  async updateWebhook(id: string, data: UpdateWebhook): Promise<Webhook | undefined> {
+    const existing = this.webhooks.get(id);
+    if (!existing) return undefined;
+    const webhook: Webhook = { ...existing, ...data, updatedAt: new Date() };
+    this.webhooks.set(id, webhook);
+    return webhook;
+  }
+
+  async deleteWebhook(id: string): Promise<boolean> {
+    if (!this.webhooks.delete(id)) return false;
+    for (const delivery of Array.from(this.webhookDeliveries.values())) {
+      if (delivery.webhookId === id) this.webhookDeliveries.delete(delivery.id);
+    }
+    return true;
+  }
+
+  async createWebhookDeliveries(data: InsertWebhookDelivery[]): Promise<WebhookDelivery[]> {
+    const now = new Date();
+    const created = data.map(
+      (d): WebhookDelivery => ({
+        ...d,
+        id: randomUUID(),
+        status: "pending",
+        attempts: 0,
+        nextAttemptAt: now,
+        lastAttemptAt: null,
+        responseStatus: null,
+        error: null,
+        durationMs: null,
+        createdAt: now,
+      }),
+    );
+    for (const delivery of created) {
+      this.webhookDeliveries.set(delivery.id, delivery);
+    }
+    return created;
+  }
+
+  async getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined> {
+    return this.webhookDeliveries.get(id);
+  }
+
+  async getWebhookDeliveries(webhookId: string, limit: number): Promise<WebhookDelivery[]> {
+    return Array.from(this.webhookDeliveries.values())
+      .filter((d) => d.webhookId === webhookId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async claimDueWebhookDeliveries(now: Date, leaseUntil: Date, limit: number): Promise<WebhookDelivery[]> {
+    const due = Array.from(this.webhookDeliveries.values())
+      .filter((d) => d.status === "pending" && d.nextAttemptAt && d.nextAttemptAt <= now)
+      .sort((a, b) => a.nextAttemptAt!.getTime() - b.nextAttemptAt!.getTime())
+      .slice(0, limit);
+    return due.map((d) => {
+      const claimed: WebhookDelivery = { ...d, nextAttemptAt: leaseUntil };
+      this.webhookDeliveries.set(d.id, claimed);
+      return claimed;
+    });
+  }
+
+  async updateWebhookDelivery(
+    id: string,
+    data: Partial<Omit<WebhookDelivery, "id" | "webhookId" | "event" | "payload" | "createdAt">>,
+  ): Promise<WebhookDelivery | undefined> {
+    const existing = this.webhookDeliveries.get(id);
+    if (!existing) return undefined;
+    const delivery: WebhookDelivery = { ...existing, ...data };
+    this.webhookDeliveries.set(id, delivery);
+    return delivery;
+  }
+
+  async deleteWebhookDeliveriesBefore(before: Date): Promise<number> {
+    let count = 0;
+    for (const delivery of Array.from(this.webhookDeliveries.values())) {
+      if (delivery.createdAt < before && delivery.status !== "pending") {
+        this.webhookDeliveries.delete(delivery.id);
+        count++;
+      }
+    }
+    return count;
+  }
+}
+
+// STORAGE_DRIVER=memory selects MemStorage; anything else uses Postgres.
+function createStorage(): IStorage {
+  if (process.env.STORAGE_DRIVER === "memory") {
+    return new MemStorage();
+  }
+  return new DatabaseStorage();
 }
 
-export const storage = new DatabaseStorage();
+export const storage = createStorage();
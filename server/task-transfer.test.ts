@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { formatTaskExport, prepareTaskImport } from "./task-transfer";
+import { storage } from "./storage";
+import type { Project, TaskWithRelations, User } from "@shared/schema";
+
+let userCount = 0;
+let owner: User;
+let member: User;
+let project: Project;
+
+async function createUser(name: string): Promise<User> {
+  const username = `${name}${++userCount}`;
+  return storage.createUser({ username, email: `${username}@example.com`, password: "hash" });
+}
+
+beforeEach(async () => {
+  owner = await createUser("owner");
+  member = await createUser("member");
+  project = await storage.createProject({ name: "Transfer" }, owner.id);
+  await storage.addProjectMember(project.id, member.id);
+});
+
+async function exportedTasks(): Promise<TaskWithRelations[]> {
+  const { tasks } = await storage.queryTasks({ projectId: project.id });
+  return tasks;
+}
+
+describe("formatTaskExport", () => {
+  it("writes one CSV line per task with people by email", async () => {
+    await storage.createTask(
+      { projectId: project.id, title: "Plan", assignedToId: member.id, dueDate: "2025-06-30T00:00:00.000Z" },
+      owner.id,
+    );
+
+    const [header, line, end] = formatTaskExport(await exportedTasks(), "csv").split("\r\n");
+    expect(header).toBe("id,title,description,status,priority,dueDate,assignee,creator,createdAt,updatedAt");
+    expect(line).toContain(`,Plan,,todo,medium,2025-06-30T00:00:00.000Z,${member.email},${owner.email},`);
+    expect(end).toBe("");
+  });
+
+  it("quotes separators and defuses spreadsheet formulas", async () => {
+    await storage.createTask({ projectId: project.id, title: "=HYPERLINK(\"x\")", description: "a, b\nc" }, owner.id);
+
+    const csv = formatTaskExport(await exportedTasks(), "csv");
+    expect(csv).toContain(`,"'=HYPERLINK(""x"")","a, b\nc",`);
+  });
+
+  it("writes the same records as JSON", async () => {
+    await storage.createTask({ projectId: project.id, title: "Plan" }, owner.id);
+
+    const [record] = JSON.parse(formatTaskExport(await exportedTasks(), "json"));
+    expect(record).toMatchObject({ title: "Plan", status: "todo", assignee: null, creator: owner.email });
+  });
+});
+
+describe("prepareTaskImport", () => {
+  it("maps columns by name and reads quoted CSV values", async () => {
+    const csv = [
+      "\uFEFFTitle,Due date,Status,Assignee,Notes",
+      `"Ship it, finally",2025-06-30,In progress,${member.username},ignored`,
+      `"Say ""hi""",,,${member.email.toUpperCase()},`,
+    ].join("\n");
+
+    const { rows, ignoredColumns } = await prepareTaskImport(project.id, "csv", csv);
+    expect(ignoredColumns).toEqual(["Notes"]);
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({
+      row: 2,
+      errors: [],
+      task: { title: "Ship it, finally", status: "in_progress", dueDate: "2025-06-30T00:00:00.000Z", assignedToId: member.id },
+      assignee: { id: member.id },
+    });
+    expect(rows[0].assignee).not.toHaveProperty("password");
+    expect(rows[1]).toMatchObject({ row: 3, task: { title: 'Say "hi"', assignedToId: member.id } });
+  });
+
+  it("reports problems on the row they are in", async () => {
+    const json = JSON.stringify([
+      { title: "", priority: "whenever" },
+      { title: "Later", dueDate: "someday", assignee: "stranger@example.com" },
+    ]);
+
+    const { rows } = await prepareTaskImport(project.id, "json", json);
+    expect(rows[0].task).toBeNull();
+    expect(rows[0].errors.map((error) => error.field)).toEqual(["title", "priority"]);
+    expect(rows[1].task).toBeNull();
+    expect(rows[1].errors).toEqual([
+      { field: "dueDate", message: "Due date must be a date, like 2025-06-30" },
+      { field: "assignee", message: 'No project member has the email or username "stranger@example.com"' },
+    ]);
+  });
+
+  it("reads its own export back", async () => {
+    await storage.createTask({ projectId: project.id, title: "-1 bugs", assignedToId: member.id }, owner.id);
+
+    const { rows, ignoredColumns } = await prepareTaskImport(project.id, "csv", formatTaskExport(await exportedTasks(), "csv"));
+    expect(ignoredColumns).toEqual(["id", "creator", "createdAt", "updatedAt"]);
+    expect(rows[0]).toMatchObject({ errors: [], task: { title: "-1 bugs", assignedToId: member.id } });
+  });
+
+  it("refuses files it cannot read as a whole", async () => {
+    await expect(prepareTaskImport(project.id, "csv", "title\n")).rejects.toThrow("The file has no tasks");
+    await expect(prepareTaskImport(project.id, "csv", "name,title\na,b\n")).rejects.toThrow(
+      'The columns "name" and "title" both hold the title',
+    );
+    await expect(prepareTaskImport(project.id, "csv", "status\ntodo\n")).rejects.toThrow("The file needs a title column");
+    await expect(prepareTaskImport(project.id, "csv", 'title\n"open\n')).rejects.toThrow("never closed");
+    await expect(prepareTaskImport(project.id, "json", "{}")).rejects.toThrow("must hold an array");
+    await expect(prepareTaskImport(project.id, "json", "[")).rejects.toThrow("not valid JSON");
+  });
+});
@@ -0,0 +1,287 @@
+import { storage } from "./storage";
+import {
+  insertTaskSchema,
+  type InsertTask,
+  type ProjectMemberWithUser,
+  type TaskFileFormat,
+  type TaskImportError,
+  type TaskImportRow,
+  type TaskWithRelations,
+  type UserPublic,
+} from "@shared/schema";
+
+// Bulk export and import of tasks as CSV or JSON. Both formats hold the same
+// flat record per task, with people named by email, so an export can be
+// edited in a spreadsheet and imported again. An import reads its columns
+// by name: the ones below map onto insertTaskSchema, assignees are looked
+// up among the project's members by email or username, and anything else
+// (the exported id, creator and timestamps) is ignored.
+
+const MAX_IMPORT_ROWS = 1000;
+
+const exportColumns = [
+  "id",
+  "title",
+  "description",
+  "status",
+  "priority",
+  "dueDate",
+  "assignee",
+  "creator",
+  "createdAt",
+  "updatedAt",
+] as const;
+
+type TaskRecord = Record<(typeof exportColumns)[number], string | null>;
+
+type ImportField = "title" | "description" | "status" | "priority" | "dueDate" | "assignee";
+
+// Keyed by the column name in lower case without spaces or punctuation, so
+// "Due date", "due_date" and "dueDate" all match
+const importColumns: Record<string, ImportField> = {
+  title: "title",
+  name: "title",
+  description: "description",
+  status: "status",
+  priority: "priority",
+  duedate: "dueDate",
+  due: "dueDate",
+  assignee: "assignee",
+  assignedto: "assignee",
+  assigneeemail: "assignee",
+  assigneeusername: "assignee",
+};
+
+// Spreadsheet apps evaluate cells starting with these as formulas, so an
+// export prefixes such values with an apostrophe and an import drops it
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const ESCAPED_FORMULA_PREFIX = /^'(?=[=+\-@\t\r])/;
+
+function toTaskRecord(task: TaskWithRelations): TaskRecord {
+  return {
+    id: task.id,
+    title: task.title,
+    description: task.description,
+    status: task.status,
+    priority: task.priority,
+    dueDate: task.dueDate ? task.dueDate.toISOString() : null,
+    assignee: task.assignedTo?.email ?? null,
+    creator: task.creator.email,
+    createdAt: task.createdAt.toISOString(),
+    updatedAt: task.updatedAt.toISOString(),
+  };
+}
+
+function toCsvCell(value: string | null): string {
+  if (value === null) return "";
+  const cell = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+export function formatTaskExport(tasks: TaskWithRelations[], format: TaskFileFormat): string {
+  const records = tasks.map(toTaskRecord);
+  if (format === "json") {
+    return JSON.stringify(records, null, 2);
+  }
+  const lines = [
+    exportColumns.join(","),
+    ...records.map((record) => exportColumns.map((column) => toCsvCell(record[column])).join(",")),
+  ];
+  return lines.join("\r\n") + "\r\n";
+}
+
+// RFC 4180: quoted values may hold commas, line breaks and doubled quotes.
+// Blank lines are skipped.
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char !== '"') {
+        cell += char;
+      } else if (content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) {
+    throw new Error("The CSV file has a quoted value that is never closed");
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ""));
+}
+
+type ParsedFile = {
+  columns: string[];
+  records: { row: number; values: Record<string, unknown> }[];
+};
+
+function parseCsvFile(content: string): ParsedFile {
+  const [header = [], ...rows] = parseCsv(content);
+  const columns = header.map((column) => column.trim());
+  return {
+    columns,
+    records: rows.map((cells, index) => ({
+      row: index + 2,
+      values: Object.fromEntries(columns.map((column, i) => [column, cells[i]])),
+    })),
+  };
+}
+
+function parseJsonFile(content: string): ParsedFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+  if (!Array.isArray(data) || !data.every((item) => item && typeof item === "object" && !Array.isArray(item))) {
+    throw new Error("The JSON file must hold an array of task objects");
+  }
+  const columns = Array.from(new Set(data.flatMap((item) => Object.keys(item))));
+  return {
+    columns,
+    records: data.map((values, index) => ({ row: index + 1, values })),
+  };
+}
+
+function normalizeColumn(column: string): string {
+  return column.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+// Empty cells count as missing, so the schema defaults apply
+function cleanValue(value: unknown): unknown {
+  if (value === null) return undefined;
+  if (typeof value !== "string") return value;
+  const cleaned = value.replace(ESCAPED_FORMULA_PREFIX, "").trim();
+  return cleaned === "" ? undefined : cleaned;
+}
+
+// "In progress" and "in-progress" become "in_progress"
+function normalizeEnumValue(value: unknown): unknown {
+  return typeof value === "string" ? value.toLowerCase().replace(/[\s-]+/g, "_") : value;
+}
+
+function findMember(members: ProjectMemberWithUser[], value: string): ProjectMemberWithUser | undefined {
+  const email = value.toLowerCase();
+  return members.find((member) => member.email.toLowerCase() === email || member.username === value);
+}
+
+function toPublicMember(member: ProjectMemberWithUser): UserPublic {
+  const { role, ...user } = member;
+  return user;
+}
+
+function toImportRow(
+  projectId: string,
+  record: ParsedFile["records"][number],
+  fields: Map<ImportField, string>,
+  members: ProjectMemberWithUser[],
+): TaskImportRow {
+  const value = (field: ImportField) => {
+    const column = fields.get(field);
+    return column === undefined ? undefined : cleanValue(record.values[column]);
+  };
+  const errors: TaskImportError[] = [];
+
+  let dueDate: unknown = value("dueDate");
+  if (dueDate !== undefined) {
+    const date = typeof dueDate === "string" ? new Date(dueDate) : null;
+    if (date && !Number.isNaN(date.getTime())) {
+      dueDate = date.toISOString();
+    } else {
+      errors.push({ field: "dueDate", message: "Due date must be a date, like 2025-06-30" });
+      dueDate = undefined;
+    }
+  }
+
+  let assignee: ProjectMemberWithUser | undefined;
+  const assigneeValue = value("assignee");
+  if (assigneeValue !== undefined) {
+    assignee = typeof assigneeValue === "string" ? findMember(members, assigneeValue) : undefined;
+    if (!assignee) {
+      errors.push({ field: "assignee", message: `No project member has the email or username "${String(assigneeValue)}"` });
+    }
+  }
+
+  const parsed = insertTaskSchema.safeParse({
+    projectId,
+    // An empty title gets the schema's "Title is required"
+    title: value("title") ?? "",
+    description: value("description"),
+    status: normalizeEnumValue(value("status")),
+    priority: normalizeEnumValue(value("priority")),
+    dueDate,
+    assignedToId: assignee?.id,
+  });
+  if (!parsed.success) {
+    for (const issue of parsed.error.errors) {
+      const field = issue.path[0];
+      errors.push({ field: typeof field === "string" ? field : null, message: issue.message });
+    }
+  }
+
+  const task: InsertTask | null = parsed.success && errors.length === 0 ? parsed.data : null;
+  return { row: record.row, task, assignee: assignee ? toPublicMember(assignee) : null, errors };
+}
+
+// Reads an import file into the tasks it would create, row by row. Problems
+// with the file as a whole throw; problems with a row are reported on it.
+export async function prepareTaskImport(
+  projectId: string,
+  format: TaskFileFormat,
+  content: string,
+): Promise<{ rows: TaskImportRow[]; ignoredColumns: string[] }> {
+  // Spreadsheet apps often save CSV with a byte order mark
+  const file = format === "csv" ? parseCsvFile(content.replace(/^\uFEFF/, "")) : parseJsonFile(content);
+  if (file.records.length === 0) {
+    throw new Error("The file has no tasks");
+  }
+  if (file.records.length > MAX_IMPORT_ROWS) {
+    throw new Error(`Import at most ${MAX_IMPORT_ROWS} tasks at a time`);
+  }
+
+  const fields = new Map<ImportField, string>();
+  const ignoredColumns: string[] = [];
+  for (const column of file.columns) {
+    const field = importColumns[normalizeColumn(column)];
+    if (!field) {
+      ignoredColumns.push(column);
+    } else if (fields.has(field)) {
+      throw new Error(`The columns "${fields.get(field)}" and "${column}" both hold the ${field}`);
+    } else {
+      fields.set(field, column);
+    }
+  }
+  if (!fields.has("title")) {
+    throw new Error("The file needs a title column");
+  }
+
+  const members = await storage.getProjectMembers(projectId);
+  return {
+    rows: file.records.map((record) => toImportRow(projectId, record, fields, members)),
+    ignoredColumns,
+  };
+}
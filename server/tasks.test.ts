@@ -0,0 +1,430 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { api, connectSocket, signUp, startTestServer, ACCESS_COOKIE, type TestServer, type TestSocket } from "./test-utils";
+import { storage } from "./storage";
+
+let server: TestServer;
+const sockets: TestSocket[] = [];
+
+beforeAll(async () => {
+  server = await startTestServer();
+});
+
+afterEach(() => {
+  sockets.splice(0).forEach(({ socket }) => socket.disconnect());
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+describe("task routes", () => {
+  it("creates, reads, updates and deletes a task", async () => {
+    const { user, cookies, projectId } = await signUp(server);
+    const client = api(server, cookies);
+
+    const created = await client.post("/api/tasks", { projectId, title: "Write tests", priority: "high" });
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ title: "Write tests", priority: "high", status: "todo", creatorId: user.id });
+    expect(created.body.creator).toMatchObject({ id: user.id });
+
+    const list = await client.get(`/api/tasks?projectId=${projectId}`);
+    expect(list.body.map((task: { id: string }) => task.id)).toContain(created.body.id);
+
+    const updated = await client.patch(`/api/tasks/${created.body.id}`, { status: "completed", version: 1 });
+    expect(updated.status).toBe(200);
+    expect(updated.body.status).toBe("completed");
+
+    expect((await client.delete(`/api/tasks/${created.body.id}`)).status).toBe(200);
+    expect((await client.get(`/api/tasks/${created.body.id}`)).status).toBe(404);
+  });
+
+  it("validates the task", async () => {
+    const { cookies, projectId } = await signUp(server);
+    const res = await api(server, cookies).post("/api/tasks", { projectId, title: "" });
+    expect(res.status).toBe(400);
+    expect(res.body.message).toBe("Title is required");
+  });
+
+  it("filters the list and pages it through the X-Next-Cursor header", async () => {
+    const { cookies, projectId } = await signUp(server);
+    const client = api(server, cookies);
+    for (const [title, priority] of [
+      ["One", "low"],
+      ["Two", "high"],
+      ["Three", "high"],
+    ]) {
+      expect((await client.post("/api/tasks", { projectId, title, priority })).status).toBe(201);
+    }
+
+    const first = await client.get(`/api/tasks?projectId=${projectId}&limit=2`);
+    expect(first.body).toHaveLength(2);
+    const cursor = first.headers["x-next-cursor"];
+    expect(cursor).toEqual(expect.any(String));
+    const second = await client.get(`/api/tasks?projectId=${projectId}&limit=2&cursor=${cursor}`);
+    expect(second.body).toHaveLength(1);
+    expect(second.headers["x-next-cursor"]).toBeUndefined();
+    const titles = [...first.body, ...second.body].map((task: { title: string }) => task.title);
+    expect(titles.sort()).toEqual(["One", "Three", "Two"]);
+
+    const high = await client.get(`/api/tasks?projectId=${projectId}&priority=high&sort=priority`);
+    expect(high.body.map((task: { title: string }) => task.title).sort()).toEqual(["Three", "Two"]);
+    expect((await client.get(`/api/tasks?projectId=${projectId}&cursor=nope`)).status).toBe(400);
+    expect((await client.get(`/api/tasks?projectId=${projectId}&sort=title`)).status).toBe(400);
+  });
+
+  it("records who changed which field in the activity log", async () => {
+    const owner = await signUp(server);
+    const member = await signUp(server);
+    const client = api(server, owner.cookies);
+    await client.post(`/api/projects/${owner.projectId}/members`, { emailOrUsername: member.email });
+    const task = await client.post("/api/tasks", {
+      projectId: owner.projectId,
+      title: "Audit me",
+      assignedToId: member.user.id,
+    });
+    await api(server, member.cookies).patch(`/api/tasks/${task.body.id}`, { status: "completed", version: 1 });
+
+    const activity = await api(server, member.cookies).get(`/api/tasks/${task.body.id}/activity`);
+    expect(activity.status).toBe(200);
+    expect(activity.body).toHaveLength(1);
+    expect(activity.body[0]).toMatchObject({ field: "status", oldValue: "todo", newValue: "completed" });
+    expect(activity.body[0].actor).toMatchObject({ id: member.user.id });
+    expect(activity.body[0].createdAt).toEqual(expect.any(String));
+
+    const outsider = await signUp(server);
+    expect((await api(server, outsider.cookies).get(`/api/tasks/${task.body.id}/activity`)).status).toBe(404);
+  });
+
+  it("appends new tasks to the board and lets assignees move their cards", async () => {
+    const owner = await signUp(server);
+    const assignee = await signUp(server);
+    const client = api(server, owner.cookies);
+    await client.post(`/api/projects/${owner.projectId}/members`, { emailOrUsername: assignee.email });
+    const first = await client.post("/api/tasks", { projectId: owner.projectId, title: "First" });
+    const second = await client.post("/api/tasks", {
+      projectId: owner.projectId,
+      title: "Second",
+      assignedToId: assignee.user.id,
+    });
+    expect(second.body.position).toBeGreaterThan(first.body.position);
+
+    // Dropped above the first card, into another column
+    const position = first.body.position - 0.5;
+    const moved = await api(server, assignee.cookies).patch(`/api/tasks/${second.body.id}`, { status: "review", position, version: 1 });
+    expect(moved.status).toBe(200);
+    expect(moved.body).toMatchObject({ status: "review", position });
+    const renamed = await api(server, assignee.cookies).patch(`/api/tasks/${second.body.id}`, { title: "Mine", position: 0, version: 2 });
+    expect(renamed.status).toBe(403);
+    expect((await client.patch(`/api/tasks/${first.body.id}`, { position: "top" })).status).toBe(400);
+  });
+
+  it("rejects an update based on an old version with 409 and the current copy", async () => {
+    const { cookies, projectId } = await signUp(server);
+    const client = api(server, cookies);
+    const task = await client.post("/api/tasks", { projectId, title: "Contended" });
+    expect(task.body.version).toBe(1);
+
+    const first = await client.patch(`/api/tasks/${task.body.id}`, { title: "First writer", version: 1 });
+    expect(first.status).toBe(200);
+    expect(first.body.version).toBe(2);
+
+    const stale = await client.patch(`/api/tasks/${task.body.id}`, { title: "Second writer", version: 1 });
+    expect(stale.status).toBe(409);
+    expect(stale.body.message).toBe("This task was changed by someone else");
+    expect(stale.body.task).toMatchObject({ id: task.body.id, title: "First writer", version: 2 });
+
+    const overwrite = await client.patch(`/api/tasks/${task.body.id}`, { title: "Second writer", version: 2 });
+    expect(overwrite.body).toMatchObject({ title: "Second writer", version: 3 });
+  });
+
+  it("needs the version for every edit except reordering a card", async () => {
+    const { cookies, projectId } = await signUp(server);
+    const client = api(server, cookies);
+    const task = await client.post("/api/tasks", { projectId, title: "Unversioned" });
+
+    for (const edit of [{ title: "Blind" }, { status: "completed" }, { status: "review", position: 3 }]) {
+      const res = await client.patch(`/api/tasks/${task.body.id}`, edit);
+      expect(res.status).toBe(400);
+      expect(res.body.message).toBe("version is required to update a task");
+    }
+
+    const reordered = await client.patch(`/api/tasks/${task.body.id}`, { position: 3 });
+    expect(reordered.status).toBe(200);
+    expect(reordered.body).toMatchObject({ title: "Unversioned", position: 3, version: 2 });
+  });
+
+  it("answers 404 when the task is deleted while the update is checked", async () => {
+    const { cookies, projectId } = await signUp(server);
+    const client = api(server, cookies);
+    const task = await client.post("/api/tasks", { projectId, title: "Doomed" });
+
+    const updateTask = storage.updateTask.bind(storage);
+    const spy = vi.spyOn(storage, "updateTask").mockImplementationOnce(async (id, data, actorId) => {
+      await storage.deleteTask(id);
+      return updateTask(id, data, actorId);
+    });
+    try {
+      const res = await client.patch(`/api/tasks/${task.body.id}`, { title: "Too late", version: 1 });
+      expect(res.status).toBe(404);
+      expect(res.body.message).toBe("Task not found");
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it("needs authentication", async () => {
+    expect((await api(server).get("/api/tasks?projectId=any")).status).toBe(401);
+    expect((await api(server).post("/api/tasks", { projectId: "any", title: "Anonymous" })).status).toBe(401);
+  });
+
+  it("sends task events to sockets", async () => {
+    const { cookies, projectId } = await signUp(server);
+    const listener = connectSocket(server, cookies[ACCESS_COOKIE]);
+    sockets.push(listener);
+    await listener.connected;
+
+    const created = listener.next("task:created");
+    const res = await api(server, cookies).post("/api/tasks", { projectId, title: "Broadcast me" });
+    expect(await created).toMatchObject({ taskId: res.body.id, data: { title: "Broadcast me" } });
+
+    const deleted = listener.next("task:deleted");
+    await api(server, cookies).delete(`/api/tasks/${res.body.id}`);
+    expect(await deleted).toEqual({ taskId: res.body.id });
+  });
+});
+
+describe("subtasks", () => {
+  it("adds, ticks off, reorders and deletes subtasks and reports progress", async () => {
+    const { cookies, projectId } = await signUp(server);
+    const client = api(server, cookies);
+    const task = await client.post("/api/tasks", { projectId, title: "Release" });
+    const url = `/api/tasks/${task.body.id}/subtasks`;
+
+    const build = await client.post(url, { title: "Build" });
+    expect(build.status).toBe(201);
+    expect(build.body).toMatchObject({ title: "Build", isCompleted: false, position: 0 });
+    const tag = await client.post(url, { title: "Tag" });
+    expect(tag.body.position).toBe(1);
+    expect((await client.post(url, { title: " " })).status).toBe(400);
+
+    expect((await client.patch(`${url}/${build.body.id}`, { isCompleted: true })).body.isCompleted).toBe(true);
+    expect((await client.get(`/api/tasks/${task.body.id}`)).body.subtaskProgress).toEqual({ total: 2, completed: 1 });
+
+    await client.patch(`${url}/${build.body.id}`, { position: 2 });
+    const list = await client.get(url);
+    expect(list.body.map((subtask: { title: string }) => subtask.title)).toEqual(["Tag", "Build"]);
+
+    expect((await client.delete(`${url}/${tag.body.id}`)).status).toBe(200);
+    expect((await client.delete(`${url}/${tag.body.id}`)).status).toBe(404);
+    expect((await client.get(`/api/tasks/${task.body.id}`)).body.subtaskProgress).toEqual({ total: 1, completed: 1 });
+  });
+
+  it("lets assignees tick items off but not edit them", async () => {
+    const owner = await signUp(server);
+    const assignee = await signUp(server);
+    const client = api(server, owner.cookies);
+    await client.post(`/api/projects/${owner.projectId}/members`, { emailOrUsername: assignee.email });
+    const task = await client.post("/api/tasks", {
+      projectId: owner.projectId,
+      title: "Assigned",
+      assignedToId: assignee.user.id,
+    });
+    const url = `/api/tasks/${task.body.id}/subtasks`;
+    const item = await client.post(url, { title: "Check" });
+
+    const assigneeClient = api(server, assignee.cookies);
+    expect((await assigneeClient.patch(`${url}/${item.body.id}`, { isCompleted: true })).status).toBe(200);
+    expect((await assigneeClient.patch(`${url}/${item.body.id}`, { title: "Renamed" })).status).toBe(403);
+    expect((await assigneeClient.post(url, { title: "More" })).status).toBe(403);
+    expect((await assigneeClient.delete(`${url}/${item.body.id}`)).status).toBe(403);
+  });
+
+  it("blocks completing a task with open subtasks when the project requires it", async () => {
+    const { cookies, projectId } = await signUp(server);
+    const client = api(server, cookies);
+    const task = await client.post("/api/tasks", { projectId, title: "Gated" });
+    const item = await client.post(`/api/tasks/${task.body.id}/subtasks`, { title: "First" });
+
+    // Off by default
+    expect((await client.patch(`/api/tasks/${task.body.id}`, { status: "completed", version: 1 })).status).toBe(200);
+    await client.patch(`/api/tasks/${task.body.id}`, { status: "todo", version: 2 });
+
+    const project = await client.patch(`/api/projects/${projectId}`, { requireSubtasksComplete: true });
+    expect(project.body.requireSubtasksComplete).toBe(true);
+    const blocked = await client.patch(`/api/tasks/${task.body.id}`, { status: "completed", version: 3 });
+    expect(blocked.status).toBe(400);
+    expect(blocked.body.message).toBe("Complete all subtasks before completing this task");
+
+    await client.patch(`/api/tasks/${task.body.id}/subtasks/${item.body.id}`, { isCompleted: true });
+    expect((await client.patch(`/api/tasks/${task.body.id}`, { status: "completed", version: 3 })).status).toBe(200);
+  });
+
+  it("sends subtask events and the parent's new progress to sockets", async () => {
+    const { cookies, projectId } = await signUp(server);
+    const listener = connectSocket(server, cookies[ACCESS_COOKIE]);
+    sockets.push(listener);
+    await listener.connected;
+    const task = await api(server, cookies).post("/api/tasks", { projectId, title: "Watched" });
+
+    const created = listener.next("subtask:created");
+    const parent = listener.next("task:updated");
+    const item = await api(server, cookies).post(`/api/tasks/${task.body.id}/subtasks`, { title: "Item" });
+    expect(await created).toMatchObject({ taskId: task.body.id, subtaskId: item.body.id, data: { title: "Item" } });
+    expect(await parent).toMatchObject({ taskId: task.body.id, data: { subtaskProgress: { total: 1, completed: 0 } } });
+
+    const deleted = listener.next("subtask:deleted");
+    await api(server, cookies).delete(`/api/tasks/${task.body.id}/subtasks/${item.body.id}`);
+    expect(await deleted).toMatchObject({ taskId: task.body.id, subtaskId: item.body.id });
+  });
+});
+
+describe("task dependencies", () => {
+  async function createTasks(titles: string[]) {
+    const user = await signUp(server);
+    const client = api(server, user.cookies);
+    const ids: string[] = [];
+    for (const title of titles) {
+      ids.push((await client.post("/api/tasks", { projectId: user.projectId, title })).body.id);
+    }
+    return { user, client, ids };
+  }
+
+  it("links and unlinks blockers and counts the open ones", async () => {
+    const { client, ids } = await createTasks(["Design", "Build"]);
+    const [design, build] = ids;
+
+    const link = await client.post(`/api/tasks/${build}/dependencies`, { blockerId: design });
+    expect(link.status).toBe(201);
+    expect(link.body).toMatchObject({ blockerId: design, blockedId: build });
+    expect((await client.get(`/api/tasks/${build}`)).body.openBlockerCount).toBe(1);
+
+    const dependencies = await client.get(`/api/tasks/${build}/dependencies`);
+    expect(dependencies.body.blockedBy.map((task: { id: string }) => task.id)).toEqual([design]);
+    expect(dependencies.body.blocks).toEqual([]);
+    const blocks = await client.get(`/api/tasks/${design}/dependencies`);
+    expect(blocks.body.blocks.map((task: { id: string }) => task.id)).toEqual([build]);
+
+    await client.patch(`/api/tasks/${design}`, { status: "completed", version: 1 });
+    expect((await client.get(`/api/tasks/${build}`)).body.openBlockerCount).toBe(0);
+
+    expect((await client.delete(`/api/tasks/${build}/dependencies/${design}`)).status).toBe(200);
+    expect((await client.delete(`/api/tasks/${build}/dependencies/${design}`)).status).toBe(404);
+  });
+
+  it("rejects self links, duplicates, other projects and cycles", async () => {
+    const { user, client, ids } = await createTasks(["A", "B", "C"]);
+    const [a, b, c] = ids;
+    const link = (blocked: string, blockerId: string) => client.post(`/api/tasks/${blocked}/dependencies`, { blockerId });
+
+    expect((await link(a, a)).body.message).toBe("A task cannot block itself");
+    expect((await link(b, a)).status).toBe(201);
+    expect((await link(c, b)).status).toBe(201);
+    const duplicate = await link(b, a);
+    expect(duplicate.status).toBe(400);
+    expect(duplicate.body.message).toBe("This dependency already exists");
+
+    // A blocks B blocks C, so C blocking A closes the loop
+    const cycle = await link(a, c);
+    expect(cycle.status).toBe(400);
+    expect(cycle.body.message).toBe("This dependency would create a cycle: A → B → C → A");
+
+    const other = await api(server, user.cookies).post("/api/projects", { name: "Elsewhere" });
+    const foreign = await client.post("/api/tasks", { projectId: other.body.id, title: "Foreign" });
+    expect((await link(a, foreign.body.id)).body.message).toBe("Blocking task must belong to the same project");
+  });
+
+  it("keeps blocked tasks out of progress when the project requires it", async () => {
+    const { user, client, ids } = await createTasks(["Blocker", "Blocked"]);
+    const [blocker, blocked] = ids;
+    await client.post(`/api/tasks/${blocked}/dependencies`, { blockerId: blocker });
+    await client.patch(`/api/projects/${user.projectId}`, { requireBlockersComplete: true });
+
+    const refused = await client.patch(`/api/tasks/${blocked}`, { status: "in_progress", version: 1 });
+    expect(refused.status).toBe(400);
+    expect(refused.body.message).toBe("This task is blocked by tasks that are not completed yet");
+
+    await client.patch(`/api/tasks/${blocker}`, { status: "completed", version: 1 });
+    expect((await client.patch(`/api/tasks/${blocked}`, { status: "in_progress", version: 1 })).status).toBe(200);
+  });
+});
+
+describe("task import and export", () => {
+  it("exports the project's tasks as a CSV download", async () => {
+    const { cookies, projectId } = await signUp(server);
+    const client = api(server, cookies);
+    await client.post("/api/tasks", { projectId, title: "Exported", priority: "high" });
+    await client.post("/api/tasks", { projectId, title: "Filtered out", priority: "low" });
+
+    const res = await client.get(`/api/tasks/export?projectId=${projectId}&priority=high`);
+    expect(res.status).toBe(200);
+    expect(res.headers["content-disposition"]).toMatch(/^attachment; filename="tasks-\d{4}-\d{2}-\d{2}\.csv"$/);
+    const lines = res.text.trim().split("\r\n");
+    expect(lines).toHaveLength(2);
+    expect(lines[1]).toContain(",Exported,");
+  });
+
+  it("hides other projects' tasks from export and import", async () => {
+    const owner = await signUp(server);
+    const outsider = await signUp(server);
+    const client = api(server, outsider.cookies);
+
+    expect((await client.get(`/api/tasks/export?projectId=${owner.projectId}`)).status).toBe(404);
+    const imported = await client.post("/api/tasks/import", {
+      projectId: owner.projectId,
+      format: "csv",
+      content: "title\nSneaky\n",
+      dryRun: false,
+    });
+    expect(imported.status).toBe(404);
+  });
+
+  it("previews an import without creating anything", async () => {
+    const { cookies, projectId } = await signUp(server);
+    const client = api(server, cookies);
+
+    const res = await client.post("/api/tasks/import", { projectId, format: "csv", content: "title,priority\nOne,high\n" });
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ dryRun: true, imported: 0, rows: [{ row: 2, task: { title: "One" }, errors: [] }] });
+    expect((await client.get(`/api/tasks?projectId=${projectId}`)).body).toEqual([]);
+  });
+
+  it("imports all rows or none", async () => {
+    const { cookies, projectId } = await signUp(server);
+    const client = api(server, cookies);
+
+    const rejected = await client.post("/api/tasks/import", {
+      projectId,
+      format: "json",
+      content: JSON.stringify([{ title: "Good" }, { title: "" }]),
+      dryRun: false,
+    });
+    expect(rejected.status).toBe(400);
+    expect(rejected.body.message).toBe("Fix the rows with errors before importing");
+    expect((await client.get(`/api/tasks?projectId=${projectId}`)).body).toEqual([]);
+
+    const socket = connectSocket(server, cookies[ACCESS_COOKIE]);
+    sockets.push(socket);
+    await socket.connected;
+    const created = socket.next("task:created");
+    const imported = await client.post("/api/tasks/import", {
+      projectId,
+      format: "json",
+      content: JSON.stringify([{ title: "Good" }, { title: "Also good" }]),
+      dryRun: false,
+    });
+    expect(imported.status).toBe(201);
+    expect(imported.body.imported).toBe(2);
+    expect(await created).toMatchObject({ data: { title: "Good" } });
+    const titles = (await client.get(`/api/tasks?projectId=${projectId}`)).body.map((t: { title: string }) => t.title);
+    expect(titles.sort()).toEqual(["Also good", "Good"]);
+  });
+
+  it("accepts files over the default body size limit", async () => {
+    const { cookies, projectId } = await signUp(server);
+    const content = `title,description\n${Array.from({ length: 200 }, (_, i) => `Task ${i},${"x".repeat(1000)}`).join("\n")}\n`;
+
+    const res = await api(server, cookies).post("/api/tasks/import", { projectId, format: "csv", content });
+    expect(res.status).toBe(200);
+    expect(res.body.rows).toHaveLength(200);
+  });
+});
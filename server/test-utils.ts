@@ -0,0 +1,235 @@
+import express from "express";
+import cookieParser from "cookie-parser";
+import { createHmac } from "crypto";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import request from "supertest";
+import { io, type Socket } from "socket.io-client";
+import { vi } from "vitest";
+import { registerRoutes } from "./routes";
+import { mailer, type MailMessage } from "./mailer";
+import { authRateLimits } from "./rate-limit";
+import type { EventPosition } from "./event-log";
+import type { UserPublic } from "@shared/schema";
+
+// Helpers for the server tests, which run the routes against MemStorage
+// (STORAGE_DRIVER=memory, see vitest.config.ts)
+
+export const TEST_PASSWORD = "Password123!";
+export const ACCESS_COOKIE = "taskflow_token";
+export const REFRESH_COOKIE = "taskflow_refresh";
+
+export interface TestServer {
+  httpServer: Server;
+  url: string;
+  close(): Promise<void>;
+}
+
+// The API on a free port of 127.0.0.1, set up like server/index.ts minus
+// the request log and the client. A fixed `port` is for tests whose config
+// needs the server's URL before it starts.
+export async function startTestServer(port = 0): Promise<TestServer> {
+  const app = express();
+  app.use(cookieParser());
+  app.use("/api/tasks/import", express.json({ limit: "5mb" }));
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+  const httpServer = createServer(app);
+  await registerRoutes(httpServer, app);
+  await new Promise<void>((resolve) => httpServer.listen(port, "127.0.0.1", resolve));
+  const address = httpServer.address() as AddressInfo;
+  return {
+    httpServer,
+    url: `http://127.0.0.1:${address.port}`,
+    close: () =>
+      new Promise((resolve, reject) => {
+        httpServer.closeAllConnections();
+        httpServer.close((err) => (err ? reject(err) : resolve()));
+      }),
+  };
+}
+
+// The cookies a response sets, by name. Cleared cookies come back empty.
+export function getSetCookies(headers: Record<string, unknown>): Record<string, string> {
+  const setCookie = headers["set-cookie"];
+  const lines = Array.isArray(setCookie) ? setCookie : typeof setCookie === "string" ? [setCookie] : [];
+  const cookies: Record<string, string> = {};
+  for (const line of lines) {
+    const [pair] = line.split(";");
+    const index = pair.indexOf("=");
+    cookies[pair.slice(0, index)] = decodeURIComponent(pair.slice(index + 1));
+  }
+  return cookies;
+}
+
+export function cookieHeader(cookies: Record<string, string>): string {
+  return Object.entries(cookies)
+    .map(([name, value]) => `${name}=${encodeURIComponent(value)}`)
+    .join("; ");
+}
+
+function base32Decode(input: string): Buffer {
+  const alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+  let bits = "";
+  for (const char of input.toUpperCase()) {
+    bits += alphabet.indexOf(char).toString(2).padStart(5, "0");
+  }
+  const bytes = bits.match(/.{8}/g) ?? [];
+  return Buffer.from(bytes.map((byte) => parseInt(byte, 2)));
+}
+
+// The code an authenticator app shows for the secret, computed here rather
+// than with server/totp.ts so the tests check it against RFC 6238. `step`
+// moves to the code before or after the current one.
+export function totpCode(secret: string, step = 0, now = Date.now()): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(Math.floor(now / 30_000) + step));
+  const hmac = createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 15;
+  return String((hmac.readUInt32BE(offset) & 0x7fffffff) % 1_000_000).padStart(6, "0");
+}
+
+// Requests sent with a user's cookies, or anonymously without them
+export function api(server: TestServer, cookies: Record<string, string> = {}) {
+  const cookie = cookieHeader(cookies);
+  return {
+    get: (url: string) => request(server.url).get(url).set("Cookie", cookie),
+    post: (url: string, body?: object) => request(server.url).post(url).set("Cookie", cookie).send(body),
+    patch: (url: string, body?: object) => request(server.url).patch(url).set("Cookie", cookie).send(body),
+    delete: (url: string) => request(server.url).delete(url).set("Cookie", cookie),
+  };
+}
+
+export interface TestUser {
+  user: UserPublic;
+  email: string;
+  cookies: Record<string, string>;
+  // The workspace project registration creates
+  projectId: string;
+}
+
+let userCount = 0;
+
+// Registers a new user with a unique name and returns their cookies and
+// workspace
+export async function signUp(server: TestServer, name = "user"): Promise<TestUser> {
+  const username = `${name}${++userCount}`;
+  const email = `${username}@example.com`;
+  // Every test user registers from 127.0.0.1, which the per-IP limit would
+  // soon throttle
+  await authRateLimits.registerIp.reset("127.0.0.1");
+  const res = await api(server).post("/api/auth/register", { username, email, password: TEST_PASSWORD });
+  if (res.status !== 201) {
+    throw new Error(`Registering ${username} failed with ${res.status}: ${res.body.message}`);
+  }
+  const cookies = getSetCookies(res.headers);
+  const projects = await api(server, cookies).get("/api/projects");
+  return { user: res.body.user, email, cookies, projectId: projects.body[0].id };
+}
+
+export interface TestSocket {
+  socket: Socket;
+  // Every event the socket was sent, in order, with the sequence number
+  // logged events carry
+  received: { event: string; data: unknown; seq?: number }[];
+  connected: Promise<void>;
+  // Resolves with the data of the next `event` the socket is sent
+  next(event: string): Promise<unknown>;
+}
+
+// `resume` is the position a reconnecting client sends to be replayed what it
+// missed
+export function connectSocket(server: TestServer, token?: string, resume?: EventPosition): TestSocket {
+  const socket = io(server.url, { path: "/ws", transports: ["websocket"], auth: { token, resume } });
+  const received: TestSocket["received"] = [];
+  socket.onAny((event: string, data: unknown, meta?: { seq: number }) => received.push({ event, data, seq: meta?.seq }));
+  const connected = new Promise<void>((resolve, reject) => {
+    socket.on("connect", resolve);
+    socket.on("connect_error", reject);
+  });
+  return {
+    socket,
+    received,
+    connected,
+    next: (event) => new Promise((resolve) => socket.once(event, resolve)),
+  };
+}
+
+export interface TestMailbox {
+  // Every message sent since the mailbox was opened, in order
+  sent: MailMessage[];
+  // Resolves with the next message sent to `to`
+  next(to: string): Promise<MailMessage>;
+}
+
+// Catches what the mailer sends instead of delivering it. Emails are sent
+// after the response, so tests wait for them with next().
+export function captureMail(): TestMailbox {
+  const sent: MailMessage[] = [];
+  const waiting: { to: string; resolve: (message: MailMessage) => void }[] = [];
+  vi.spyOn(mailer, "send").mockImplementation(async (message) => {
+    sent.push(message);
+    const index = waiting.findIndex((waiter) => waiter.to === message.to);
+    if (index !== -1) {
+      waiting.splice(index, 1)[0].resolve(message);
+    }
+  });
+  return {
+    sent,
+    next: (to) => new Promise((resolve) => waiting.push({ to, resolve })),
+  };
+}
+
+// The token of the link in an account email (reset, verification)
+export function linkToken(message: MailMessage): string {
+  const match = message.text.match(/\?token=([^\s]+)/);
+  if (!match) {
+    throw new Error(`No link in "${message.subject}"`);
+  }
+  return decodeURIComponent(match[1]);
+}
+
+export interface ReceivedWebhook {
+  headers: Record<string, string | string[] | undefined>;
+  body: string;
+}
+
+export interface WebhookReceiver {
+  url: string;
+  // Every request received, in order
+  received: ReceivedWebhook[];
+  // The status the next requests are answered with, 200 to begin with
+  status: number;
+  // Resolves with the next request received
+  next(): Promise<ReceivedWebhook>;
+  close(): Promise<void>;
+}
+
+// An HTTP server on 127.0.0.1 standing in for a webhook's receiver
+export async function startWebhookReceiver(): Promise<WebhookReceiver> {
+  const waiting: ((request: ReceivedWebhook) => void)[] = [];
+  const receiver: WebhookReceiver = {
+    url: "",
+    received: [],
+    status: 200,
+    next: () => new Promise((resolve) => waiting.push(resolve)),
+    close: () =>
+      new Promise((resolve, reject) => {
+        httpServer.closeAllConnections();
+        httpServer.close((err) => (err ? reject(err) : resolve()));
+      }),
+  };
+  const httpServer = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      const request = { headers: req.headers, body: Buffer.concat(chunks).toString() };
+      receiver.received.push(request);
+      res.writeHead(receiver.status).end("ok");
+      waiting.shift()?.(request);
+    });
+  });
+  await new Promise<void>((resolve) => httpServer.listen(0, "127.0.0.1", resolve));
+  receiver.url = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/hook`;
+  return receiver;
+}
@@ -0,0 +1,13 @@
+import { createHash, randomBytes } from "crypto";
+
+// Opaque bearer secrets (refresh tokens and the like). They carry enough
+// entropy that a plain SHA-256 is a safe way to store them; only the hash
+// ever reaches the database.
+
+export function generateToken(bytes = 32): string {
+  return randomBytes(bytes).toString("base64url");
+}
+
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
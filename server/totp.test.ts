@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { generateRecoveryCodes, generateTotpSecret, normalizeRecoveryCode, totpUri, verifyTotp } from "./totp";
+import { totpCode } from "./test-utils";
+
+// The SHA-1 key of the RFC 6238 test vectors, "12345678901234567890"
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+describe("verifyTotp", () => {
+  it("accepts the RFC 6238 test vectors and returns their step", () => {
+    expect(verifyTotp(RFC_SECRET, "287082", null, 59_000)).toBe(1);
+    expect(verifyTotp(RFC_SECRET, "081804", null, 1111111109_000)).toBe(37037036);
+    expect(verifyTotp(RFC_SECRET, "005924", null, 1234567890_000)).toBe(41152263);
+  });
+
+  it("allows one step of clock drift either way", () => {
+    const now = Date.now();
+    const secret = generateTotpSecret();
+    expect(verifyTotp(secret, totpCode(secret, -1, now), null, now)).not.toBeNull();
+    expect(verifyTotp(secret, totpCode(secret, 1, now), null, now)).not.toBeNull();
+    expect(verifyTotp(secret, totpCode(secret, 2, now), null, now)).toBeNull();
+  });
+
+  it("refuses codes from the last used step or before", () => {
+    const now = Date.now();
+    const secret = generateTotpSecret();
+    const step = verifyTotp(secret, totpCode(secret, 0, now), null, now)!;
+    expect(verifyTotp(secret, totpCode(secret, 0, now), step, now)).toBeNull();
+    expect(verifyTotp(secret, totpCode(secret, -1, now), step, now)).toBeNull();
+    expect(verifyTotp(secret, totpCode(secret, 1, now), step, now)).toBe(step + 1);
+  });
+
+  it("ignores spaces and refuses malformed codes", () => {
+    expect(verifyTotp(RFC_SECRET, "287 082", null, 59_000)).toBe(1);
+    expect(verifyTotp(RFC_SECRET, "28708", null, 59_000)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "28708a", null, 59_000)).toBeNull();
+  });
+});
+
+describe("totpUri", () => {
+  it("names the issuer and account for authenticator apps", () => {
+    expect(totpUri("ABC", "ann@example.com")).toBe(
+      "otpauth://totp/TaskFlow%3Aann%40example.com?secret=ABC&issuer=TaskFlow&algorithm=SHA1&digits=6&period=30",
+    );
+  });
+});
+
+describe("recovery codes", () => {
+  it("generates ten distinct codes", () => {
+    const codes = generateRecoveryCodes();
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    codes.forEach((code) => expect(code).toMatch(/^[a-z2-7]{5}-[a-z2-7]{5}$/));
+  });
+
+  it("normalizes case, spaces and dashes", () => {
+    expect(normalizeRecoveryCode("K3M7X A7QPD")).toBe("k3m7x-a7qpd");
+    expect(normalizeRecoveryCode("k3m7xa7qpd")).toBe("k3m7x-a7qpd");
+    expect(normalizeRecoveryCode(" k3m7x-a7qpd ")).toBe("k3m7x-a7qpd");
+  });
+});
@@ -0,0 +1,212 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { createHmac } from "crypto";
+import { WebhookDispatcher, generateWebhookSecret, signWebhookPayload } from "./webhooks";
+import { storage } from "./storage";
+import { startWebhookReceiver, type WebhookReceiver } from "./test-utils";
+import type { Project, Webhook } from "@shared/schema";
+
+const MINUTE_MS = 60 * 1000;
+let receiver: WebhookReceiver;
+let project: Project;
+let userCount = 0;
+
+beforeAll(async () => {
+  receiver = await startWebhookReceiver();
+});
+
+afterAll(async () => {
+  await receiver.close();
+});
+
+beforeEach(async () => {
+  receiver.received.splice(0);
+  receiver.status = 200;
+  const username = `owner${++userCount}`;
+  const owner = await storage.createUser({ username, email: `${username}@example.com`, password: "hash" });
+  project = await storage.createProject({ name: "Hooks" }, owner.id);
+});
+
+async function createWebhook(events: Webhook["events"], active = true): Promise<Webhook> {
+  return storage.createWebhook({
+    url: receiver.url,
+    events,
+    active,
+    projectId: project.id,
+    secret: generateWebhookSecret(),
+    createdById: project.ownerId,
+  });
+}
+
+async function latestDelivery(webhook: Webhook) {
+  const [delivery] = await storage.getWebhookDeliveries(webhook.id, 1);
+  return delivery;
+}
+
+// dispatch() sends in the background, so this waits for the delivery to
+// have been tried `attempts` times
+async function attempted(webhook: Webhook, attempts: number) {
+  await vi.waitFor(async () => expect((await latestDelivery(webhook))?.attempts).toBe(attempts));
+  return latestDelivery(webhook);
+}
+
+describe("signWebhookPayload", () => {
+  it("signs the timestamp and body with HMAC-SHA256", () => {
+    const expected = createHmac("sha256", "whsec_test").update('1700000000.{"a":1}').digest("hex");
+    expect(signWebhookPayload("whsec_test", "1700000000", '{"a":1}')).toBe(`sha256=${expected}`);
+  });
+});
+
+describe("WebhookDispatcher", () => {
+  it("sends subscribed events, signed with the webhook's secret", async () => {
+    const webhook = await createWebhook(["task:created"]);
+    const dispatcher = new WebhookDispatcher();
+
+    await dispatcher.dispatch(project.id, "task:created", { id: "task-1" });
+    const delivery = await attempted(webhook, 1);
+
+    expect(receiver.received).toHaveLength(1);
+    const [{ headers, body }] = receiver.received;
+    expect(JSON.parse(body)).toMatchObject({ event: "task:created", projectId: project.id, data: { id: "task-1" } });
+    expect(headers["x-taskflow-event"]).toBe("task:created");
+    const timestamp = String(headers["x-taskflow-timestamp"]);
+    expect(Math.abs(Number(timestamp) - Date.now() / 1000)).toBeLessThan(5);
+    expect(headers["x-taskflow-signature"]).toBe(signWebhookPayload(webhook.secret, timestamp, body));
+
+    expect(headers["x-taskflow-delivery"]).toBe(delivery.id);
+    expect(delivery).toMatchObject({ status: "succeeded", attempts: 1, responseStatus: 200, nextAttemptAt: null });
+  });
+
+  it("skips events the webhook does not subscribe to and disabled webhooks", async () => {
+    const updates = await createWebhook(["task:updated"]);
+    const disabled = await createWebhook(["task:created"], false);
+    const dispatcher = new WebhookDispatcher();
+
+    await dispatcher.dispatch(project.id, "task:created", { id: "task-1" });
+    await dispatcher.dispatch(project.id, "comment:created", { id: "comment-1" });
+    await dispatcher.tick();
+
+    expect(receiver.received).toHaveLength(0);
+    expect(await latestDelivery(updates)).toBeUndefined();
+    expect(await latestDelivery(disabled)).toBeUndefined();
+  });
+
+  it("retries a failed delivery with backoff, then marks it failed", async () => {
+    const webhook = await createWebhook(["task:deleted"]);
+    const dispatcher = new WebhookDispatcher();
+    receiver.status = 500;
+
+    await dispatcher.dispatch(project.id, "task:deleted", { id: "task-1" });
+    let delivery = await attempted(webhook, 1);
+    expect(delivery).toMatchObject({ status: "pending", attempts: 1, responseStatus: 500 });
+    expect(delivery.error).toBe("The receiver answered with status 500");
+    const retryIn = delivery.nextAttemptAt!.getTime() - Date.now();
+    expect(retryIn).toBeGreaterThan(MINUTE_MS - 5000);
+    expect(retryIn).toBeLessThanOrEqual(MINUTE_MS);
+
+    // Not due yet
+    await dispatcher.tick();
+    expect(receiver.received).toHaveLength(1);
+
+    // The five retries, each run once it is due
+    for (let attempt = 2; attempt <= 6; attempt++) {
+      const due = (await latestDelivery(webhook)).nextAttemptAt!;
+      await dispatcher.tick(due);
+    }
+    expect(receiver.received).toHaveLength(6);
+    delivery = await latestDelivery(webhook);
+    expect(delivery).toMatchObject({ status: "failed", attempts: 6, nextAttemptAt: null });
+  });
+
+  it("succeeds on a retry once the receiver recovers", async () => {
+    const webhook = await createWebhook(["task:updated"]);
+    const dispatcher = new WebhookDispatcher();
+    receiver.status = 503;
+
+    await dispatcher.dispatch(project.id, "task:updated", { id: "task-1" });
+    await attempted(webhook, 1);
+    receiver.status = 204;
+    await dispatcher.tick(new Date(Date.now() + MINUTE_MS));
+
+    expect(await latestDelivery(webhook)).toMatchObject({ status: "succeeded", attempts: 2, responseStatus: 204, error: null });
+  });
+
+  it("records an unreachable receiver as the error", async () => {
+    const gone = await startWebhookReceiver();
+    await gone.close();
+    const webhook = await storage.createWebhook({
+      url: gone.url,
+      events: ["task:created"],
+      active: true,
+      projectId: project.id,
+      secret: generateWebhookSecret(),
+      createdById: project.ownerId,
+    });
+    const dispatcher = new WebhookDispatcher();
+
+    await dispatcher.dispatch(project.id, "task:created", { id: "task-1" });
+
+    const delivery = await attempted(webhook, 1);
+    expect(delivery).toMatchObject({ status: "pending", attempts: 1, responseStatus: null });
+    expect(delivery.error).toMatch(/ECONNREFUSED/);
+  });
+
+  it("redelivers the same payload as a new delivery", async () => {
+    const webhook = await createWebhook(["task:created"]);
+    const dispatcher = new WebhookDispatcher();
+    await dispatcher.dispatch(project.id, "task:created", { id: "task-1" });
+    const original = await attempted(webhook, 1);
+
+    const redelivery = await dispatcher.redeliver(original);
+    await vi.waitFor(async () => expect((await storage.getWebhookDelivery(redelivery.id))?.status).toBe("succeeded"));
+
+    expect(redelivery).toMatchObject({ redeliveryOfId: original.id, payload: original.payload });
+    expect(receiver.received.map((r) => r.body)).toEqual([original.payload, original.payload]);
+    expect(receiver.received[1].headers["x-taskflow-delivery"]).toBe(redelivery.id);
+  });
+});
+
+describe("WebhookDispatcher without WEBHOOK_ALLOW_PRIVATE_NETWORKS", () => {
+  // The setting is read when the module loads, so these tests load it anew,
+  // along with a storage of their own
+  async function loadWebhooks() {
+    vi.stubEnv("WEBHOOK_ALLOW_PRIVATE_NETWORKS", "");
+    vi.resetModules();
+    const [webhooks, { storage }] = await Promise.all([import("./webhooks"), import("./storage")]);
+    const user = await storage.createUser({ username: "admin", email: "admin@example.com", password: "hash" });
+    const hooked = await storage.createProject({ name: "Private" }, user.id);
+    return { ...webhooks, storage, project: hooked };
+  }
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it.each([
+    ["a loopback address", (url: string) => url, "127.0.0.1"],
+    // Whichever of 127.0.0.1 and ::1 the resolver answers first
+    ["a host name that resolves to loopback", (url: string) => url.replace("127.0.0.1", "localhost"), ""],
+    ["an IPv6 loopback address", () => "http://[::1]:9/hook", "::1"],
+    ["an IPv4-mapped IPv6 address", () => "http://[::ffff:10.0.0.1]:9/hook", "::ffff:a00:1"],
+    ["a private address", () => "http://192.168.1.20/hook", "192.168.1.20"],
+    ["a link-local address", () => "http://169.254.169.254/latest/meta-data", "169.254.169.254"],
+  ])("refuses to send to %s", async (_label, toUrl, address) => {
+    const { WebhookDispatcher, storage: isolated, project: hooked } = await loadWebhooks();
+    const webhook = await isolated.createWebhook({
+      url: toUrl(receiver.url),
+      events: ["task:created"],
+      active: true,
+      projectId: hooked.id,
+      secret: generateWebhookSecret(),
+      createdById: hooked.ownerId,
+    });
+
+    await new WebhookDispatcher().dispatch(hooked.id, "task:created", { id: "task-1" });
+    await vi.waitFor(async () => {
+      const [delivery] = await isolated.getWebhookDeliveries(webhook.id, 1);
+      expect(delivery).toMatchObject({ attempts: 1, responseStatus: null });
+      expect(delivery.error).toContain(`resolves to ${address}`);
+      expect(delivery.error).toContain("which is not a public address");
+    });
+    expect(receiver.received).toHaveLength(0);
+  });
+});
@@ -0,0 +1,265 @@
+import { createHmac } from "crypto";
+import { lookup, type LookupAddress, type LookupAllOptions } from "dns";
+import http from "http";
+import https from "https";
+import { BlockList, isIP, type LookupFunction } from "net";
+import { storage } from "./storage";
+import { generateToken } from "./tokens";
+import { webhookEventTypes, type WebhookDelivery, type WebhookEventType } from "@shared/schema";
+
+// Outgoing webhooks. A task event is queued in storage as one delivery per
+// active webhook of the project that subscribes to it, and a background job
+// in the server process POSTs the deliveries. Each request carries the
+// X-TaskFlow-Event, X-TaskFlow-Delivery and X-TaskFlow-Timestamp headers and
+// X-TaskFlow-Signature: "sha256=" followed by the hex HMAC-SHA256 of
+// "<timestamp>.<body>" keyed with the webhook's secret, so receivers can
+// check the sender and reject replays. Anything but a 2xx answer within
+// REQUEST_TIMEOUT_MS is retried after each of RETRY_DELAYS_MS in turn, then
+// the delivery is marked failed. Only the status of the answer is kept.
+//
+// A webhook URL is chosen by project admins but requested by the server, so
+// the host is resolved when sending and the request refused if any of its
+// addresses is loopback, private, link-local or otherwise not public. The
+// socket then connects to the address that was checked, so a DNS answer that
+// changes between the check and the connection cannot get around it. Set
+// WEBHOOK_ALLOW_PRIVATE_NETWORKS=true to send to such addresses, as local
+// development needs.
+
+const INTERVAL_MS = Number(process.env.WEBHOOK_INTERVAL_MS) || 5_000;
+const REQUEST_TIMEOUT_MS = 10_000;
+const MINUTE_MS = 60 * 1000;
+const RETRY_DELAYS_MS = [MINUTE_MS, 5 * MINUTE_MS, 30 * MINUTE_MS, 2 * 60 * MINUTE_MS, 6 * 60 * MINUTE_MS];
+const BATCH_SIZE = 20;
+// A claimed delivery comes due again after this, should its process die
+// while sending it
+const LEASE_MS = 2 * REQUEST_TIMEOUT_MS;
+const RETENTION_MS = 30 * 24 * 60 * MINUTE_MS;
+const SECRET_PREFIX = "whsec_";
+
+export function generateWebhookSecret(): string {
+  return SECRET_PREFIX + generateToken(24);
+}
+
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return "sha256=" + createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+export function isWebhookEvent(event: string): event is WebhookEventType {
+  return (webhookEventTypes as readonly string[]).includes(event);
+}
+
+const ALLOW_PRIVATE_NETWORKS = process.env.WEBHOOK_ALLOW_PRIVATE_NETWORKS === "true";
+
+// Addresses that are not on the public internet. IPv4-mapped IPv6 addresses
+// are checked against the IPv4 ranges.
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+function checkAddress(address: string): void {
+  const family = isIP(address) === 6 ? "ipv6" : "ipv4";
+  if (!ALLOW_PRIVATE_NETWORKS && blockedAddresses.check(address, family)) {
+    throw new Error(`The webhook URL resolves to ${address}, which is not a public address`);
+  }
+}
+
+// Resolves like the default lookup, but fails when any of the host's
+// addresses is blocked
+const checkedLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true } as LookupAllOptions, (err, addresses: LookupAddress[]) => {
+    if (err) {
+      callback(err, "");
+      return;
+    }
+    try {
+      addresses.forEach((entry) => checkAddress(entry.address));
+    } catch (error) {
+      callback(error as NodeJS.ErrnoException, "");
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+// POSTs the body and resolves with the status of the answer, whose body is
+// read and thrown away. Redirects are not followed: the status counts as a
+// failure rather than sending the payload somewhere the webhook's owner did
+// not name.
+function postWebhook(url: string, headers: Record<string, string>, body: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const target = new URL(url);
+    // Node skips the lookup for IP addresses, so those are checked here
+    const hostname = target.hostname.replace(/^\[|\]$/g, "");
+    if (isIP(hostname)) {
+      checkAddress(hostname);
+    }
+    const client = target.protocol === "https:" ? https : http;
+    const request = client.request(target, {
+      method: "POST",
+      headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+      lookup: checkedLookup,
+    });
+    const timer = setTimeout(() => {
+      request.destroy(new Error(`No answer within ${REQUEST_TIMEOUT_MS / 1000} seconds`));
+    }, REQUEST_TIMEOUT_MS);
+    request.on("response", (response) => {
+      response.resume();
+      response.on("end", () => {
+        clearTimeout(timer);
+        resolve(response.statusCode ?? 0);
+      });
+      response.on("error", (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+    });
+    request.on("error", (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    request.end(body);
+  });
+}
+
+export class WebhookDispatcher {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  // Set when deliveries were queued during a tick, so they go out right
+  // after it instead of at the next interval
+  private rerun = false;
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.tick(), INTERVAL_MS);
+    void this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Queues the event for the project's webhooks and sends it right away.
+  // Like notifications, a failure is logged rather than failing the request
+  // that caused the event.
+  async dispatch(projectId: string, event: string, data: unknown): Promise<void> {
+    if (!isWebhookEvent(event)) return;
+    try {
+      const targets = await storage.getWebhooksForEvent(projectId, event);
+      if (targets.length === 0) return;
+      const payload = JSON.stringify({ event, projectId, occurredAt: new Date().toISOString(), data });
+      await storage.createWebhookDeliveries(
+        targets.map((webhook) => ({ webhookId: webhook.id, event, payload, redeliveryOfId: null })),
+      );
+      void this.tick();
+    } catch (error) {
+      console.error(error);
+    }
+  }
+
+  // Sends the same payload again as a new delivery
+  async redeliver(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    const [created] = await storage.createWebhookDeliveries([
+      { webhookId: delivery.webhookId, event: delivery.event, payload: delivery.payload, redeliveryOfId: delivery.id },
+    ]);
+    void this.tick();
+    return created;
+  }
+
+  async tick(now = new Date()): Promise<void> {
+    if (this.running) {
+      this.rerun = true;
+      return;
+    }
+    this.running = true;
+    try {
+      const due = await storage.claimDueWebhookDeliveries(now, new Date(now.getTime() + LEASE_MS), BATCH_SIZE);
+      await Promise.all(due.map((delivery) => this.attempt(delivery)));
+      await storage.deleteWebhookDeliveriesBefore(new Date(now.getTime() - RETENTION_MS));
+    } catch (error) {
+      console.error(error);
+    } finally {
+      this.running = false;
+    }
+    if (this.rerun) {
+      this.rerun = false;
+      void this.tick();
+    }
+  }
+
+  private async attempt(delivery: WebhookDelivery): Promise<void> {
+    const webhook = await storage.getWebhook(delivery.webhookId);
+    if (!webhook) return;
+
+    const attempts = delivery.attempts + 1;
+    const startedAt = new Date();
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+
+    if (!webhook.active) {
+      error = "The webhook is disabled";
+    } else {
+      try {
+        const timestamp = String(Math.floor(startedAt.getTime() / 1000));
+        responseStatus = await postWebhook(
+          webhook.url,
+          {
+            "Content-Type": "application/json",
+            "User-Agent": "TaskFlow-Webhooks",
+            "X-TaskFlow-Event": delivery.event,
+            "X-TaskFlow-Delivery": delivery.id,
+            "X-TaskFlow-Timestamp": timestamp,
+            "X-TaskFlow-Signature": signWebhookPayload(webhook.secret, timestamp, delivery.payload),
+          },
+          delivery.payload,
+        );
+        if (responseStatus < 200 || responseStatus >= 300) {
+          error = `The receiver answered with status ${responseStatus}`;
+        }
+      } catch (err) {
+        error = err instanceof Error ? err.message : String(err);
+      }
+    }
+
+    const retryDelayMs = webhook.active ? RETRY_DELAYS_MS[attempts - 1] : undefined;
+    const status = !error ? "succeeded" : retryDelayMs !== undefined ? "pending" : "failed";
+    await storage.updateWebhookDelivery(delivery.id, {
+      status,
+      attempts,
+      nextAttemptAt: status === "pending" ? new Date(Date.now() + retryDelayMs!) : null,
+      lastAttemptAt: startedAt,
+      responseStatus,
+      error,
+      durationMs: Date.now() - startedAt.getTime(),
+    });
+  }
+}
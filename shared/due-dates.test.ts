@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { isTaskDueSoon, isTaskOverdue } from "./due-dates";
+
+const now = new Date(2030, 5, 10, 15, 0);
+
+describe("due dates", () => {
+  it("counts a task overdue only once its due day has ended", () => {
+    expect(isTaskOverdue({ status: "todo", dueDate: new Date(2030, 5, 9, 23, 59) }, now)).toBe(true);
+    expect(isTaskOverdue({ status: "todo", dueDate: new Date(2030, 5, 10, 9, 0) }, now)).toBe(false);
+    expect(isTaskOverdue({ status: "completed", dueDate: new Date(2030, 5, 1) }, now)).toBe(false);
+    expect(isTaskOverdue({ status: "todo", dueDate: null }, now)).toBe(false);
+  });
+
+  it("counts a task due soon from today until DUE_SOON_HOURS ahead, ISO strings included", () => {
+    expect(isTaskDueSoon({ status: "todo", dueDate: new Date(2030, 5, 10, 9, 0) }, now)).toBe(true);
+    expect(isTaskDueSoon({ status: "review", dueDate: new Date(2030, 5, 11, 14, 0).toISOString() }, now)).toBe(true);
+    expect(isTaskDueSoon({ status: "todo", dueDate: new Date(2030, 5, 11, 16, 0) }, now)).toBe(false);
+    expect(isTaskDueSoon({ status: "todo", dueDate: new Date(2030, 5, 9) }, now)).toBe(false);
+  });
+});
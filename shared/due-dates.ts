@@ -0,0 +1,23 @@
+import { addHours, startOfDay } from "date-fns";
+import type { Task } from "./schema";
+
+// Due date rules shared by the server's due date scheduler and the client.
+// A task is overdue once the day it was due has ended, so a task due today is
+// never overdue; until then it is due soon from DUE_SOON_HOURS before its
+// due date. Completed tasks are neither.
+
+export const DUE_SOON_HOURS = 24;
+
+// The client receives dueDate as an ISO string
+type TaskDueState = Pick<Task, "status"> & { dueDate: Date | string | null };
+
+export function isTaskOverdue(task: TaskDueState, now = new Date()): boolean {
+  if (!task.dueDate || task.status === "completed") return false;
+  return new Date(task.dueDate) < startOfDay(now);
+}
+
+export function isTaskDueSoon(task: TaskDueState, now = new Date()): boolean {
+  if (!task.dueDate || task.status === "completed") return false;
+  const dueDate = new Date(task.dueDate);
+  return dueDate >= startOfDay(now) && dueDate <= addHours(now, DUE_SOON_HOURS);
+}
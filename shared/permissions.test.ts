@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { canCreateTask, canDeleteProject, canEditProject, canManageMembers, getTaskPermissions } from "./permissions";
+
+const task = { creatorId: "creator", assignedToId: "assignee" };
+
+describe("project permissions", () => {
+  it("gives owners everything and admins all but deletion", () => {
+    expect([canEditProject("owner"), canManageMembers("owner"), canDeleteProject("owner")]).toEqual([true, true, true]);
+    expect([canEditProject("admin"), canManageMembers("admin"), canDeleteProject("admin")]).toEqual([true, true, false]);
+    expect([canEditProject("member"), canManageMembers("member"), canDeleteProject("member")]).toEqual([false, false, false]);
+  });
+
+  it("lets everyone but viewers create tasks", () => {
+    expect(["owner", "admin", "member", "viewer"].map((role) => canCreateTask(role as "owner"))).toEqual([
+      true,
+      true,
+      true,
+      false,
+    ]);
+  });
+});
+
+describe("getTaskPermissions", () => {
+  it("lets admins change any task", () => {
+    expect(getTaskPermissions("admin", task, "someone")).toEqual({ canEdit: true, canChangeStatus: true, canDelete: true });
+  });
+
+  it("gives creators full control and assignees the status only", () => {
+    expect(getTaskPermissions("member", task, "creator")).toEqual({ canEdit: true, canChangeStatus: true, canDelete: true });
+    expect(getTaskPermissions("member", task, "assignee")).toEqual({ canEdit: false, canChangeStatus: true, canDelete: false });
+    expect(getTaskPermissions("member", task, "someone")).toEqual({ canEdit: false, canChangeStatus: false, canDelete: false });
+  });
+
+  it("keeps viewers read-only, even on their own tasks", () => {
+    expect(getTaskPermissions("viewer", task, "creator")).toEqual({ canEdit: false, canChangeStatus: false, canDelete: false });
+  });
+});
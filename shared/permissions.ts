@@ -0,0 +1,76 @@
+import type { ProjectRole, Task, TaskComment } from "./schema";
+
+// Authorization rules shared by the route handlers and the client UI.
+// Owners and admins manage everything in a project, creators fully control
+// their own tasks, assignees may only move a task through the workflow,
+// and viewers are read-only.
+
+export interface TaskPermissions {
+  canEdit: boolean;
+  canChangeStatus: boolean;
+  canDelete: boolean;
+}
+
+export interface CommentPermissions {
+  canEdit: boolean;
+  canDelete: boolean;
+}
+
+type TaskOwnership = Pick<Task, "creatorId" | "assignedToId">;
+
+export function isProjectAdmin(role: ProjectRole): boolean {
+  return role === "owner" || role === "admin";
+}
+
+export function canManageMembers(role: ProjectRole): boolean {
+  return isProjectAdmin(role);
+}
+
+export function canEditProject(role: ProjectRole): boolean {
+  return isProjectAdmin(role);
+}
+
+export function canManageWebhooks(role: ProjectRole): boolean {
+  return isProjectAdmin(role);
+}
+
+export function canDeleteProject(role: ProjectRole): boolean {
+  return role === "owner";
+}
+
+export function canCreateTask(role: ProjectRole): boolean {
+  return role !== "viewer";
+}
+
+export function getTaskPermissions(role: ProjectRole, task: TaskOwnership, userId: string): TaskPermissions {
+  if (isProjectAdmin(role)) {
+    return { canEdit: true, canChangeStatus: true, canDelete: true };
+  }
+  if (role === "viewer") {
+    return { canEdit: false, canChangeStatus: false, canDelete: false };
+  }
+  const isCreator = task.creatorId === userId;
+  const isAssignee = task.assignedToId === userId;
+  return {
+    canEdit: isCreator,
+    canChangeStatus: isCreator || isAssignee,
+    canDelete: isCreator,
+  };
+}
+
+export function canComment(role: ProjectRole): boolean {
+  return role !== "viewer";
+}
+
+// Only authors edit their comments; admins may also remove them
+export function getCommentPermissions(
+  role: ProjectRole,
+  comment: Pick<TaskComment, "authorId">,
+  userId: string,
+): CommentPermissions {
+  const isAuthor = comment.authorId === userId;
+  return {
+    canEdit: isAuthor,
+    canDelete: isAuthor || isProjectAdmin(role),
+  };
+}
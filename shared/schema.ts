@@ -1,11 +1,30 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, pgEnum, index } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, pgEnum, index, uniqueIndex, primaryKey, boolean, integer, doublePrecision } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
 // Enums for task priority and status
 export const priorityEnum = pgEnum("priority", ["low", "medium", "high", "urgent"]);
 export const statusEnum = pgEnum("status", ["todo", "in_progress", "review", "completed"]);
+export const projectRoleEnum = pgEnum("project_role", ["owner", "admin", "member", "viewer"]);
+export const notificationTypeEnum = pgEnum("notification_type", [
+  "assigned",
+  "comment",
+  "mention",
+  "due_soon",
+  "overdue",
+  "status_changed",
+]);
+export const taskReminderKindEnum = pgEnum("task_reminder_kind", ["due_soon", "overdue"]);
+export const authTokenPurposeEnum = pgEnum("auth_token_purpose", ["password_reset", "email_verification"]);
+export const apiTokenScopeEnum = pgEnum("api_token_scope", ["read", "read_write"]);
+export const webhookDeliveryStatusEnum = pgEnum("webhook_delivery_status", ["pending", "succeeded", "failed"]);
+export const authAuditEventEnum = pgEnum("auth_audit_event", [
+  "login_failed",
+  "rate_limited",
+  "account_locked",
+  "two_factor_failed",
+]);
 
 // Users table
 export const users = pgTable("users", {
@@ -14,12 +33,143 @@ export const users = pgTable("users", {
   email: text("email").notNull().unique(),
   password: text("password").notNull(),
   displayName: text("display_name"),
+  // Null until the user follows the link in the verification email
+  emailVerifiedAt: timestamp("email_verified_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Sessions table: one row per signed-in device. The refresh token rotates on
+// every use; only hashes of the current and the previous one are kept.
+export const sessions = pgTable("sessions", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id, { onDelete: "cascade" }),
+  refreshTokenHash: varchar("refresh_token_hash", { length: 64 }).notNull().unique(),
+  previousTokenHash: varchar("previous_token_hash", { length: 64 }),
+  userAgent: text("user_agent"),
+  ipAddress: varchar("ip_address", { length: 64 }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  // Last time the refresh token was rotated
+  lastUsedAt: timestamp("last_used_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+}, (table) => ({
+  userIdx: index("sessions_user_idx").on(table.userId),
+  previousTokenIdx: index("sessions_previous_token_idx").on(table.previousTokenHash),
+}));
+
+// User identities table: accounts at an external identity provider (single
+// sign-on) linked to a user, identified by the provider's issuer and subject
+export const userIdentities = pgTable("user_identities", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id, { onDelete: "cascade" }),
+  issuer: text("issuer").notNull(),
+  subject: text("subject").notNull(),
+  // Email the provider reported when the identity was linked
+  email: text("email"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  issuerSubjectIdx: uniqueIndex("user_identities_issuer_subject_idx").on(table.issuer, table.subject),
+  userIdx: index("user_identities_user_idx").on(table.userId),
+}));
+
+// Auth tokens table: single-use links sent by email for password resets and
+// email verification. Only the hash of the token is stored.
+export const authTokens = pgTable("auth_tokens", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id, { onDelete: "cascade" }),
+  purpose: authTokenPurposeEnum("purpose").notNull(),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userPurposeIdx: index("auth_tokens_user_purpose_idx").on(table.userId, table.purpose),
+}));
+
+// Two-factor auth table: the user's TOTP secret. The row exists from the
+// start of enrollment; enabledAt is set once a first code has been verified.
+export const twoFactorAuth = pgTable("two_factor_auth", {
+  userId: varchar("user_id", { length: 36 }).primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  secret: varchar("secret", { length: 64 }).notNull(),
+  enabledAt: timestamp("enabled_at"),
+  // Time step of the last accepted code, so a code cannot be used twice
+  lastUsedStep: integer("last_used_step"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Recovery codes table: one-time codes that stand in for a TOTP code,
+// stored hashed
+export const recoveryCodes = pgTable("recovery_codes", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id, { onDelete: "cascade" }),
+  codeHash: varchar("code_hash", { length: 64 }).notNull(),
+  usedAt: timestamp("used_at"),
+}, (table) => ({
+  userIdx: index("recovery_codes_user_idx").on(table.userId),
+}));
+
+// API tokens table: personal access tokens for scripts and integrations,
+// sent as a bearer token and stored hashed
+export const apiTokens = pgTable("api_tokens", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 100 }).notNull(),
+  scope: apiTokenScopeEnum("scope").notNull(),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+  // Last characters of the token, so the owner can tell tokens apart
+  tokenHint: varchar("token_hint", { length: 8 }).notNull(),
+  expiresAt: timestamp("expires_at"),
+  lastUsedAt: timestamp("last_used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userIdx: index("api_tokens_user_idx").on(table.userId),
+}));
+
+// Auth audit log: failed and throttled sign-in attempts. The email is kept as
+// typed, since attempts against unknown accounts have no user.
+export const authAuditLog = pgTable("auth_audit_log", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  event: authAuditEventEnum("event").notNull(),
+  // The route that was attempted, e.g. "login"
+  action: varchar("action", { length: 50 }).notNull(),
+  email: text("email"),
+  userId: varchar("user_id", { length: 36 }).references(() => users.id, { onDelete: "set null" }),
+  ipAddress: varchar("ip_address", { length: 64 }),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  emailIdx: index("auth_audit_log_email_idx").on(table.email),
+  ipAddressIdx: index("auth_audit_log_ip_address_idx").on(table.ipAddress),
+}));
+
+// Projects table
+export const projects = pgTable("projects", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name", { length: 100 }).notNull(),
+  description: text("description"),
+  ownerId: varchar("owner_id", { length: 36 }).notNull().references(() => users.id),
+  // When set, a task cannot be moved to "completed" while it has open subtasks
+  requireSubtasksComplete: boolean("require_subtasks_complete").default(false).notNull(),
+  // When set, a task cannot be moved to "in_progress" while any of its blockers is open
+  requireBlockersComplete: boolean("require_blockers_complete").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Project membership table
+export const projectMembers = pgTable("project_members", {
+  projectId: varchar("project_id", { length: 36 }).notNull().references(() => projects.id, { onDelete: "cascade" }),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id, { onDelete: "cascade" }),
+  role: projectRoleEnum("role").notNull().default("member"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.projectId, table.userId] }),
+  userIdx: index("project_members_user_idx").on(table.userId),
+}));
+
 // Tasks table
 export const tasks = pgTable("tasks", {
   id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id", { length: 36 }).notNull().references(() => projects.id, { onDelete: "cascade" }),
   title: varchar("title", { length: 100 }).notNull(),
   description: text("description"),
   dueDate: timestamp("due_date"),
@@ -27,9 +177,14 @@ export const tasks = pgTable("tasks", {
   status: statusEnum("status").notNull().default("todo"),
   creatorId: varchar("creator_id", { length: 36 }).notNull().references(() => users.id),
   assignedToId: varchar("assigned_to_id", { length: 36 }).references(() => users.id),
+  // Order within a board column; a moved card takes the midpoint of its new neighbours
+  position: doublePrecision("position").notNull().default(0),
+  // Bumped on every update; PATCH requests send the version they started from
+  version: integer("version").notNull().default(1),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => ({
+  projectIdx: index("tasks_project_idx").on(table.projectId),
   creatorIdx: index("tasks_creator_idx").on(table.creatorId),
   assignedIdx: index("tasks_assigned_idx").on(table.assignedToId),
   statusIdx: index("tasks_status_idx").on(table.status),
@@ -37,13 +192,215 @@ export const tasks = pgTable("tasks", {
   dueDateIdx: index("tasks_due_date_idx").on(table.dueDate),
 }));
 
+// Task comments table
+export const taskComments = pgTable("task_comments", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  taskId: varchar("task_id", { length: 36 }).notNull().references(() => tasks.id, { onDelete: "cascade" }),
+  authorId: varchar("author_id", { length: 36 }).notNull().references(() => users.id),
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  taskIdx: index("task_comments_task_idx").on(table.taskId),
+}));
+
+// Subtasks table: checklist items belonging to a task
+export const subtasks = pgTable("subtasks", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  taskId: varchar("task_id", { length: 36 }).notNull().references(() => tasks.id, { onDelete: "cascade" }),
+  title: varchar("title", { length: 200 }).notNull(),
+  isCompleted: boolean("is_completed").default(false).notNull(),
+  position: integer("position").default(0).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  taskIdx: index("subtasks_task_idx").on(table.taskId),
+}));
+
+// Task dependencies table: blockerId blocks blockedId
+export const taskDependencies = pgTable("task_dependencies", {
+  blockerId: varchar("blocker_id", { length: 36 }).notNull().references(() => tasks.id, { onDelete: "cascade" }),
+  blockedId: varchar("blocked_id", { length: 36 }).notNull().references(() => tasks.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.blockerId, table.blockedId] }),
+  blockedIdx: index("task_dependencies_blocked_idx").on(table.blockedId),
+}));
+
+// Task activity table: one row per changed field per update
+export const taskActivity = pgTable("task_activity", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  taskId: varchar("task_id", { length: 36 }).notNull().references(() => tasks.id, { onDelete: "cascade" }),
+  actorId: varchar("actor_id", { length: 36 }).notNull().references(() => users.id),
+  field: varchar("field", { length: 32 }).notNull(),
+  oldValue: text("old_value"),
+  newValue: text("new_value"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  taskIdx: index("task_activity_task_idx").on(table.taskId),
+}));
+
+// Notifications table: the in-app inbox of each user
+export const notifications = pgTable("notifications", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id, { onDelete: "cascade" }),
+  type: notificationTypeEnum("type").notNull(),
+  taskId: varchar("task_id", { length: 36 }).references(() => tasks.id, { onDelete: "cascade" }),
+  // The user whose action caused the notification; null for system notifications
+  actorId: varchar("actor_id", { length: 36 }).references(() => users.id, { onDelete: "cascade" }),
+  message: text("message").notNull(),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userIdx: index("notifications_user_idx").on(table.userId, table.createdAt),
+}));
+
+// Task reminders table: the due date each reminder was last sent for, so the
+// scheduler sends it once per due date, also across restarts
+export const taskReminders = pgTable("task_reminders", {
+  taskId: varchar("task_id", { length: 36 }).notNull().references(() => tasks.id, { onDelete: "cascade" }),
+  kind: taskReminderKindEnum("kind").notNull(),
+  dueDate: timestamp("due_date").notNull(),
+  sentAt: timestamp("sent_at").defaultNow().notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.taskId, table.kind] }),
+}));
+
+// Email preferences table: one row per user who changed the defaults
+export const emailPreferences = pgTable("email_preferences", {
+  userId: varchar("user_id", { length: 36 }).primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  assigned: boolean("assigned").default(true).notNull(),
+  dueSoon: boolean("due_soon").default(true).notNull(),
+  overdue: boolean("overdue").default(true).notNull(),
+  dailyDigest: boolean("daily_digest").default(false).notNull(),
+  lastDigestSentAt: timestamp("last_digest_sent_at"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Webhooks table: URLs a project posts its task events to
+export const webhooks = pgTable("webhooks", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id", { length: 36 }).notNull().references(() => projects.id, { onDelete: "cascade" }),
+  url: text("url").notNull(),
+  // Key for the HMAC signature of each payload; kept in plain text since
+  // every delivery needs it
+  secret: varchar("secret", { length: 64 }).notNull(),
+  // The webhookEventTypes this webhook receives
+  events: text("events").array().notNull(),
+  active: boolean("active").default(true).notNull(),
+  createdById: varchar("created_by_id", { length: 36 }).references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  projectIdx: index("webhooks_project_idx").on(table.projectId),
+}));
+
+// Webhook deliveries table: one row per event sent to a webhook, with the
+// outcome of its latest attempt. The payload is the exact body that is
+// signed and sent, so a redelivery sends the same bytes. Only the status of
+// the receiver's answer is kept, never its body.
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  webhookId: varchar("webhook_id", { length: 36 }).notNull().references(() => webhooks.id, { onDelete: "cascade" }),
+  event: varchar("event", { length: 50 }).notNull(),
+  payload: text("payload").notNull(),
+  status: webhookDeliveryStatusEnum("status").default("pending").notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  // When a pending delivery is tried next; null once it succeeded or failed
+  nextAttemptAt: timestamp("next_attempt_at"),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  responseStatus: integer("response_status"),
+  error: text("error"),
+  durationMs: integer("duration_ms"),
+  // The delivery this one was redelivered from
+  redeliveryOfId: varchar("redelivery_of_id", { length: 36 }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  webhookIdx: index("webhook_deliveries_webhook_idx").on(table.webhookId, table.createdAt),
+  dueIdx: index("webhook_deliveries_due_idx").on(table.status, table.nextAttemptAt),
+}));
+
 // Relations
+export const sessionsRelations = relations(sessions, ({ one }) => ({
+  user: one(users, {
+    fields: [sessions.userId],
+    references: [users.id],
+  }),
+}));
+
+export const userIdentitiesRelations = relations(userIdentities, ({ one }) => ({
+  user: one(users, {
+    fields: [userIdentities.userId],
+    references: [users.id],
+  }),
+}));
+
+export const authTokensRelations = relations(authTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [authTokens.userId],
+    references: [users.id],
+  }),
+}));
+
+export const twoFactorAuthRelations = relations(twoFactorAuth, ({ one }) => ({
+  user: one(users, {
+    fields: [twoFactorAuth.userId],
+    references: [users.id],
+  }),
+}));
+
+export const recoveryCodesRelations = relations(recoveryCodes, ({ one }) => ({
+  user: one(users, {
+    fields: [recoveryCodes.userId],
+    references: [users.id],
+  }),
+}));
+
+export const apiTokensRelations = relations(apiTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [apiTokens.userId],
+    references: [users.id],
+  }),
+}));
+
+export const authAuditLogRelations = relations(authAuditLog, ({ one }) => ({
+  user: one(users, {
+    fields: [authAuditLog.userId],
+    references: [users.id],
+  }),
+}));
+
 export const usersRelations = relations(users, ({ many }) => ({
   createdTasks: many(tasks, { relationName: "creator" }),
   assignedTasks: many(tasks, { relationName: "assignee" }),
+  projectMemberships: many(projectMembers),
+}));
+
+export const projectsRelations = relations(projects, ({ one, many }) => ({
+  owner: one(users, {
+    fields: [projects.ownerId],
+    references: [users.id],
+  }),
+  members: many(projectMembers),
+  tasks: many(tasks),
 }));
 
-export const tasksRelations = relations(tasks, ({ one }) => ({
+export const projectMembersRelations = relations(projectMembers, ({ one }) => ({
+  project: one(projects, {
+    fields: [projectMembers.projectId],
+    references: [projects.id],
+  }),
+  user: one(users, {
+    fields: [projectMembers.userId],
+    references: [users.id],
+  }),
+}));
+
+export const tasksRelations = relations(tasks, ({ one, many }) => ({
+  project: one(projects, {
+    fields: [tasks.projectId],
+    references: [projects.id],
+  }),
   creator: one(users, {
     fields: [tasks.creatorId],
     references: [users.id],
@@ -54,6 +411,101 @@ export const tasksRelations = relations(tasks, ({ one }) => ({
     references: [users.id],
     relationName: "assignee",
   }),
+  comments: many(taskComments),
+  subtasks: many(subtasks),
+  activity: many(taskActivity),
+  blocks: many(taskDependencies, { relationName: "blocker" }),
+  blockedBy: many(taskDependencies, { relationName: "blocked" }),
+}));
+
+export const taskDependenciesRelations = relations(taskDependencies, ({ one }) => ({
+  blocker: one(tasks, {
+    fields: [taskDependencies.blockerId],
+    references: [tasks.id],
+    relationName: "blocker",
+  }),
+  blocked: one(tasks, {
+    fields: [taskDependencies.blockedId],
+    references: [tasks.id],
+    relationName: "blocked",
+  }),
+}));
+
+export const subtasksRelations = relations(subtasks, ({ one }) => ({
+  task: one(tasks, {
+    fields: [subtasks.taskId],
+    references: [tasks.id],
+  }),
+}));
+
+export const taskActivityRelations = relations(taskActivity, ({ one }) => ({
+  task: one(tasks, {
+    fields: [taskActivity.taskId],
+    references: [tasks.id],
+  }),
+  actor: one(users, {
+    fields: [taskActivity.actorId],
+    references: [users.id],
+  }),
+}));
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  user: one(users, {
+    fields: [notifications.userId],
+    references: [users.id],
+  }),
+  task: one(tasks, {
+    fields: [notifications.taskId],
+    references: [tasks.id],
+  }),
+  actor: one(users, {
+    fields: [notifications.actorId],
+    references: [users.id],
+  }),
+}));
+
+export const webhooksRelations = relations(webhooks, ({ one, many }) => ({
+  project: one(projects, {
+    fields: [webhooks.projectId],
+    references: [projects.id],
+  }),
+  createdBy: one(users, {
+    fields: [webhooks.createdById],
+    references: [users.id],
+  }),
+  deliveries: many(webhookDeliveries),
+}));
+
+export const webhookDeliveriesRelations = relations(webhookDeliveries, ({ one }) => ({
+  webhook: one(webhooks, {
+    fields: [webhookDeliveries.webhookId],
+    references: [webhooks.id],
+  }),
+}));
+
+export const taskRemindersRelations = relations(taskReminders, ({ one }) => ({
+  task: one(tasks, {
+    fields: [taskReminders.taskId],
+    references: [tasks.id],
+  }),
+}));
+
+export const emailPreferencesRelations = relations(emailPreferences, ({ one }) => ({
+  user: one(users, {
+    fields: [emailPreferences.userId],
+    references: [users.id],
+  }),
+}));
+
+export const taskCommentsRelations = relations(taskComments, ({ one }) => ({
+  task: one(tasks, {
+    fields: [taskComments.taskId],
+    references: [tasks.id],
+  }),
+  author: one(users, {
+    fields: [taskComments.authorId],
+    references: [users.id],
+  }),
 }));
 
 // Zod schemas
@@ -69,39 +521,362 @@ export const loginSchema = z.object({
   password: z.string().min(1, "Password is required"),
 });
 
+const passwordSchema = z.string().min(6, "Password must be at least 6 characters");
+
 export const registerSchema = z.object({
   username: z.string().min(3, "Username must be at least 3 characters").max(30),
   email: z.string().email("Invalid email address"),
-  password: z.string().min(6, "Password must be at least 6 characters"),
+  password: passwordSchema,
   displayName: z.string().min(1, "Display name is required").max(50).optional(),
 });
 
+export const forgotPasswordSchema = z.object({
+  email: z.string().email("Invalid email address"),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, "Token is required"),
+  password: passwordSchema,
+});
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1, "Token is required"),
+});
+
+// A six-digit code from the authenticator app, or a recovery code
+const twoFactorCodeSchema = z.string().trim().min(1, "Code is required").max(20);
+
+export const twoFactorCodeBodySchema = z.object({
+  code: twoFactorCodeSchema,
+});
+
+export const loginTwoFactorSchema = z.object({
+  challengeToken: z.string().min(1, "Challenge is required"),
+  code: twoFactorCodeSchema,
+});
+
+export const disableTwoFactorSchema = z.object({
+  password: z.string().min(1, "Password is required"),
+  code: twoFactorCodeSchema,
+});
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  scope: z.enum(apiTokenScopeEnum.enumValues),
+  // Null for a token that never expires
+  expiresInDays: z.number().int().min(1).max(365).nullable().default(null),
+});
+
 export const insertTaskSchema = createInsertSchema(tasks).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
   creatorId: true,
+  position: true,
+  version: true,
 }).extend({
   title: z.string().min(1, "Title is required").max(100, "Title must be 100 characters or less"),
   dueDate: z.string().nullable().optional(),
 });
 
-export const updateTaskSchema = insertTaskSchema.partial();
+export const updateTaskSchema = insertTaskSchema.omit({ projectId: true }).extend({
+  position: z.number().finite(),
+  // Precondition: the update is rejected if the task has moved past this version
+  version: z.number().int(),
+}).partial();
+
+export const insertCommentSchema = z.object({
+  body: z.string().trim().min(1, "Comment cannot be empty").max(5000, "Comment must be 5000 characters or less"),
+});
+
+export const updateCommentSchema = insertCommentSchema;
+
+export const insertSubtaskSchema = z.object({
+  title: z.string().trim().min(1, "Subtask title is required").max(200, "Subtask title must be 200 characters or less"),
+});
+
+export const updateSubtaskSchema = insertSubtaskSchema.extend({
+  isCompleted: z.boolean(),
+  position: z.number().int().min(0),
+}).partial();
+
+export const addTaskDependencySchema = z.object({
+  blockerId: z.string().min(1, "Blocking task is required"),
+});
+
+// Query string accepted by GET /api/notifications
+export const notificationQuerySchema = z.object({
+  unread: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export const updateEmailPreferencesSchema = z.object({
+  assigned: z.boolean(),
+  dueSoon: z.boolean(),
+  overdue: z.boolean(),
+  dailyDigest: z.boolean(),
+}).partial();
+
+export const taskSortKeys = ["dueDate", "createdAt", "priority"] as const;
+
+// Query string accepted by GET /api/tasks
+export const taskQuerySchema = z.object({
+  projectId: z.string({ required_error: "projectId is required" }).min(1, "projectId is required"),
+  status: z.enum(statusEnum.enumValues).optional(),
+  priority: z.enum(priorityEnum.enumValues).optional(),
+  assignedToId: z.string().min(1).optional(),
+  creatorId: z.string().min(1).optional(),
+  dueFrom: z.coerce.date().optional(),
+  dueTo: z.coerce.date().optional(),
+  sort: z.enum(taskSortKeys).default("createdAt"),
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+});
+
+export const taskFileFormats = ["csv", "json"] as const;
+
+// Query string accepted by GET /api/tasks/export: the list filters, without paging
+export const taskExportQuerySchema = taskQuerySchema.omit({ cursor: true, limit: true }).extend({
+  format: z.enum(taskFileFormats).default("csv"),
+});
+
+export const taskImportSchema = z.object({
+  projectId: z.string().min(1, "projectId is required"),
+  format: z.enum(taskFileFormats),
+  content: z.string().min(1, "The file is empty"),
+  // Only validates the rows and returns the preview
+  dryRun: z.boolean().default(true),
+});
+
+export const insertProjectSchema = createInsertSchema(projects).pick({
+  name: true,
+  description: true,
+}).extend({
+  name: z.string().min(1, "Project name is required").max(100, "Project name must be 100 characters or less"),
+});
+
+export const updateProjectSchema = insertProjectSchema.extend({
+  requireSubtasksComplete: z.boolean(),
+  requireBlockersComplete: z.boolean(),
+}).partial();
+
+// The owner role is assigned when a project is created and cannot be granted
+const assignableRoleSchema = z.enum(["admin", "member", "viewer"]);
+
+// Members are added by exact email or username, so nobody can browse the
+// other accounts of the deployment
+export const addProjectMemberSchema = z.object({
+  emailOrUsername: z.string().trim().min(1, "Enter an email or username"),
+  role: assignableRoleSchema.default("member"),
+});
+
+export const updateProjectMemberSchema = z.object({
+  role: assignableRoleSchema,
+});
+
+// Task events a webhook can subscribe to; they share their names with the
+// socket events
+export const webhookEventTypes = ["task:created", "task:updated", "task:deleted", "task:assigned"] as const;
+
+const webhookUrlSchema = z
+  .string()
+  .trim()
+  .url("Enter a valid URL")
+  .refine((url) => /^https?:\/\//i.test(url), "The URL must start with http:// or https://");
+
+export const insertWebhookSchema = z.object({
+  url: webhookUrlSchema,
+  events: z.array(z.enum(webhookEventTypes)).min(1, "Choose at least one event"),
+  active: z.boolean().default(true),
+});
+
+export const updateWebhookSchema = insertWebhookSchema.partial();
 
 // Types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type UserPublic = Omit<User, "password">;
 
+export type Session = typeof sessions.$inferSelect;
+export type InsertSession = Pick<Session, "userId" | "refreshTokenHash" | "userAgent" | "ipAddress" | "expiresAt">;
+export type UserIdentity = typeof userIdentities.$inferSelect;
+export type InsertUserIdentity = Pick<UserIdentity, "userId" | "issuer" | "subject" | "email">;
+// The ways of signing in the server offers, for the login page
+export type AuthProviders = {
+  passwordLogin: boolean;
+  sso: { name: string } | null;
+};
+export type AuthToken = typeof authTokens.$inferSelect;
+export type AuthTokenPurpose = AuthToken["purpose"];
+export type InsertAuthToken = Pick<AuthToken, "userId" | "purpose" | "tokenHash" | "expiresAt">;
+export type TwoFactorAuth = typeof twoFactorAuth.$inferSelect;
+export type RecoveryCode = typeof recoveryCodes.$inferSelect;
+export type TwoFactorStatus = {
+  enabled: boolean;
+  enabledAt: Date | null;
+  recoveryCodesRemaining: number;
+};
+// Returned when enrollment starts; the QR code is a data URL of otpauthUri
+export type TwoFactorSetup = {
+  secret: string;
+  otpauthUri: string;
+  qrCode: string;
+};
+// What /api/auth/login answers when the password is right but the account
+// also needs a code
+export type TwoFactorChallenge = {
+  twoFactorRequired: true;
+  challengeToken: string;
+};
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type ApiTokenScope = ApiToken["scope"];
+export type InsertApiToken = Pick<ApiToken, "userId" | "name" | "scope" | "tokenHash" | "tokenHint" | "expiresAt">;
+export type CreateApiToken = z.infer<typeof createApiTokenSchema>;
+// An API token as listed to its owner, without the hash
+export type ApiTokenInfo = Omit<ApiToken, "userId" | "tokenHash">;
+// Answer to creating a token: the only time the token itself is shown
+export type CreatedApiToken = ApiTokenInfo & {
+  token: string;
+};
+export type AuthAuditEntry = typeof authAuditLog.$inferSelect;
+export type InsertAuthAuditEntry = Omit<AuthAuditEntry, "id" | "createdAt">;
+// A session as listed to its owner; current marks the one making the request
+export type SessionInfo = Pick<Session, "id" | "userAgent" | "ipAddress" | "createdAt" | "lastUsedAt" | "expiresAt"> & {
+  current: boolean;
+};
+
 export type InsertTask = z.infer<typeof insertTaskSchema>;
 export type UpdateTask = z.infer<typeof updateTaskSchema>;
+export type TaskQuery = z.infer<typeof taskQuerySchema>;
+export type TaskSortKey = (typeof taskSortKeys)[number];
+export type TaskFileFormat = (typeof taskFileFormats)[number];
+export type TaskExportQuery = z.infer<typeof taskExportQuerySchema>;
+export type TaskImport = z.input<typeof taskImportSchema>;
 export type Task = typeof tasks.$inferSelect;
 
+// Task fields whose changes are written to task_activity
+export const trackedTaskFields = ["title", "status", "priority", "assignedToId", "dueDate"] as const;
+export type TrackedTaskField = (typeof trackedTaskFields)[number];
+export type TaskActivity = typeof taskActivity.$inferSelect;
+
+export type InsertComment = z.infer<typeof insertCommentSchema>;
+export type TaskComment = typeof taskComments.$inferSelect;
+
+export type InsertSubtask = z.infer<typeof insertSubtaskSchema>;
+export type UpdateSubtask = z.infer<typeof updateSubtaskSchema>;
+export type Subtask = typeof subtasks.$inferSelect;
+
+export type TaskDependency = typeof taskDependencies.$inferSelect;
+
+export type NotificationType = (typeof notificationTypeEnum.enumValues)[number];
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = Pick<Notification, "userId" | "type" | "taskId" | "actorId" | "message">;
+export type NotificationQuery = z.infer<typeof notificationQuerySchema>;
+
+export type UpdateEmailPreferences = z.infer<typeof updateEmailPreferencesSchema>;
+export type EmailPreferences = Omit<typeof emailPreferences.$inferSelect, "lastDigestSentAt" | "updatedAt">;
+export type EmailPreferenceKey = keyof UpdateEmailPreferences;
+
+export type TaskReminderKind = (typeof taskReminderKindEnum.enumValues)[number];
+// An open task whose reminder of `kind` has not been sent for its due date
+export type DueTaskReminder = Pick<Task, "id" | "projectId" | "title" | "assignedToId" | "creatorId"> & {
+  dueDate: Date;
+  kind: TaskReminderKind;
+};
+
+export type WebhookEventType = (typeof webhookEventTypes)[number];
+export type Webhook = typeof webhooks.$inferSelect;
+export type InsertWebhook = z.infer<typeof insertWebhookSchema>;
+export type UpdateWebhook = z.infer<typeof updateWebhookSchema>;
+// A webhook as listed to project admins; the secret is only shown when the
+// webhook is created
+export type WebhookInfo = Omit<Webhook, "secret">;
+export type CreatedWebhook = WebhookInfo & {
+  secret: string;
+};
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type WebhookDeliveryStatus = WebhookDelivery["status"];
+export type InsertWebhookDelivery = Pick<WebhookDelivery, "webhookId" | "event" | "payload" | "redeliveryOfId">;
+
+export type InsertProject = z.infer<typeof insertProjectSchema>;
+export type UpdateProject = z.infer<typeof updateProjectSchema>;
+export type Project = typeof projects.$inferSelect;
+export type ProjectMember = typeof projectMembers.$inferSelect;
+export type ProjectRole = "owner" | "admin" | "member" | "viewer";
+
 export type Priority = "low" | "medium" | "high" | "urgent";
 export type Status = "todo" | "in_progress" | "review" | "completed";
 
+// Project as seen by one of its members
+export type ProjectWithRole = Project & {
+  role: ProjectRole;
+};
+
+export type ProjectMemberWithUser = UserPublic & {
+  role: ProjectRole;
+};
+
 // Task with relations
+export type SubtaskProgress = {
+  total: number;
+  completed: number;
+};
+
 export type TaskWithRelations = Task & {
   creator: UserPublic;
   assignedTo: UserPublic | null;
+  subtaskProgress: SubtaskProgress;
+  // Number of tasks blocking this one that are not completed yet
+  openBlockerCount: number;
+};
+
+export type TaskDependencies = {
+  blockedBy: Task[];
+  blocks: Task[];
+};
+
+export type CommentWithAuthor = TaskComment & {
+  author: UserPublic;
+};
+
+export type ActivityWithActor = TaskActivity & {
+  field: TrackedTaskField;
+  actor: UserPublic;
+};
+
+export type NotificationWithActor = Notification & {
+  actor: UserPublic | null;
+};
+
+// One page of a task query; nextCursor is null on the last page
+export type TaskPage = {
+  tasks: TaskWithRelations[];
+  nextCursor: string | null;
+};
+
+// A problem with one row of an import file; field is null when it concerns
+// the whole row
+export type TaskImportError = {
+  field: string | null;
+  message: string;
+};
+
+export type TaskImportRow = {
+  // The line in a CSV file (the header being row 1), or the position in a
+  // JSON array counting from 1
+  row: number;
+  // The task the row becomes; null when it has errors
+  task: InsertTask | null;
+  assignee: UserPublic | null;
+  errors: TaskImportError[];
+};
+
+// Answer to POST /api/tasks/import. Nothing is imported on a dry run or
+// when any row has errors.
+export type TaskImportResult = {
+  dryRun: boolean;
+  rows: TaskImportRow[];
+  // Columns of the file that do not map to a task field
+  ignoredColumns: string[];
+  imported: number;
 };
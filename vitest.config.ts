@@ -0,0 +1,25 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+// The server tests run the routes against the in-memory MemStorage, so they
+// need no database
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(import.meta.dirname, "client", "src"),
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts", "shared/**/*.test.ts"],
+    environment: "node",
+    // The routes log every error they answer; show that only for failures
+    silent: "passed-only",
+    env: {
+      NODE_ENV: "test",
+      STORAGE_DRIVER: "memory",
+      // Webhook receivers in the tests listen on 127.0.0.1
+      WEBHOOK_ALLOW_PRIVATE_NETWORKS: "true",
+    },
+  },
+});